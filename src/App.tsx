@@ -1,9 +1,11 @@
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { Auth } from './components/Auth';
 import { Dashboard } from './components/Dashboard';
+import { TwoFactorChallenge } from './components/TwoFactorChallenge';
+import { IdleLockScreen } from './components/IdleLockScreen';
 
 function AppContent() {
-  const { user, loading } = useAuth();
+  const { user, loading, mfaPending, idleLocked } = useAuth();
 
   if (loading) {
     return (
@@ -16,7 +18,11 @@ function AppContent() {
     );
   }
 
-  return user ? <Dashboard /> : <Auth />;
+  if (!user) return <Auth />;
+
+  if (mfaPending) return <TwoFactorChallenge />;
+
+  return idleLocked ? <IdleLockScreen /> : <Dashboard />;
 }
 
 function App() {
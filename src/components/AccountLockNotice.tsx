@@ -0,0 +1,99 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { sendUnlockEmail, unlockWithVerifiedEmail } from '../services/authService';
+import { Lock, Mail, AlertCircle, CheckCircle } from 'lucide-react';
+
+const UNLOCK_PARAM = 'unlock';
+
+export function AccountLockNotice() {
+  const { user, refreshUser } = useAuth();
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  const locked = user?.status === 'locked';
+
+  // Returning from the unlock email: the new session proves the address
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    if (!locked || url.searchParams.get(UNLOCK_PARAM) !== 'email') return;
+
+    url.searchParams.delete(UNLOCK_PARAM);
+    window.history.replaceState(null, '', url.toString());
+
+    unlockWithVerifiedEmail()
+      .then(() => refreshUser())
+      .catch((err: Error) => setError(err.message));
+  }, [locked]);
+
+  // Reload once the lock expires so the server can release it
+  useEffect(() => {
+    if (!locked || !user?.lockedUntil) return;
+
+    const delay = Math.max(new Date(user.lockedUntil).getTime() - Date.now(), 0) + 1000;
+    const timer = setTimeout(refreshUser, delay);
+    return () => clearTimeout(timer);
+  }, [locked, user?.lockedUntil]);
+
+  if (!user || !locked) return null;
+
+  const handleSendEmail = async () => {
+    setSending(true);
+    setError('');
+    setMessage('');
+
+    try {
+      await sendUnlockEmail(user.email);
+      setMessage(`We sent an unlock link to ${user.email}. Open it on this device to unlock your account.`);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
+      <div className="flex items-start gap-3">
+        <Lock className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+        <div className="flex-1">
+          <p className="font-medium text-red-400">Your account is locked</p>
+          <p className="text-sm text-slate-300 mt-1">
+            It was locked{user.lockedAt && ` on ${new Date(user.lockedAt).toLocaleString()}`} after
+            {' '}{user.lockReason ?? 'too many failed attempts'}, to stop someone guessing your PIN.
+            Payments and PIN-protected actions are blocked until it is unlocked.
+          </p>
+          {user.lockedUntil && (
+            <p className="text-sm text-slate-300 mt-1">
+              It unlocks automatically at {new Date(user.lockedUntil).toLocaleString()}, or you can unlock it now by
+              confirming your email address.
+            </p>
+          )}
+
+          {error && (
+            <p className="mt-2 text-sm text-red-400 flex items-center gap-1">
+              <AlertCircle className="w-4 h-4" />
+              {error}
+            </p>
+          )}
+
+          {message && (
+            <p className="mt-2 text-sm text-emerald-400 flex items-center gap-1">
+              <CheckCircle className="w-4 h-4" />
+              {message}
+            </p>
+          )}
+
+          <button
+            onClick={handleSendEmail}
+            disabled={sending}
+            className="mt-3 flex items-center gap-2 px-4 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Mail className="w-4 h-4" />
+            {sending ? 'Sending...' : 'Email me an unlock link'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
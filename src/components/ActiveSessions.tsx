@@ -0,0 +1,115 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getActiveSessions, revokeSession, signOutEverywhere, ActiveSession } from '../services/sessionService';
+import { describeUserAgent } from '../lib/userAgent';
+import { Monitor, LogOut, AlertCircle } from 'lucide-react';
+
+export function ActiveSessions() {
+  const { user } = useAuth();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    loadSessions();
+  }, [user]);
+
+  const loadSessions = async () => {
+    if (!user) return;
+
+    try {
+      setSessions(await getActiveSessions());
+    } catch (err) {
+      console.error('Failed to load sessions:', err);
+    }
+  };
+
+  const handleRevoke = async (sessionId: string) => {
+    setBusyId(sessionId);
+    setError('');
+
+    try {
+      await revokeSession(sessionId);
+      await loadSessions();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    if (!confirm('Sign out of every device, including this one?')) return;
+
+    setBusyId('all');
+    setError('');
+
+    try {
+      await signOutEverywhere();
+    } catch (err) {
+      setError((err as Error).message);
+      setBusyId(null);
+    }
+  };
+
+  if (!user || sessions.length === 0) return null;
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-3">
+        <div className="flex items-center gap-3">
+          <Monitor className="w-5 h-5 text-emerald-400" />
+          <div>
+            <p className="font-medium text-white">Active sessions</p>
+            <p className="text-xs text-slate-400">Devices where your account is signed in</p>
+          </div>
+        </div>
+        <button
+          onClick={handleSignOutEverywhere}
+          disabled={busyId !== null}
+          className="px-3 py-1 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-xs font-medium transition-colors disabled:opacity-50"
+        >
+          Sign out everywhere
+        </button>
+      </div>
+
+      <div className="space-y-2">
+        {sessions.map((session) => {
+          const { browser, platform } = describeUserAgent(session.userAgent);
+
+          return (
+            <div key={session.id} className="flex items-center justify-between gap-3 p-3 bg-slate-800 rounded-lg">
+              <div>
+                <p className="text-sm text-white">
+                  {browser} on {platform}
+                  {session.current && <span className="ml-2 text-xs text-emerald-400">This device</span>}
+                </p>
+                <p className="text-xs text-slate-400">
+                  {session.ipAddress ?? 'Unknown IP'} · Last seen {new Date(session.lastSeenAt).toLocaleString()}
+                  {' '}· Signed in {new Date(session.createdAt).toLocaleDateString()}
+                </p>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={busyId !== null}
+                  className="flex items-center gap-1 px-3 py-1 bg-slate-600 hover:bg-slate-500 text-slate-300 rounded text-xs font-medium transition-colors disabled:opacity-50"
+                >
+                  <LogOut className="w-3 h-3" />
+                  Sign out
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {error && (
+        <p className="mt-3 text-xs text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { signUp, signIn } from '../services/authService';
+import { signUp, signIn, AuthThrottledError } from '../services/authService';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
 import { Shield, Lock, Mail } from 'lucide-react';
 
 export function Auth() {
@@ -9,6 +10,7 @@ export function Auth() {
   const [pin, setPin] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const { secondsLeft, startCountdown } = useRetryCountdown();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -17,14 +19,14 @@ export function Auth() {
 
     try {
       if (isSignUp) {
-        if (!pin || pin.length < 4) {
-          throw new Error('PIN must be at least 4 digits');
-        }
         await signUp(email, password, pin);
       } else {
         await signIn(email, password);
       }
     } catch (err) {
+      if (err instanceof AuthThrottledError) {
+        startCountdown(err.retryAfter);
+      }
       setError((err as Error).message);
     } finally {
       setLoading(false);
@@ -114,6 +116,9 @@ export function Auth() {
                   minLength={4}
                   maxLength={6}
                 />
+                <p className="mt-1 text-xs text-slate-400">
+                  Avoid repeated digits, sequences like 1234, patterns like 1212 and years.
+                </p>
               </div>
             )}
 
@@ -125,10 +130,16 @@ export function Auth() {
 
             <button
               type="submit"
-              disabled={loading}
+              disabled={loading || (!isSignUp && secondsLeft > 0)}
               className="w-full py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {loading ? 'Processing...' : isSignUp ? 'Create Account' : 'Sign In'}
+              {loading
+                ? 'Processing...'
+                : isSignUp
+                  ? 'Create Account'
+                  : secondsLeft > 0
+                    ? `Try again in ${secondsLeft}s`
+                    : 'Sign In'}
             </button>
           </form>
 
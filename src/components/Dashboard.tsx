@@ -5,14 +5,28 @@ import { NFCPayment } from './NFCPayment';
 import { TransactionHistory } from './TransactionHistory';
 import { SecurityDashboard } from './SecurityDashboard';
 import { DeviceManagement } from './DeviceManagement';
-import { Shield, CreditCard, History, Smartphone, LogOut } from 'lucide-react';
+import { MerchantTags } from './MerchantTags';
+import { SpendingLimits } from './SpendingLimits';
+import { AccountLockNotice } from './AccountLockNotice';
+import { NFCSimulatorPanel } from './NFCSimulatorPanel';
+import { getNFCBackend } from '../lib/nfcAdapter';
+import { getOperatedMerchants } from '../services/merchantService';
+import { Shield, CreditCard, History, Smartphone, LogOut, Nfc, Gauge } from 'lucide-react';
 
-type TabType = 'payment' | 'history' | 'security' | 'devices';
+type TabType = 'payment' | 'history' | 'limits' | 'security' | 'devices' | 'merchant';
 
 export function Dashboard() {
   const { user } = useAuth();
   const [activeTab, setActiveTab] = useState<TabType>('payment');
   const [loading, setLoading] = useState(false);
+  const [isMerchantOperator, setIsMerchantOperator] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+    getOperatedMerchants(user.id)
+      .then(merchants => setIsMerchantOperator(merchants.length > 0))
+      .catch(error => console.error('Failed to load merchants:', error));
+  }, [user]);
 
   const handleSignOut = async () => {
     setLoading(true);
@@ -28,8 +42,10 @@ export function Dashboard() {
   const tabs = [
     { id: 'payment' as TabType, label: 'NFC Payment', icon: CreditCard },
     { id: 'history' as TabType, label: 'History', icon: History },
+    { id: 'limits' as TabType, label: 'Limits', icon: Gauge },
     { id: 'security' as TabType, label: 'Security', icon: Shield },
     { id: 'devices' as TabType, label: 'Devices', icon: Smartphone },
+    ...(isMerchantOperator ? [{ id: 'merchant' as TabType, label: 'Merchant Tags', icon: Nfc }] : []),
   ];
 
   return (
@@ -60,6 +76,8 @@ export function Dashboard() {
       </header>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <AccountLockNotice />
+
         <div className="mb-6">
           <div className="flex gap-2 overflow-x-auto">
             {tabs.map((tab) => (
@@ -82,9 +100,13 @@ export function Dashboard() {
         <div className="bg-slate-800 rounded-2xl shadow-xl border border-slate-700 p-6">
           {activeTab === 'payment' && <NFCPayment />}
           {activeTab === 'history' && <TransactionHistory />}
+          {activeTab === 'limits' && <SpendingLimits />}
           {activeTab === 'security' && <SecurityDashboard />}
           {activeTab === 'devices' && <DeviceManagement />}
+          {activeTab === 'merchant' && <MerchantTags />}
         </div>
+
+        {getNFCBackend() === 'simulated' && <NFCSimulatorPanel />}
       </div>
     </div>
   );
@@ -0,0 +1,281 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  renameDevice,
+  deactivateDevice,
+  reactivateDevice,
+  reportDevice,
+  removeDevice,
+  isCoolingOff,
+  DeviceReportStatus,
+  NFCDevice,
+} from '../services/nfcService';
+import { confirmPin } from '../services/authService';
+import { formatMoney } from '../lib/currency';
+import { DeviceControlsForm } from './DeviceControlsForm';
+import { Smartphone, Power, Clock, Hourglass, Pencil, Trash2, ShieldAlert, AlertCircle, SlidersHorizontal } from 'lucide-react';
+
+type CardMode = 'view' | 'renaming' | 'reactivating' | 'reporting' | 'controls';
+
+interface DeviceCardProps {
+  device: NFCDevice;
+  onChanged: () => Promise<void>;
+}
+
+export function DeviceCard({ device, onChanged }: DeviceCardProps) {
+  const { user } = useAuth();
+  const [mode, setMode] = useState<CardMode>('view');
+  const [name, setName] = useState(device.deviceName);
+  const [pin, setPin] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const stolen = device.reportedStatus === 'stolen';
+  const baseCurrency = user?.baseCurrency || 'USD';
+
+  const closeForm = () => {
+    setMode('view');
+    setName(device.deviceName);
+    setPin('');
+    setError('');
+  };
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError('');
+
+    try {
+      await action();
+      closeForm();
+      await onChanged();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRename = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(() => renameDevice(device.id, name.trim()));
+  };
+
+  const handleReactivate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    run(async () => {
+      await reactivateDevice(device.id, await confirmPin(pin, 'reactivate_device'));
+    });
+  };
+
+  const handleDeactivate = () => {
+    if (!confirm('Are you sure you want to deactivate this device?')) return;
+    run(() => deactivateDevice(device.id));
+  };
+
+  const handleReport = (status: DeviceReportStatus) => {
+    if (status === 'stolen'
+      && !confirm('Reporting a device stolen blocks it permanently, for every account. It can never be reactivated or paired again. Continue?')) {
+      return;
+    }
+    run(() => reportDevice(device.id, status));
+  };
+
+  const handleRemove = () => {
+    const note = stolen ? ' It stays blocked because it was reported stolen.' : '';
+    if (!confirm(`Remove ${device.deviceName} from your account?${note}`)) return;
+    run(() => removeDevice(device.id));
+  };
+
+  const getStatusBadge = () => {
+    if (stolen) return { label: 'Stolen', className: 'text-red-400 bg-red-500/10' };
+    if (device.reportedStatus === 'lost') return { label: 'Lost', className: 'text-orange-400 bg-orange-500/10' };
+    if (device.isActive) return { label: 'Active', className: 'text-emerald-400 bg-emerald-500/10' };
+    return { label: 'Inactive', className: 'text-slate-400 bg-slate-600' };
+  };
+
+  const describeControls = () => {
+    const { controls } = device;
+    const parts: string[] = [];
+
+    if (controls.perTransactionLimit !== null) parts.push(`${formatMoney(controls.perTransactionLimit, baseCurrency)} / payment`);
+    if (controls.dailyLimit !== null) parts.push(`${formatMoney(controls.dailyLimit, baseCurrency)} / day`);
+    if (controls.monthlyLimit !== null) parts.push(`${formatMoney(controls.monthlyLimit, baseCurrency)} / month`);
+    if (controls.allowedCategories) parts.push(`only MCC ${controls.allowedCategories.join(', ')}`);
+    if (controls.blockedCategories.length > 0) parts.push(`no MCC ${controls.blockedCategories.join(', ')}`);
+    if (controls.activeHoursStart) parts.push(`${controls.activeHoursStart}–${controls.activeHoursEnd}`);
+
+    return parts.join(' · ');
+  };
+
+  const badge = getStatusBadge();
+  const controlsSummary = describeControls();
+  const actionClass = 'flex items-center gap-1 px-3 py-1 rounded text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-4 hover:bg-slate-700 transition-colors">
+      <div className="flex items-start justify-between mb-3">
+        <div className="flex items-start gap-3">
+          <div className={`p-2 rounded-lg ${device.isActive ? 'bg-emerald-500/20' : 'bg-slate-600'}`}>
+            <Smartphone className={`w-5 h-5 ${device.isActive ? 'text-emerald-400' : 'text-slate-400'}`} />
+          </div>
+          <div>
+            <h3 className="font-medium text-white">{device.deviceName}</h3>
+            <p className="text-xs text-slate-400 mt-1">UID: {device.deviceUid}</p>
+            {device.isActive && isCoolingOff(device) && device.coolingOffLimit !== null && (
+              <p className="text-xs text-yellow-400 mt-1 flex items-center gap-1">
+                <Hourglass className="w-3 h-3" />
+                Limited to {formatMoney(device.coolingOffLimit, baseCurrency)} until {new Date(device.coolingOffUntil!).toLocaleString()}
+              </p>
+            )}
+            {controlsSummary && !stolen && (
+              <p className="text-xs text-slate-300 mt-1 flex items-center gap-1">
+                <SlidersHorizontal className="w-3 h-3" />
+                {controlsSummary}
+              </p>
+            )}
+            {stolen && (
+              <p className="text-xs text-red-400 mt-1 flex items-center gap-1">
+                <ShieldAlert className="w-3 h-3" />
+                Blocked everywhere
+                {device.stolenTapAttempts > 0
+                  ? ` · tapped ${device.stolenTapAttempts} time(s) since reported, last ${new Date(device.lastStolenTapAt!).toLocaleString()}`
+                  : ' · not tapped since reported'}
+              </p>
+            )}
+          </div>
+        </div>
+        <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${badge.className}`}>
+          {badge.label}
+        </span>
+      </div>
+
+      {mode === 'renaming' && (
+        <form onSubmit={handleRename} className="flex gap-2 mb-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="flex-1 min-w-0 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            aria-label="Device name"
+            required
+            maxLength={50}
+          />
+          <button type="submit" disabled={busy} className={`${actionClass} bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400`}>
+            Save
+          </button>
+          <button type="button" onClick={closeForm} className={`${actionClass} bg-slate-600 hover:bg-slate-500 text-slate-300`}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {mode === 'controls' && (
+        <DeviceControlsForm
+          device={device}
+          baseCurrency={baseCurrency}
+          onSaved={async () => {
+            closeForm();
+            await onChanged();
+          }}
+          onCancel={closeForm}
+        />
+      )}
+
+      {mode === 'reactivating' && (
+        <form onSubmit={handleReactivate} className="flex gap-2 mb-3">
+          <input
+            type="password"
+            value={pin}
+            onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            className="flex-1 min-w-0 px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+            placeholder="Transaction PIN"
+            aria-label="Transaction PIN"
+            required
+            minLength={4}
+            maxLength={6}
+          />
+          <button type="submit" disabled={busy} className={`${actionClass} bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400`}>
+            Reactivate
+          </button>
+          <button type="button" onClick={closeForm} className={`${actionClass} bg-slate-600 hover:bg-slate-500 text-slate-300`}>
+            Cancel
+          </button>
+        </form>
+      )}
+
+      {mode === 'reporting' && (
+        <div className="flex flex-wrap items-center gap-2 mb-3">
+          <span className="text-xs text-slate-300">Report this device as</span>
+          <button onClick={() => handleReport('lost')} disabled={busy} className={`${actionClass} bg-orange-500/20 hover:bg-orange-500/30 text-orange-400`}>
+            Lost
+          </button>
+          <button onClick={() => handleReport('stolen')} disabled={busy} className={`${actionClass} bg-red-500/20 hover:bg-red-500/30 text-red-400`}>
+            Stolen
+          </button>
+          <button onClick={closeForm} className={`${actionClass} bg-slate-600 hover:bg-slate-500 text-slate-300`}>
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {error && (
+        <p className="mb-3 text-xs text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-2 pt-3 border-t border-slate-600">
+        <div className="flex items-center gap-2 text-xs text-slate-400">
+          <Clock className="w-3 h-3" />
+          <span>
+            Last used: {device.lastUsed
+              ? new Date(device.lastUsed).toLocaleString()
+              : 'Never'}
+          </span>
+        </div>
+
+        {mode === 'view' && (
+          <div className="flex flex-wrap gap-2">
+            {!stolen && (
+              <button onClick={() => setMode('renaming')} className={`${actionClass} bg-slate-600 hover:bg-slate-500 text-slate-300`}>
+                <Pencil className="w-3 h-3" />
+                Rename
+              </button>
+            )}
+            {!stolen && (
+              <button onClick={() => setMode('controls')} className={`${actionClass} bg-slate-600 hover:bg-slate-500 text-slate-300`}>
+                <SlidersHorizontal className="w-3 h-3" />
+                Controls
+              </button>
+            )}
+            {device.isActive && (
+              <button onClick={handleDeactivate} disabled={busy} className={`${actionClass} bg-red-500/20 hover:bg-red-500/30 text-red-400`}>
+                <Power className="w-3 h-3" />
+                Deactivate
+              </button>
+            )}
+            {!device.isActive && !stolen && (
+              <button onClick={() => setMode('reactivating')} className={`${actionClass} bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400`}>
+                <Power className="w-3 h-3" />
+                Reactivate
+              </button>
+            )}
+            {!stolen && (
+              <button onClick={() => setMode('reporting')} className={`${actionClass} bg-orange-500/20 hover:bg-orange-500/30 text-orange-400`}>
+                <ShieldAlert className="w-3 h-3" />
+                Report lost/stolen
+              </button>
+            )}
+            <button onClick={handleRemove} disabled={busy} className={`${actionClass} bg-slate-600 hover:bg-slate-500 text-slate-300`}>
+              <Trash2 className="w-3 h-3" />
+              Remove
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from 'react';
+import { setDeviceControls, NFCDevice } from '../services/nfcService';
+import { AlertCircle } from 'lucide-react';
+
+interface DeviceControlsFormProps {
+  device: NFCDevice;
+  baseCurrency: string;
+  onSaved: () => Promise<void>;
+  onCancel: () => void;
+}
+
+const parseLimit = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+const parseCategories = (value: string) => value.split(/[\s,]+/).filter(Boolean);
+
+export function DeviceControlsForm({ device, baseCurrency, onSaved, onCancel }: DeviceControlsFormProps) {
+  const { controls } = device;
+  const [perTransactionLimit, setPerTransactionLimit] = useState(controls.perTransactionLimit?.toString() ?? '');
+  const [dailyLimit, setDailyLimit] = useState(controls.dailyLimit?.toString() ?? '');
+  const [monthlyLimit, setMonthlyLimit] = useState(controls.monthlyLimit?.toString() ?? '');
+  const [allowedCategories, setAllowedCategories] = useState(controls.allowedCategories?.join(', ') ?? '');
+  const [blockedCategories, setBlockedCategories] = useState(controls.blockedCategories.join(', '));
+  const [restrictHours, setRestrictHours] = useState(controls.activeHoursStart !== null);
+  const [activeHoursStart, setActiveHoursStart] = useState(controls.activeHoursStart ?? '07:00');
+  const [activeHoursEnd, setActiveHoursEnd] = useState(controls.activeHoursEnd ?? '21:00');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Hours keep the zone they were set in; new windows use this browser's zone
+  const timezone = controls.activeHoursTimezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      const allowed = parseCategories(allowedCategories);
+
+      await setDeviceControls(device.id, {
+        perTransactionLimit: parseLimit(perTransactionLimit),
+        dailyLimit: parseLimit(dailyLimit),
+        monthlyLimit: parseLimit(monthlyLimit),
+        allowedCategories: allowed.length > 0 ? allowed : null,
+        blockedCategories: parseCategories(blockedCategories),
+        activeHoursStart: restrictHours ? activeHoursStart : null,
+        activeHoursEnd: restrictHours ? activeHoursEnd : null,
+        activeHoursTimezone: restrictHours ? timezone : null,
+      });
+      await onSaved();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+  const limitFields = [
+    { label: 'Per payment', value: perTransactionLimit, onChange: setPerTransactionLimit },
+    { label: 'Per day', value: dailyLimit, onChange: setDailyLimit },
+    { label: 'Per month', value: monthlyLimit, onChange: setMonthlyLimit },
+  ];
+
+  return (
+    <form onSubmit={handleSubmit} className="mb-3 p-3 bg-slate-800/50 rounded-lg space-y-3">
+      <div>
+        <p className="text-xs font-medium text-slate-300 mb-2">Spending limits ({baseCurrency})</p>
+        <div className="grid grid-cols-3 gap-2">
+          {limitFields.map((field) => (
+            <label key={field.label} className="text-xs text-slate-400">
+              {field.label}
+              <input
+                type="number"
+                step="0.01"
+                min="0.01"
+                value={field.value}
+                onChange={(e) => field.onChange(e.target.value)}
+                className={`${inputClass} mt-1`}
+                placeholder="No limit"
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-400">
+          Only allow categories
+          <input
+            type="text"
+            value={allowedCategories}
+            onChange={(e) => setAllowedCategories(e.target.value)}
+            className={`${inputClass} mt-1 font-mono`}
+            placeholder="All, e.g. 4111, 5411"
+          />
+        </label>
+        <label className="text-xs text-slate-400">
+          Block categories
+          <input
+            type="text"
+            value={blockedCategories}
+            onChange={(e) => setBlockedCategories(e.target.value)}
+            className={`${inputClass} mt-1 font-mono`}
+            placeholder="None, e.g. 7995"
+          />
+        </label>
+      </div>
+
+      <div>
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={restrictHours}
+            onChange={(e) => setRestrictHours(e.target.checked)}
+            className="w-4 h-4 rounded border-slate-500 bg-slate-700 text-emerald-500 focus:ring-emerald-500"
+          />
+          Only allow payments between
+        </label>
+        {restrictHours && (
+          <div className="flex items-center gap-2 mt-2">
+            <input
+              type="time"
+              value={activeHoursStart}
+              onChange={(e) => setActiveHoursStart(e.target.value)}
+              className={inputClass}
+              aria-label="Active hours start"
+              required
+            />
+            <span className="text-xs text-slate-400">and</span>
+            <input
+              type="time"
+              value={activeHoursEnd}
+              onChange={(e) => setActiveHoursEnd(e.target.value)}
+              className={inputClass}
+              aria-label="Active hours end"
+              required
+            />
+            <span className="text-xs text-slate-400 whitespace-nowrap">{timezone}</span>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <p className="text-xs text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={saving}
+          className="flex-1 py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {saving ? 'Saving...' : 'Save controls'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm font-medium rounded-lg transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </form>
+  );
+}
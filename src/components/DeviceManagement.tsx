@@ -1,17 +1,50 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { getUserDevices, deactivateDevice, NFCDevice } from '../services/nfcService';
-import { Smartphone, Power, Clock } from 'lucide-react';
+import {
+  checkNFCSupport,
+  getUserDevices,
+  pairNFCDevice,
+  readDeviceTag,
+  NFCDevice,
+} from '../services/nfcService';
+import { confirmPin } from '../services/authService';
+import { NFCScanState } from '../lib/nfcSession';
+import { DeviceCard } from './DeviceCard';
+import { Smartphone, Plus, Lock, Hourglass, AlertCircle, CheckCircle } from 'lucide-react';
+
+const COOLING_OFF_OPTIONS = [
+  { hours: 0, label: 'No cooling-off period' },
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+];
 
 export function DeviceManagement() {
   const { user } = useAuth();
   const [devices, setDevices] = useState<NFCDevice[]>([]);
   const [loading, setLoading] = useState(true);
+  const [nfcSupported, setNfcSupported] = useState(false);
+  const [pairing, setPairing] = useState(false);
+  const [deviceName, setDeviceName] = useState('');
+  const [coolingOffHours, setCoolingOffHours] = useState(24);
+  const [coolingOffLimit, setCoolingOffLimit] = useState('50');
+  const [pin, setPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [scanState, setScanState] = useState<NFCScanState>('idle');
+  const scanController = useRef<AbortController | null>(null);
+  const [message, setMessage] = useState('');
+  const [messageType, setMessageType] = useState<'success' | 'error' | ''>('');
 
   useEffect(() => {
     loadDevices();
   }, [user]);
 
+  useEffect(() => {
+    checkNFCSupport().then(setNfcSupported);
+
+    return () => scanController.current?.abort();
+  }, []);
+
   const loadDevices = async () => {
     if (!user) return;
 
@@ -26,32 +59,196 @@ export function DeviceManagement() {
     }
   };
 
-  const handleDeactivate = async (deviceId: string) => {
+  const resetPairing = () => {
+    scanController.current?.abort();
+    setPairing(false);
+    setDeviceName('');
+    setCoolingOffHours(24);
+    setCoolingOffLimit('50');
+    setPin('');
+  };
+
+  // The tag is read last so a Secure Unique NFC authentication is still fresh
+  // when the server consumes it
+  const handlePair = async (e: React.FormEvent) => {
+    e.preventDefault();
     if (!user) return;
-    if (!confirm('Are you sure you want to deactivate this device?')) return;
+
+    scanController.current?.abort();
+    const controller = new AbortController();
+    scanController.current = controller;
+    setSaving(true);
+    setMessage('');
+    setMessageType('');
 
     try {
-      await deactivateDevice(deviceId, user.id);
+      const pinToken = await confirmPin(pin, 'pair_device');
+
+      setMessage('Tap the device you want to pair now...');
+      const { deviceUid, tagAuthenticationId } = await readDeviceTag({
+        signal: controller.signal,
+        onStateChange: setScanState,
+      });
+
+      const device = await pairNFCDevice({
+        deviceUid,
+        deviceName: deviceName.trim(),
+        tagAuthenticationId,
+        coolingOffHours,
+        coolingOffLimit: coolingOffHours > 0 ? parseFloat(coolingOffLimit) : null,
+        pinToken,
+      });
+
+      setMessageType('success');
+      setMessage(`✓ ${device.deviceName} paired`);
+      resetPairing();
       await loadDevices();
     } catch (error) {
-      console.error('Failed to deactivate device:', error);
-      alert('Failed to deactivate device');
+      setMessageType(controller.signal.aborted ? '' : 'error');
+      setMessage(controller.signal.aborted ? '' : (error as Error).message);
+    } finally {
+      setSaving(false);
     }
   };
 
   return (
     <div>
-      <div className="flex items-center gap-3 mb-6">
-        <Smartphone className="w-6 h-6 text-emerald-500" />
-        <h2 className="text-2xl font-bold text-white">Device Management</h2>
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center gap-3">
+          <Smartphone className="w-6 h-6 text-emerald-500" />
+          <h2 className="text-2xl font-bold text-white">Device Management</h2>
+        </div>
+        {!pairing && (
+          <button
+            onClick={() => setPairing(true)}
+            className="flex items-center gap-2 px-3 py-2 bg-emerald-500 hover:bg-emerald-600 text-white rounded-lg text-sm font-medium transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            Pair device
+          </button>
+        )}
       </div>
 
       <div className="mb-6 p-4 bg-blue-500/10 border border-blue-500/50 rounded-lg">
         <p className="text-sm text-blue-400">
-          Devices are automatically registered when you make your first NFC payment. You can deactivate devices at any time for security.
+          Only paired devices can make payments. Taps from any other card, ring or phone are rejected and recorded in your security log. Report a device lost or stolen as soon as it goes missing; stolen devices are blocked for good.
         </p>
       </div>
 
+      {pairing && (
+        <form onSubmit={handlePair} className="mb-6 p-4 bg-slate-700/50 rounded-lg space-y-4">
+          {!nfcSupported && (
+            <div className="p-3 bg-yellow-500/10 border border-yellow-500/50 rounded-lg flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 text-yellow-500 flex-shrink-0 mt-0.5" />
+              <p className="text-yellow-400/80 text-xs">
+                Pairing requires Web NFC. Use Chrome on Android.
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              Device name
+            </label>
+            <input
+              type="text"
+              value={deviceName}
+              onChange={(e) => setDeviceName(e.target.value)}
+              className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              placeholder="e.g. Blue key fob"
+              required
+              maxLength={50}
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              <Hourglass className="w-4 h-4 inline mr-2" />
+              Cooling-off period
+            </label>
+            <div className="flex gap-2">
+              <select
+                value={coolingOffHours}
+                onChange={(e) => setCoolingOffHours(Number(e.target.value))}
+                className="flex-1 px-3 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              >
+                {COOLING_OFF_OPTIONS.map((option) => (
+                  <option key={option.hours} value={option.hours}>{option.label}</option>
+                ))}
+              </select>
+              {coolingOffHours > 0 && (
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={coolingOffLimit}
+                  onChange={(e) => setCoolingOffLimit(e.target.value)}
+                  className="w-32 px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                  aria-label="Cooling-off payment limit"
+                  required
+                />
+              )}
+            </div>
+            <p className="mt-1 text-xs text-slate-400">
+              {coolingOffHours > 0
+                ? `Payments above this amount (${user?.baseCurrency || 'USD'}) are refused until the period ends.`
+                : 'The device can make any payment as soon as it is paired.'}
+            </p>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-slate-300 mb-2">
+              <Lock className="w-4 h-4 inline mr-2" />
+              Transaction PIN
+            </label>
+            <input
+              type="password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+              className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              placeholder="••••"
+              required
+              minLength={4}
+              maxLength={6}
+            />
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || !nfcSupported}
+              className="flex-1 py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {scanState === 'scanning' ? 'Waiting for device...' : saving ? 'Pairing...' : 'Tap device to pair'}
+            </button>
+            <button
+              type="button"
+              onClick={resetPairing}
+              className="px-4 py-3 bg-slate-700 hover:bg-slate-600 text-white font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {message && (
+        <div className={`mb-6 p-4 rounded-lg border flex items-start gap-3 ${
+          messageType === 'success'
+            ? 'bg-emerald-500/10 border-emerald-500/50'
+            : 'bg-red-500/10 border-red-500/50'
+        }`}>
+          {messageType === 'success' ? (
+            <CheckCircle className="w-5 h-5 text-emerald-500 flex-shrink-0 mt-0.5" />
+          ) : (
+            <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+          )}
+          <p className={messageType === 'success' ? 'text-emerald-400' : 'text-red-400'}>
+            {message}
+          </p>
+        </div>
+      )}
+
       {loading ? (
         <div className="text-center py-8">
           <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
@@ -60,56 +257,13 @@ export function DeviceManagement() {
       ) : devices.length === 0 ? (
         <div className="text-center py-12">
           <Smartphone className="w-12 h-12 text-slate-600 mx-auto mb-4" />
-          <p className="text-slate-400">No devices registered yet</p>
-          <p className="text-sm text-slate-500 mt-2">Make your first NFC payment to register a device</p>
+          <p className="text-slate-400">No devices paired yet</p>
+          <p className="text-sm text-slate-500 mt-2">Pair a device to start making NFC payments</p>
         </div>
       ) : (
         <div className="space-y-3">
           {devices.map((device) => (
-            <div
-              key={device.id}
-              className="bg-slate-700/50 rounded-lg p-4 hover:bg-slate-700 transition-colors"
-            >
-              <div className="flex items-start justify-between mb-3">
-                <div className="flex items-start gap-3">
-                  <div className={`p-2 rounded-lg ${device.isActive ? 'bg-emerald-500/20' : 'bg-slate-600'}`}>
-                    <Smartphone className={`w-5 h-5 ${device.isActive ? 'text-emerald-400' : 'text-slate-400'}`} />
-                  </div>
-                  <div>
-                    <h3 className="font-medium text-white">{device.deviceName}</h3>
-                    <p className="text-xs text-slate-400 mt-1">UID: {device.deviceUid}</p>
-                  </div>
-                </div>
-                <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${
-                  device.isActive
-                    ? 'text-emerald-400 bg-emerald-500/10'
-                    : 'text-slate-400 bg-slate-600'
-                }`}>
-                  {device.isActive ? 'Active' : 'Inactive'}
-                </span>
-              </div>
-
-              <div className="flex items-center justify-between pt-3 border-t border-slate-600">
-                <div className="flex items-center gap-2 text-xs text-slate-400">
-                  <Clock className="w-3 h-3" />
-                  <span>
-                    Last used: {device.lastUsed
-                      ? new Date(device.lastUsed).toLocaleString()
-                      : 'Never'}
-                  </span>
-                </div>
-
-                {device.isActive && (
-                  <button
-                    onClick={() => handleDeactivate(device.id)}
-                    className="flex items-center gap-2 px-3 py-1 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-xs font-medium transition-colors"
-                  >
-                    <Power className="w-3 h-3" />
-                    Deactivate
-                  </button>
-                )}
-              </div>
-            </div>
+            <DeviceCard key={device.id} device={device} onChanged={loadDevices} />
           ))}
         </div>
       )}
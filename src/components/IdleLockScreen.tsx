@@ -0,0 +1,92 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { signOut, AuthThrottledError } from '../services/authService';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
+import { IDLE_TIMEOUT_MS } from '../lib/idleLock';
+import { Lock, AlertCircle } from 'lucide-react';
+
+// Covers the app after a period without input until the PIN is entered again
+export function IdleLockScreen() {
+  const { user, unlockIdle } = useAuth();
+  const [pin, setPin] = useState('');
+  const [unlocking, setUnlocking] = useState(false);
+  const [error, setError] = useState('');
+  const { secondsLeft, startCountdown } = useRetryCountdown();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setUnlocking(true);
+    setError('');
+
+    try {
+      if (!await unlockIdle(pin)) {
+        throw new Error('Invalid PIN');
+      }
+    } catch (err) {
+      if (err instanceof AuthThrottledError) {
+        startCountdown(err.retryAfter);
+      }
+      setError((err as Error).message);
+      setPin('');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-emerald-500 rounded-full mb-4">
+            <Lock className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-white mb-2">Locked</h1>
+          <p className="text-slate-400">Locked after {IDLE_TIMEOUT_MS / 60000} minutes without activity</p>
+        </div>
+
+        <div className="bg-slate-800 rounded-2xl shadow-2xl p-8 border border-slate-700">
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-slate-300 mb-2">
+                Enter the transaction PIN for {user?.email}
+              </label>
+              <input
+                type="password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500 focus:border-transparent"
+                placeholder="••••"
+                minLength={4}
+                maxLength={6}
+                autoFocus
+                required
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/50 rounded-lg text-red-400 text-sm flex items-center gap-2">
+                <AlertCircle className="w-4 h-4 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+
+            <button
+              type="submit"
+              disabled={unlocking || secondsLeft > 0 || pin.length < 4}
+              className="w-full py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {unlocking ? 'Unlocking...' : secondsLeft > 0 ? `Try again in ${secondsLeft}s` : 'Unlock'}
+            </button>
+          </form>
+
+          <button
+            onClick={() => signOut()}
+            className="w-full mt-4 py-2 text-sm text-slate-400 hover:text-slate-300 transition-colors"
+          >
+            Sign out instead
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
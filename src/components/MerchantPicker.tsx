@@ -0,0 +1,116 @@
+import { useState, useEffect } from 'react';
+import { searchMerchants, Merchant } from '../services/merchantService';
+import { Store, BadgeCheck, AlertTriangle, X } from 'lucide-react';
+
+interface MerchantPickerProps {
+  value: Merchant | null;
+  onChange: (merchant: Merchant | null) => void;
+  disabled?: boolean;
+}
+
+export function MerchantPicker({ value, onChange, disabled }: MerchantPickerProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<Merchant[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (value) return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await searchMerchants(query));
+      } catch (error) {
+        console.error('Failed to search merchants:', error);
+      }
+    }, 250);
+
+    return () => clearTimeout(timer);
+  }, [query, value]);
+
+  const handleSelect = (merchant: Merchant) => {
+    onChange(merchant);
+    setQuery('');
+    setOpen(false);
+  };
+
+  if (value) {
+    return (
+      <div className="flex items-center justify-between px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg">
+        <div className="flex items-center gap-3 min-w-0">
+          <Store className="w-5 h-5 text-emerald-400 flex-shrink-0" />
+          <div className="min-w-0">
+            <p className="flex items-center gap-2 text-white font-medium truncate">
+              {value.name}
+              {value.verificationStatus === 'verified' ? (
+                <BadgeCheck className="w-4 h-4 text-emerald-400 flex-shrink-0" aria-label="Verified merchant" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 text-yellow-400 flex-shrink-0" aria-label="Unverified merchant" />
+              )}
+            </p>
+            <p className="text-xs text-slate-400">
+              MCC {value.categoryCode}
+              {value.city && ` · ${value.city}`}
+              {value.country && `, ${value.country}`}
+              {value.verificationStatus !== 'verified' && ' · Unverified'}
+            </p>
+          </div>
+        </div>
+        {!disabled && (
+          <button
+            type="button"
+            onClick={() => onChange(null)}
+            className="p-1 text-slate-400 hover:text-white transition-colors"
+            aria-label="Change merchant"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        disabled={disabled}
+        className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        placeholder="Search merchants, e.g., Coffee"
+      />
+      {open && (
+        <div className="absolute z-10 mt-1 w-full bg-slate-800 border border-slate-600 rounded-lg shadow-xl max-h-64 overflow-y-auto">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-400">No merchants found</p>
+          ) : (
+            results.map((merchant) => (
+              <button
+                key={merchant.id}
+                type="button"
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => handleSelect(merchant)}
+                className="w-full flex items-center justify-between px-4 py-2 text-left hover:bg-slate-700 transition-colors"
+              >
+                <span>
+                  <span className="block text-sm text-white">{merchant.name}</span>
+                  <span className="block text-xs text-slate-400">
+                    MCC {merchant.categoryCode}{merchant.city && ` · ${merchant.city}`}
+                  </span>
+                </span>
+                {merchant.verificationStatus === 'verified' && (
+                  <BadgeCheck className="w-4 h-4 text-emerald-400" />
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
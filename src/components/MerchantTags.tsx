@@ -0,0 +1,371 @@
+import { useState, useEffect, useRef } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getOperatedMerchants,
+  getMerchantTags,
+  createMerchantTag,
+  activateMerchantTag,
+  revokeMerchantTag,
+  verifyPaymentRequest,
+  Merchant,
+  MerchantTag,
+} from '../services/merchantService';
+import { checkNFCSupport, writePaymentRequestTag } from '../services/nfcService';
+import { getCurrencies, Currency } from '../services/currencyService';
+import { formatMoney, amountStep } from '../lib/currency';
+import { findPaymentRequest } from '../lib/ndef';
+import { NFCScanSession, startContinuousScan } from '../lib/nfcSession';
+import { Nfc, AlertCircle, CheckCircle, Lock, Ban, ScanLine } from 'lucide-react';
+
+interface TagCheck {
+  id: number;
+  tagUid: string;
+  result: string;
+  valid: boolean;
+}
+
+// Idle time after which tag checking stops by itself
+const CHECK_IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+export function MerchantTags() {
+  const { user } = useAuth();
+  const [nfcSupported, setNfcSupported] = useState(false);
+  const [merchants, setMerchants] = useState<Merchant[]>([]);
+  const [merchantId, setMerchantId] = useState('');
+  const [tags, setTags] = useState<MerchantTag[]>([]);
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState(user?.baseCurrency || 'USD');
+  const [readOnly, setReadOnly] = useState(false);
+  const [writing, setWriting] = useState(false);
+  const [message, setMessage] = useState('');
+  const [messageType, setMessageType] = useState<'success' | 'error' | ''>('');
+  const [checks, setChecks] = useState<TagCheck[]>([]);
+  const [checking, setChecking] = useState(false);
+  const writeController = useRef<AbortController | null>(null);
+  const checkSession = useRef<NFCScanSession | null>(null);
+
+  useEffect(() => {
+    checkNFCSupport().then(setNfcSupported);
+    loadMerchants();
+    getCurrencies().then(setCurrencies).catch(error => {
+      console.error('Failed to load currencies:', error);
+    });
+  }, [user]);
+
+  useEffect(() => {
+    loadTags();
+  }, [merchantId]);
+
+  useEffect(() => () => {
+    writeController.current?.abort();
+    checkSession.current?.cancel();
+  }, []);
+
+  const loadMerchants = async () => {
+    if (!user) return;
+
+    try {
+      const data = await getOperatedMerchants(user.id);
+      setMerchants(data);
+      if (data.length > 0) setMerchantId(data[0].id);
+    } catch (error) {
+      console.error('Failed to load merchants:', error);
+    }
+  };
+
+  const loadTags = async () => {
+    if (!merchantId) return;
+
+    try {
+      setTags(await getMerchantTags(merchantId));
+    } catch (error) {
+      console.error('Failed to load tags:', error);
+    }
+  };
+
+  const handleProvision = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!merchantId) return;
+
+    if (readOnly && !confirm('Read-only tags can never be rewritten. Continue?')) return;
+
+    const controller = new AbortController();
+    writeController.current = controller;
+    setWriting(true);
+    setMessage('');
+    setMessageType('');
+
+    try {
+      const request = await createMerchantTag(merchantId, amount ? parseFloat(amount) : null, currency);
+
+      setMessage('Hold a blank tag against your device and keep it there until writing completes...');
+      const tagUid = await writePaymentRequestTag(request, readOnly, { signal: controller.signal });
+
+      await activateMerchantTag(request.nonce, tagUid, readOnly);
+
+      setMessageType('success');
+      setMessage(`✓ Tag ${tagUid} provisioned`);
+      setAmount('');
+      await loadTags();
+    } catch (error) {
+      setMessageType(controller.signal.aborted ? '' : 'error');
+      setMessage(controller.signal.aborted ? '' : (error as Error).message);
+    } finally {
+      writeController.current = null;
+      setWriting(false);
+    }
+  };
+
+  // Terminal mode: keeps the reader open and checks every tag tapped against
+  // the registry until stopped
+  const handleStartChecking = () => {
+    let nextId = 0;
+
+    const addCheck = (check: Omit<TagCheck, 'id'>) => {
+      const id = nextId++;
+      setChecks(prev => [{ ...check, id }, ...prev].slice(0, 10));
+    };
+
+    setChecks([]);
+    setChecking(true);
+    checkSession.current = startContinuousScan(
+      {
+        timeoutMs: CHECK_IDLE_TIMEOUT_MS,
+        onReading: async ({ serialNumber, records }) => {
+          try {
+            const request = findPaymentRequest(records);
+            if (!request) {
+              addCheck({ tagUid: serialNumber, result: 'No payment request', valid: false });
+              return;
+            }
+
+            const valid = await verifyPaymentRequest(request, serialNumber);
+            addCheck({
+              tagUid: serialNumber,
+              result: valid
+                ? request.amount === null ? `Valid · open amount` : `Valid · ${formatMoney(request.amount, request.currency)}`
+                : 'Rejected: not registered or altered',
+              valid,
+            });
+          } catch (error) {
+            addCheck({ tagUid: serialNumber, result: (error as Error).message, valid: false });
+          }
+        },
+        onReadError: (error) => {
+          addCheck({ tagUid: '—', result: error.message, valid: false });
+        },
+      },
+      () => {
+        checkSession.current = null;
+        setChecking(false);
+      }
+    );
+  };
+
+  const handleStopChecking = () => {
+    checkSession.current?.cancel();
+  };
+
+  const handleRevoke = async (tagId: string) => {
+    if (!confirm('Revoke this tag? Customers will no longer be able to pay with it.')) return;
+
+    try {
+      await revokeMerchantTag(tagId);
+      await loadTags();
+    } catch (error) {
+      console.error('Failed to revoke tag:', error);
+      alert('Failed to revoke tag');
+    }
+  };
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case 'active': return 'text-emerald-400 bg-emerald-500/10';
+      case 'revoked': return 'text-red-400 bg-red-500/10';
+      default: return 'text-slate-400 bg-slate-600';
+    }
+  };
+
+  const selectedCurrency = currencies.find(c => c.code === currency);
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-6">
+        <Nfc className="w-6 h-6 text-emerald-500" />
+        <h2 className="text-2xl font-bold text-white">Merchant Tags</h2>
+      </div>
+
+      {!nfcSupported && (
+        <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/50 rounded-lg flex items-start gap-3">
+          <AlertCircle className="w-5 h-5 text-yellow-500 flex-shrink-0 mt-0.5" />
+          <p className="text-yellow-400/80 text-sm">
+            Writing tags requires Web NFC. Use Chrome on Android.
+          </p>
+        </div>
+      )}
+
+      <form onSubmit={handleProvision} className="space-y-4 mb-8">
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Merchant
+          </label>
+          <select
+            value={merchantId}
+            onChange={(e) => setMerchantId(e.target.value)}
+            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          >
+            {merchants.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-slate-300 mb-2">
+            Amount
+          </label>
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step={amountStep(selectedCurrency?.minorUnits ?? 2)}
+              min={amountStep(selectedCurrency?.minorUnits ?? 2)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="flex-1 min-w-0 px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              placeholder="Open amount"
+            />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              className="px-3 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              aria-label="Currency"
+            >
+              {(currencies.length > 0 ? currencies : [{ code: currency, name: currency }]).map((c) => (
+                <option key={c.code} value={c.code}>{c.code}</option>
+              ))}
+            </select>
+          </div>
+          <p className="mt-1 text-xs text-slate-400">
+            Leave empty to let customers enter the amount.
+          </p>
+        </div>
+
+        <label className="flex items-start gap-3 p-3 bg-slate-700/50 rounded-lg cursor-pointer">
+          <input
+            type="checkbox"
+            checked={readOnly}
+            onChange={(e) => setReadOnly(e.target.checked)}
+            className="mt-1 accent-emerald-500"
+          />
+          <span>
+            <span className="flex items-center gap-2 text-sm font-medium text-slate-300">
+              <Lock className="w-4 h-4" />
+              Make tag read-only
+            </span>
+            <span className="block text-xs text-slate-400 mt-1">
+              Prevents the tag from being overwritten. This is permanent.
+            </span>
+          </span>
+        </label>
+
+        {message && (
+          <div className={`p-4 rounded-lg border flex items-start gap-3 ${
+            messageType === 'success'
+              ? 'bg-emerald-500/10 border-emerald-500/50'
+              : 'bg-red-500/10 border-red-500/50'
+          }`}>
+            {messageType === 'success' ? (
+              <CheckCircle className="w-5 h-5 text-emerald-500 flex-shrink-0 mt-0.5" />
+            ) : (
+              <AlertCircle className="w-5 h-5 text-red-500 flex-shrink-0 mt-0.5" />
+            )}
+            <p className={messageType === 'success' ? 'text-emerald-400' : 'text-red-400'}>
+              {message}
+            </p>
+          </div>
+        )}
+
+        <button
+          type="submit"
+          disabled={writing || !nfcSupported || !merchantId}
+          className="w-full py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {writing ? 'Writing tag...' : 'Write Payment Tag'}
+        </button>
+
+        {writing && (
+          <button
+            type="button"
+            onClick={() => writeController.current?.abort()}
+            className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-white font-medium rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </form>
+
+      <div className="mb-8">
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="text-sm font-medium text-slate-300">Check Tags</h3>
+          <button
+            onClick={checking ? handleStopChecking : handleStartChecking}
+            disabled={!nfcSupported || writing}
+            className="flex items-center gap-2 px-3 py-1 bg-slate-700 hover:bg-slate-600 text-white rounded text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ScanLine className="w-3 h-3" />
+            {checking ? 'Stop' : 'Start checking'}
+          </button>
+        </div>
+        {checking && (
+          <p className="text-xs text-slate-400 mb-2">Tap tags one after another to check them.</p>
+        )}
+        {checks.length > 0 && (
+          <div className="space-y-2">
+            {checks.map((check) => (
+              <div key={check.id} className="flex items-center justify-between bg-slate-700/50 rounded-lg px-3 py-2 text-xs">
+                <span className="text-slate-400 font-mono">{check.tagUid}</span>
+                <span className={check.valid ? 'text-emerald-400' : 'text-red-400'}>{check.result}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <h3 className="text-sm font-medium text-slate-300 mb-3">Provisioned Tags</h3>
+      {tags.length === 0 ? (
+        <p className="text-sm text-slate-500">No tags provisioned for this merchant yet</p>
+      ) : (
+        <div className="space-y-3">
+          {tags.map((tag) => (
+            <div key={tag.id} className="bg-slate-700/50 rounded-lg p-4 flex items-start justify-between">
+              <div>
+                <h4 className="font-medium text-white">
+                  {tag.amount === null ? `Open amount (${tag.currency})` : formatMoney(tag.amount, tag.currency)}
+                </h4>
+                <p className="text-xs text-slate-400 mt-1">
+                  UID: {tag.tagUid} · {tag.isReadOnly ? 'Read-only' : 'Writable'}
+                  {tag.activatedAt && ` · ${new Date(tag.activatedAt).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${getStatusColor(tag.status)}`}>
+                  {tag.status}
+                </span>
+                {tag.status === 'active' && (
+                  <button
+                    onClick={() => handleRevoke(tag.id)}
+                    className="flex items-center gap-1 px-3 py-1 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-xs font-medium transition-colors"
+                  >
+                    <Ban className="w-3 h-3" />
+                    Revoke
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,25 +1,62 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { checkNFCSupport, readNFCTag, getUserDevices, registerNFCDevice } from '../services/nfcService';
-import { processTransaction } from '../services/transactionService';
-import { verifyPin } from '../services/authService';
-import { Smartphone, AlertCircle, CheckCircle, Lock } from 'lucide-react';
+import {
+  checkNFCSupport,
+  readDeviceTag,
+  readPaymentRequest,
+  getUserDevices,
+  resolvePaymentDevice,
+  NFCDevice,
+  ScannedPaymentRequest,
+} from '../services/nfcService';
+import { processTransaction, resolvePendingTransaction, Transaction } from '../services/transactionService';
+import { confirmPin, AuthThrottledError } from '../services/authService';
+import { recordSecurityEvent, setSecurityEventContext } from '../services/securityService';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
+import { getMfaSettings, isStepUpRequired } from '../services/mfaService';
+import { getCurrencies, convertAmount, Currency } from '../services/currencyService';
+import { formatMoney, amountStep } from '../lib/currency';
+import { getMerchant, verifyPaymentRequest, Merchant } from '../services/merchantService';
+import { MerchantPicker } from './MerchantPicker';
+import { TwoFactorPrompt } from './TwoFactorPrompt';
+import { getCurrentPosition, hasLocationConsent, setLocationConsent } from '../lib/geolocation';
+import { isPaymentRequestExpired } from '../lib/ndef';
+import { setNFCBackend } from '../lib/nfcAdapter';
+import { NFCScanOptions, NFCScanState } from '../lib/nfcSession';
+import { Smartphone, AlertCircle, CheckCircle, Lock, MapPin, Nfc, X } from 'lucide-react';
+
+// A payment waiting for an authenticator code: either one to retry or one held for review
+interface StepUp {
+  heldTransactionId: string | null;
+}
 
 export function NFCPayment() {
   const { user } = useAuth();
   const [nfcSupported, setNfcSupported] = useState(false);
   const [amount, setAmount] = useState('');
-  const [merchantName, setMerchantName] = useState('');
+  const [currency, setCurrency] = useState(user?.baseCurrency || 'USD');
+  const [currencies, setCurrencies] = useState<Currency[]>([]);
+  const [merchant, setMerchant] = useState<Merchant | null>(null);
+  const [paymentRequest, setPaymentRequest] = useState<ScannedPaymentRequest | null>(null);
   const [pin, setPin] = useState('');
   const [loading, setLoading] = useState(false);
-  const [scanning, setScanning] = useState(false);
+  const [scanState, setScanState] = useState<NFCScanState>('idle');
+  const scanController = useRef<AbortController | null>(null);
   const [message, setMessage] = useState('');
   const [messageType, setMessageType] = useState<'success' | 'error' | ''>('');
-  const [devices, setDevices] = useState<any[]>([]);
+  const [devices, setDevices] = useState<NFCDevice[]>([]);
+  const [shareLocation, setShareLocation] = useState(hasLocationConsent());
+  const { secondsLeft: pinRetrySeconds, startCountdown } = useRetryCountdown();
+  const [mfaEnabled, setMfaEnabled] = useState(false);
+  const [stepUp, setStepUp] = useState<StepUp | null>(null);
 
   useEffect(() => {
     checkNFC();
     loadDevices();
+    loadCurrencies();
+    loadMfaSettings();
+
+    return () => scanController.current?.abort();
   }, []);
 
   const checkNFC = async () => {
@@ -37,65 +74,208 @@ export function NFCPayment() {
     }
   };
 
+  const loadCurrencies = async () => {
+    try {
+      setCurrencies(await getCurrencies());
+    } catch (error) {
+      console.error('Failed to load currencies:', error);
+    }
+  };
+
+  const loadMfaSettings = async () => {
+    try {
+      setMfaEnabled((await getMfaSettings()).enabled);
+    } catch (error) {
+      console.error('Failed to load two-factor settings:', error);
+    }
+  };
+
+  const handleShareLocationChange = (granted: boolean) => {
+    setShareLocation(granted);
+    setLocationConsent(granted);
+  };
+
+  const handleUseSimulator = () => {
+    setNFCBackend('simulated');
+    window.location.reload();
+  };
+
+  // One scan at a time; the Cancel button aborts whichever is running
+  const beginScan = (): NFCScanOptions & { signal: AbortSignal } => {
+    scanController.current?.abort();
+    const controller = new AbortController();
+    scanController.current = controller;
+    return { signal: controller.signal, onStateChange: setScanState };
+  };
+
+  const handleCancelScan = () => {
+    scanController.current?.abort();
+  };
+
+  const clearPaymentRequest = () => {
+    setPaymentRequest(null);
+    setMerchant(null);
+    setAmount('');
+  };
+
+  const handleScanRequest = async () => {
+    const scan = beginScan();
+    setMessage('Tap the merchant\'s payment tag now...');
+    setMessageType('');
+
+    try {
+      const scanned = await readPaymentRequest(scan);
+      const { request } = scanned;
+
+      if (!await verifyPaymentRequest(request, scanned.tagUid)) {
+        throw new Error('This payment tag is not registered with the merchant or has been altered');
+      }
+
+      const requestMerchant = await getMerchant(request.merchantId);
+      if (!requestMerchant) {
+        throw new Error('Payment request is for an unknown or suspended merchant');
+      }
+
+      const requestCurrency = currencies.find(c => c.code === request.currency);
+      if (!requestCurrency) {
+        throw new Error(`Payment request currency ${request.currency} is not supported`);
+      }
+
+      if (request.amount !== null
+        && Number(request.amount.toFixed(requestCurrency.minorUnits)) !== request.amount) {
+        throw new Error(`Malformed payment request: too many decimal places for ${request.currency}`);
+      }
+
+      setPaymentRequest(scanned);
+      setMerchant(requestMerchant);
+      setCurrency(request.currency);
+      setAmount(request.amount !== null ? request.amount.toFixed(requestCurrency.minorUnits) : '');
+      setMessage('');
+    } catch (error) {
+      if (scan.signal.aborted) {
+        setMessage('');
+        return;
+      }
+      setMessageType('error');
+      setMessage((error as Error).message);
+    }
+  };
+
   const handlePayment = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
+    if (!merchant) {
+      setMessageType('error');
+      setMessage('Select a merchant');
+      return;
+    }
+    if (paymentRequest && isPaymentRequestExpired(paymentRequest.request)) {
+      clearPaymentRequest();
+      setMessageType('error');
+      setMessage('Payment request expired. Tap the merchant tag again.');
+      return;
+    }
 
+    const scan = beginScan();
     setLoading(true);
     setMessage('');
     setMessageType('');
+    setStepUp(null);
+    setSecurityEventContext({ deviceId: null, transactionId: null });
 
     try {
-      const pinValid = await verifyPin(user.id, pin);
-      if (!pinValid) {
-        throw new Error('Invalid PIN');
-      }
+      const pinToken = await confirmPin(pin, 'payment');
 
-      setScanning(true);
-      setMessage('Tap your NFC device now...');
+      const geolocation = shareLocation ? await getCurrentPosition() : null;
 
-      const deviceUid = await readNFCTag();
-      setScanning(false);
+      setMessage('Tap your NFC device now...');
 
-      let device = devices.find(d => d.deviceUid === deviceUid);
+      const { deviceUid, tagAuthenticationId } = await readDeviceTag(scan);
+      setMessage('');
 
-      if (!device) {
-        const deviceName = `Device ${devices.length + 1}`;
-        device = await registerNFCDevice(user.id, deviceUid, deviceName);
-        setDevices([...devices, device]);
+      const deviceId = await resolvePaymentDevice(deviceUid);
+      if (!deviceId) {
+        recordSecurityEvent('unknown_device_tapped', { device_uid_suffix: deviceUid.slice(-5) });
+        throw new Error('This device is not paired with your account. Pair it under Devices first.');
       }
+      setSecurityEventContext({ deviceId });
 
       const transaction = await processTransaction({
-        userId: user.id,
-        deviceId: device.id,
+        deviceId,
         amount: parseFloat(amount),
-        merchantId: `MERCH_${Date.now()}`,
-        merchantName,
-        currency: 'USD',
+        merchantId: merchant.id,
+        currency,
+        geolocation,
+        paymentRequest,
+        tagAuthenticationId,
+        pinToken,
       });
+      setSecurityEventContext({ transactionId: transaction.id });
 
       if (transaction.status === 'approved') {
-        setMessageType('success');
-        setMessage(`✓ Payment approved: $${amount} to ${merchantName}`);
-        setAmount('');
-        setMerchantName('');
-        setPin('');
+        showApproved(transaction);
       } else if (transaction.status === 'declined') {
         setMessageType('error');
         setMessage(`✗ Payment declined: ${transaction.declineReason || 'High risk'}`);
+      } else if (mfaEnabled) {
+        setMessageType('error');
+        setMessage(`Payment held for review (Risk Score: ${transaction.riskScore}). Enter an authenticator code to confirm it now, or resolve it under History before it expires.`);
+        setStepUp({ heldTransactionId: transaction.id });
       } else {
         setMessageType('error');
-        setMessage(`Payment pending review (Risk Score: ${transaction.riskScore})`);
+        setMessage(`Payment held for review (Risk Score: ${transaction.riskScore}). Confirm or cancel it under History before it expires.`);
       }
     } catch (error) {
-      setScanning(false);
-      setMessageType('error');
-      setMessage((error as Error).message);
+      if (isStepUpRequired(error)) {
+        setStepUp({ heldTransactionId: null });
+      }
+      if (error instanceof AuthThrottledError) {
+        setPin('');
+        startCountdown(error.retryAfter);
+      }
+      setMessageType(scan.signal.aborted ? '' : 'error');
+      setMessage(scan.signal.aborted ? '' : (error as Error).message);
     } finally {
       setLoading(false);
     }
   };
 
+  const showApproved = (transaction: Transaction) => {
+    setMessageType('success');
+    setMessage(`✓ Payment approved: ${formatMoney(transaction.amount, transaction.currency)} to ${transaction.merchantName}`);
+    setAmount('');
+    setMerchant(null);
+    setPaymentRequest(null);
+    setPin('');
+  };
+
+  // A verified code is good for five minutes; held payments are confirmed with it at once
+  const handleStepUpVerified = async () => {
+    const heldTransactionId = stepUp?.heldTransactionId;
+    setStepUp(null);
+
+    if (!heldTransactionId) {
+      setMessageType('success');
+      setMessage('Verified. Process the payment again and tap your device within 5 minutes.');
+      return;
+    }
+
+    try {
+      const pinToken = await confirmPin(pin, 'confirm_payment');
+      showApproved(await resolvePendingTransaction(heldTransactionId, 'confirm', pinToken));
+    } catch (error) {
+      setMessageType('error');
+      setMessage((error as Error).message);
+    }
+  };
+
+  const scanning = scanState === 'scanning';
+  const baseCurrency = user?.baseCurrency || 'USD';
+  const selectedCurrency = currencies.find(c => c.code === currency);
+  const convertedAmount = amount && currency !== baseCurrency
+    ? convertAmount(parseFloat(amount), currency, baseCurrency, currencies)
+    : null;
+
   return (
     <div>
       <div className="flex items-center gap-3 mb-6">
@@ -111,42 +291,104 @@ export function NFCPayment() {
             <p className="text-yellow-400/80 text-sm mt-1">
               Your browser doesn't support Web NFC API. Use Chrome on Android or enable experimental features.
             </p>
+            {import.meta.env.DEV && (
+              <button
+                onClick={handleUseSimulator}
+                className="mt-2 text-sm font-medium text-yellow-400 hover:text-yellow-300 underline transition-colors"
+              >
+                Use the simulated NFC reader
+              </button>
+            )}
           </div>
         </div>
       )}
 
+      {stepUp && (
+        <div className="mb-6 p-4 bg-slate-700/50 border border-emerald-500/50 rounded-lg">
+          <TwoFactorPrompt
+            purpose="step_up"
+            description={stepUp.heldTransactionId
+              ? 'Enter the code from your authenticator app to confirm the held payment.'
+              : 'This payment needs a code from your authenticator app.'}
+            submitLabel={stepUp.heldTransactionId ? 'Confirm payment' : 'Verify'}
+            onVerified={handleStepUpVerified}
+            onCancel={() => setStepUp(null)}
+          />
+        </div>
+      )}
+
       <form onSubmit={handlePayment} className="space-y-4">
+        {paymentRequest ? (
+          <div className="p-4 bg-emerald-500/10 border border-emerald-500/50 rounded-lg flex items-start gap-3">
+            <Nfc className="w-5 h-5 text-emerald-500 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="text-emerald-400 font-medium">Payment request from {merchant?.name}</p>
+              <p className="text-emerald-400/80 text-xs mt-1">
+                {paymentRequest.request.amount === null ? 'Enter the amount' : 'Amount set by merchant'}
+                {paymentRequest.request.expiresAt && ` · Expires ${new Date(paymentRequest.request.expiresAt).toLocaleTimeString()}`}
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={clearPaymentRequest}
+              disabled={loading}
+              className="text-emerald-400 hover:text-white transition-colors"
+              aria-label="Clear payment request"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={handleScanRequest}
+            disabled={loading || !nfcSupported || scanning}
+            className="w-full flex items-center justify-center gap-2 py-3 bg-slate-700 hover:bg-slate-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Nfc className="w-5 h-5" />
+            Tap merchant payment tag
+          </button>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-slate-300 mb-2">
-            Amount (USD)
+            Amount
           </label>
-          <input
-            type="number"
-            step="0.01"
-            min="0.01"
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
-            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
-            placeholder="0.00"
-            required
-          />
+          <div className="flex gap-2">
+            <input
+              type="number"
+              step={amountStep(selectedCurrency?.minorUnits ?? 2)}
+              min={amountStep(selectedCurrency?.minorUnits ?? 2)}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              readOnly={paymentRequest !== null && paymentRequest.request.amount !== null}
+              className="flex-1 min-w-0 px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              placeholder={(0).toFixed(selectedCurrency?.minorUnits ?? 2)}
+              required
+            />
+            <select
+              value={currency}
+              onChange={(e) => setCurrency(e.target.value)}
+              disabled={paymentRequest !== null}
+              className="px-3 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-emerald-500"
+              aria-label="Currency"
+            >
+              {(currencies.length > 0 ? currencies : [{ code: currency, name: currency }]).map((c) => (
+                <option key={c.code} value={c.code}>{c.code}</option>
+              ))}
+            </select>
+          </div>
           <p className="mt-1 text-xs text-slate-400">
-            Daily limit: ${user?.dailyLimit || 1000}
+            {convertedAmount !== null && `≈ ${formatMoney(convertedAmount, baseCurrency)} · `}
+            Daily limit: {formatMoney(user?.dailyLimit || 1000, baseCurrency)}
           </p>
         </div>
 
         <div>
           <label className="block text-sm font-medium text-slate-300 mb-2">
-            Merchant Name
+            Merchant
           </label>
-          <input
-            type="text"
-            value={merchantName}
-            onChange={(e) => setMerchantName(e.target.value)}
-            className="w-full px-4 py-3 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
-            placeholder="e.g., Coffee Shop"
-            required
-          />
+          <MerchantPicker value={merchant} onChange={setMerchant} disabled={loading || paymentRequest !== null} />
         </div>
 
         <div>
@@ -166,6 +408,24 @@ export function NFCPayment() {
           />
         </div>
 
+        <label className="flex items-start gap-3 p-3 bg-slate-700/50 rounded-lg cursor-pointer">
+          <input
+            type="checkbox"
+            checked={shareLocation}
+            onChange={(e) => handleShareLocationChange(e.target.checked)}
+            className="mt-1 accent-emerald-500"
+          />
+          <span>
+            <span className="flex items-center gap-2 text-sm font-medium text-slate-300">
+              <MapPin className="w-4 h-4" />
+              Share location with payments
+            </span>
+            <span className="block text-xs text-slate-400 mt-1">
+              Used only to detect payments from impossible locations. Payments still work if your position is unavailable.
+            </span>
+          </span>
+        </label>
+
         {message && (
           <div className={`p-4 rounded-lg border flex items-start gap-3 ${
             messageType === 'success'
@@ -185,11 +445,27 @@ export function NFCPayment() {
 
         <button
           type="submit"
-          disabled={loading || !nfcSupported || scanning}
+          disabled={loading || !nfcSupported || scanning || pinRetrySeconds > 0}
           className="w-full py-3 bg-emerald-500 hover:bg-emerald-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
         >
-          {scanning ? 'Waiting for NFC tap...' : loading ? 'Processing...' : 'Process Payment'}
+          {scanning
+            ? 'Waiting for NFC tap...'
+            : loading
+              ? 'Processing...'
+              : pinRetrySeconds > 0
+                ? `Try again in ${pinRetrySeconds}s`
+                : 'Process Payment'}
         </button>
+
+        {scanning && (
+          <button
+            type="button"
+            onClick={handleCancelScan}
+            className="w-full py-3 bg-slate-700 hover:bg-slate-600 text-white font-medium rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
       </form>
 
       <div className="mt-8 pt-6 border-t border-slate-700">
@@ -208,8 +484,8 @@ export function NFCPayment() {
             <p className="text-sm font-medium text-white">Required</p>
           </div>
           <div className="p-3 bg-slate-700/50 rounded-lg">
-            <p className="text-xs text-slate-400">Devices Registered</p>
-            <p className="text-sm font-medium text-white">{devices.length}</p>
+            <p className="text-xs text-slate-400">Devices Paired</p>
+            <p className="text-sm font-medium text-white">{devices.filter(d => d.isActive).length}</p>
           </div>
         </div>
       </div>
@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { getSimulatedNFC } from '../lib/simulatedNFC';
+import { setNFCBackend } from '../lib/nfcAdapter';
+import { NDEFRecordData, PAYMENT_REQUEST_MEDIA_TYPE } from '../lib/ndef';
+import { FlaskConical, Nfc, Hand, XCircle } from 'lucide-react';
+
+// Development stand-in for holding a tag to the phone. Scripted taps can also
+// be driven from browser tests through `window.nfcSimulator`.
+export function NFCSimulatorPanel() {
+  const simulator = getSimulatedNFC();
+  const [state, setState] = useState(simulator.getState());
+  const [serialNumber, setSerialNumber] = useState('04:a1:b2:c3:d4:e5:f6');
+  const [payload, setPayload] = useState('');
+  const [error, setError] = useState('');
+
+  useEffect(() => simulator.subscribe(() => setState(simulator.getState())), [simulator]);
+
+  const buildRecords = (): NDEFRecordData[] | undefined => {
+    const text = payload.trim();
+    if (!text) return undefined;
+
+    const data = new TextEncoder().encode(text);
+    if (text.startsWith('{')) {
+      return [{ recordType: 'mime', mediaType: PAYMENT_REQUEST_MEDIA_TYPE, data }];
+    }
+    if (/^https?:\/\//.test(text)) {
+      return [{ recordType: 'url', data }];
+    }
+    return [{ recordType: 'text', data }];
+  };
+
+  const handleTap = (hold: boolean) => {
+    if (!serialNumber.trim()) {
+      setError('Enter a serial number');
+      return;
+    }
+    setError('');
+    simulator.tap(serialNumber.trim(), { records: buildRecords(), hold });
+  };
+
+  const handleUseWebNFC = () => {
+    setNFCBackend('webnfc');
+    window.location.reload();
+  };
+
+  return (
+    <div className="mt-6 p-4 bg-purple-500/10 border border-purple-500/50 rounded-lg">
+      <div className="flex items-center justify-between mb-3">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-purple-400" />
+          <h3 className="font-semibold text-purple-300">NFC Simulator</h3>
+        </div>
+        {import.meta.env.DEV && (
+          <button
+            onClick={handleUseWebNFC}
+            className="text-xs text-purple-300 hover:text-white transition-colors"
+          >
+            Use Web NFC
+          </button>
+        )}
+      </div>
+
+      <p className="text-xs text-purple-300/80 mb-3">
+        {state.waiting > 0 ? 'Reader is waiting for a tag' : 'Reader is idle'}
+        {state.tagInField && ` · Tag in field: ${state.tagInField}`}
+        {state.queued > 0 && ` · ${state.queued} scripted event(s) queued`}
+      </p>
+
+      <div className="space-y-2">
+        <input
+          type="text"
+          value={serialNumber}
+          onChange={(e) => setSerialNumber(e.target.value)}
+          className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm font-mono placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          placeholder="Serial number"
+          aria-label="Simulated tag serial number"
+        />
+        <textarea
+          value={payload}
+          onChange={(e) => setPayload(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-xs font-mono placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          placeholder="Optional NDEF payload: payment-request JSON or a SUN URL. Leave empty to keep the tag's current contents."
+          aria-label="Simulated tag payload"
+        />
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-400">{error}</p>}
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={() => handleTap(false)}
+          className="flex items-center gap-1 px-3 py-1 bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 rounded text-xs font-medium transition-colors"
+        >
+          <Nfc className="w-3 h-3" />
+          Tap
+        </button>
+        {state.tagInField ? (
+          <button
+            onClick={() => simulator.removeTag()}
+            className="flex items-center gap-1 px-3 py-1 bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 rounded text-xs font-medium transition-colors"
+          >
+            <Hand className="w-3 h-3" />
+            Remove tag
+          </button>
+        ) : (
+          <button
+            onClick={() => handleTap(true)}
+            className="flex items-center gap-1 px-3 py-1 bg-purple-500/20 hover:bg-purple-500/30 text-purple-300 rounded text-xs font-medium transition-colors"
+          >
+            <Hand className="w-3 h-3" />
+            Hold tag
+          </button>
+        )}
+        <button
+          onClick={() => simulator.fail()}
+          disabled={state.waiting === 0}
+          className="flex items-center gap-1 px-3 py-1 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <XCircle className="w-3 h-3" />
+          Fail read
+        </button>
+      </div>
+    </div>
+  );
+}
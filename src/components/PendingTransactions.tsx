@@ -0,0 +1,173 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { getPendingTransactions, resolvePendingTransaction, Transaction } from '../services/transactionService';
+import { verifyPin, confirmPin } from '../services/authService';
+import { isStepUpRequired } from '../services/mfaService';
+import { TwoFactorPrompt } from './TwoFactorPrompt';
+import { formatMoney } from '../lib/currency';
+import { AlertTriangle, Lock, Check, X } from 'lucide-react';
+
+interface PendingTransactionsProps {
+  onResolved: () => void;
+}
+
+export function PendingTransactions({ onResolved }: PendingTransactionsProps) {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<Transaction[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [stepUpId, setStepUpId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadPending();
+  }, [user]);
+
+  const loadPending = async () => {
+    if (!user) return;
+
+    try {
+      const data = await getPendingTransactions();
+      setPending(data);
+    } catch (error) {
+      console.error('Failed to load pending transactions:', error);
+    }
+  };
+
+  const startReview = (transactionId: string) => {
+    setReviewingId(transactionId);
+    setStepUpId(null);
+    setPin('');
+    setError('');
+  };
+
+  // Confirming needs a PIN token of its own, also after an authenticator code
+  const finishResolve = async (transactionId: string, decision: 'confirm' | 'cancel') => {
+    const pinToken = decision === 'confirm' ? await confirmPin(pin, 'confirm_payment') : null;
+    await resolvePendingTransaction(transactionId, decision, pinToken);
+    setReviewingId(null);
+    setStepUpId(null);
+    setPin('');
+    await loadPending();
+    onResolved();
+  };
+
+  const handleResolve = async (transactionId: string, decision: 'confirm' | 'cancel') => {
+    if (!user) return;
+
+    setSubmitting(true);
+    setError('');
+
+    try {
+      if (decision === 'cancel' && !await verifyPin(pin)) {
+        throw new Error('Invalid PIN');
+      }
+
+      await finishResolve(transactionId, decision);
+    } catch (err) {
+      // With two-factor authentication on, confirming also needs an authenticator code
+      if (isStepUpRequired(err)) {
+        setStepUpId(transactionId);
+      } else {
+        setError((err as Error).message);
+      }
+      await loadPending();
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const minutesLeft = (expiresAt?: string) => {
+    if (!expiresAt) return null;
+    return Math.max(0, Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 60000));
+  };
+
+  if (pending.length === 0) return null;
+
+  return (
+    <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/50 rounded-lg">
+      <div className="flex items-center gap-2 mb-3">
+        <AlertTriangle className="w-5 h-5 text-yellow-500" />
+        <h3 className="font-semibold text-yellow-400">Needs your action</h3>
+      </div>
+      <p className="text-sm text-yellow-400/80 mb-4">
+        These payments were held for review. Confirm them with your PIN or cancel them before they expire.
+      </p>
+
+      <div className="space-y-3">
+        {pending.map((transaction) => (
+          <div key={transaction.id} className="bg-slate-800/80 rounded-lg p-4">
+            <div className="flex items-start justify-between">
+              <div>
+                <h4 className="font-medium text-white">{transaction.merchantName}</h4>
+                <p className="text-xs text-slate-400 mt-1">
+                  Risk Score: {transaction.riskScore} · Expires in {minutesLeft(transaction.expiresAt)} min
+                </p>
+              </div>
+              <p className="text-lg font-bold text-white">{formatMoney(transaction.amount, transaction.currency)}</p>
+            </div>
+
+            {stepUpId === transaction.id ? (
+              <div className="mt-3 pt-3 border-t border-slate-700">
+                <TwoFactorPrompt
+                  purpose="step_up"
+                  description="Enter the code from your authenticator app to confirm this payment."
+                  submitLabel="Confirm payment"
+                  onVerified={() => finishResolve(transaction.id, 'confirm')}
+                  onCancel={() => startReview(transaction.id)}
+                />
+              </div>
+            ) : reviewingId === transaction.id ? (
+              <div className="mt-3 pt-3 border-t border-slate-700 space-y-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-300 mb-1">
+                    <Lock className="w-3 h-3 inline mr-1" />
+                    Re-enter your PIN
+                  </label>
+                  <input
+                    type="password"
+                    value={pin}
+                    onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                    className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                    placeholder="••••"
+                    minLength={4}
+                    maxLength={6}
+                  />
+                </div>
+
+                {error && <p className="text-xs text-red-400">{error}</p>}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleResolve(transaction.id, 'confirm')}
+                    disabled={submitting || pin.length < 4}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <Check className="w-4 h-4" />
+                    Confirm payment
+                  </button>
+                  <button
+                    onClick={() => handleResolve(transaction.id, 'cancel')}
+                    disabled={submitting || pin.length < 4}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 bg-red-500/20 hover:bg-red-500/30 text-red-400 text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <X className="w-4 h-4" />
+                    Cancel payment
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => startReview(transaction.id)}
+                className="mt-3 px-3 py-1 bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 rounded text-xs font-medium transition-colors"
+              >
+                Review
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,185 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { changePin, resetPin } from '../services/authService';
+import { formatMoney } from '../lib/currency';
+import { KeyRound, Hourglass, AlertCircle, CheckCircle } from 'lucide-react';
+
+type PinMode = 'view' | 'change' | 'reset';
+
+const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, 6);
+
+export function PinSettings() {
+  const { user, refreshUser } = useAuth();
+  const [mode, setMode] = useState<PinMode>('view');
+  const [currentPin, setCurrentPin] = useState('');
+  const [password, setPassword] = useState('');
+  const [newPin, setNewPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  if (!user) return null;
+
+  const openForm = (next: PinMode) => {
+    setMode(next);
+    setCurrentPin('');
+    setPassword('');
+    setNewPin('');
+    setConfirmPin('');
+    setError('');
+    setMessage('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError('');
+
+    try {
+      if (newPin !== confirmPin) {
+        throw new Error('New PINs do not match');
+      }
+
+      if (mode === 'change') {
+        await changePin(currentPin, newPin);
+        setMessage('Your transaction PIN has been changed.');
+      } else {
+        await resetPin(user.email, password, newPin);
+        setMessage('Your transaction PIN has been reset. High-value payments are paused for 24 hours.');
+      }
+
+      setMode('view');
+      await refreshUser();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const holdActive = user.pinResetHoldUntil !== null && new Date(user.pinResetHoldUntil) > new Date();
+  const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+  const pinInputProps = { type: 'password', required: true, minLength: 4, maxLength: 6, className: inputClass };
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <KeyRound className="w-5 h-5 text-emerald-400" />
+          <div>
+            <p className="font-medium text-white">Transaction PIN</p>
+            <p className="text-xs text-slate-400">
+              {user.pinChangedAt ? `Last changed ${new Date(user.pinChangedAt).toLocaleString()}` : 'Set when you signed up'}
+            </p>
+          </div>
+        </div>
+        {mode === 'view' && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => openForm('change')}
+              className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-slate-300 rounded text-xs font-medium transition-colors"
+            >
+              Change PIN
+            </button>
+            <button
+              onClick={() => openForm('reset')}
+              className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-slate-300 rounded text-xs font-medium transition-colors"
+            >
+              Forgot PIN
+            </button>
+          </div>
+        )}
+      </div>
+
+      {holdActive && user.pinResetHoldLimit !== null && (
+        <p className="mt-3 text-xs text-yellow-400 flex items-center gap-1">
+          <Hourglass className="w-3 h-3" />
+          PIN reset recently: payments above {formatMoney(user.pinResetHoldLimit, user.baseCurrency)} are blocked
+          until {new Date(user.pinResetHoldUntil!).toLocaleString()}
+        </p>
+      )}
+
+      {mode !== 'view' && (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-3">
+          {mode === 'change' ? (
+            <input
+              {...pinInputProps}
+              value={currentPin}
+              onChange={(e) => setCurrentPin(digitsOnly(e.target.value))}
+              placeholder="Current PIN"
+              aria-label="Current PIN"
+            />
+          ) : (
+            <>
+              <p className="text-xs text-slate-400">
+                Confirm your account password to choose a new PIN. For your protection, payments above a small
+                amount are blocked for 24 hours after a reset.
+              </p>
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClass}
+                placeholder="Account password"
+                aria-label="Account password"
+                autoComplete="current-password"
+                required
+              />
+            </>
+          )}
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              {...pinInputProps}
+              value={newPin}
+              onChange={(e) => setNewPin(digitsOnly(e.target.value))}
+              placeholder="New PIN (4-6 digits)"
+              aria-label="New PIN"
+            />
+            <input
+              {...pinInputProps}
+              value={confirmPin}
+              onChange={(e) => setConfirmPin(digitsOnly(e.target.value))}
+              placeholder="Confirm new PIN"
+              aria-label="Confirm new PIN"
+            />
+          </div>
+          <p className="text-xs text-slate-400">
+            Avoid repeated digits, sequences like 1234, patterns like 1212 and years.
+          </p>
+
+          {error && (
+            <p className="text-xs text-red-400 flex items-center gap-1">
+              <AlertCircle className="w-3 h-3" />
+              {error}
+            </p>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Saving...' : mode === 'change' ? 'Change PIN' : 'Reset PIN'}
+            </button>
+            <button
+              type="button"
+              onClick={() => openForm('view')}
+              className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {message && (
+        <p className="mt-3 text-xs text-emerald-400 flex items-center gap-1">
+          <CheckCircle className="w-3 h-3" />
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
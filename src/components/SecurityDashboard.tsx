@@ -1,6 +1,9 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { getSecurityLogs, getAccountSecurityStatus, SecurityLog } from '../services/securityService';
+import { PinSettings } from './PinSettings';
+import { TwoFactorSettings } from './TwoFactorSettings';
+import { ActiveSessions } from './ActiveSessions';
 import { Shield, AlertTriangle, Info, AlertCircle } from 'lucide-react';
 
 export function SecurityDashboard() {
@@ -66,6 +69,10 @@ export function SecurityDashboard() {
         <h2 className="text-2xl font-bold text-white">Security Dashboard</h2>
       </div>
 
+      <PinSettings />
+      <TwoFactorSettings />
+      <ActiveSessions />
+
       {loading ? (
         <div className="text-center py-8">
           <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
@@ -0,0 +1,335 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getSpendingLimits,
+  requestSpendingLimits,
+  cancelSpendingLimitChange,
+  isLimitIncrease,
+  LimitSettings,
+  LimitWindow,
+  SpendingLimits as SpendingLimitsData,
+} from '../services/limitsService';
+import { confirmPin } from '../services/authService';
+import { formatMoney } from '../lib/currency';
+import { Gauge, Hourglass, Lock, AlertCircle, CheckCircle } from 'lucide-react';
+
+const WINDOW_LABELS: Record<LimitWindow, { day: string; week: string; month: string }> = {
+  calendar: { day: 'Today', week: 'This week', month: 'This month' },
+  rolling: { day: 'Last 24 hours', week: 'Last 7 days', month: 'Last 30 days' },
+};
+
+const parseLimit = (value: string) => (value.trim() ? parseFloat(value) : null);
+
+const formatLimit = (value: number | null) => value?.toString() ?? '';
+
+export function SpendingLimits() {
+  const { user, refreshUser } = useAuth();
+  const [limits, setLimits] = useState<SpendingLimitsData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [perTransactionLimit, setPerTransactionLimit] = useState('');
+  const [dailyLimit, setDailyLimit] = useState('');
+  const [weeklyLimit, setWeeklyLimit] = useState('');
+  const [monthlyLimit, setMonthlyLimit] = useState('');
+  const [limitWindow, setLimitWindow] = useState<LimitWindow>('calendar');
+  const [timezone, setTimezone] = useState('');
+  const [pin, setPin] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadLimits();
+  }, [user]);
+
+  // The form starts from the settings the account is heading to, pending change included
+  const resetForm = (data: SpendingLimitsData) => {
+    const target = { ...data, ...data.pendingChange?.changes };
+
+    setPerTransactionLimit(formatLimit(target.perTransactionLimit));
+    setDailyLimit(formatLimit(target.dailyLimit));
+    setWeeklyLimit(formatLimit(target.weeklyLimit));
+    setMonthlyLimit(formatLimit(target.monthlyLimit));
+    setLimitWindow(target.limitWindow);
+    setTimezone(target.timezone);
+    setPin('');
+  };
+
+  const loadLimits = async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const data = await getSpendingLimits();
+      setLimits(data);
+      resetForm(data);
+    } catch (err) {
+      console.error('Failed to load spending limits:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const requested: LimitSettings = {
+    perTransactionLimit: parseLimit(perTransactionLimit),
+    dailyLimit: parseLimit(dailyLimit) ?? 0,
+    weeklyLimit: parseLimit(weeklyLimit),
+    monthlyLimit: parseLimit(monthlyLimit),
+    limitWindow,
+    timezone: timezone.trim(),
+  };
+
+  const needsPin = limits !== null && isLimitIncrease(limits, requested);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user || !limits) return;
+
+    setSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const pinToken = needsPin ? await confirmPin(pin, 'raise_limits') : null;
+      const result = await requestSpendingLimits(requested, pinToken);
+
+      setMessage(result.pendingChange
+        ? `Stricter limits apply now. Increases take effect ${new Date(result.pendingChange.effectiveAt).toLocaleString()}.`
+        : 'Spending limits updated.');
+      await loadLimits();
+      await refreshUser();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelPending = async () => {
+    setError('');
+    setMessage('');
+
+    try {
+      await cancelSpendingLimitChange();
+      setMessage('Pending increase cancelled.');
+      await loadLimits();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const describeChanges = (changes: Partial<LimitSettings>, currency: string) => {
+    const limit = (value: number | null | undefined) => (value != null ? formatMoney(value, currency) : 'no limit');
+    const parts: string[] = [];
+
+    if ('perTransactionLimit' in changes) parts.push(`per payment ${limit(changes.perTransactionLimit)}`);
+    if ('dailyLimit' in changes) parts.push(`daily ${limit(changes.dailyLimit)}`);
+    if ('weeklyLimit' in changes) parts.push(`weekly ${limit(changes.weeklyLimit)}`);
+    if ('monthlyLimit' in changes) parts.push(`monthly ${limit(changes.monthlyLimit)}`);
+    if (changes.limitWindow) parts.push(`${changes.limitWindow} windows`);
+    if (changes.timezone) parts.push(`time zone ${changes.timezone}`);
+
+    return parts.join(', ');
+  };
+
+  if (loading || !limits) {
+    return (
+      <div className="text-center py-8">
+        <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-emerald-500"></div>
+        <p className="text-slate-400 mt-2">Loading spending limits...</p>
+      </div>
+    );
+  }
+
+  const { baseCurrency } = limits;
+  const labels = WINDOW_LABELS[limits.limitWindow];
+  const windows = [
+    { label: labels.day, spent: limits.spentDay, limit: limits.dailyLimit },
+    { label: labels.week, spent: limits.spentWeek, limit: limits.weeklyLimit },
+    { label: labels.month, spent: limits.spentMonth, limit: limits.monthlyLimit },
+  ];
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+  const limitFields = [
+    { label: 'Per payment', value: perTransactionLimit, onChange: setPerTransactionLimit, required: false },
+    { label: 'Per day', value: dailyLimit, onChange: setDailyLimit, required: true },
+    { label: 'Per week', value: weeklyLimit, onChange: setWeeklyLimit, required: false },
+    { label: 'Per month', value: monthlyLimit, onChange: setMonthlyLimit, required: false },
+  ];
+
+  return (
+    <div>
+      <div className="flex items-center gap-3 mb-6">
+        <Gauge className="w-6 h-6 text-emerald-500" />
+        <h2 className="text-2xl font-bold text-white">Spending Limits</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="bg-slate-700/50 rounded-lg p-4">
+          <p className="text-sm text-slate-400 mb-2">Per payment</p>
+          <p className="text-2xl font-bold text-white">
+            {limits.perTransactionLimit !== null ? formatMoney(limits.perTransactionLimit, baseCurrency) : 'No limit'}
+          </p>
+          <p className="text-xs text-slate-400 mt-1">Largest single payment</p>
+        </div>
+
+        {windows.map((period) => {
+          const remaining = period.limit !== null ? Math.max(period.limit - period.spent, 0) : null;
+          const used = period.limit ? Math.min(period.spent / period.limit, 1) : 0;
+
+          return (
+            <div key={period.label} className="bg-slate-700/50 rounded-lg p-4">
+              <p className="text-sm text-slate-400 mb-2">{period.label}</p>
+              <p className="text-2xl font-bold text-white">
+                {remaining !== null ? formatMoney(remaining, baseCurrency) : 'No limit'}
+              </p>
+              <p className="text-xs text-slate-400 mt-1">
+                {remaining !== null ? 'left' : 'spent'} · {formatMoney(period.spent, baseCurrency)}
+                {period.limit !== null && ` of ${formatMoney(period.limit, baseCurrency)}`}
+              </p>
+              {period.limit !== null && (
+                <div className="mt-2 h-1.5 bg-slate-600 rounded-full overflow-hidden">
+                  <div
+                    className={`h-full ${used >= 0.9 ? 'bg-red-500' : used >= 0.7 ? 'bg-yellow-500' : 'bg-emerald-500'}`}
+                    style={{ width: `${used * 100}%` }}
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {limits.pendingChange && (
+        <div className="mb-6 p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg flex items-start justify-between gap-4">
+          <div className="flex items-start gap-3">
+            <Hourglass className="w-5 h-5 text-yellow-400 flex-shrink-0 mt-0.5" />
+            <div>
+              <p className="text-sm font-medium text-yellow-400">
+                Increase pending until {new Date(limits.pendingChange.effectiveAt).toLocaleString()}
+              </p>
+              <p className="text-xs text-slate-300 mt-1">
+                {describeChanges(limits.pendingChange.changes, baseCurrency)}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleCancelPending}
+            className="px-3 py-1 bg-slate-600 hover:bg-slate-500 text-slate-300 rounded text-xs font-medium transition-colors"
+          >
+            Cancel increase
+          </button>
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit} className="bg-slate-700/50 rounded-lg p-4 space-y-4">
+        <div>
+          <p className="text-sm font-medium text-slate-300 mb-2">Limits ({baseCurrency})</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {limitFields.map((field) => (
+              <label key={field.label} className="text-xs text-slate-400">
+                {field.label}
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  value={field.value}
+                  onChange={(e) => field.onChange(e.target.value)}
+                  className={`${inputClass} mt-1`}
+                  placeholder="No limit"
+                  required={field.required}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="text-xs text-slate-400">
+            Count spending over
+            <select
+              value={limitWindow}
+              onChange={(e) => setLimitWindow(e.target.value as LimitWindow)}
+              className={`${inputClass} mt-1`}
+            >
+              <option value="calendar">Calendar day, week and month</option>
+              <option value="rolling">Rolling 24 hours, 7 days and 30 days</option>
+            </select>
+          </label>
+          <label className="text-xs text-slate-400">
+            Time zone for calendar periods
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className={`${inputClass} mt-1`}
+              required
+            />
+            {timezone !== browserTimezone && (
+              <button
+                type="button"
+                onClick={() => setTimezone(browserTimezone)}
+                className="mt-1 text-emerald-400 hover:text-emerald-300"
+              >
+                Use {browserTimezone}
+              </button>
+            )}
+          </label>
+        </div>
+
+        {needsPin && (
+          <div>
+            <p className="text-xs text-yellow-400 mb-2 flex items-center gap-1">
+              <Hourglass className="w-3 h-3" />
+              Higher limits and window changes take effect 24 hours after you confirm them.
+            </p>
+            <div className="relative">
+              <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+              <input
+                type="password"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 6))}
+                className={`${inputClass} pl-11`}
+                placeholder="Transaction PIN"
+                aria-label="Transaction PIN"
+                required
+                minLength={4}
+                maxLength={6}
+              />
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-500/10 border border-red-500/20 rounded-lg flex items-start gap-2">
+            <AlertCircle className="w-5 h-5 text-red-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-red-400">{error}</p>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-3 bg-emerald-500/10 border border-emerald-500/20 rounded-lg flex items-start gap-2">
+            <CheckCircle className="w-5 h-5 text-emerald-400 flex-shrink-0 mt-0.5" />
+            <p className="text-sm text-emerald-400">{message}</p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex-1 py-2 bg-emerald-500 hover:bg-emerald-600 text-white font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? 'Saving...' : needsPin ? 'Confirm with PIN' : 'Save limits'}
+          </button>
+          <button
+            type="button"
+            onClick={() => resetForm(limits)}
+            className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-slate-300 font-medium rounded-lg transition-colors"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
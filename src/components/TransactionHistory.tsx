@@ -1,12 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { getUserTransactions, Transaction } from '../services/transactionService';
-import { History, TrendingUp, TrendingDown, Clock } from 'lucide-react';
+import { getUserTransactions, verifyTransactionSignature, Transaction } from '../services/transactionService';
+import { getSpendingLimits, SpendingLimits } from '../services/limitsService';
+import { formatPosition } from '../lib/geolocation';
+import { formatMoney } from '../lib/currency';
+import { PendingTransactions } from './PendingTransactions';
+import { History, TrendingUp, TrendingDown, Clock, ShieldCheck, ShieldAlert, MapPin, Undo2 } from 'lucide-react';
 
 export function TransactionHistory() {
   const { user } = useAuth();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState(true);
+  const [verifications, setVerifications] = useState<Record<string, boolean>>({});
+  const [limits, setLimits] = useState<SpendingLimits | null>(null);
 
   useEffect(() => {
     loadTransactions();
@@ -17,8 +23,12 @@ export function TransactionHistory() {
 
     setLoading(true);
     try {
-      const data = await getUserTransactions(user.id);
+      const [data, limitsData] = await Promise.all([
+        getUserTransactions(user.id),
+        getSpendingLimits(),
+      ]);
       setTransactions(data);
+      setLimits(limitsData);
     } catch (error) {
       console.error('Failed to load transactions:', error);
     } finally {
@@ -26,6 +36,15 @@ export function TransactionHistory() {
     }
   };
 
+  const handleVerify = async (transactionId: string) => {
+    try {
+      const valid = await verifyTransactionSignature(transactionId);
+      setVerifications(prev => ({ ...prev, [transactionId]: valid }));
+    } catch (error) {
+      console.error('Failed to verify signature:', error);
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'approved': return 'text-emerald-400 bg-emerald-500/10';
@@ -41,17 +60,25 @@ export function TransactionHistory() {
     return 'text-emerald-400';
   };
 
-  const totalAmount = transactions
-    .filter(t => t.status === 'approved')
-    .reduce((sum, t) => sum + t.amount, 0);
+  const payments = transactions.filter(t => t.transactionType === 'payment');
+  const adjustments = transactions.filter(t => t.transactionType !== 'payment' && t.status === 'approved');
+  const byId = new Map(transactions.map(t => [t.id, t]));
+
+  const adjustmentsFor = (transactionId: string) => adjustments
+    .filter(a => a.originalTransactionId === transactionId);
+
+  const adjustedAmount = (transactionId: string) => adjustmentsFor(transactionId)
+    .reduce((sum, a) => sum + a.amount, 0);
+
+  const adjustedBaseAmount = (transactionId: string) => adjustmentsFor(transactionId)
+    .reduce((sum, a) => sum + a.baseAmount, 0);
 
-  const todayAmount = transactions
-    .filter(t => {
-      const transactionDate = new Date(t.createdAt);
-      const today = new Date();
-      return transactionDate.toDateString() === today.toDateString() && t.status === 'approved';
-    })
-    .reduce((sum, t) => sum + t.amount, 0);
+  const baseCurrency = user?.baseCurrency || 'USD';
+
+  const approvedPayments = payments.filter(t => t.status === 'approved');
+
+  const totalAmount = approvedPayments
+    .reduce((sum, t) => sum + t.baseAmount - adjustedBaseAmount(t.id), 0);
 
   return (
     <div>
@@ -60,23 +87,25 @@ export function TransactionHistory() {
         <h2 className="text-2xl font-bold text-white">Transaction History</h2>
       </div>
 
+      <PendingTransactions onResolved={loadTransactions} />
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
         <div className="bg-slate-700/50 rounded-lg p-4">
           <div className="flex items-center justify-between mb-2">
-            <p className="text-sm text-slate-400">Total Approved</p>
+            <p className="text-sm text-slate-400">Net Approved</p>
             <TrendingUp className="w-4 h-4 text-emerald-400" />
           </div>
-          <p className="text-2xl font-bold text-white">${totalAmount.toFixed(2)}</p>
-          <p className="text-xs text-slate-400 mt-1">{transactions.filter(t => t.status === 'approved').length} transactions</p>
+          <p className="text-2xl font-bold text-white">{formatMoney(totalAmount, baseCurrency)}</p>
+          <p className="text-xs text-slate-400 mt-1">{approvedPayments.length} transactions</p>
         </div>
 
         <div className="bg-slate-700/50 rounded-lg p-4">
           <div className="flex items-center justify-between mb-2">
-            <p className="text-sm text-slate-400">Today's Total</p>
+            <p className="text-sm text-slate-400">{limits?.limitWindow === 'rolling' ? 'Last 24 Hours' : "Today's Total"}</p>
             <Clock className="w-4 h-4 text-blue-400" />
           </div>
-          <p className="text-2xl font-bold text-white">${todayAmount.toFixed(2)}</p>
-          <p className="text-xs text-slate-400 mt-1">of ${user?.dailyLimit || 1000} limit</p>
+          <p className="text-2xl font-bold text-white">{formatMoney(limits?.spentDay ?? 0, baseCurrency)}</p>
+          <p className="text-xs text-slate-400 mt-1">of {formatMoney(limits?.dailyLimit ?? user?.dailyLimit ?? 1000, baseCurrency)} limit</p>
         </div>
 
         <div className="bg-slate-700/50 rounded-lg p-4">
@@ -84,7 +113,7 @@ export function TransactionHistory() {
             <p className="text-sm text-slate-400">Declined</p>
             <TrendingDown className="w-4 h-4 text-red-400" />
           </div>
-          <p className="text-2xl font-bold text-white">{transactions.filter(t => t.status === 'declined').length}</p>
+          <p className="text-2xl font-bold text-white">{payments.filter(t => t.status === 'declined').length}</p>
           <p className="text-xs text-slate-400 mt-1">Total declined</p>
         </div>
       </div>
@@ -101,45 +130,106 @@ export function TransactionHistory() {
         </div>
       ) : (
         <div className="space-y-3">
-          {transactions.map((transaction) => (
-            <div
-              key={transaction.id}
-              className="bg-slate-700/50 rounded-lg p-4 hover:bg-slate-700 transition-colors"
-            >
-              <div className="flex items-start justify-between mb-2">
-                <div>
-                  <h3 className="font-medium text-white">{transaction.merchantName}</h3>
-                  <p className="text-xs text-slate-400 mt-1">
-                    {new Date(transaction.createdAt).toLocaleString()}
-                  </p>
-                </div>
-                <div className="text-right">
-                  <p className="text-lg font-bold text-white">
-                    ${transaction.amount.toFixed(2)}
-                  </p>
-                  <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${getStatusColor(transaction.status)}`}>
-                    {transaction.status}
-                  </span>
+          {transactions.map((transaction) => {
+            const isAdjustment = transaction.transactionType !== 'payment';
+            const original = transaction.originalTransactionId
+              ? byId.get(transaction.originalTransactionId)
+              : undefined;
+            const refunded = isAdjustment ? 0 : adjustedAmount(transaction.id);
+
+            return (
+              <div
+                key={transaction.id}
+                className={`rounded-lg p-4 transition-colors ${
+                  isAdjustment
+                    ? 'ml-6 bg-slate-700/30 border-l-2 border-emerald-500/50 hover:bg-slate-700'
+                    : 'bg-slate-700/50 hover:bg-slate-700'
+                }`}
+              >
+                <div className="flex items-start justify-between mb-2">
+                  <div>
+                    <h3 className="flex items-center gap-2 font-medium text-white">
+                      {isAdjustment && <Undo2 className="w-4 h-4 text-emerald-400" />}
+                      {isAdjustment
+                        ? `${transaction.transactionType === 'refund' ? 'Refund' : 'Reversal'} · ${transaction.merchantName}`
+                        : transaction.merchantName}
+                    </h3>
+                    <p className="text-xs text-slate-400 mt-1">
+                      {new Date(transaction.createdAt).toLocaleString()}
+                    </p>
+                    {isAdjustment && (
+                      <p className="text-xs text-slate-400 mt-1">
+                        For payment {transaction.originalTransactionId?.slice(0, 8)}
+                        {original && ` of ${formatMoney(original.amount, original.currency)} on ${new Date(original.createdAt).toLocaleDateString()}`}
+                        {transaction.adjustmentReason && ` · ${transaction.adjustmentReason}`}
+                      </p>
+                    )}
+                    {transaction.geolocation && (
+                      <p className="flex items-center gap-1 text-xs text-slate-400 mt-1">
+                        <MapPin className="w-3 h-3" />
+                        {formatPosition(transaction.geolocation)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="text-right">
+                    <p className={`text-lg font-bold ${isAdjustment ? 'text-emerald-400' : 'text-white'}`}>
+                      {isAdjustment ? '+' : ''}{formatMoney(transaction.amount, transaction.currency)}
+                    </p>
+                    {transaction.currency !== transaction.baseCurrency && (
+                      <p className="text-xs text-slate-400">
+                        ≈ {formatMoney(transaction.baseAmount, transaction.baseCurrency)}
+                      </p>
+                    )}
+                    <span className={`inline-block px-2 py-1 rounded text-xs font-medium ${getStatusColor(transaction.status)}`}>
+                      {transaction.status}
+                    </span>
+                    {refunded > 0 && (
+                      <p className="text-xs text-emerald-400 mt-1">
+                        {refunded >= transaction.amount ? 'Fully refunded' : `Refunded ${formatMoney(refunded, transaction.currency)}`}
+                      </p>
+                    )}
+                  </div>
                 </div>
-              </div>
 
-              <div className="flex items-center justify-between pt-3 border-t border-slate-600">
-                <div className="flex items-center gap-4 text-xs">
-                  <span className="text-slate-400">
-                    Risk Score: <span className={`font-medium ${getRiskColor(transaction.riskScore)}`}>
-                      {transaction.riskScore}
+                <div className="flex items-center justify-between pt-3 border-t border-slate-600">
+                  <div className="flex items-center gap-4 text-xs">
+                    <span className="text-slate-400">
+                      Risk Score: <span className={`font-medium ${getRiskColor(transaction.riskScore)}`}>
+                        {transaction.riskScore}
+                      </span>
+                    </span>
+                    <span className="text-slate-400">
+                      ID: {transaction.id.slice(0, 8)}
                     </span>
-                  </span>
-                  <span className="text-slate-400">
-                    ID: {transaction.id.slice(0, 8)}
-                  </span>
+                    {transaction.id in verifications ? (
+                      verifications[transaction.id] ? (
+                        <span className="flex items-center gap-1 text-emerald-400">
+                          <ShieldCheck className="w-3 h-3" />
+                          Signature valid ({transaction.signatureKeyId})
+                        </span>
+                      ) : (
+                        <span className="flex items-center gap-1 text-red-400">
+                          <ShieldAlert className="w-3 h-3" />
+                          {transaction.signatureKeyId ? 'Signature invalid' : 'Legacy signature'}
+                        </span>
+                      )
+                    ) : (
+                      <button
+                        onClick={() => handleVerify(transaction.id)}
+                        className="flex items-center gap-1 text-slate-400 hover:text-emerald-400 transition-colors"
+                      >
+                        <ShieldCheck className="w-3 h-3" />
+                        Verify
+                      </button>
+                    )}
+                  </div>
+                  {transaction.declineReason && (
+                    <span className="text-xs text-red-400">{transaction.declineReason}</span>
+                  )}
                 </div>
-                {transaction.declineReason && (
-                  <span className="text-xs text-red-400">{transaction.declineReason}</span>
-                )}
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
     </div>
@@ -0,0 +1,33 @@
+import { useAuth } from '../contexts/AuthContext';
+import { signOut } from '../services/authService';
+import { TwoFactorPrompt } from './TwoFactorPrompt';
+import { Shield } from 'lucide-react';
+
+// Shown after a password sign-in until the session is raised to aal2
+export function TwoFactorChallenge() {
+  const { user, refreshUser } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex items-center justify-center p-4">
+      <div className="max-w-md w-full">
+        <div className="text-center mb-8">
+          <div className="inline-flex items-center justify-center w-16 h-16 bg-emerald-500 rounded-full mb-4">
+            <Shield className="w-8 h-8 text-white" />
+          </div>
+          <h1 className="text-3xl font-bold text-white mb-2">Two-Factor Verification</h1>
+          <p className="text-slate-400">{user?.email}</p>
+        </div>
+
+        <div className="bg-slate-800 rounded-2xl shadow-2xl p-8 border border-slate-700">
+          <TwoFactorPrompt
+            purpose="sign_in"
+            description="Enter the 6-digit code from your authenticator app to finish signing in."
+            submitLabel="Verify"
+            onVerified={refreshUser}
+            onCancel={() => signOut()}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { verifyTotp, redeemBackupCode, BackupCodePurpose } from '../services/mfaService';
+import { AuthThrottledError } from '../services/authService';
+import { useRetryCountdown } from '../hooks/useRetryCountdown';
+import { Smartphone, AlertCircle } from 'lucide-react';
+
+interface TwoFactorPromptProps {
+  purpose: BackupCodePurpose;
+  description: string;
+  submitLabel: string;
+  onVerified: () => Promise<void> | void;
+  onCancel?: () => void;
+}
+
+export function TwoFactorPrompt({ purpose, description, submitLabel, onVerified, onCancel }: TwoFactorPromptProps) {
+  const [useBackupCode, setUseBackupCode] = useState(false);
+  const [code, setCode] = useState('');
+  const [verifying, setVerifying] = useState(false);
+  const [error, setError] = useState('');
+  const { secondsLeft, startCountdown } = useRetryCountdown();
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setVerifying(true);
+    setError('');
+
+    try {
+      if (useBackupCode) {
+        await redeemBackupCode(code, purpose);
+      } else {
+        await verifyTotp(code, purpose);
+      }
+
+      setCode('');
+      await onVerified();
+    } catch (err) {
+      if (err instanceof AuthThrottledError) {
+        startCountdown(err.retryAfter);
+      }
+      setError((err as Error).message);
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const toggleBackupCode = () => {
+    setUseBackupCode(!useBackupCode);
+    setCode('');
+    setError('');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <p className="text-sm text-slate-300 flex items-start gap-2">
+        <Smartphone className="w-4 h-4 mt-0.5 flex-shrink-0 text-emerald-400" />
+        {useBackupCode
+          ? purpose === 'sign_in'
+            ? 'Enter one of your backup codes. This removes your authenticator app, so set it up again afterwards.'
+            : 'Enter one of your unused backup codes.'
+          : description}
+      </p>
+
+      <input
+        type="text"
+        value={code}
+        onChange={(e) => setCode(useBackupCode ? e.target.value.slice(0, 11) : e.target.value.replace(/\D/g, '').slice(0, 6))}
+        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white tracking-widest placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500"
+        placeholder={useBackupCode ? 'XXXXX-XXXXX' : '123456'}
+        aria-label={useBackupCode ? 'Backup code' : 'Authenticator code'}
+        autoComplete="one-time-code"
+        inputMode={useBackupCode ? 'text' : 'numeric'}
+        autoFocus
+        required
+      />
+
+      {error && (
+        <p className="text-xs text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={verifying || secondsLeft > 0 || code.length < 6}
+          className="flex-1 py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {verifying ? 'Verifying...' : secondsLeft > 0 ? `Try again in ${secondsLeft}s` : submitLabel}
+        </button>
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm font-medium rounded-lg transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+
+      <button
+        type="button"
+        onClick={toggleBackupCode}
+        className="text-xs text-slate-400 hover:text-slate-300 underline"
+      >
+        {useBackupCode ? 'Use your authenticator app instead' : 'Use a backup code instead'}
+      </button>
+    </form>
+  );
+}
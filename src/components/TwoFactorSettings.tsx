@@ -0,0 +1,252 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import {
+  getMfaSettings,
+  startTotpEnrollment,
+  confirmTotpEnrollment,
+  generateBackupCodes,
+  disableTotp,
+  setPaymentThreshold,
+  MfaSettings,
+  TotpEnrollment,
+} from '../services/mfaService';
+import { TwoFactorPrompt } from './TwoFactorPrompt';
+import { Smartphone, AlertCircle, CheckCircle } from 'lucide-react';
+
+type TwoFactorMode = 'view' | 'enroll' | 'disable';
+
+export function TwoFactorSettings() {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<MfaSettings | null>(null);
+  const [mode, setMode] = useState<TwoFactorMode>('view');
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null);
+  const [threshold, setThreshold] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [message, setMessage] = useState('');
+
+  useEffect(() => {
+    loadSettings();
+  }, [user]);
+
+  const loadSettings = async () => {
+    if (!user) return;
+
+    try {
+      const data = await getMfaSettings();
+      setSettings(data);
+      setThreshold(data.paymentThreshold?.toString() ?? '');
+    } catch (err) {
+      console.error('Failed to load two-factor settings:', err);
+    }
+  };
+
+  // Runs an action and reports its error or success message
+  const run = async (action: () => Promise<string | void>) => {
+    setSaving(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+      await loadSettings();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStartEnrollment = () => run(async () => {
+    setBackupCodes(null);
+    setCode('');
+    setEnrollment(await startTotpEnrollment());
+    setMode('enroll');
+  });
+
+  const handleConfirmEnrollment = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrollment) return;
+
+    run(async () => {
+      setBackupCodes(await confirmTotpEnrollment(enrollment.factorId, code));
+      setEnrollment(null);
+      setMode('view');
+      return 'Two-factor authentication is on. Save your backup codes now; they are shown only once.';
+    });
+  };
+
+  const handleRegenerate = () => run(async () => {
+    setBackupCodes(await generateBackupCodes());
+    return 'New backup codes generated. Your old codes no longer work.';
+  });
+
+  const handleDisable = async () => {
+    if (!settings?.factorId) return;
+    const factorId = settings.factorId;
+
+    await run(async () => {
+      await disableTotp(factorId);
+      setBackupCodes(null);
+      setMode('view');
+      return 'Two-factor authentication is off.';
+    });
+  };
+
+  const handleSaveThreshold = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    run(async () => {
+      await setPaymentThreshold(threshold.trim() ? parseFloat(threshold) : null);
+      return 'Step-up threshold saved.';
+    });
+  };
+
+  if (!user || !settings) return null;
+
+  const inputClass = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-lg text-white text-sm placeholder-slate-400 focus:outline-none focus:ring-2 focus:ring-emerald-500';
+  const secondaryButtonClass = 'px-3 py-1 bg-slate-600 hover:bg-slate-500 text-slate-300 rounded text-xs font-medium transition-colors disabled:opacity-50';
+
+  return (
+    <div className="bg-slate-700/50 rounded-lg p-4 mb-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Smartphone className="w-5 h-5 text-emerald-400" />
+          <div>
+            <p className="font-medium text-white">Two-factor authentication</p>
+            <p className="text-xs text-slate-400">
+              {settings.enabled
+                ? `Authenticator app on · ${settings.backupCodesRemaining} backup codes left`
+                : 'Require a code from an authenticator app at sign-in and for sensitive payments'}
+            </p>
+          </div>
+        </div>
+        {mode === 'view' && (
+          <div className="flex gap-2">
+            {settings.enabled ? (
+              <>
+                <button onClick={handleRegenerate} disabled={saving} className={secondaryButtonClass}>
+                  New backup codes
+                </button>
+                <button onClick={() => setMode('disable')} disabled={saving} className={secondaryButtonClass}>
+                  Turn off
+                </button>
+              </>
+            ) : (
+              <button onClick={handleStartEnrollment} disabled={saving} className={secondaryButtonClass}>
+                Set up
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {mode === 'enroll' && enrollment && (
+        <form onSubmit={handleConfirmEnrollment} className="mt-4 space-y-3">
+          <p className="text-xs text-slate-400">
+            Scan this code with an authenticator app, or enter the key by hand, then enter the 6-digit code it shows.
+          </p>
+          <div className="flex flex-wrap items-center gap-4">
+            <img src={enrollment.qrCode} alt="Authenticator QR code" className="w-40 h-40 bg-white rounded-lg p-2" />
+            <code className="text-xs text-slate-300 break-all">{enrollment.secret}</code>
+          </div>
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, '').slice(0, 6))}
+            className={inputClass}
+            placeholder="123456"
+            aria-label="Authenticator code"
+            autoComplete="one-time-code"
+            inputMode="numeric"
+            required
+          />
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving || code.length < 6}
+              className="flex-1 py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {saving ? 'Verifying...' : 'Turn on'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setMode('view')}
+              className="px-4 py-2 bg-slate-600 hover:bg-slate-500 text-slate-300 text-sm font-medium rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {mode === 'disable' && (
+        <div className="mt-4">
+          <TwoFactorPrompt
+            purpose="step_up"
+            description="Enter a code from your authenticator app to turn off two-factor authentication."
+            submitLabel="Turn off"
+            onVerified={handleDisable}
+            onCancel={() => setMode('view')}
+          />
+        </div>
+      )}
+
+      {backupCodes && (
+        <div className="mt-4 p-3 bg-slate-800 rounded-lg">
+          <p className="text-xs text-yellow-400 mb-2">
+            Each backup code works once. Keep them somewhere safe, away from this device.
+          </p>
+          <div className="grid grid-cols-2 gap-2 font-mono text-sm text-white">
+            {backupCodes.map((backupCode) => (
+              <span key={backupCode}>{backupCode}</span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {settings.enabled && mode === 'view' && (
+        <form onSubmit={handleSaveThreshold} className="mt-4 flex flex-wrap items-end gap-3">
+          <div className="flex-1 min-w-48">
+            <label className="block text-xs font-medium text-slate-300 mb-1">
+              Ask for a code on payments above ({user.baseCurrency})
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className={inputClass}
+              placeholder="Only payments held for review"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={saving}
+            className="px-4 py-2 bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium rounded-lg transition-colors disabled:opacity-50"
+          >
+            Save
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <p className="mt-3 text-xs text-red-400 flex items-center gap-1">
+          <AlertCircle className="w-3 h-3" />
+          {error}
+        </p>
+      )}
+
+      {message && (
+        <p className="mt-3 text-xs text-emerald-400 flex items-center gap-1">
+          <CheckCircle className="w-3 h-3" />
+          {message}
+        </p>
+      )}
+    </div>
+  );
+}
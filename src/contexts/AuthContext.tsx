@@ -1,36 +1,67 @@
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { AuthUser, getCurrentUser } from '../services/authService';
+import { AuthUser, getCurrentUser, verifyPin } from '../services/authService';
+import { isMfaChallengePending } from '../services/mfaService';
+import { setSecurityEventContext, recordSecurityEvent, flushSecurityEvents } from '../services/securityService';
 import { supabase } from '../lib/supabase';
+import { IDLE_TIMEOUT_MS, recordActivity, isIdleExpired, isIdleLocked, setIdleLocked } from '../lib/idleLock';
 
 interface AuthContextType {
   user: AuthUser | null;
   loading: boolean;
+  mfaPending: boolean;
+  idleLocked: boolean;
   refreshUser: () => Promise<void>;
+  unlockIdle: (pin: string) => Promise<boolean>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'] as const;
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<AuthUser | null>(null);
   const [loading, setLoading] = useState(true);
+  const [mfaPending, setMfaPending] = useState(false);
+  const [idleLocked, setIdleLockedState] = useState(isIdleLocked());
 
   const loadUser = async () => {
     try {
       const currentUser = await getCurrentUser();
+      setSecurityEventContext({ userId: currentUser?.id ?? null });
+      setMfaPending(currentUser ? await isMfaChallengePending() : false);
       setUser(currentUser);
+      if (currentUser) flushSecurityEvents();
     } catch (error) {
       console.error('Failed to load user:', error);
       setUser(null);
+      setMfaPending(false);
+      setSecurityEventContext({ userId: null });
     } finally {
       setLoading(false);
     }
   };
 
+  const lock = (locked: boolean) => {
+    setIdleLocked(locked);
+    setIdleLockedState(locked);
+  };
+
+  const unlockIdle = async (pin: string) => {
+    if (!await verifyPin(pin)) return false;
+
+    lock(false);
+    recordSecurityEvent('idle_lock_released', {});
+    return true;
+  };
+
   useEffect(() => {
     loadUser();
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
       (async () => {
+        // Includes sessions signed out from another device
+        if (event === 'SIGNED_OUT') lock(false);
         await loadUser();
       })();
     });
@@ -38,8 +69,56 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  // Lock after a period without input, in this tab or any other
+  useEffect(() => {
+    if (!userId) return;
+
+    const engage = () => {
+      if (!isIdleLocked()) {
+        recordSecurityEvent('idle_lock_engaged', { idle_minutes: IDLE_TIMEOUT_MS / 60000 }, { userId });
+      }
+      lock(true);
+    };
+
+    if (isIdleExpired()) {
+      engage();
+    } else {
+      recordActivity();
+    }
+
+    let lastRecorded = 0;
+    const handleActivity = () => {
+      if (isIdleLocked() || Date.now() - lastRecorded < 1000) return;
+      lastRecorded = Date.now();
+      recordActivity();
+    };
+
+    const checkIdle = () => {
+      if (isIdleLocked() || isIdleExpired()) engage();
+    };
+
+    // Coming back to the app also rechecks that its session has not been signed out elsewhere
+    const handleVisibilityChange = () => {
+      if (document.visibilityState !== 'visible') return;
+      checkIdle();
+      loadUser();
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    const interval = setInterval(checkIdle, IDLE_CHECK_INTERVAL_MS);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      clearInterval(interval);
+    };
+  }, [userId]);
+
   return (
-    <AuthContext.Provider value={{ user, loading, refreshUser: loadUser }}>
+    <AuthContext.Provider value={{ user, loading, mfaPending, idleLocked, refreshUser: loadUser, unlockIdle }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+
+// Seconds until a throttled action may be retried, counting down to zero
+export function useRetryCountdown() {
+  const [retryAt, setRetryAt] = useState<Date | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (!retryAt) return;
+
+    const tick = () => {
+      const remaining = Math.max(Math.ceil((retryAt.getTime() - Date.now()) / 1000), 0);
+      setSecondsLeft(remaining);
+      if (remaining === 0) setRetryAt(null);
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  return { secondsLeft, startCountdown: setRetryAt };
+}
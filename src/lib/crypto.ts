@@ -1,4 +1,62 @@
+// PIN hashes are stored as `pbkdf2_sha256$<iterations>$<salt>$<hash>` (base64 salt
+// and hash). Hashes without a `$` are legacy unsalted SHA-256 hex digests and are
+// upgraded on the next successful verification.
+const PIN_HASH_ALGORITHM = 'pbkdf2_sha256';
+const PIN_HASH_ITERATIONS = 600000;
+const PIN_SALT_BYTES = 16;
+const PIN_HASH_BYTES = 32;
+
+// Parameters of a stored hash, as returned by `get_pin_parameters`. The hash
+// itself stays on the server, which compares it with the proof derived here.
+export type PinHashParameters =
+  | { algorithm: 'sha256' }
+  | { algorithm: typeof PIN_HASH_ALGORITHM; iterations: number; salt: string };
+
 export async function hashPin(pin: string): Promise<string> {
+  const salt = crypto.getRandomValues(new Uint8Array(PIN_SALT_BYTES));
+  const hash = await derivePinHash(pin, salt, PIN_HASH_ITERATIONS);
+  return [
+    PIN_HASH_ALGORITHM,
+    PIN_HASH_ITERATIONS,
+    toBase64(salt),
+    toBase64(hash),
+  ].join('$');
+}
+
+export async function derivePinProof(pin: string, params: PinHashParameters): Promise<string> {
+  if (params.algorithm === 'sha256') {
+    return legacySha256(pin);
+  }
+
+  if (params.algorithm !== PIN_HASH_ALGORITHM || !Number.isInteger(params.iterations) || params.iterations <= 0) {
+    throw new Error('Unsupported PIN hash format');
+  }
+
+  return toBase64(await derivePinHash(pin, fromBase64(params.salt), params.iterations));
+}
+
+async function derivePinHash(
+  pin: string,
+  salt: Uint8Array,
+  iterations: number,
+  length = PIN_HASH_BYTES
+): Promise<Uint8Array> {
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(pin),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    keyMaterial,
+    length * 8
+  );
+  return new Uint8Array(bits);
+}
+
+async function legacySha256(pin: string): Promise<string> {
   const encoder = new TextEncoder();
   const data = encoder.encode(pin);
   const hashBuffer = await crypto.subtle.digest('SHA-256', data);
@@ -6,32 +64,10 @@ export async function hashPin(pin: string): Promise<string> {
   return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
 }
 
-export async function generateTransactionSignature(
-  userId: string,
-  amount: number,
-  merchantId: string,
-  timestamp: string
-): Promise<string> {
-  const data = `${userId}:${amount}:${merchantId}:${timestamp}`;
-  const encoder = new TextEncoder();
-  const encoded = encoder.encode(data);
-  const hashBuffer = await crypto.subtle.digest('SHA-256', encoded);
-  const hashArray = Array.from(new Uint8Array(hashBuffer));
-  return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
 }
 
-export async function verifyTransactionSignature(
-  signature: string,
-  userId: string,
-  amount: number,
-  merchantId: string,
-  timestamp: string
-): Promise<boolean> {
-  const expectedSignature = await generateTransactionSignature(
-    userId,
-    amount,
-    merchantId,
-    timestamp
-  );
-  return signature === expectedSignature;
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), c => c.charCodeAt(0));
 }
@@ -0,0 +1,13 @@
+// Intl knows the ISO 4217 minor units of each currency, so amounts are shown with
+// the right number of decimals (e.g. ¥1,500 vs $10.50 vs KWD 1.250).
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+export function amountStep(minorUnits: number): string {
+  return minorUnits === 0 ? '1' : (1 / 10 ** minorUnits).toFixed(minorUnits);
+}
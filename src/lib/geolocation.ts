@@ -0,0 +1,50 @@
+export interface GeoPosition {
+  latitude: number;
+  longitude: number;
+  accuracy: number;
+  capturedAt: string;
+}
+
+const CONSENT_KEY = 'nfcpay.locationConsent';
+
+export function hasLocationConsent(): boolean {
+  return localStorage.getItem(CONSENT_KEY) === 'granted';
+}
+
+export function setLocationConsent(granted: boolean) {
+  if (granted) {
+    localStorage.setItem(CONSENT_KEY, 'granted');
+  } else {
+    localStorage.removeItem(CONSENT_KEY);
+  }
+}
+
+// Resolves null instead of rejecting when geolocation is unsupported, denied or
+// slow, so a missing position never blocks a payment.
+export function getCurrentPosition(timeoutMs = 8000): Promise<GeoPosition | null> {
+  if (!('geolocation' in navigator)) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve) => {
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          capturedAt: new Date(position.timestamp).toISOString(),
+        });
+      },
+      () => resolve(null),
+      { enableHighAccuracy: false, timeout: timeoutMs, maximumAge: 60000 }
+    );
+  });
+}
+
+export function formatPosition(position: { latitude: number; longitude: number; accuracy?: number }): string {
+  const coordinates = `${position.latitude.toFixed(4)}, ${position.longitude.toFixed(4)}`;
+  return position.accuracy !== undefined
+    ? `${coordinates} (±${Math.round(position.accuracy)} m)`
+    : coordinates;
+}
@@ -0,0 +1,28 @@
+// The app locks behind the PIN after this long without input. The lock and the
+// last activity are shared by all tabs and survive a reload.
+export const IDLE_TIMEOUT_MS = 5 * 60 * 1000;
+
+const LAST_ACTIVITY_KEY = 'nfcpay.lastActivity';
+const IDLE_LOCKED_KEY = 'nfcpay.idleLocked';
+
+export function recordActivity() {
+  localStorage.setItem(LAST_ACTIVITY_KEY, Date.now().toString());
+}
+
+export function isIdleExpired(): boolean {
+  const lastActivity = Number(localStorage.getItem(LAST_ACTIVITY_KEY));
+  return lastActivity > 0 && Date.now() - lastActivity > IDLE_TIMEOUT_MS;
+}
+
+export function isIdleLocked(): boolean {
+  return localStorage.getItem(IDLE_LOCKED_KEY) === 'locked';
+}
+
+export function setIdleLocked(locked: boolean) {
+  if (locked) {
+    localStorage.setItem(IDLE_LOCKED_KEY, 'locked');
+  } else {
+    localStorage.removeItem(IDLE_LOCKED_KEY);
+    recordActivity();
+  }
+}
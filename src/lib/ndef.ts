@@ -0,0 +1,183 @@
+// Payment-request tags carry a single MIME record of this type whose payload is
+// UTF-8 JSON:
+//   { "v": 1, "merchant_id": "mer_…", "amount": 12.5, "currency": "USD",
+//     "nonce": "…", "expires_at": "2025-12-10T18:00:00Z" }
+// `amount` may be omitted for open-amount requests, in which case the customer
+// enters it. `expires_at` may be omitted for long-lived tags. Provisioned merchant
+// tags also carry `kid` and `sig`, the server's HMAC over the request fields.
+export const PAYMENT_REQUEST_MEDIA_TYPE = 'application/vnd.nfcarmor.payment-request+json';
+export const PAYMENT_REQUEST_VERSION = 1;
+
+// Tolerated clock difference between the tag writer and this device
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export interface NDEFRecordData {
+  recordType: string;
+  mediaType?: string;
+  data: Uint8Array;
+}
+
+export interface PaymentRequest {
+  merchantId: string;
+  amount: number | null;
+  currency: string;
+  nonce: string;
+  expiresAt: string | null;
+  keyId: string | null;
+  signature: string | null;
+}
+
+// Wire form of a payment request, as written to tags and sent to the server
+export interface PaymentRequestPayload {
+  v: number;
+  merchant_id: string;
+  amount?: number;
+  currency: string;
+  nonce: string;
+  expires_at?: string;
+  kid?: string;
+  sig?: string;
+}
+
+export function findPaymentRequest(records: NDEFRecordData[]): PaymentRequest | null {
+  const record = records.find(
+    r => r.recordType === 'mime' && r.mediaType === PAYMENT_REQUEST_MEDIA_TYPE
+  );
+
+  if (!record) return null;
+
+  return parsePaymentRequest(record.data);
+}
+
+export function toPaymentRequestPayload(request: PaymentRequest): PaymentRequestPayload {
+  const payload: PaymentRequestPayload = {
+    v: PAYMENT_REQUEST_VERSION,
+    merchant_id: request.merchantId,
+    currency: request.currency,
+    nonce: request.nonce,
+  };
+
+  if (request.amount !== null) payload.amount = request.amount;
+  if (request.expiresAt !== null) payload.expires_at = request.expiresAt;
+  if (request.keyId !== null) payload.kid = request.keyId;
+  if (request.signature !== null) payload.sig = request.signature;
+
+  return payload;
+}
+
+export function encodePaymentRequest(request: PaymentRequest): NDEFRecordData {
+  return {
+    recordType: 'mime',
+    mediaType: PAYMENT_REQUEST_MEDIA_TYPE,
+    data: new TextEncoder().encode(JSON.stringify(toPaymentRequestPayload(request))),
+  };
+}
+
+export function parsePaymentRequest(data: Uint8Array, now = Date.now()): PaymentRequest {
+  let payload: Record<string, unknown>;
+
+  try {
+    payload = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(data));
+  } catch {
+    throw new Error('Malformed payment request: payload is not valid JSON');
+  }
+
+  if (typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+    throw new Error('Malformed payment request: payload must be an object');
+  }
+
+  if (payload.v !== PAYMENT_REQUEST_VERSION) {
+    throw new Error(`Unsupported payment request version: ${String(payload.v)}`);
+  }
+
+  const merchantId = payload.merchant_id;
+  if (typeof merchantId !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(merchantId)) {
+    throw new Error('Malformed payment request: invalid merchant id');
+  }
+
+  const amount = payload.amount ?? null;
+  if (amount !== null && (typeof amount !== 'number' || !Number.isFinite(amount) || amount <= 0)) {
+    throw new Error('Malformed payment request: amount must be a positive number');
+  }
+
+  const currency = payload.currency;
+  if (typeof currency !== 'string' || !/^[A-Z]{3}$/.test(currency)) {
+    throw new Error('Malformed payment request: currency must be an ISO 4217 code');
+  }
+
+  const nonce = payload.nonce;
+  if (typeof nonce !== 'string' || !/^[A-Za-z0-9_-]{16,128}$/.test(nonce)) {
+    throw new Error('Malformed payment request: invalid nonce');
+  }
+
+  const expiresAt = payload.expires_at ?? null;
+  if (expiresAt !== null) {
+    const expiry = typeof expiresAt === 'string' ? Date.parse(expiresAt) : NaN;
+    if (Number.isNaN(expiry)) {
+      throw new Error('Malformed payment request: invalid expiry');
+    }
+    if (expiry + CLOCK_SKEW_MS < now) {
+      throw new Error('Payment request expired');
+    }
+  }
+
+  const keyId = payload.kid ?? null;
+  const signature = payload.sig ?? null;
+  if ((keyId === null) !== (signature === null)) {
+    throw new Error('Malformed payment request: incomplete signature');
+  }
+  if (keyId !== null && (typeof keyId !== 'string' || !/^[A-Za-z0-9_-]{1,64}$/.test(keyId))) {
+    throw new Error('Malformed payment request: invalid signing key id');
+  }
+  if (signature !== null && (typeof signature !== 'string' || !/^[0-9a-f]{64}$/.test(signature))) {
+    throw new Error('Malformed payment request: invalid signature');
+  }
+
+  return {
+    merchantId,
+    amount,
+    currency,
+    nonce,
+    expiresAt: expiresAt as string | null,
+    keyId: keyId as string | null,
+    signature: signature as string | null,
+  };
+}
+
+export function isPaymentRequestExpired(request: PaymentRequest, now = Date.now()): boolean {
+  return request.expiresAt !== null && Date.parse(request.expiresAt) + CLOCK_SKEW_MS < now;
+}
+
+// NTAG 424 DNA tags configured for Secure Unique NFC mirror their encrypted
+// PICC data (UID + read counter) and a truncated AES-CMAC into a URL record:
+//   https://pay.example/t?picc_data=<32 hex>&cmac=<16 hex>
+// The values are opaque to the client and verified by the server.
+export interface SunMessage {
+  piccData: string;
+  cmac: string;
+}
+
+export function findSunMessage(records: NDEFRecordData[]): SunMessage | null {
+  for (const record of records) {
+    if (record.recordType !== 'url' && record.recordType !== 'absolute-url') continue;
+
+    let url: URL;
+    try {
+      url = new URL(new TextDecoder().decode(record.data));
+    } catch {
+      continue;
+    }
+
+    const piccData = url.searchParams.get('picc_data');
+    const cmac = url.searchParams.get('cmac');
+    if (piccData === null && cmac === null) continue;
+
+    if (!piccData || !/^[0-9A-Fa-f]{32}$/.test(piccData) || !cmac || !/^[0-9A-Fa-f]{16}$/.test(cmac)) {
+      throw new Error('Malformed SUN message on tag');
+    }
+
+    return { piccData, cmac };
+  }
+
+  return null;
+}
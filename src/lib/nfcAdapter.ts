@@ -0,0 +1,157 @@
+import { NDEFRecordData } from './ndef';
+import { getSimulatedNFC } from './simulatedNFC';
+
+export interface NFCTagReading {
+  serialNumber: string;
+  records: NDEFRecordData[];
+}
+
+export interface NFCScanHandlers {
+  signal: AbortSignal;
+  onReading: (reading: NFCTagReading) => void;
+  onError: (error: Error) => void;
+}
+
+// Everything the app needs from an NFC reader. `webNFCAdapter` drives real
+// hardware through Web NFC; the simulated backend lets the same flows run on
+// desktop browsers and in automated tests. `scan` resolves once the reader is
+// listening and keeps reporting tags until the signal aborts; timeouts and
+// cancellation are handled by scan sessions (see nfcSession.ts).
+export interface NFCAdapter {
+  isSupported(): boolean;
+  scan(handlers: NFCScanHandlers): Promise<void>;
+  write(records: NDEFRecordData[], signal?: AbortSignal): Promise<void>;
+  makeReadOnly(signal?: AbortSignal): Promise<void>;
+}
+
+export type NFCBackend = 'webnfc' | 'simulated';
+
+const BACKEND_KEY = 'nfcpay.nfcBackend';
+
+let activeAdapter: NFCAdapter | null = null;
+
+// `VITE_NFC_BACKEND=simulated` selects the simulator for a whole build; in
+// development the choice can also be overridden per browser.
+export function getNFCBackend(): NFCBackend {
+  const override = import.meta.env.DEV ? localStorage.getItem(BACKEND_KEY) : null;
+  return (override ?? import.meta.env.VITE_NFC_BACKEND) === 'simulated' ? 'simulated' : 'webnfc';
+}
+
+export function setNFCBackend(backend: NFCBackend) {
+  localStorage.setItem(BACKEND_KEY, backend);
+  activeAdapter = null;
+}
+
+export function getNFCAdapter(): NFCAdapter {
+  if (!activeAdapter) {
+    activeAdapter = getNFCBackend() === 'simulated' ? getSimulatedNFC() : webNFCAdapter;
+  }
+  return activeAdapter;
+}
+
+// Replaces the adapter outright, e.g. with a scripted simulator in tests
+export function setNFCAdapter(adapter: NFCAdapter | null) {
+  activeAdapter = adapter;
+}
+
+// Minimal shapes of the Web NFC reader and reading event; the API has no bundled typings
+interface NDEFReaderLike {
+  scan(options?: { signal?: AbortSignal }): Promise<void>;
+  write(
+    message: { records: NDEFRecordData[] },
+    options?: { overwrite?: boolean; signal?: AbortSignal }
+  ): Promise<void>;
+  makeReadOnly?(options?: { signal?: AbortSignal }): Promise<void>;
+  addEventListener(type: 'reading', listener: (event: NDEFReadingEventLike) => void): void;
+  addEventListener(type: 'readingerror', listener: () => void): void;
+  removeEventListener(type: 'reading', listener: (event: NDEFReadingEventLike) => void): void;
+  removeEventListener(type: 'readingerror', listener: () => void): void;
+}
+
+interface NDEFReadingEventLike {
+  serialNumber: string;
+  message: {
+    records: {
+      recordType: string;
+      mediaType?: string;
+      data?: DataView;
+    }[];
+  };
+}
+
+function createNDEFReader(): NDEFReaderLike {
+  if (!('NDEFReader' in window)) {
+    throw new Error('NFC not supported on this device');
+  }
+
+  const { NDEFReader } = window as unknown as { NDEFReader: new () => NDEFReaderLike };
+  return new NDEFReader();
+}
+
+export const webNFCAdapter: NFCAdapter = {
+  isSupported() {
+    return 'NDEFReader' in window;
+  },
+
+  async scan({ signal, onReading, onError }) {
+    const ndef = createNDEFReader();
+
+    const handleReading = ({ serialNumber, message }: NDEFReadingEventLike) => {
+      onReading({
+        serialNumber,
+        records: message.records.map(record => ({
+          recordType: record.recordType,
+          mediaType: record.mediaType,
+          data: record.data
+            ? new Uint8Array(record.data.buffer, record.data.byteOffset, record.data.byteLength)
+            : new Uint8Array(),
+        })),
+      });
+    };
+
+    const handleError = () => {
+      onError(new Error('Failed to read NFC tag'));
+    };
+
+    ndef.addEventListener('reading', handleReading);
+    ndef.addEventListener('readingerror', handleError);
+
+    // Aborting the signal also stops the underlying Web NFC scan
+    const detach = () => {
+      ndef.removeEventListener('reading', handleReading);
+      ndef.removeEventListener('readingerror', handleError);
+    };
+    signal.addEventListener('abort', detach, { once: true });
+
+    try {
+      await ndef.scan({ signal });
+    } catch (error) {
+      detach();
+      throw new Error('NFC scan failed: ' + (error as Error).message);
+    }
+  },
+
+  async write(records, signal) {
+    const ndef = createNDEFReader();
+
+    try {
+      await ndef.write({ records }, { overwrite: true, signal });
+    } catch (error) {
+      throw new Error('NFC write failed: ' + (error as Error).message);
+    }
+  },
+
+  async makeReadOnly(signal) {
+    const ndef = createNDEFReader();
+
+    if (!ndef.makeReadOnly) {
+      throw new Error('This browser cannot make tags read-only');
+    }
+
+    try {
+      await ndef.makeReadOnly({ signal });
+    } catch (error) {
+      throw new Error('Failed to make tag read-only: ' + (error as Error).message);
+    }
+  },
+};
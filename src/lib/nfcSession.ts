@@ -0,0 +1,135 @@
+import { getNFCAdapter, NFCTagReading } from './nfcAdapter';
+
+export type NFCScanState = 'idle' | 'scanning' | 'read' | 'cancelled' | 'timedOut' | 'failed';
+
+export const DEFAULT_SCAN_TIMEOUT_MS = 10000;
+
+export interface NFCScanOptions {
+  // Time to wait for a tag; in continuous mode, the longest gap between taps.
+  // 0 waits indefinitely.
+  timeoutMs?: number;
+  // Aborting this signal cancels the session, e.g. from a Cancel button
+  signal?: AbortSignal;
+  onStateChange?: (state: NFCScanState) => void;
+}
+
+export interface ContinuousScanOptions extends NFCScanOptions {
+  onReading: (reading: NFCTagReading) => void;
+  // Unreadable taps are reported here and scanning continues
+  onReadError?: (error: Error) => void;
+}
+
+export interface NFCScanSession {
+  getState(): NFCScanState;
+  cancel(): void;
+}
+
+// A session owns one reader scan from start to a single terminal state. Every
+// exit path aborts the reader, which also detaches its listeners, and clears
+// the timer, so nothing fires after the session has ended.
+function createSession(
+  options: NFCScanOptions,
+  continuous: boolean,
+  onReading: (reading: NFCTagReading) => void,
+  onReadError: (error: Error) => void,
+  onEnd: (state: NFCScanState, error: Error | null) => void
+): NFCScanSession {
+  const controller = new AbortController();
+  const timeoutMs = options.timeoutMs ?? DEFAULT_SCAN_TIMEOUT_MS;
+  let state: NFCScanState = 'idle';
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const setState = (next: NFCScanState) => {
+    state = next;
+    options.onStateChange?.(next);
+  };
+
+  const isActive = () => state === 'idle' || state === 'scanning';
+
+  const finish = (next: NFCScanState, error: Error | null) => {
+    if (!isActive()) return;
+
+    if (timer) clearTimeout(timer);
+    options.signal?.removeEventListener('abort', cancel);
+    controller.abort();
+    setState(next);
+    onEnd(next, error);
+  };
+
+  const armTimer = () => {
+    if (timer) clearTimeout(timer);
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => finish('timedOut', new Error('NFC read timeout')), timeoutMs);
+    }
+  };
+
+  const cancel = () => finish('cancelled', new Error('NFC scan cancelled'));
+
+  if (options.signal?.aborted) {
+    cancel();
+    return { getState: () => state, cancel };
+  }
+  options.signal?.addEventListener('abort', cancel, { once: true });
+
+  setState('scanning');
+  armTimer();
+
+  getNFCAdapter()
+    .scan({
+      signal: controller.signal,
+      onReading: (reading) => {
+        if (!isActive()) return;
+
+        if (continuous) {
+          armTimer();
+          onReading(reading);
+        } else {
+          finish('read', null);
+          onReading(reading);
+        }
+      },
+      onError: (error) => {
+        if (!isActive()) return;
+
+        if (continuous) {
+          onReadError(error);
+        } else {
+          finish('failed', error);
+        }
+      },
+    })
+    .catch((error: Error) => finish('failed', error));
+
+  return { getState: () => state, cancel };
+}
+
+// Resolves with the first tag read, or rejects when the session is cancelled,
+// times out or fails.
+export function scanOnce(options: NFCScanOptions = {}): Promise<NFCTagReading> {
+  return new Promise((resolve, reject) => {
+    createSession(
+      options,
+      false,
+      resolve,
+      () => {},
+      (_state, error) => {
+        if (error) reject(error);
+      }
+    );
+  });
+}
+
+// Keeps reporting taps until cancelled, e.g. for a terminal serving a queue of
+// customers. `onEnd` receives the terminal state and any error.
+export function startContinuousScan(
+  options: ContinuousScanOptions,
+  onEnd?: (state: NFCScanState, error: Error | null) => void
+): NFCScanSession {
+  return createSession(
+    options,
+    true,
+    options.onReading,
+    options.onReadError ?? (() => {}),
+    (state, error) => onEnd?.(state, error)
+  );
+}
@@ -0,0 +1,41 @@
+// The server only ever sees PIN hashes, so strength rules are enforced here,
+// before hashing, wherever a PIN is chosen.
+const COMMON_PINS = new Set([
+  '1004', '1122', '2580', '5683', '0852', '112233', '123321', '147258', '159753', '789456',
+]);
+
+const isSequence = (digits: number[], step: number) =>
+  digits.every((digit, i) => i === 0 || digit === (digits[i - 1] + step + 10) % 10);
+
+// Returns why the PIN is too easy to guess, or null if it is acceptable
+export function getPinWeakness(pin: string): string | null {
+  if (!/^\d{4,6}$/.test(pin)) {
+    return 'PIN must be 4 to 6 digits';
+  }
+
+  const digits = pin.split('').map(Number);
+
+  if (new Set(digits).size === 1) {
+    return 'PIN cannot repeat a single digit';
+  }
+
+  if (isSequence(digits, 1) || isSequence(digits, -1)) {
+    return 'PIN cannot be a run of consecutive digits';
+  }
+
+  // Repeated blocks such as 1212, 123123 or 121212
+  if (/^(\d{1,3})\1+$/.test(pin)) {
+    return 'PIN cannot repeat a short pattern';
+  }
+
+  // Years people commonly pick, e.g. a birth year
+  if (pin.length === 4 && /^(19|20)\d\d$/.test(pin)) {
+    return 'PIN cannot be a year';
+  }
+
+  if (COMMON_PINS.has(pin)) {
+    return 'PIN is too common';
+  }
+
+  return null;
+}
@@ -0,0 +1,54 @@
+export type SecuritySeverity = 'low' | 'medium' | 'high' | 'critical';
+
+// Events the client reports, with the metadata each must carry. The server
+// accepts only these types (`client_security_event_severity`), checks their
+// metadata (`client_security_event_metadata_valid`) and never lets a severity
+// drop below the default here; everything else is logged in the database.
+export interface SecurityEventMetadata {
+  user_signup: Record<string, never>;
+  user_signin: { method: 'password' };
+  user_signout: { scope: 'this_device' | 'everywhere' };
+  idle_lock_engaged: { idle_minutes: number };
+  idle_lock_released: Record<string, never>;
+  mfa_challenge_failed: { purpose: 'sign_in' | 'step_up' };
+  unknown_device_tapped: { device_uid_suffix: string };
+}
+
+export type SecurityEventType = keyof SecurityEventMetadata;
+
+interface SecurityEventDefinition<E extends SecurityEventType> {
+  severity: SecuritySeverity;
+  describe: (metadata: SecurityEventMetadata[E]) => string;
+}
+
+export const SECURITY_EVENTS: { [E in SecurityEventType]: SecurityEventDefinition<E> } = {
+  user_signup: {
+    severity: 'low',
+    describe: () => 'New user account created',
+  },
+  user_signin: {
+    severity: 'low',
+    describe: () => 'User signed in successfully',
+  },
+  user_signout: {
+    severity: 'low',
+    describe: ({ scope }) => (scope === 'everywhere' ? 'User signed out on every device' : 'User signed out'),
+  },
+  idle_lock_engaged: {
+    severity: 'low',
+    describe: ({ idle_minutes }) => `App locked after ${idle_minutes} minutes without activity`,
+  },
+  idle_lock_released: {
+    severity: 'low',
+    describe: () => 'App unlocked with the transaction PIN',
+  },
+  mfa_challenge_failed: {
+    severity: 'medium',
+    describe: ({ purpose }) =>
+      `Invalid authenticator code entered ${purpose === 'sign_in' ? 'at sign-in' : 'to verify a payment'}`,
+  },
+  unknown_device_tapped: {
+    severity: 'medium',
+    describe: ({ device_uid_suffix }) => `Unpaired NFC device ending ${device_uid_suffix} tapped for payment`,
+  },
+};
@@ -0,0 +1,215 @@
+import type { NFCAdapter, NFCScanHandlers } from './nfcAdapter';
+import { NDEFRecordData } from './ndef';
+
+export interface SimulatedTag {
+  serialNumber: string;
+  records: NDEFRecordData[];
+  readOnly: boolean;
+}
+
+// Scripted outcomes delivered, in order, to scans as they start. A `timeout`
+// event stands for a tag that never arrives: delivery stops there and the scan
+// session's own timeout takes over.
+export type SimulatedNFCEvent =
+  | { type: 'tag'; serialNumber: string; records?: NDEFRecordData[] }
+  | { type: 'error'; message?: string }
+  | { type: 'timeout' };
+
+export interface SimulatedNFCState {
+  tags: SimulatedTag[];
+  tagInField: string | null;
+  waiting: number;
+  queued: number;
+}
+
+export interface SimulatedNFC extends NFCAdapter {
+  // Brings a tag to the reader. Tags are remembered by serial number, so a
+  // tag written earlier keeps its records; `records` replaces them. With
+  // `hold` the tag stays in the field (e.g. for write-then-verify) until
+  // `removeTag` is called.
+  tap(serialNumber: string, options?: { records?: NDEFRecordData[]; hold?: boolean }): void;
+  removeTag(): void;
+  fail(message?: string): void;
+  queue(...events: SimulatedNFCEvent[]): void;
+  getTag(serialNumber: string): SimulatedTag | undefined;
+  getState(): SimulatedNFCState;
+  subscribe(listener: () => void): () => void;
+  reset(): void;
+}
+
+interface PendingOperation {
+  resolve: (tag: SimulatedTag) => void;
+  reject: (error: Error) => void;
+}
+
+const toReading = (tag: SimulatedTag) => ({
+  serialNumber: tag.serialNumber,
+  records: tag.records.map(record => ({ ...record, data: record.data.slice() })),
+});
+
+export function createSimulatedNFC(): SimulatedNFC {
+  const tags = new Map<string, SimulatedTag>();
+  const listeners = new Set<() => void>();
+  const scanners = new Set<NFCScanHandlers>();
+  let pending: PendingOperation[] = [];
+  let events: SimulatedNFCEvent[] = [];
+  let tagInField: string | null = null;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const upsertTag = (serialNumber: string, records?: NDEFRecordData[]) => {
+    const tag = tags.get(serialNumber) ?? { serialNumber, records: [], readOnly: false };
+    if (records) tag.records = records;
+    tags.set(serialNumber, tag);
+    return tag;
+  };
+
+  // Writes and read-only locks wait for a tag held in the field or the next tap
+  const acquireTag = (signal?: AbortSignal): Promise<SimulatedTag> => {
+    if (tagInField) {
+      return Promise.resolve(upsertTag(tagInField));
+    }
+
+    return new Promise((resolve, reject) => {
+      const operation: PendingOperation = { resolve, reject };
+      pending.push(operation);
+      notify();
+
+      signal?.addEventListener('abort', () => {
+        if (!pending.includes(operation)) return;
+        pending = pending.filter(p => p !== operation);
+        notify();
+        reject(new Error('NFC operation cancelled'));
+      }, { once: true });
+    });
+  };
+
+  // Feeds scripted events to a newly started scan, then a held tag
+  const deliverQueued = (scanner: NFCScanHandlers) => {
+    while (events.length > 0 && !scanner.signal.aborted) {
+      const event = events.shift()!;
+      notify();
+
+      if (event.type === 'timeout') return;
+      if (event.type === 'error') {
+        scanner.onError(new Error(event.message ?? 'Failed to read NFC tag'));
+      } else {
+        scanner.onReading(toReading(upsertTag(event.serialNumber, event.records)));
+      }
+    }
+
+    if (tagInField && !scanner.signal.aborted) {
+      scanner.onReading(toReading(upsertTag(tagInField)));
+    }
+  };
+
+  const settle = (settleOperation: (operation: PendingOperation) => void) => {
+    const operations = pending;
+    pending = [];
+    operations.forEach(settleOperation);
+  };
+
+  return {
+    isSupported() {
+      return true;
+    },
+
+    async scan(scanner) {
+      if (scanner.signal.aborted) return;
+
+      scanners.add(scanner);
+      scanner.signal.addEventListener('abort', () => {
+        scanners.delete(scanner);
+        notify();
+      }, { once: true });
+      notify();
+
+      // Like a real reader, tags are reported after scan() has resolved
+      setTimeout(() => deliverQueued(scanner), 0);
+    },
+
+    async write(records, signal) {
+      const tag = await acquireTag(signal);
+
+      if (tag.readOnly) {
+        throw new Error('NFC write failed: tag is read-only');
+      }
+
+      tag.records = records.map(record => ({ ...record, data: record.data.slice() }));
+      notify();
+    },
+
+    async makeReadOnly(signal) {
+      const tag = await acquireTag(signal);
+      tag.readOnly = true;
+      notify();
+    },
+
+    tap(serialNumber, options = {}) {
+      const tag = upsertTag(serialNumber, options.records);
+      tagInField = options.hold ? serialNumber : null;
+      settle(operation => operation.resolve(tag));
+      Array.from(scanners).forEach(scanner => scanner.onReading(toReading(tag)));
+      notify();
+    },
+
+    removeTag() {
+      tagInField = null;
+      notify();
+    },
+
+    fail(message = 'Failed to read NFC tag') {
+      settle(operation => operation.reject(new Error(message)));
+      Array.from(scanners).forEach(scanner => scanner.onError(new Error(message)));
+      notify();
+    },
+
+    queue(...scripted) {
+      events.push(...scripted);
+      notify();
+    },
+
+    getTag(serialNumber) {
+      return tags.get(serialNumber);
+    },
+
+    getState() {
+      return {
+        tags: Array.from(tags.values()),
+        tagInField,
+        waiting: scanners.size + pending.length,
+        queued: events.length,
+      };
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    reset() {
+      settle(operation => operation.reject(new Error('NFC reader reset')));
+      tags.clear();
+      events = [];
+      tagInField = null;
+      notify();
+    },
+  };
+}
+
+let simulator: SimulatedNFC | null = null;
+
+// Shared instance used when the simulated backend is selected. In development
+// it is also exposed as `window.nfcSimulator` so browser tests can script taps.
+export function getSimulatedNFC(): SimulatedNFC {
+  if (!simulator) {
+    simulator = createSimulatedNFC();
+
+    if (import.meta.env.DEV) {
+      (window as unknown as { nfcSimulator: SimulatedNFC }).nfcSimulator = simulator;
+    }
+  }
+  return simulator;
+}
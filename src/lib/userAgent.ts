@@ -0,0 +1,26 @@
+// Coarse browser and platform names for listing sign-ins; order matters because
+// most user agents also name the engines they are compatible with
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const PLATFORMS: [RegExp, string][] = [
+  [/Android/, 'Android'],
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+export function describeUserAgent(userAgent: string | null): { browser: string; platform: string } {
+  const match = (patterns: [RegExp, string][]) =>
+    patterns.find(([pattern]) => userAgent && pattern.test(userAgent))?.[1] ?? 'Unknown';
+
+  return { browser: match(BROWSERS), platform: match(PLATFORMS) };
+}
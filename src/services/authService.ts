@@ -1,14 +1,34 @@
 import { supabase } from '../lib/supabase';
-import { hashPin } from '../lib/crypto';
+import { hashPin, derivePinProof } from '../lib/crypto';
+import { getPinWeakness } from '../lib/pinPolicy';
+import { setIdleLocked } from '../lib/idleLock';
+import { recordSecurityEvent } from './securityService';
 
 export interface AuthUser {
   id: string;
   email: string;
   dailyLimit: number;
+  baseCurrency: string;
   status: string;
+  lockedAt: string | null;
+  lockedUntil: string | null;
+  lockReason: string | null;
+  pinChangedAt: string | null;
+  pinResetHoldUntil: string | null;
+  pinResetHoldLimit: number | null;
+}
+
+// Raised when the server refuses an attempt until `retryAfter`
+export class AuthThrottledError extends Error {
+  constructor(message: string, public readonly retryAfter: Date) {
+    super(message);
+    this.name = 'AuthThrottledError';
+  }
 }
 
 export async function signUp(email: string, password: string, pin: string) {
+  assertStrongPin(pin);
+
   const { data: authData, error: authError } = await supabase.auth.signUp({
     email,
     password,
@@ -25,62 +45,59 @@ export async function signUp(email: string, password: string, pin: string) {
       id: authData.user.id,
       email,
       pin_hash: pinHash,
-      daily_limit: 1000.00,
       status: 'active',
     });
 
   if (profileError) throw profileError;
 
-  await logSecurityEvent(
-    authData.user.id,
-    'user_signup',
-    'low',
-    'New user account created'
-  );
+  setIdleLocked(false);
+
+  recordSecurityEvent('user_signup', {}, { userId: authData.user.id });
 
   return authData;
 }
 
 export async function signIn(email: string, password: string) {
+  await beginPasswordSignIn(email);
+
   const { data, error } = await supabase.auth.signInWithPassword({
     email,
     password,
   });
 
+  // Failures are counted by the server's password verification hook, which
+  // reports how long the account or IP address must wait in its rejection message
   if (error) {
-    if (data?.user?.id) {
-      await incrementFailedAuthAttempts(data.user.id);
+    const wait = error.message.match(/try again in (\d+) seconds/i);
+    if (wait) {
+      throw new AuthThrottledError(error.message, new Date(Date.now() + Number(wait[1]) * 1000));
     }
     throw error;
   }
 
+  // Entering the password is stronger proof than the PIN the idle lock asks for
+  setIdleLocked(false);
+
   if (data.user) {
-    await resetFailedAuthAttempts(data.user.id);
-    await logSecurityEvent(
-      data.user.id,
-      'user_signin',
-      'low',
-      'User signed in successfully'
-    );
+    recordSecurityEvent('user_signin', { method: 'password' }, { userId: data.user.id });
   }
 
   return data;
 }
 
-export async function signOut() {
+// Queued events are written while the session can still attribute them
+export async function signOut(scope: 'this_device' | 'everywhere' = 'this_device') {
   const { data: { user } } = await supabase.auth.getUser();
 
-  if (user) {
-    await logSecurityEvent(
-      user.id,
-      'user_signout',
-      'low',
-      'User signed out'
-    );
-  }
+  // A rejected event is reported after signing out, not instead of it
+  const recorded = user
+    ? await recordSecurityEvent('user_signout', { scope }, { userId: user.id }).then(() => null, (err: Error) => err)
+    : null;
 
-  const { error } = await supabase.auth.signOut();
+  // supabase-js signs out every session unless told otherwise
+  const { error } = await supabase.auth.signOut({ scope: scope === 'everywhere' ? 'global' : 'local' });
   if (error) throw error;
+  if (recorded) throw recorded;
 }
 
 export async function getCurrentUser(): Promise<AuthUser | null> {
@@ -88,9 +105,12 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
 
   if (!user) return null;
 
+  const { error: releaseError } = await supabase.rpc('release_expired_account_lock');
+  if (releaseError) throw releaseError;
+
   const { data, error } = await supabase
     .from('users')
-    .select('id, email, daily_limit, status')
+    .select('id, email, daily_limit, base_currency, status, locked_at, locked_until, lock_reason, pin_changed_at, pin_reset_hold_until, pin_reset_hold_limit')
     .eq('id', user.id)
     .maybeSingle();
 
@@ -101,96 +121,175 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
     id: data.id,
     email: data.email,
     dailyLimit: data.daily_limit,
+    baseCurrency: data.base_currency,
     status: data.status,
+    lockedAt: data.locked_at,
+    lockedUntil: data.locked_until,
+    lockReason: data.lock_reason,
+    pinChangedAt: data.pin_changed_at,
+    pinResetHoldUntil: data.pin_reset_hold_until,
+    pinResetHoldLimit: data.pin_reset_hold_limit !== null ? Number(data.pin_reset_hold_limit) : null,
   };
 }
 
-export async function verifyPin(userId: string, pin: string): Promise<boolean> {
-  const pinHash = await hashPin(pin);
+// Emails a sign-in link; opening it yields a session the server accepts as
+// proof of the address in unlockWithVerifiedEmail
+export async function sendUnlockEmail(email: string) {
+  const redirectTo = new URL(window.location.href);
+  redirectTo.searchParams.set('unlock', 'email');
 
-  const { data, error } = await supabase
-    .from('users')
-    .select('pin_hash')
-    .eq('id', userId)
-    .maybeSingle();
+  const { error } = await supabase.auth.signInWithOtp({
+    email,
+    options: {
+      shouldCreateUser: false,
+      emailRedirectTo: redirectTo.toString(),
+    },
+  });
+
+  if (error) throw error;
+}
+
+export async function unlockWithVerifiedEmail() {
+  const { error } = await supabase.rpc('unlock_account_with_email');
+
+  if (error) throw error;
+}
+
+// Actions the server only performs with a PIN token issued for them
+export type PinPurpose = 'payment' | 'confirm_payment' | 'pair_device' | 'reactivate_device' | 'raise_limits';
+
+// The server compares the PIN proof with the stored hash and throttles failed
+// attempts, so the hash never leaves the database
+export async function verifyPin(pin: string): Promise<boolean> {
+  return (await submitPin(pin, null)) !== null;
+}
+
+// Returns a single-use token for one action of the given kind, valid for five
+// minutes; the PIN is checked exactly as in verifyPin
+export async function confirmPin(pin: string, purpose: PinPurpose): Promise<string> {
+  const result = await submitPin(pin, purpose);
+  if (!result?.token) throw new Error('Invalid PIN');
+
+  return result.token;
+}
+
+export async function changePin(currentPin: string, newPin: string) {
+  if (newPin === currentPin) {
+    throw new Error('New PIN must be different from the current PIN');
+  }
+
+  assertStrongPin(newPin);
+
+  const { data: result, error } = await supabase.rpc('update_pin_hash', {
+    p_pin_proof: await getPinProof(currentPin),
+    p_pin_hash: await hashPin(newPin),
+    p_reason: 'change',
+  });
+
+  if (error) throw error;
+
+  if (!checkPinResult(result)) {
+    throw new Error('Current PIN is incorrect');
+  }
+}
+
+// Signing in again with the password gives the server proof of a fresh
+// re-authentication; high-value payments are then held for a waiting period
+export async function resetPin(email: string, password: string, newPin: string) {
+  assertStrongPin(newPin);
+  await beginPasswordSignIn(email);
+
+  const { error: authError } = await supabase.auth.signInWithPassword({ email, password });
+  if (authError) throw new Error('Account password is incorrect');
+
+  const { error } = await supabase.rpc('reset_pin', {
+    p_pin_hash: await hashPin(newPin),
+  });
+
+  if (error) throw error;
+}
+
+function assertStrongPin(pin: string) {
+  const weakness = getPinWeakness(pin);
+  if (weakness) throw new Error(weakness);
+}
 
-  if (error || !data) {
-    await logSecurityEvent(
-      userId,
-      'pin_verification_failed',
-      'medium',
-      'PIN verification failed'
-    );
-    return false;
+interface PinCheckResult {
+  valid: boolean;
+  locked: boolean;
+  throttled?: boolean;
+  retry_after: string | null;
+  needs_rehash?: boolean;
+  token?: string | null;
+}
+
+async function submitPin(pin: string, purpose: PinPurpose | null): Promise<PinCheckResult | null> {
+  const proof = await getPinProof(pin);
+
+  const { data: result, error } = await supabase.rpc('verify_pin', {
+    p_pin_proof: proof,
+    p_purpose: purpose,
+  });
+
+  if (error) throw error;
+
+  if (!checkPinResult(result)) {
+    return null;
   }
 
-  const isValid = data.pin_hash === pinHash;
+  if (result.needs_rehash) {
+    await upgradePinHash(proof, pin);
+  }
 
-  if (!isValid) {
-    await incrementFailedAuthAttempts(userId);
-    await logSecurityEvent(
-      userId,
-      'invalid_pin',
-      'high',
-      'Invalid PIN entered'
-    );
+  return result;
+}
+
+// The password verification hook only accepts a check the app registered
+// here, which is refused while the client's IP address is backing off
+async function beginPasswordSignIn(email: string) {
+  const { data, error } = await supabase.rpc('begin_password_sign_in', { p_email: email });
+  if (error) throw error;
+
+  if (!data.allowed) {
+    const retryAfter = new Date(data.retry_after);
+    const seconds = Math.ceil((retryAfter.getTime() - Date.now()) / 1000);
+    throw new AuthThrottledError(`Too many failed sign-in attempts. Try again in ${seconds} seconds.`, retryAfter);
   }
+}
 
-  return isValid;
+async function getPinProof(pin: string): Promise<string> {
+  const { data: params, error } = await supabase.rpc('get_pin_parameters');
+  if (error) throw error;
+
+  return derivePinProof(pin, params);
 }
 
-async function incrementFailedAuthAttempts(userId: string) {
-  const { data } = await supabase
-    .from('users')
-    .select('failed_auth_attempts')
-    .eq('id', userId)
-    .maybeSingle();
+// Throws while the account is locked or throttled; otherwise whether the PIN matched
+function checkPinResult(result: PinCheckResult): boolean {
+  const retryAfter = result.retry_after ? new Date(result.retry_after) : null;
 
-  const attempts = (data?.failed_auth_attempts || 0) + 1;
+  if (result.locked) {
+    throw new AuthThrottledError('Your account is locked after too many incorrect PINs', retryAfter ?? new Date());
+  }
 
-  await supabase
-    .from('users')
-    .update({
-      failed_auth_attempts: attempts,
-      last_failed_auth: new Date().toISOString(),
-      status: attempts >= 5 ? 'locked' : 'active',
-    })
-    .eq('id', userId);
-
-  if (attempts >= 5) {
-    await logSecurityEvent(
-      userId,
-      'account_locked',
-      'critical',
-      `Account locked after ${attempts} failed attempts`
-    );
+  if (retryAfter) {
+    const seconds = Math.ceil((retryAfter.getTime() - Date.now()) / 1000);
+    const message = result.throttled ? 'Too many incorrect PINs' : 'Invalid PIN';
+    throw new AuthThrottledError(`${message}. Try again in ${seconds} seconds.`, retryAfter);
   }
+
+  return result.valid;
 }
 
-async function resetFailedAuthAttempts(userId: string) {
-  await supabase
-    .from('users')
-    .update({
-      failed_auth_attempts: 0,
-      last_failed_auth: null,
-    })
-    .eq('id', userId);
-}
-
-async function logSecurityEvent(
-  userId: string,
-  eventType: string,
-  severity: string,
-  description: string
-) {
-  await supabase
-    .from('security_logs')
-    .insert({
-      user_id: userId,
-      event_type: eventType,
-      severity,
-      description,
-      ip_address: null,
-      metadata: {},
-    });
+// The server only accepts the rehash with a proof of the PIN it replaces
+async function upgradePinHash(proof: string, pin: string) {
+  const { error } = await supabase.rpc('update_pin_hash', {
+    p_pin_proof: proof,
+    p_pin_hash: await hashPin(pin),
+    p_reason: 'upgrade',
+  });
+
+  if (error) {
+    console.error('Failed to upgrade PIN hash:', error);
+  }
 }
@@ -0,0 +1,42 @@
+import { supabase } from '../lib/supabase';
+
+export interface Currency {
+  code: string;
+  name: string;
+  minorUnits: number;
+  unitsPerUsd: number;
+}
+
+export async function getCurrencies(): Promise<Currency[]> {
+  const { data, error } = await supabase
+    .from('currencies')
+    .select('code, name, minor_units, units_per_usd')
+    .eq('is_active', true)
+    .order('code');
+
+  if (error) throw error;
+
+  return data.map(c => ({
+    code: c.code,
+    name: c.name,
+    minorUnits: c.minor_units,
+    unitsPerUsd: Number(c.units_per_usd),
+  }));
+}
+
+// Indicative conversion for display only; the authoritative base amount is
+// computed by `authorize_transaction` from the same rate table.
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  currencies: Currency[]
+): number | null {
+  if (from === to) return amount;
+
+  const source = currencies.find(c => c.code === from);
+  const target = currencies.find(c => c.code === to);
+  if (!source || !target) return null;
+
+  return amount * (target.unitsPerUsd / source.unitsPerUsd);
+}
@@ -0,0 +1,138 @@
+import { supabase } from '../lib/supabase';
+
+export type LimitWindow = 'calendar' | 'rolling';
+
+export interface LimitSettings {
+  perTransactionLimit: number | null;
+  dailyLimit: number;
+  weeklyLimit: number | null;
+  monthlyLimit: number | null;
+  limitWindow: LimitWindow;
+  timezone: string;
+}
+
+// Loosened settings waiting out the delay; only the settings that change are present
+export interface PendingLimitChange {
+  id: string;
+  changes: Partial<LimitSettings>;
+  requestedAt: string;
+  effectiveAt: string;
+}
+
+export interface SpendingLimits extends LimitSettings {
+  baseCurrency: string;
+  spentDay: number;
+  spentWeek: number;
+  spentMonth: number;
+  pendingChange: PendingLimitChange | null;
+}
+
+export interface LimitChangeResult {
+  applied: Partial<LimitSettings>;
+  pendingChange: PendingLimitChange | null;
+}
+
+export async function getSpendingLimits(): Promise<SpendingLimits> {
+  const { data, error } = await supabase.rpc('get_spending_limits');
+
+  if (error) throw error;
+
+  return {
+    baseCurrency: data.base_currency,
+    perTransactionLimit: toLimit(data.per_transaction_limit),
+    dailyLimit: Number(data.daily_limit),
+    weeklyLimit: toLimit(data.weekly_limit),
+    monthlyLimit: toLimit(data.monthly_limit),
+    limitWindow: data.limit_window,
+    timezone: data.timezone,
+    spentDay: Number(data.spent_day),
+    spentWeek: Number(data.spent_week),
+    spentMonth: Number(data.spent_month),
+    pendingChange: data.pending_change ? mapPendingChange(data.pending_change) : null,
+  };
+}
+
+// Tighter settings apply at once; looser ones (and window or time zone changes)
+// replace any pending change and take effect after the server-side delay. They
+// need a token from confirmPin(pin, 'raise_limits')
+export async function requestSpendingLimits(
+  settings: LimitSettings,
+  pinToken: string | null
+): Promise<LimitChangeResult> {
+  const { data, error } = await supabase.rpc('request_spending_limits', {
+    p_per_transaction_limit: settings.perTransactionLimit,
+    p_daily_limit: settings.dailyLimit,
+    p_weekly_limit: settings.weeklyLimit,
+    p_monthly_limit: settings.monthlyLimit,
+    p_limit_window: settings.limitWindow,
+    p_timezone: settings.timezone,
+    p_pin_token: pinToken,
+  });
+
+  if (error) throw error;
+
+  return {
+    applied: mapSettings(data.applied),
+    pendingChange: data.pending ? mapPendingChange(data.pending) : null,
+  };
+}
+
+export async function cancelSpendingLimitChange() {
+  const { error } = await supabase.rpc('cancel_spending_limit_change');
+
+  if (error) throw error;
+}
+
+// True when moving from `current` to `requested` loosens anything, so the
+// request will be held back and should be confirmed with the PIN
+export function isLimitIncrease(current: LimitSettings, requested: LimitSettings): boolean {
+  const raised = (from: number | null, to: number | null) => from !== null && (to === null || to > from);
+
+  return raised(current.perTransactionLimit, requested.perTransactionLimit)
+    || raised(current.dailyLimit, requested.dailyLimit)
+    || raised(current.weeklyLimit, requested.weeklyLimit)
+    || raised(current.monthlyLimit, requested.monthlyLimit)
+    || current.limitWindow !== requested.limitWindow
+    || current.timezone !== requested.timezone;
+}
+
+interface LimitSettingsRow {
+  per_transaction_limit?: number | string | null;
+  daily_limit?: number | string | null;
+  weekly_limit?: number | string | null;
+  monthly_limit?: number | string | null;
+  limit_window?: LimitWindow;
+  timezone?: string;
+}
+
+interface PendingLimitChangeRow {
+  id: string;
+  changes: LimitSettingsRow;
+  requested_at: string;
+  effective_at: string;
+}
+
+const toLimit = (value: number | string | null) => (value !== null ? Number(value) : null);
+
+// Only keys present in the row are mapped, so partial change sets stay partial
+function mapSettings(row: LimitSettingsRow): Partial<LimitSettings> {
+  const settings: Partial<LimitSettings> = {};
+
+  if (row.per_transaction_limit !== undefined) settings.perTransactionLimit = toLimit(row.per_transaction_limit);
+  if (row.daily_limit !== undefined && row.daily_limit !== null) settings.dailyLimit = Number(row.daily_limit);
+  if (row.weekly_limit !== undefined) settings.weeklyLimit = toLimit(row.weekly_limit);
+  if (row.monthly_limit !== undefined) settings.monthlyLimit = toLimit(row.monthly_limit);
+  if (row.limit_window !== undefined) settings.limitWindow = row.limit_window;
+  if (row.timezone !== undefined) settings.timezone = row.timezone;
+
+  return settings;
+}
+
+function mapPendingChange(row: PendingLimitChangeRow): PendingLimitChange {
+  return {
+    id: row.id,
+    changes: mapSettings(row.changes),
+    requestedAt: row.requested_at,
+    effectiveAt: row.effective_at,
+  };
+}
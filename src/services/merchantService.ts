@@ -0,0 +1,192 @@
+import { supabase } from '../lib/supabase';
+import { PaymentRequest, parsePaymentRequest, toPaymentRequestPayload } from '../lib/ndef';
+
+export type MerchantVerificationStatus = 'unverified' | 'verified' | 'suspended';
+
+export type MerchantTagStatus = 'pending' | 'active' | 'revoked';
+
+export interface Merchant {
+  id: string;
+  name: string;
+  categoryCode: string;
+  verificationStatus: MerchantVerificationStatus;
+  city: string | null;
+  country: string | null;
+}
+
+export interface MerchantTag {
+  id: string;
+  merchantId: string;
+  amount: number | null;
+  currency: string;
+  tagUid: string | null;
+  status: MerchantTagStatus;
+  isReadOnly: boolean;
+  createdAt: string;
+  activatedAt: string | null;
+}
+
+export async function searchMerchants(query: string): Promise<Merchant[]> {
+  let request = supabase
+    .from('merchants')
+    .select('id, name, category_code, verification_status, city, country')
+    .neq('verification_status', 'suspended')
+    .order('name')
+    .limit(10);
+
+  const term = query.trim();
+  if (term) {
+    // Escape LIKE wildcards so the user's text is matched literally
+    request = request.ilike('name', `%${term.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+  }
+
+  const { data, error } = await request;
+
+  if (error) throw error;
+
+  return data.map(mapMerchant);
+}
+
+export async function getMerchant(merchantId: string): Promise<Merchant | null> {
+  const { data, error } = await supabase
+    .from('merchants')
+    .select('id, name, category_code, verification_status, city, country')
+    .eq('id', merchantId)
+    .neq('verification_status', 'suspended')
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? mapMerchant(data) : null;
+}
+
+// Merchants the current user may provision payment tags for
+export async function getOperatedMerchants(userId: string): Promise<Merchant[]> {
+  const { data, error } = await supabase
+    .from('merchant_operators')
+    .select('merchants(id, name, category_code, verification_status, city, country)')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+
+  return (data as unknown as { merchants: MerchantRow | null }[])
+    .filter(o => o.merchants !== null)
+    .map(o => mapMerchant(o.merchants as MerchantRow));
+}
+
+export async function getMerchantTags(merchantId: string): Promise<MerchantTag[]> {
+  const { data, error } = await supabase
+    .from('merchant_tags')
+    .select('*')
+    .eq('merchant_id', merchantId)
+    .neq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+
+  return data.map(mapMerchantTag);
+}
+
+// The server issues and signs the request; it only becomes payable once
+// `activateMerchantTag` records the tag it was written to.
+export async function createMerchantTag(
+  merchantId: string,
+  amount: number | null,
+  currency: string
+): Promise<PaymentRequest> {
+  const { data, error } = await supabase.rpc('create_merchant_tag', {
+    p_merchant_id: merchantId,
+    p_amount: amount,
+    p_currency: currency,
+  });
+
+  if (error) throw error;
+
+  return parsePaymentRequest(new TextEncoder().encode(JSON.stringify(data)));
+}
+
+export async function activateMerchantTag(
+  nonce: string,
+  tagUid: string,
+  readOnly: boolean
+): Promise<MerchantTag> {
+  const { data, error } = await supabase.rpc('activate_merchant_tag', {
+    p_nonce: nonce,
+    p_tag_uid: tagUid,
+    p_read_only: readOnly,
+  });
+
+  if (error) throw error;
+
+  return mapMerchantTag(data);
+}
+
+export async function revokeMerchantTag(tagId: string): Promise<MerchantTag> {
+  const { data, error } = await supabase.rpc('revoke_merchant_tag', {
+    p_tag_id: tagId,
+  });
+
+  if (error) throw error;
+
+  return mapMerchantTag(data);
+}
+
+// Rejections are recorded in security_logs by the server
+export async function verifyPaymentRequest(
+  request: PaymentRequest,
+  tagUid: string
+): Promise<boolean> {
+  const { data, error } = await supabase.rpc('verify_payment_request', {
+    p_request: toPaymentRequestPayload(request),
+    p_tag_uid: tagUid,
+  });
+
+  if (error) throw error;
+  return data === true;
+}
+
+interface MerchantRow {
+  id: string;
+  name: string;
+  category_code: string;
+  verification_status: MerchantVerificationStatus;
+  city: string | null;
+  country: string | null;
+}
+
+function mapMerchant(m: MerchantRow): Merchant {
+  return {
+    id: m.id,
+    name: m.name,
+    categoryCode: m.category_code,
+    verificationStatus: m.verification_status,
+    city: m.city,
+    country: m.country,
+  };
+}
+
+interface MerchantTagRow {
+  id: string;
+  merchant_id: string;
+  amount: number | string | null;
+  currency: string;
+  tag_uid: string | null;
+  status: MerchantTagStatus;
+  is_read_only: boolean;
+  created_at: string;
+  activated_at: string | null;
+}
+
+function mapMerchantTag(t: MerchantTagRow): MerchantTag {
+  return {
+    id: t.id,
+    merchantId: t.merchant_id,
+    amount: t.amount === null ? null : Number(t.amount),
+    currency: t.currency,
+    tagUid: t.tag_uid,
+    status: t.status,
+    isReadOnly: t.is_read_only,
+    createdAt: t.created_at,
+    activatedAt: t.activated_at,
+  };
+}
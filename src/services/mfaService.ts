@@ -0,0 +1,141 @@
+import { supabase } from '../lib/supabase';
+import { AuthThrottledError } from './authService';
+import { recordSecurityEvent } from './securityService';
+
+export type BackupCodePurpose = 'sign_in' | 'step_up';
+
+export interface MfaSettings {
+  enabled: boolean;
+  factorId: string | null;
+  backupCodesRemaining: number;
+  paymentThreshold: number | null;
+}
+
+export interface TotpEnrollment {
+  factorId: string;
+  qrCode: string;
+  secret: string;
+}
+
+// Raised by the server when a payment needs a fresh authenticator code
+const STEP_UP_REQUIRED = 'Two-factor verification required';
+
+export function isStepUpRequired(error: unknown): boolean {
+  return error instanceof Error && error.message.startsWith(STEP_UP_REQUIRED);
+}
+
+export async function getMfaSettings(): Promise<MfaSettings> {
+  const { data, error } = await supabase.rpc('get_mfa_settings');
+  if (error) throw error;
+
+  return {
+    enabled: data.enabled,
+    factorId: await getVerifiedFactorId(),
+    backupCodesRemaining: Number(data.backup_codes_remaining),
+    paymentThreshold: data.payment_threshold !== null ? Number(data.payment_threshold) : null,
+  };
+}
+
+// True while a session signed in with a password still owes an authenticator code
+export async function isMfaChallengePending(): Promise<boolean> {
+  const { data, error } = await supabase.auth.mfa.getAuthenticatorAssuranceLevel();
+  if (error) throw error;
+
+  return data.currentLevel === 'aal1' && data.nextLevel === 'aal2';
+}
+
+export async function startTotpEnrollment(): Promise<TotpEnrollment> {
+  // An abandoned enrollment leaves an unverified factor behind
+  const { data: factors, error: listError } = await supabase.auth.mfa.listFactors();
+  if (listError) throw listError;
+
+  for (const factor of factors.all.filter(f => f.status === 'unverified')) {
+    await supabase.auth.mfa.unenroll({ factorId: factor.id });
+  }
+
+  const { data, error } = await supabase.auth.mfa.enroll({
+    factorType: 'totp',
+    friendlyName: 'Authenticator app',
+  });
+
+  if (error) throw error;
+
+  return {
+    factorId: data.id,
+    qrCode: data.totp.qr_code,
+    secret: data.totp.secret,
+  };
+}
+
+// Verifying the first code activates the factor and raises the session to aal2,
+// which the server requires before it issues backup codes
+export async function confirmTotpEnrollment(factorId: string, code: string): Promise<string[]> {
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) throw new Error('That code is not valid. Check the time on your device and try again.');
+
+  return generateBackupCodes();
+}
+
+export async function generateBackupCodes(): Promise<string[]> {
+  const { data, error } = await supabase.rpc('generate_mfa_backup_codes');
+  if (error) throw error;
+
+  return data;
+}
+
+export async function disableTotp(factorId: string) {
+  const { error } = await supabase.auth.mfa.unenroll({ factorId });
+  if (error) throw error;
+
+  await supabase.auth.refreshSession();
+}
+
+// Used both to finish signing in and as step-up before sensitive payments
+export async function verifyTotp(code: string, purpose: BackupCodePurpose) {
+  const factorId = await getVerifiedFactorId();
+  if (!factorId) throw new Error('Two-factor authentication is not enabled');
+
+  const { error } = await supabase.auth.mfa.challengeAndVerify({ factorId, code });
+  if (error) {
+    recordSecurityEvent('mfa_challenge_failed', { purpose });
+    throw new Error('Invalid authenticator code');
+  }
+}
+
+export async function redeemBackupCode(code: string, purpose: BackupCodePurpose) {
+  const { data, error } = await supabase.rpc('redeem_mfa_backup_code', {
+    p_code: code,
+    p_purpose: purpose,
+  });
+
+  if (error) throw error;
+
+  if (data.retry_after) {
+    const retryAfter = new Date(data.retry_after);
+    const seconds = Math.ceil((retryAfter.getTime() - Date.now()) / 1000);
+    const message = data.throttled ? 'Too many invalid backup codes' : 'Invalid backup code';
+    throw new AuthThrottledError(`${message}. Try again in ${seconds} seconds.`, retryAfter);
+  }
+
+  if (!data.valid) throw new Error('Invalid backup code');
+
+  // Recovery removes the authenticator; a refreshed session no longer expects aal2
+  if (purpose === 'sign_in') {
+    await supabase.auth.refreshSession();
+  }
+}
+
+export async function setPaymentThreshold(threshold: number | null) {
+  const { error } = await supabase.rpc('set_mfa_payment_threshold', {
+    p_threshold: threshold,
+  });
+
+  if (error) throw error;
+}
+
+async function getVerifiedFactorId(): Promise<string | null> {
+  const { data, error } = await supabase.auth.mfa.listFactors();
+  if (error) throw error;
+
+  return data.totp[0]?.id ?? null;
+}
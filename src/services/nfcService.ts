@@ -1,4 +1,14 @@
 import { supabase } from '../lib/supabase';
+import { getNFCAdapter, NFCTagReading } from '../lib/nfcAdapter';
+import { NFCScanOptions, scanOnce } from '../lib/nfcSession';
+import {
+  encodePaymentRequest,
+  findPaymentRequest,
+  findSunMessage,
+  NDEFRecordData,
+  PaymentRequest,
+  toPaymentRequestPayload,
+} from '../lib/ndef';
 
 export interface NFCDevice {
   id: string;
@@ -7,149 +17,294 @@ export interface NFCDevice {
   deviceName: string;
   isActive: boolean;
   lastUsed: string | null;
+  pairedAt: string;
+  coolingOffUntil: string | null;
+  coolingOffLimit: number | null;
+  reportedStatus: DeviceReportStatus | null;
+  reportedAt: string | null;
+  // Taps of a stolen device's UID since it was reported
+  stolenTapAttempts: number;
+  lastStolenTapAt: string | null;
+  controls: DeviceControls;
+}
+
+// Limits are in the account's base currency; null means only the account
+// limits apply. Times are `HH:MM` in `activeHoursTimezone`.
+export interface DeviceControls {
+  perTransactionLimit: number | null;
+  dailyLimit: number | null;
+  monthlyLimit: number | null;
+  allowedCategories: string[] | null;
+  blockedCategories: string[];
+  activeHoursStart: string | null;
+  activeHoursEnd: string | null;
+  activeHoursTimezone: string | null;
+}
+
+export type DeviceReportStatus = 'lost' | 'stolen';
+
+export function isCoolingOff(device: NFCDevice): boolean {
+  return device.coolingOffUntil !== null && new Date(device.coolingOffUntil) > new Date();
 }
 
 export async function checkNFCSupport(): Promise<boolean> {
-  if (!('NDEFReader' in window)) {
-    return false;
-  }
-  return true;
+  return getNFCAdapter().isSupported();
 }
 
-export async function registerNFCDevice(
-  userId: string,
-  deviceUid: string,
-  deviceName: string
-): Promise<NFCDevice> {
-  const { data, error } = await supabase
-    .from('nfc_devices')
-    .insert({
-      user_id: userId,
-      device_uid: deviceUid,
-      device_name: deviceName,
-      is_active: true,
-    })
-    .select()
-    .single();
+export interface PairDeviceRequest {
+  deviceUid: string;
+  deviceName: string;
+  tagAuthenticationId: string | null;
+  // Hours during which payments above `coolingOffLimit` (base currency) are refused
+  coolingOffHours: number;
+  coolingOffLimit: number | null;
+  // From confirmPin(pin, 'pair_device')
+  pinToken: string;
+}
 
-  if (error) throw error;
+// Devices can only be created through pairing, which the server logs and,
+// for Secure Unique NFC tags, ties to a fresh tag authentication.
+export async function pairNFCDevice(request: PairDeviceRequest): Promise<NFCDevice> {
+  const { data, error } = await supabase.rpc('pair_nfc_device', {
+    p_device_uid: request.deviceUid,
+    p_device_name: request.deviceName,
+    p_tag_authentication: request.tagAuthenticationId,
+    p_cooling_off_hours: request.coolingOffHours,
+    p_cooling_off_limit: request.coolingOffLimit,
+    p_pin_token: request.pinToken,
+  });
 
-  await logSecurityEvent(
-    userId,
-    'nfc_device_registered',
-    'low',
-    `NFC device registered: ${deviceName}`
-  );
+  if (error) throw error;
+  // Stolen tags are refused without an error so the owner's alert is kept
+  if (!data?.id) throw new Error('This tag has been reported stolen and cannot be paired');
 
-  return {
-    id: data.id,
-    userId: data.user_id,
-    deviceUid: data.device_uid,
-    deviceName: data.device_name,
-    isActive: data.is_active,
-    lastUsed: data.last_used,
-  };
+  return mapDevice(data);
 }
 
 export async function getUserDevices(userId: string): Promise<NFCDevice[]> {
   const { data, error } = await supabase
     .from('nfc_devices')
-    .select('*')
+    .select('*, blocked_device_uids(tap_attempts, last_tap_at)')
     .eq('user_id', userId)
+    .is('removed_at', null)
     .order('created_at', { ascending: false });
 
   if (error) throw error;
 
-  return data.map(d => ({
-    id: d.id,
-    userId: d.user_id,
-    deviceUid: d.device_uid,
-    deviceName: d.device_name,
-    isActive: d.is_active,
-    lastUsed: d.last_used,
-  }));
+  return data.map(mapDevice);
 }
 
-export async function verifyDeviceOwnership(
-  deviceUid: string,
-  userId: string
-): Promise<boolean> {
-  const { data, error } = await supabase
-    .from('nfc_devices')
-    .select('user_id, is_active')
-    .eq('device_uid', deviceUid)
-    .maybeSingle();
+// Returns the caller's active device for a tapped tag. Unpaired, foreign and
+// deactivated tags resolve to null and are logged by the server.
+export async function resolvePaymentDevice(deviceUid: string): Promise<string | null> {
+  const { data, error } = await supabase.rpc('resolve_payment_device', {
+    p_device_uid: deviceUid,
+  });
 
-  if (error || !data) return false;
+  if (error) throw error;
 
-  return data.user_id === userId && data.is_active;
+  return data;
 }
 
-export async function updateDeviceLastUsed(deviceId: string) {
-  await supabase
+export async function renameDevice(deviceId: string, deviceName: string) {
+  const { error } = await supabase
     .from('nfc_devices')
-    .update({ last_used: new Date().toISOString() })
+    .update({ device_name: deviceName })
     .eq('id', deviceId);
+
+  if (error) throw error;
 }
 
-export async function deactivateDevice(deviceId: string, userId: string) {
-  const { error } = await supabase
-    .from('nfc_devices')
-    .update({ is_active: false })
-    .eq('id', deviceId)
-    .eq('user_id', userId);
+// State changes go through server functions, which log them and keep stolen
+// devices blocked; the caller confirms reactivation with the PIN first.
+export async function deactivateDevice(deviceId: string): Promise<NFCDevice> {
+  const { data, error } = await supabase.rpc('deactivate_nfc_device', { p_device_id: deviceId });
+
+  if (error) throw error;
+
+  return mapDevice(data);
+}
+
+export async function reactivateDevice(deviceId: string, pinToken: string): Promise<NFCDevice> {
+  const { data, error } = await supabase.rpc('reactivate_nfc_device', {
+    p_device_id: deviceId,
+    p_pin_token: pinToken,
+  });
+
+  if (error) throw error;
+
+  return mapDevice(data);
+}
+
+// Stolen is permanent: the UID is blocked for every account and any later tap
+// alerts the owner.
+export async function reportDevice(deviceId: string, status: DeviceReportStatus): Promise<NFCDevice> {
+  const { data, error } = await supabase.rpc('report_nfc_device', {
+    p_device_id: deviceId,
+    p_status: status,
+  });
+
+  if (error) throw error;
+
+  return mapDevice(data);
+}
+
+export async function setDeviceControls(deviceId: string, controls: DeviceControls): Promise<NFCDevice> {
+  const { data, error } = await supabase.rpc('set_device_controls', {
+    p_device_id: deviceId,
+    p_per_transaction_limit: controls.perTransactionLimit,
+    p_daily_limit: controls.dailyLimit,
+    p_monthly_limit: controls.monthlyLimit,
+    p_allowed_categories: controls.allowedCategories,
+    p_blocked_categories: controls.blockedCategories,
+    p_active_hours_start: controls.activeHoursStart,
+    p_active_hours_end: controls.activeHoursEnd,
+    p_active_hours_timezone: controls.activeHoursTimezone,
+  });
+
+  if (error) throw error;
+
+  return mapDevice(data);
+}
+
+export async function removeDevice(deviceId: string) {
+  const { error } = await supabase.rpc('remove_nfc_device', { p_device_id: deviceId });
+
+  if (error) throw error;
+}
+
+export async function readNFCTag(options: NFCScanOptions = {}): Promise<NFCTagReading> {
+  return scanOnce(options);
+}
+
+export interface DeviceTagReading {
+  deviceUid: string;
+  tagAuthenticationId: string | null;
+}
+
+// Tags that emit Secure Unique NFC messages are identified by the UID the
+// server decrypts and authenticates, never by the spoofable serial number.
+// Other tags fall back to the serial number.
+export async function readDeviceTag(options: NFCScanOptions = {}): Promise<DeviceTagReading> {
+  const { serialNumber, records } = await readNFCTag(options);
+  const sun = findSunMessage(records);
+
+  if (!sun) {
+    return { deviceUid: serialNumber, tagAuthenticationId: null };
+  }
+
+  const { data, error } = await supabase.rpc('authenticate_nfc_tag', {
+    p_picc_data: sun.piccData,
+    p_cmac: sun.cmac,
+  });
 
   if (error) throw error;
+  if (!data?.authenticated) {
+    throw new Error(`NFC tag authentication failed: ${data?.reason ?? 'unknown error'}`);
+  }
 
-  await logSecurityEvent(
-    userId,
-    'nfc_device_deactivated',
-    'medium',
-    `NFC device deactivated: ${deviceId}`
-  );
+  return { deviceUid: data.tag_uid, tagAuthenticationId: data.authentication_id };
 }
 
-export async function readNFCTag(): Promise<string> {
-  if (!('NDEFReader' in window)) {
-    throw new Error('NFC not supported on this device');
+export interface ScannedPaymentRequest {
+  tagUid: string;
+  request: PaymentRequest;
+}
+
+export async function readPaymentRequest(options: NFCScanOptions = {}): Promise<ScannedPaymentRequest> {
+  const { serialNumber, records } = await readNFCTag(options);
+  const request = findPaymentRequest(records);
+
+  if (!request) {
+    throw new Error('This tag does not contain a payment request');
   }
 
-  const ndef = new (window as any).NDEFReader();
+  return { tagUid: serialNumber, request };
+}
+
+export async function writeNFCTag(records: NDEFRecordData[], signal?: AbortSignal) {
+  await getNFCAdapter().write(records, signal);
+}
+
+export async function makeNFCTagReadOnly(signal?: AbortSignal) {
+  await getNFCAdapter().makeReadOnly(signal);
+}
 
-  try {
-    await ndef.scan();
+// Writes a payment request, reads it back to confirm the tag holds exactly what
+// was written, and optionally locks the tag. Resolves with the tag serial number.
+export async function writePaymentRequestTag(
+  request: PaymentRequest,
+  readOnly: boolean,
+  options: NFCScanOptions = {}
+): Promise<string> {
+  await writeNFCTag([encodePaymentRequest(request)], options.signal);
 
-    return new Promise((resolve, reject) => {
-      ndef.addEventListener('reading', ({ serialNumber }: any) => {
-        resolve(serialNumber);
-      });
+  const { serialNumber, records } = await readNFCTag(options);
+  const written = findPaymentRequest(records);
 
-      ndef.addEventListener('error', () => {
-        reject(new Error('Failed to read NFC tag'));
-      });
+  if (
+    !written
+    || JSON.stringify(toPaymentRequestPayload(written)) !== JSON.stringify(toPaymentRequestPayload(request))
+  ) {
+    throw new Error('Tag verification failed: the tag does not contain the written payment request');
+  }
 
-      setTimeout(() => {
-        reject(new Error('NFC read timeout'));
-      }, 10000);
-    });
-  } catch (error) {
-    throw new Error('NFC scan failed: ' + (error as Error).message);
+  if (readOnly) {
+    await makeNFCTagReadOnly(options.signal);
   }
+
+  return serialNumber;
 }
 
-async function logSecurityEvent(
-  userId: string,
-  eventType: string,
-  severity: string,
-  description: string
-) {
-  await supabase
-    .from('security_logs')
-    .insert({
-      user_id: userId,
-      event_type: eventType,
-      severity,
-      description,
-      metadata: {},
-    });
+interface NFCDeviceRow {
+  id: string;
+  user_id: string;
+  device_uid: string;
+  device_name: string;
+  is_active: boolean;
+  last_used: string | null;
+  paired_at: string;
+  cooling_off_until: string | null;
+  cooling_off_limit: number | string | null;
+  reported_status: DeviceReportStatus | null;
+  reported_at: string | null;
+  blocked_device_uids?: { tap_attempts: number; last_tap_at: string | null }[];
+  per_transaction_limit: number | string | null;
+  daily_limit: number | string | null;
+  monthly_limit: number | string | null;
+  allowed_categories: string[] | null;
+  blocked_categories: string[] | null;
+  active_hours_start: string | null;
+  active_hours_end: string | null;
+  active_hours_timezone: string | null;
+}
+
+const toLimit = (value: number | string | null) => (value !== null ? Number(value) : null);
+
+function mapDevice(row: NFCDeviceRow): NFCDevice {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    deviceUid: row.device_uid,
+    deviceName: row.device_name,
+    isActive: row.is_active,
+    lastUsed: row.last_used,
+    pairedAt: row.paired_at,
+    coolingOffUntil: row.cooling_off_until,
+    coolingOffLimit: toLimit(row.cooling_off_limit),
+    reportedStatus: row.reported_status,
+    reportedAt: row.reported_at,
+    stolenTapAttempts: row.blocked_device_uids?.[0]?.tap_attempts ?? 0,
+    lastStolenTapAt: row.blocked_device_uids?.[0]?.last_tap_at ?? null,
+    controls: {
+      perTransactionLimit: toLimit(row.per_transaction_limit),
+      dailyLimit: toLimit(row.daily_limit),
+      monthlyLimit: toLimit(row.monthly_limit),
+      allowedCategories: row.allowed_categories,
+      blockedCategories: row.blocked_categories ?? [],
+      activeHoursStart: row.active_hours_start?.slice(0, 5) ?? null,
+      activeHoursEnd: row.active_hours_end?.slice(0, 5) ?? null,
+      activeHoursTimezone: row.active_hours_timezone,
+    },
+  };
 }
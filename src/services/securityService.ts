@@ -1,4 +1,10 @@
 import { supabase } from '../lib/supabase';
+import {
+  SECURITY_EVENTS,
+  SecurityEventMetadata,
+  SecurityEventType,
+  SecuritySeverity,
+} from '../lib/securityEventCatalog';
 
 export interface SecurityLog {
   id: string;
@@ -29,24 +35,151 @@ export async function getSecurityLogs(userId: string): Promise<SecurityLog[]> {
   }));
 }
 
-export async function logSecurityEvent(
-  userId: string,
-  eventType: string,
-  severity: 'low' | 'medium' | 'high' | 'critical',
-  description: string,
-  metadata?: Record<string, any>
-) {
-  await supabase
-    .from('security_logs')
-    .insert({
-      user_id: userId,
-      event_type: eventType,
-      severity,
-      description,
-      metadata: metadata || {},
+// Client events are queued in localStorage and written in batches, so an event
+// survives a failed request or a reload. Each event has its own id, which the
+// server uses to ignore a batch that is retried after its response was lost.
+const QUEUE_KEY = 'nfcpay.securityEventQueue';
+const MAX_QUEUED_EVENTS = 200;
+const BATCH_SIZE = 50;
+const INITIAL_RETRY_MS = 2000;
+const MAX_RETRY_MS = 60 * 1000;
+
+interface SecurityEventContext {
+  userId: string | null;
+  deviceId: string | null;
+  transactionId: string | null;
+}
+
+interface QueuedSecurityEvent {
+  id: string;
+  user_id: string;
+  event_type: SecurityEventType;
+  severity: SecuritySeverity;
+  description: string;
+  metadata: Record<string, unknown>;
+  occurred_at: string;
+}
+
+const context: SecurityEventContext = { userId: null, deviceId: null, transactionId: null };
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let retryDelay = INITIAL_RETRY_MS;
+
+// The signed-in user and the NFC device and transaction in use are attached to
+// every event recorded until they change
+export function setSecurityEventContext(changes: Partial<SecurityEventContext>) {
+  Object.assign(context, changes);
+}
+
+export async function recordSecurityEvent<E extends SecurityEventType>(
+  eventType: E,
+  metadata: SecurityEventMetadata[E],
+  options: { userId?: string; severity?: SecuritySeverity } = {}
+): Promise<void> {
+  const userId = options.userId ?? context.userId;
+  if (!userId) {
+    throw new Error(`Security event ${eventType} recorded without a signed-in user`);
+  }
+
+  const definition = SECURITY_EVENTS[eventType];
+
+  const event: QueuedSecurityEvent = {
+    id: crypto.randomUUID(),
+    user_id: userId,
+    event_type: eventType,
+    severity: options.severity ?? definition.severity,
+    description: definition.describe(metadata),
+    metadata: {
+      ...metadata,
+      ...(context.deviceId && { device_id: context.deviceId }),
+      ...(context.transactionId && { transaction_id: context.transactionId }),
+    },
+    occurred_at: new Date().toISOString(),
+  };
+
+  writeQueue([...readQueue(), event].slice(-MAX_QUEUED_EVENTS));
+  return flushSecurityEvents();
+}
+
+export function flushSecurityEvents(): Promise<void> {
+  if (!flushing) {
+    flushing = drainQueue().finally(() => {
+      flushing = null;
+    });
+  }
+
+  return flushing;
+}
+
+// Events wait for their own user's session; another user's events stay queued
+async function drainQueue() {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) return;
+
+  const rejected: { id: string; reason: string }[] = [];
+
+  for (;;) {
+    const batch = readQueue().filter(event => event.user_id === session.user.id).slice(0, BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    const { data: result, error } = await supabase.rpc('record_security_events', {
+      p_events: batch.map(event => ({
+        id: event.id,
+        event_type: event.event_type,
+        severity: event.severity,
+        description: event.description,
+        metadata: event.metadata,
+        occurred_at: event.occurred_at,
+      })),
     });
+
+    if (error) {
+      scheduleRetry();
+      return;
+    }
+
+    // Invalid events are skipped by the server, which records the rest of the
+    // batch; a retry cannot fix them, so they leave the queue too
+    rejected.push(...result.rejected);
+
+    const written = new Set(batch.map(event => event.id));
+    writeQueue(readQueue().filter(event => !written.has(event.id)));
+    retryDelay = INITIAL_RETRY_MS;
+  }
+
+  if (rejected.length > 0) {
+    throw new Error(`Security events rejected: ${rejected.map(event => event.reason).join('; ')}`);
+  }
 }
 
+function scheduleRetry() {
+  if (retryTimer) return;
+
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushSecurityEvents();
+  }, retryDelay);
+  retryDelay = Math.min(retryDelay * 2, MAX_RETRY_MS);
+}
+
+function readQueue(): QueuedSecurityEvent[] {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(queue: QueuedSecurityEvent[]) {
+  if (queue.length === 0) {
+    localStorage.removeItem(QUEUE_KEY);
+  } else {
+    localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  }
+}
+
+window.addEventListener('online', () => flushSecurityEvents());
+
 export async function getAccountSecurityStatus(userId: string) {
   const { data: userData } = await supabase
     .from('users')
@@ -0,0 +1,55 @@
+import { supabase } from '../lib/supabase';
+import { signOut } from './authService';
+
+export interface ActiveSession {
+  id: string;
+  createdAt: string;
+  lastSeenAt: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  current: boolean;
+}
+
+export async function getActiveSessions(): Promise<ActiveSession[]> {
+  const { data, error } = await supabase.rpc('get_active_sessions');
+
+  if (error) throw error;
+
+  return (data || []).map(mapSession);
+}
+
+// The other device keeps its access token until it expires, but the server
+// refuses payments and account data from a deleted session straight away
+export async function revokeSession(sessionId: string) {
+  const { error } = await supabase.rpc('revoke_session', { p_session_id: sessionId });
+
+  if (error) throw error;
+}
+
+export async function signOutEverywhere() {
+  const { error } = await supabase.rpc('revoke_other_sessions');
+
+  if (error) throw error;
+
+  await signOut('everywhere');
+}
+
+interface SessionRow {
+  id: string;
+  created_at: string;
+  last_seen_at: string;
+  user_agent: string | null;
+  ip_address: string | null;
+  current: boolean;
+}
+
+function mapSession(row: SessionRow): ActiveSession {
+  return {
+    id: row.id,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    userAgent: row.user_agent,
+    ipAddress: row.ip_address,
+    current: row.current,
+  };
+}
@@ -1,233 +1,190 @@
 import { supabase } from '../lib/supabase';
-import { generateTransactionSignature } from '../lib/crypto';
+import { GeoPosition } from '../lib/geolocation';
+import { PaymentRequest, toPaymentRequestPayload } from '../lib/ndef';
+
+export type TransactionType = 'payment' | 'refund' | 'reversal';
 
 export interface Transaction {
   id: string;
+  transactionType: TransactionType;
+  originalTransactionId?: string;
+  adjustmentReason?: string;
   userId: string;
   deviceId: string;
   amount: number;
   currency: string;
+  baseAmount: number;
+  baseCurrency: string;
   merchantId: string;
   merchantName: string;
   status: string;
   riskScore: number;
   declineReason?: string;
+  signatureKeyId?: string;
+  geolocation?: TransactionLocation;
+  expiresAt?: string;
+  resolvedAt?: string;
   createdAt: string;
 }
 
+export interface TransactionLocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+  capturedAt?: string;
+}
+
 export interface TransactionRequest {
-  userId: string;
   deviceId: string;
   amount: number;
   merchantId: string;
-  merchantName: string;
   currency?: string;
+  geolocation?: GeoPosition | null;
+  paymentRequest?: { request: PaymentRequest; tagUid: string } | null;
+  tagAuthenticationId?: string | null;
+  // From confirmPin(pin, 'payment')
+  pinToken: string;
 }
 
+// Authorization (account status, device ownership, daily limit, risk scoring,
+// HMAC signing and the insert itself) runs atomically in the `authorize_transaction`
+// database function; the client only submits the request.
 export async function processTransaction(
   request: TransactionRequest
 ): Promise<Transaction> {
-  const timestamp = new Date().toISOString();
-  const signature = await generateTransactionSignature(
-    request.userId,
-    request.amount,
-    request.merchantId,
-    timestamp
-  );
-
-  const riskScore = await calculateRiskScore(request);
+  const { data, error } = await supabase.rpc('authorize_transaction', {
+    p_device_id: request.deviceId,
+    p_amount: request.amount,
+    p_merchant_id: request.merchantId,
+    p_currency: request.currency ?? null,
+    p_geolocation: request.geolocation
+      ? {
+          latitude: request.geolocation.latitude,
+          longitude: request.geolocation.longitude,
+          accuracy: request.geolocation.accuracy,
+          captured_at: request.geolocation.capturedAt,
+        }
+      : null,
+    p_payment_request: request.paymentRequest
+      ? { ...toPaymentRequestPayload(request.paymentRequest.request), tag_uid: request.paymentRequest.tagUid }
+      : null,
+    p_tag_authentication: request.tagAuthenticationId ?? null,
+    p_pin_token: request.pinToken,
+  });
 
-  await checkAccountStatus(request.userId);
-
-  await checkDailyLimit(request.userId, request.amount);
+  if (error) throw error;
+  // Refused payments come back unsaved, with no id, so the server can keep its log of them
+  if (!data?.id) throw new Error(data?.decline_reason || 'Transaction was not authorized');
 
-  const status = determineTransactionStatus(riskScore);
+  return mapTransaction(data);
+}
 
+export async function getUserTransactions(userId: string): Promise<Transaction[]> {
   const { data, error } = await supabase
     .from('transactions')
-    .insert({
-      user_id: request.userId,
-      device_id: request.deviceId,
-      amount: request.amount,
-      currency: request.currency || 'USD',
-      merchant_id: request.merchantId,
-      merchant_name: request.merchantName,
-      status,
-      risk_score: riskScore,
-      signature,
-      decline_reason: status === 'declined' ? 'High risk score' : null,
-    })
-    .select()
-    .single();
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(50);
 
   if (error) throw error;
 
-  await logSecurityEvent(
-    request.userId,
-    'transaction_processed',
-    riskScore > 70 ? 'high' : 'low',
-    `Transaction ${status}: $${request.amount} at ${request.merchantName}`
-  );
-
-  if (status === 'approved') {
-    await updateDeviceLastUsed(request.deviceId);
-  }
-
-  return {
-    id: data.id,
-    userId: data.user_id,
-    deviceId: data.device_id,
-    amount: data.amount,
-    currency: data.currency,
-    merchantId: data.merchant_id,
-    merchantName: data.merchant_name,
-    status: data.status,
-    riskScore: data.risk_score,
-    declineReason: data.decline_reason,
-    createdAt: data.created_at,
-  };
+  return data.map(mapTransaction);
 }
 
-async function calculateRiskScore(request: TransactionRequest): Promise<number> {
-  let score = 0;
-
-  const recentTransactions = await getRecentTransactions(request.userId, 5);
-
-  if (request.amount > 500) {
-    score += 30;
-  }
-
-  if (recentTransactions.length >= 3) {
-    score += 40;
-  }
-
-  const dailyTotal = await getDailyTransactionTotal(request.userId);
-  if (dailyTotal + request.amount > 1000) {
-    score += 50;
-  }
-
-  const isDuplicate = recentTransactions.some(
-    t => t.merchant_id === request.merchantId &&
-         Math.abs(t.amount - request.amount) < 0.01 &&
-         Date.now() - new Date(t.created_at).getTime() < 60000
-  );
-
-  if (isDuplicate) {
-    score += 70;
-  }
+// Pending payments are listed and resolved through database functions so stale
+// ones expire first and every state change is re-signed and logged.
+export async function getPendingTransactions(): Promise<Transaction[]> {
+  const { data, error } = await supabase.rpc('get_pending_transactions');
 
-  return Math.min(score, 100);
-}
+  if (error) throw error;
 
-function determineTransactionStatus(riskScore: number): string {
-  if (riskScore >= 80) return 'declined';
-  if (riskScore >= 50) return 'pending';
-  return 'approved';
+  return (data as TransactionRow[]).map(mapTransaction);
 }
 
-async function checkAccountStatus(userId: string) {
-  const { data, error } = await supabase
-    .from('users')
-    .select('status')
-    .eq('id', userId)
-    .maybeSingle();
+export async function resolvePendingTransaction(
+  transactionId: string,
+  decision: 'confirm' | 'cancel',
+  pinToken: string | null = null
+): Promise<Transaction> {
+  const { data, error } = await supabase.rpc('resolve_pending_transaction', {
+    p_transaction_id: transactionId,
+    p_decision: decision,
+    p_pin_token: pinToken,
+  });
 
   if (error) throw error;
-  if (!data || data.status !== 'active') {
-    throw new Error('Account is not active');
-  }
-}
-
-async function checkDailyLimit(userId: string, amount: number) {
-  const { data } = await supabase
-    .from('users')
-    .select('daily_limit')
-    .eq('id', userId)
-    .maybeSingle();
 
-  const dailyLimit = data?.daily_limit || 1000;
-  const dailyTotal = await getDailyTransactionTotal(userId);
-
-  if (dailyTotal + amount > dailyLimit) {
-    throw new Error('Daily transaction limit exceeded');
-  }
+  return mapTransaction(data);
 }
 
-async function getDailyTransactionTotal(userId: string): Promise<number> {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+// Signatures are HMACs keyed by server-held secrets, so verification happens in
+// the database using the key recorded on the row. Legacy unkeyed rows report false.
+export async function verifyTransactionSignature(transactionId: string): Promise<boolean> {
+  const { data, error } = await supabase.rpc('verify_transaction_signature', {
+    p_transaction_id: transactionId,
+  });
 
-  const { data, error } = await supabase
-    .from('transactions')
-    .select('amount')
-    .eq('user_id', userId)
-    .eq('status', 'approved')
-    .gte('created_at', today.toISOString());
-
-  if (error) return 0;
-
-  return data.reduce((sum, t) => sum + Number(t.amount), 0);
+  if (error) throw error;
+  return data === true;
 }
 
-async function getRecentTransactions(userId: string, minutes: number) {
-  const cutoff = new Date(Date.now() - minutes * 60 * 1000);
-
-  const { data, error } = await supabase
-    .from('transactions')
-    .select('*')
-    .eq('user_id', userId)
-    .gte('created_at', cutoff.toISOString())
-    .order('created_at', { ascending: false });
-
-  if (error) return [];
-  return data;
+interface TransactionRow {
+  id: string;
+  transaction_type: TransactionType;
+  original_transaction_id: string | null;
+  adjustment_reason: string | null;
+  user_id: string;
+  device_id: string;
+  amount: number;
+  currency: string;
+  base_amount: number;
+  base_currency: string;
+  merchant_id: string;
+  merchant_name: string;
+  status: string;
+  risk_score: number;
+  decline_reason: string | null;
+  signature_key_id: string | null;
+  geolocation: {
+    latitude: number;
+    longitude: number;
+    accuracy?: number;
+    captured_at?: string;
+  } | null;
+  expires_at: string | null;
+  resolved_at: string | null;
+  created_at: string;
 }
 
-export async function getUserTransactions(userId: string): Promise<Transaction[]> {
-  const { data, error } = await supabase
-    .from('transactions')
-    .select('*')
-    .eq('user_id', userId)
-    .order('created_at', { ascending: false })
-    .limit(50);
-
-  if (error) throw error;
-
-  return data.map(t => ({
+function mapTransaction(t: TransactionRow): Transaction {
+  return {
     id: t.id,
+    transactionType: t.transaction_type,
+    originalTransactionId: t.original_transaction_id ?? undefined,
+    adjustmentReason: t.adjustment_reason ?? undefined,
     userId: t.user_id,
     deviceId: t.device_id,
     amount: t.amount,
     currency: t.currency,
+    baseAmount: t.base_amount,
+    baseCurrency: t.base_currency,
     merchantId: t.merchant_id,
     merchantName: t.merchant_name,
     status: t.status,
     riskScore: t.risk_score,
-    declineReason: t.decline_reason,
+    declineReason: t.decline_reason ?? undefined,
+    signatureKeyId: t.signature_key_id ?? undefined,
+    geolocation: t.geolocation
+      ? {
+          latitude: t.geolocation.latitude,
+          longitude: t.geolocation.longitude,
+          accuracy: t.geolocation.accuracy,
+          capturedAt: t.geolocation.captured_at,
+        }
+      : undefined,
+    expiresAt: t.expires_at ?? undefined,
+    resolvedAt: t.resolved_at ?? undefined,
     createdAt: t.created_at,
-  }));
-}
-
-async function updateDeviceLastUsed(deviceId: string) {
-  await supabase
-    .from('nfc_devices')
-    .update({ last_used: new Date().toISOString() })
-    .eq('id', deviceId);
-}
-
-async function logSecurityEvent(
-  userId: string,
-  eventType: string,
-  severity: string,
-  description: string
-) {
-  await supabase
-    .from('security_logs')
-    .insert({
-      user_id: userId,
-      event_type: eventType,
-      severity,
-      description,
-      metadata: {},
-    });
+  };
 }
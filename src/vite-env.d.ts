@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Selects the NFC backend: `webnfc` (default) or `simulated`
+  readonly VITE_NFC_BACKEND?: 'webnfc' | 'simulated';
+}
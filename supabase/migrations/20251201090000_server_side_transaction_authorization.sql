@@ -0,0 +1,239 @@
+/*
+  # Server-side Transaction Authorization
+
+  ## Overview
+  Moves transaction authorization out of the browser. Previously the client computed the risk
+  score, checked the account status and daily limit, chose the status and inserted the row
+  itself, so any authenticated client could insert an `approved` transaction with any risk score.
+
+  ## 1. New Functions
+
+  ### `request_ip()` / `request_user_agent()`
+  - Read the client IP address and user agent from the PostgREST request headers
+
+  ### `daily_transaction_total(p_user_id)`
+  - Sum of approved transaction amounts since the start of the current day
+
+  ### `calculate_risk_score(p_user_id, p_amount, p_merchant_id)`
+  - Fraud risk score (0-100) using the same factors the client previously applied:
+    amount > 500 (+30), 3+ transactions in 5 minutes (+40), daily total > 1000 (+50),
+    duplicate merchant/amount within 60 seconds (+70)
+
+  ### `authorize_transaction(p_device_id, p_amount, p_merchant_id, p_merchant_name, p_currency)`
+  - Callable through `supabase.rpc`; runs as SECURITY DEFINER for the calling user (`auth.uid()`)
+  - Locks the user row so concurrent payments are evaluated one after another
+  - Verifies account status, device ownership/activation and the daily limit
+  - Calculates the risk score, picks the status, signs and inserts the transaction
+  - Records the security log entry and updates the device `last_used` timestamp
+  - Returns the inserted `transactions` row
+
+  ## 2. Security Changes
+  - Dropped the "Users can insert own transactions" policy: end users can no longer insert
+    into `transactions` directly, only through `authorize_transaction`
+  - `authorize_transaction` is executable by authenticated users only
+*/
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- Remove direct inserts by end users
+DROP POLICY IF EXISTS "Users can insert own transactions" ON transactions;
+REVOKE INSERT, UPDATE, DELETE ON transactions FROM anon, authenticated;
+
+-- Client context from PostgREST request headers
+CREATE OR REPLACE FUNCTION request_ip()
+RETURNS inet AS $$
+DECLARE
+  v_forwarded text;
+BEGIN
+  v_forwarded := current_setting('request.headers', true)::json->>'x-forwarded-for';
+  IF v_forwarded IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN trim(split_part(v_forwarded, ',', 1))::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION request_user_agent()
+RETURNS text AS $$
+BEGIN
+  RETURN current_setting('request.headers', true)::json->>'user-agent';
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Approved spend for the current day
+CREATE OR REPLACE FUNCTION daily_transaction_total(p_user_id uuid)
+RETURNS numeric AS $$
+  SELECT COALESCE(SUM(amount), 0)
+  FROM transactions
+  WHERE user_id = p_user_id
+    AND status = 'approved'
+    AND created_at >= date_trunc('day', now());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Fraud risk scoring
+CREATE OR REPLACE FUNCTION calculate_risk_score(
+  p_user_id uuid,
+  p_amount numeric,
+  p_merchant_id text
+)
+RETURNS integer AS $$
+DECLARE
+  v_score integer := 0;
+  v_recent_count integer;
+  v_is_duplicate boolean;
+BEGIN
+  IF p_amount > 500 THEN
+    v_score := v_score + 30;
+  END IF;
+
+  SELECT count(*) INTO v_recent_count
+  FROM transactions
+  WHERE user_id = p_user_id
+    AND created_at >= now() - interval '5 minutes';
+
+  IF v_recent_count >= 3 THEN
+    v_score := v_score + 40;
+  END IF;
+
+  IF daily_transaction_total(p_user_id) + p_amount > 1000 THEN
+    v_score := v_score + 50;
+  END IF;
+
+  SELECT EXISTS (
+    SELECT 1
+    FROM transactions
+    WHERE user_id = p_user_id
+      AND merchant_id = p_merchant_id
+      AND abs(amount - p_amount) < 0.01
+      AND created_at >= now() - interval '60 seconds'
+  ) INTO v_is_duplicate;
+
+  IF v_is_duplicate THEN
+    v_score := v_score + 70;
+  END IF;
+
+  RETURN LEAST(v_score, 100);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Atomic transaction authorization
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_merchant_name text,
+  p_currency text DEFAULT 'USD'
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_risk_score integer;
+  v_status text;
+  v_signature text;
+  v_timestamp timestamptz := now();
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  IF coalesce(trim(p_merchant_id), '') = '' OR coalesce(trim(p_merchant_name), '') = '' THEN
+    RAISE EXCEPTION 'Merchant is required';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF daily_transaction_total(v_user_id) + p_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_risk_score := calculate_risk_score(v_user_id, p_amount, p_merchant_id);
+
+  v_status := CASE
+    WHEN v_risk_score >= 80 THEN 'declined'
+    WHEN v_risk_score >= 50 THEN 'pending'
+    ELSE 'approved'
+  END;
+
+  v_signature := encode(
+    extensions.digest(
+      v_user_id::text || ':' || p_amount::text || ':' || p_merchant_id || ':' || v_timestamp::text,
+      'sha256'
+    ),
+    'hex'
+  );
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    merchant_id,
+    merchant_name,
+    status,
+    ip_address,
+    user_agent,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    coalesce(p_currency, 'USD'),
+    p_merchant_id,
+    p_merchant_name,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_risk_score,
+    CASE WHEN v_status = 'declined' THEN 'High risk score' END,
+    v_signature,
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: $%s at %s', v_status, p_amount, p_merchant_name),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_risk_score)
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION daily_transaction_total(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION calculate_risk_score(uuid, numeric, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION authorize_transaction(uuid, numeric, text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION authorize_transaction(uuid, numeric, text, text, text) TO authenticated;
@@ -0,0 +1,270 @@
+/*
+  # Keyed, Rotatable Transaction Signatures
+
+  ## Overview
+  Replaces the unkeyed SHA-256 of `user_id:amount:merchant_id:timestamp` with an HMAC-SHA256
+  over a canonical serialization of every security-relevant transaction field. Signing keys
+  live in the database, are never readable by clients, and can be rotated while rows signed
+  with older keys remain verifiable.
+
+  ## 1. New Tables
+
+  ### `transaction_signing_keys`
+  - `id` (text, primary key) - Key identifier stored alongside each signature
+  - `secret` (bytea) - HMAC key material (32 random bytes)
+  - `is_active` (boolean) - Whether this is the key used for new signatures (at most one)
+  - `created_at` (timestamptz) - Key creation timestamp
+  - `retired_at` (timestamptz) - When the key stopped being used for new signatures
+
+  ## 2. Modified Tables
+
+  ### `transactions`
+  - `signature_key_id` (text, foreign key) - Key used to produce `signature`; NULL for legacy rows
+
+  ## 3. New Functions
+
+  ### `transaction_signature_payload(t)`
+  - Canonical JSON array of: format version, id, user_id, device_id, amount, currency,
+    merchant_id, merchant_name, status, risk_score, decline_reason, created_at (UTC, microseconds)
+
+  ### `sign_transaction(t)`
+  - Signs the row with the active key and stores `signature` / `signature_key_id`
+  - Must be called again whenever a signed field changes (e.g. status transitions)
+
+  ### `verify_transaction_signature(p_transaction_id)`
+  - Recomputes the HMAC with the key recorded on the row; callable for own transactions only
+
+  ### `rotate_transaction_signing_key(p_key_id)`
+  - Service role only: retires the active key and activates a newly generated one
+
+  ## 4. Security
+  - RLS enabled on `transaction_signing_keys` with no policies; all privileges revoked from
+    `anon` and `authenticated`
+  - Rows created before this migration keep their legacy signature and report as unverifiable
+*/
+
+-- Signing keys
+CREATE TABLE IF NOT EXISTS transaction_signing_keys (
+  id text PRIMARY KEY,
+  secret bytea NOT NULL,
+  is_active boolean DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  retired_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_transaction_signing_keys_active
+  ON transaction_signing_keys(is_active)
+  WHERE is_active;
+
+ALTER TABLE transaction_signing_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON transaction_signing_keys FROM anon, authenticated;
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS signature_key_id text REFERENCES transaction_signing_keys(id);
+
+-- Canonical serialization of the signed fields
+CREATE OR REPLACE FUNCTION transaction_signature_payload(t transactions)
+RETURNS text AS $$
+  SELECT jsonb_build_array(
+    'v1',
+    t.id,
+    t.user_id,
+    t.device_id,
+    t.amount::text,
+    upper(t.currency),
+    t.merchant_id,
+    t.merchant_name,
+    t.status,
+    t.risk_score,
+    t.decline_reason,
+    to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')
+  )::text;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sign_transaction(t transactions)
+RETURNS transactions AS $$
+DECLARE
+  v_key transaction_signing_keys%ROWTYPE;
+  v_signed transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_key FROM transaction_signing_keys WHERE is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active transaction signing key';
+  END IF;
+
+  UPDATE transactions
+  SET
+    signature = encode(
+      extensions.hmac(convert_to(transaction_signature_payload(t), 'UTF8'), v_key.secret, 'sha256'),
+      'hex'
+    ),
+    signature_key_id = v_key.id
+  WHERE id = t.id
+  RETURNING * INTO v_signed;
+
+  RETURN v_signed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_transaction_signature(p_transaction_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+  v_secret bytea;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND OR v_transaction.signature_key_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT secret INTO v_secret
+  FROM transaction_signing_keys
+  WHERE id = v_transaction.signature_key_id;
+
+  IF v_secret IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN v_transaction.signature = encode(
+    extensions.hmac(convert_to(transaction_signature_payload(v_transaction), 'UTF8'), v_secret, 'sha256'),
+    'hex'
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION rotate_transaction_signing_key(p_key_id text)
+RETURNS void AS $$
+BEGIN
+  UPDATE transaction_signing_keys
+  SET is_active = false, retired_at = now()
+  WHERE is_active;
+
+  INSERT INTO transaction_signing_keys (id, secret, is_active)
+  VALUES (p_key_id, extensions.gen_random_bytes(32), true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION sign_transaction(transactions) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION rotate_transaction_signing_key(text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION verify_transaction_signature(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION verify_transaction_signature(uuid) TO authenticated;
+
+-- Initial signing key
+INSERT INTO transaction_signing_keys (id, secret, is_active)
+SELECT 'k' || to_char(now(), 'YYYYMMDD'), extensions.gen_random_bytes(32), true
+WHERE NOT EXISTS (SELECT 1 FROM transaction_signing_keys WHERE is_active);
+
+-- Sign new transactions with the active key
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_merchant_name text,
+  p_currency text DEFAULT 'USD'
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  IF coalesce(trim(p_merchant_id), '') = '' OR coalesce(trim(p_merchant_name), '') = '' THEN
+    RAISE EXCEPTION 'Merchant is required';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF daily_transaction_total(v_user_id) + p_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_risk_score := calculate_risk_score(v_user_id, p_amount, p_merchant_id);
+
+  v_status := CASE
+    WHEN v_risk_score >= 80 THEN 'declined'
+    WHEN v_risk_score >= 50 THEN 'pending'
+    ELSE 'approved'
+  END;
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    merchant_id,
+    merchant_name,
+    status,
+    ip_address,
+    user_agent,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    upper(coalesce(p_currency, 'USD')),
+    p_merchant_id,
+    p_merchant_name,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_risk_score,
+    CASE WHEN v_status = 'declined' THEN 'High risk score' END,
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: $%s at %s', v_status, p_amount, p_merchant_name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
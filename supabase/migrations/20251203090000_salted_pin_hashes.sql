@@ -0,0 +1,26 @@
+/*
+  # Salted PIN Hashes
+
+  ## Overview
+  PINs were stored as a single unsalted SHA-256 digest (not bcrypt, as the initial schema notes
+  claimed), which can be brute-forced across the 4-6 digit space in milliseconds.
+
+  ## 1. Hash Format
+  - New hashes: `pbkdf2_sha256$<iterations>$<base64 salt>$<base64 hash>`
+    (PBKDF2-HMAC-SHA256, 16-byte random salt, 600,000 iterations, derived in the client via WebCrypto)
+  - Legacy hashes: 64-character hex SHA-256 digests without a `$`
+
+  ## 2. Migration Strategy
+  - No data is rewritten here; legacy hashes are replaced with the new format on the user's next
+    successful PIN verification, so existing users are not forced to reset their PIN
+  - `pin_hash_version` is a generated column for monitoring how many legacy hashes remain
+*/
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS pin_hash_version text
+  GENERATED ALWAYS AS (
+    CASE WHEN position('$' IN pin_hash) > 0 THEN split_part(pin_hash, '$', 1) ELSE 'sha256_legacy' END
+  ) STORED;
+
+COMMENT ON COLUMN users.pin_hash IS
+  'pbkdf2_sha256$<iterations>$<salt>$<hash>; legacy unsalted SHA-256 hex digests are upgraded on next successful verification';
@@ -0,0 +1,347 @@
+/*
+  # Data-driven Fraud Rule Engine
+
+  ## Overview
+  Replaces the hardcoded risk factors in `calculate_risk_score` (500 / 3 per 5 minutes / 1000 /
+  60-second duplicates) and the fixed 80/50 status cutoffs with an engine that evaluates the active
+  rows of `fraud_rules`. The risk team can tune thresholds, actions and weights, or switch rules
+  off with `is_active`, without a code deploy.
+
+  ## 1. Rule Parameters
+  Every rule's `parameters` carries an `action` and an optional `score`:
+  - `action`: `score` (only adds points), `review` (holds as pending) or `decline`
+  - `score`: risk points added when the rule matches (defaults: decline 80, review 50, score 0)
+
+  Per rule type:
+  - `amount`: `max_amount` (single payment) and/or `max_daily_amount` (approved today + this payment)
+  - `velocity`: `max_transactions` within `time_window_minutes` / `time_window_seconds`, optionally
+    restricted to the `same_merchant` and/or `same_amount` as the request
+  - `device`: `new_device_hours` (device registered within the last N hours)
+  - `location`: `max_distance_km` / `time_window_minutes` (skipped until payments carry geolocation)
+
+  ## 2. New Tables
+
+  ### `fraud_rule_settings`
+  - `id` (boolean, primary key) - Single-row table
+  - `review_score` (integer) - Total score at or above which a payment is held as pending
+  - `decline_score` (integer) - Total score at or above which a payment is declined
+  - `updated_at` (timestamptz) - Last update timestamp
+
+  ## 3. New Functions
+
+  ### `evaluate_fraud_rules(p_user_id, p_request)`
+  - Returns one row per matching active rule; rules with malformed parameters are skipped
+    with a warning rather than blocking every payment
+
+  ### `assess_transaction_risk(p_user_id, p_request)`
+  - Combines the matches into `risk_score`, `status`, `decline_reason` and the list of matches
+
+  ## 4. Changes
+  - `calculate_risk_score` is dropped; `authorize_transaction` uses `assess_transaction_risk`
+  - Seeded rules gain explicit scores matching the previous hardcoded weights
+  - New seeded rules: `duplicate_transaction_60s` (velocity) and `new_device_24h` (device, inactive)
+*/
+
+-- Engine settings
+CREATE TABLE IF NOT EXISTS fraud_rule_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  review_score integer NOT NULL DEFAULT 50 CHECK (review_score BETWEEN 0 AND 100),
+  decline_score integer NOT NULL DEFAULT 80 CHECK (decline_score BETWEEN 0 AND 100),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (review_score <= decline_score)
+);
+
+INSERT INTO fraud_rule_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE fraud_rule_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view fraud rule settings"
+  ON fraud_rule_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_fraud_rule_settings_updated_at
+  BEFORE UPDATE ON fraud_rule_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Rule parameters must name a known action
+ALTER TABLE fraud_rules
+  ADD CONSTRAINT fraud_rules_action_check
+  CHECK (parameters->>'action' IN ('score', 'review', 'decline'));
+
+-- Weights matching the previous hardcoded factors
+UPDATE fraud_rules SET parameters = parameters || '{"score": 30}'
+  WHERE rule_name = 'max_transaction_amount' AND NOT parameters ? 'score';
+UPDATE fraud_rules SET parameters = parameters || '{"score": 40}'
+  WHERE rule_name = 'velocity_check_5min' AND NOT parameters ? 'score';
+UPDATE fraud_rules SET parameters = parameters || '{"score": 50}'
+  WHERE rule_name = 'daily_amount_limit' AND NOT parameters ? 'score';
+UPDATE fraud_rules SET parameters = parameters || '{"score": 40}'
+  WHERE rule_name = 'suspicious_location_change' AND NOT parameters ? 'score';
+
+INSERT INTO fraud_rules (rule_name, rule_type, parameters, is_active) VALUES
+  ('duplicate_transaction_60s', 'velocity', '{"max_transactions": 1, "time_window_seconds": 60, "same_merchant": true, "same_amount": true, "score": 70, "action": "review"}', true),
+  ('new_device_24h', 'device', '{"new_device_hours": 24, "score": 20, "action": "score"}', false)
+ON CONFLICT (rule_name) DO NOTHING;
+
+-- Rule evaluation
+CREATE OR REPLACE FUNCTION evaluate_fraud_rules(p_user_id uuid, p_request jsonb)
+RETURNS TABLE (
+  matched_rule text,
+  matched_type text,
+  rule_action text,
+  rule_score integer,
+  detail text
+) AS $$
+DECLARE
+  v_rule fraud_rules%ROWTYPE;
+  v_params jsonb;
+  v_amount numeric := (p_request->>'amount')::numeric;
+  v_hit boolean;
+  v_detail text;
+  v_window interval;
+  v_count integer;
+  v_device_created timestamptz;
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM fraud_rules WHERE is_active ORDER BY fraud_rules.rule_name
+  LOOP
+    v_params := v_rule.parameters;
+    v_hit := false;
+    v_detail := NULL;
+
+    BEGIN
+      CASE v_rule.rule_type
+        WHEN 'amount' THEN
+          IF v_params ? 'max_amount' AND v_amount > (v_params->>'max_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Amount %s exceeds %s', v_amount, v_params->>'max_amount');
+          ELSIF v_params ? 'max_daily_amount'
+            AND daily_transaction_total(p_user_id) + v_amount > (v_params->>'max_daily_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Daily total would exceed %s', v_params->>'max_daily_amount');
+          END IF;
+
+        WHEN 'velocity' THEN
+          v_window := make_interval(
+            mins => coalesce((v_params->>'time_window_minutes')::integer, 0),
+            secs => coalesce((v_params->>'time_window_seconds')::integer, 0)
+          );
+
+          SELECT count(*) INTO v_count
+          FROM transactions t
+          WHERE t.user_id = p_user_id
+            AND t.created_at >= now() - v_window
+            AND (NOT coalesce((v_params->>'same_merchant')::boolean, false)
+                 OR t.merchant_id = p_request->>'merchant_id')
+            AND (NOT coalesce((v_params->>'same_amount')::boolean, false)
+                 OR abs(t.amount - v_amount) < 0.01);
+
+          IF v_count >= (v_params->>'max_transactions')::integer THEN
+            v_hit := true;
+            v_detail := format('%s matching transactions within %s', v_count, v_window);
+          END IF;
+
+        WHEN 'device' THEN
+          IF v_params ? 'new_device_hours' THEN
+            SELECT created_at INTO v_device_created
+            FROM nfc_devices
+            WHERE id = (p_request->>'device_id')::uuid;
+
+            IF v_device_created >= now() - make_interval(hours => (v_params->>'new_device_hours')::integer) THEN
+              v_hit := true;
+              v_detail := format('Device registered within %s hours', v_params->>'new_device_hours');
+            END IF;
+          END IF;
+
+        WHEN 'location' THEN
+          -- Requires payment geolocation, which is not captured yet
+          NULL;
+      END CASE;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping fraud rule % with invalid parameters: %', v_rule.rule_name, SQLERRM;
+      v_hit := false;
+    END;
+
+    IF v_hit THEN
+      matched_rule := v_rule.rule_name;
+      matched_type := v_rule.rule_type;
+      rule_action := v_params->>'action';
+      rule_score := coalesce(
+        (v_params->>'score')::integer,
+        CASE rule_action WHEN 'decline' THEN 80 WHEN 'review' THEN 50 ELSE 0 END
+      );
+      detail := v_detail;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Combine rule matches into a decision
+CREATE OR REPLACE FUNCTION assess_transaction_risk(p_user_id uuid, p_request jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_settings fraud_rule_settings%ROWTYPE;
+  v_score integer;
+  v_declines text[];
+  v_reviews text[];
+  v_matches jsonb;
+  v_status text;
+  v_decline_reason text;
+BEGIN
+  SELECT * INTO v_settings FROM fraud_rule_settings WHERE id;
+
+  SELECT
+    LEAST(coalesce(sum(rule_score), 0), 100)::integer,
+    coalesce(array_agg(matched_rule) FILTER (WHERE rule_action = 'decline'), '{}'),
+    coalesce(array_agg(matched_rule) FILTER (WHERE rule_action = 'review'), '{}'),
+    coalesce(jsonb_agg(jsonb_build_object(
+      'rule', matched_rule,
+      'type', matched_type,
+      'action', rule_action,
+      'score', rule_score,
+      'detail', detail
+    )), '[]')
+  INTO v_score, v_declines, v_reviews, v_matches
+  FROM evaluate_fraud_rules(p_user_id, p_request);
+
+  IF cardinality(v_declines) > 0 THEN
+    v_status := 'declined';
+    v_decline_reason := 'Declined by fraud rule: ' || array_to_string(v_declines, ', ');
+  ELSIF v_score >= coalesce(v_settings.decline_score, 80) THEN
+    v_status := 'declined';
+    v_decline_reason := 'High risk score';
+  ELSIF cardinality(v_reviews) > 0 OR v_score >= coalesce(v_settings.review_score, 50) THEN
+    v_status := 'pending';
+  ELSE
+    v_status := 'approved';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'risk_score', v_score,
+    'status', v_status,
+    'decline_reason', v_decline_reason,
+    'matches', v_matches
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION evaluate_fraud_rules(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION assess_transaction_risk(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS calculate_risk_score(uuid, numeric, text);
+
+-- Authorize through the rule engine
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_merchant_name text,
+  p_currency text DEFAULT 'USD'
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  IF coalesce(trim(p_merchant_id), '') = '' OR coalesce(trim(p_merchant_name), '') = '' THEN
+    RAISE EXCEPTION 'Merchant is required';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF daily_transaction_total(v_user_id) + p_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', p_amount,
+    'currency', upper(coalesce(p_currency, 'USD')),
+    'merchant_id', p_merchant_id,
+    'device_id', p_device_id
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    merchant_id,
+    merchant_name,
+    status,
+    ip_address,
+    user_agent,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    upper(coalesce(p_currency, 'USD')),
+    p_merchant_id,
+    p_merchant_name,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: $%s at %s', v_status, p_amount, p_merchant_name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
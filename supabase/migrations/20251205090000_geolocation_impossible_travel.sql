@@ -0,0 +1,345 @@
+/*
+  # Payment Geolocation and Impossible-travel Detection
+
+  ## Overview
+  `transactions.geolocation` existed but was never populated, so the seeded
+  `suspicious_location_change` rule could not be evaluated. Payments can now carry the position
+  captured by the client (with the user's consent) and location rules compare it against the
+  user's previous located payment.
+
+  ## 1. Geolocation Format
+  Stored in `transactions.geolocation` as:
+  - `latitude` / `longitude` (numeric, WGS84 degrees)
+  - `accuracy` (numeric, metres, optional)
+  - `captured_at` (timestamptz, optional)
+  Any other keys are discarded; out-of-range or non-numeric coordinates are rejected.
+
+  ## 2. New Functions
+
+  ### `normalize_geolocation(p_geolocation)`
+  - Validates and normalizes a client-supplied position; NULL when no position was shared
+
+  ### `geo_distance_km(a, b)`
+  - Great-circle (haversine) distance between two stored positions
+
+  ## 3. Rule Engine
+  - `location` rules now compare the request position with the most recent located payment,
+    optionally limited to `time_window_minutes`, after subtracting both reported accuracies:
+    - `max_distance_km`: matches when the distance is larger
+    - `max_speed_kmh`: matches when distance / elapsed time implies faster travel
+  - New seeded rule `impossible_travel` (`max_speed_kmh` 900, review)
+
+  ## 4. Changes
+  - `authorize_transaction` gains an optional `p_geolocation` argument and stores the position
+*/
+
+-- Geolocation helpers
+CREATE OR REPLACE FUNCTION normalize_geolocation(p_geolocation jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_latitude numeric;
+  v_longitude numeric;
+  v_accuracy numeric;
+  v_captured_at timestamptz;
+BEGIN
+  IF p_geolocation IS NULL OR jsonb_typeof(p_geolocation) = 'null' THEN
+    RETURN NULL;
+  END IF;
+
+  IF jsonb_typeof(p_geolocation) <> 'object'
+    OR jsonb_typeof(p_geolocation->'latitude') <> 'number'
+    OR jsonb_typeof(p_geolocation->'longitude') <> 'number' THEN
+    RAISE EXCEPTION 'Invalid geolocation';
+  END IF;
+
+  v_latitude := (p_geolocation->>'latitude')::numeric;
+  v_longitude := (p_geolocation->>'longitude')::numeric;
+
+  IF v_latitude NOT BETWEEN -90 AND 90 OR v_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid geolocation';
+  END IF;
+
+  IF jsonb_typeof(p_geolocation->'accuracy') = 'number' THEN
+    v_accuracy := GREATEST((p_geolocation->>'accuracy')::numeric, 0);
+  END IF;
+
+  BEGIN
+    v_captured_at := (p_geolocation->>'captured_at')::timestamptz;
+  EXCEPTION WHEN others THEN
+    v_captured_at := NULL;
+  END;
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'latitude', round(v_latitude, 6),
+    'longitude', round(v_longitude, 6),
+    'accuracy', round(v_accuracy),
+    'captured_at', v_captured_at
+  ));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION geo_distance_km(a jsonb, b jsonb)
+RETURNS numeric AS $$
+  SELECT (2 * 6371 * asin(sqrt(
+    power(sin(radians(((b->>'latitude')::numeric - (a->>'latitude')::numeric)::double precision) / 2), 2)
+    + cos(radians((a->>'latitude')::double precision))
+      * cos(radians((b->>'latitude')::double precision))
+      * power(sin(radians(((b->>'longitude')::numeric - (a->>'longitude')::numeric)::double precision) / 2), 2)
+  )))::numeric;
+$$ LANGUAGE sql IMMUTABLE;
+
+INSERT INTO fraud_rules (rule_name, rule_type, parameters) VALUES
+  ('impossible_travel', 'location', '{"max_speed_kmh": 900, "score": 30, "action": "review"}')
+ON CONFLICT (rule_name) DO NOTHING;
+
+-- Evaluate location rules
+CREATE OR REPLACE FUNCTION evaluate_fraud_rules(p_user_id uuid, p_request jsonb)
+RETURNS TABLE (
+  matched_rule text,
+  matched_type text,
+  rule_action text,
+  rule_score integer,
+  detail text
+) AS $$
+DECLARE
+  v_rule fraud_rules%ROWTYPE;
+  v_params jsonb;
+  v_amount numeric := (p_request->>'amount')::numeric;
+  v_hit boolean;
+  v_detail text;
+  v_window interval;
+  v_count integer;
+  v_device_created timestamptz;
+  v_location jsonb := p_request->'geolocation';
+  v_previous_location jsonb;
+  v_previous_at timestamptz;
+  v_distance_km numeric;
+  v_hours numeric;
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM fraud_rules WHERE is_active ORDER BY fraud_rules.rule_name
+  LOOP
+    v_params := v_rule.parameters;
+    v_hit := false;
+    v_detail := NULL;
+    v_previous_location := NULL;
+
+    BEGIN
+      CASE v_rule.rule_type
+        WHEN 'amount' THEN
+          IF v_params ? 'max_amount' AND v_amount > (v_params->>'max_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Amount %s exceeds %s', v_amount, v_params->>'max_amount');
+          ELSIF v_params ? 'max_daily_amount'
+            AND daily_transaction_total(p_user_id) + v_amount > (v_params->>'max_daily_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Daily total would exceed %s', v_params->>'max_daily_amount');
+          END IF;
+
+        WHEN 'velocity' THEN
+          v_window := make_interval(
+            mins => coalesce((v_params->>'time_window_minutes')::integer, 0),
+            secs => coalesce((v_params->>'time_window_seconds')::integer, 0)
+          );
+
+          SELECT count(*) INTO v_count
+          FROM transactions t
+          WHERE t.user_id = p_user_id
+            AND t.created_at >= now() - v_window
+            AND (NOT coalesce((v_params->>'same_merchant')::boolean, false)
+                 OR t.merchant_id = p_request->>'merchant_id')
+            AND (NOT coalesce((v_params->>'same_amount')::boolean, false)
+                 OR abs(t.amount - v_amount) < 0.01);
+
+          IF v_count >= (v_params->>'max_transactions')::integer THEN
+            v_hit := true;
+            v_detail := format('%s matching transactions within %s', v_count, v_window);
+          END IF;
+
+        WHEN 'device' THEN
+          IF v_params ? 'new_device_hours' THEN
+            SELECT created_at INTO v_device_created
+            FROM nfc_devices
+            WHERE id = (p_request->>'device_id')::uuid;
+
+            IF v_device_created >= now() - make_interval(hours => (v_params->>'new_device_hours')::integer) THEN
+              v_hit := true;
+              v_detail := format('Device registered within %s hours', v_params->>'new_device_hours');
+            END IF;
+          END IF;
+
+        WHEN 'location' THEN
+          IF v_location IS NOT NULL THEN
+            SELECT t.geolocation, t.created_at INTO v_previous_location, v_previous_at
+            FROM transactions t
+            WHERE t.user_id = p_user_id
+              AND t.geolocation IS NOT NULL
+              AND (NOT v_params ? 'time_window_minutes'
+                   OR t.created_at >= now() - make_interval(mins => (v_params->>'time_window_minutes')::integer))
+            ORDER BY t.created_at DESC
+            LIMIT 1;
+
+            IF v_previous_location IS NOT NULL THEN
+              -- Allow for the reported accuracy of both fixes before flagging
+              v_distance_km := GREATEST(
+                geo_distance_km(v_previous_location, v_location)
+                  - (coalesce((v_previous_location->>'accuracy')::numeric, 0)
+                     + coalesce((v_location->>'accuracy')::numeric, 0)) / 1000,
+                0
+              );
+              v_hours := GREATEST(extract(epoch FROM now() - v_previous_at) / 3600, 1.0 / 60);
+
+              IF v_params ? 'max_distance_km' AND v_distance_km > (v_params->>'max_distance_km')::numeric THEN
+                v_hit := true;
+                v_detail := format('%s km from previous payment %s ago',
+                  round(v_distance_km), date_trunc('second', now() - v_previous_at));
+              ELSIF v_params ? 'max_speed_kmh' AND v_distance_km / v_hours > (v_params->>'max_speed_kmh')::numeric THEN
+                v_hit := true;
+                v_detail := format('Implied travel speed %s km/h since previous payment',
+                  round(v_distance_km / v_hours));
+              END IF;
+            END IF;
+          END IF;
+      END CASE;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping fraud rule % with invalid parameters: %', v_rule.rule_name, SQLERRM;
+      v_hit := false;
+    END;
+
+    IF v_hit THEN
+      matched_rule := v_rule.rule_name;
+      matched_type := v_rule.rule_type;
+      rule_action := v_params->>'action';
+      rule_score := coalesce(
+        (v_params->>'score')::integer,
+        CASE rule_action WHEN 'decline' THEN 80 WHEN 'review' THEN 50 ELSE 0 END
+      );
+      detail := v_detail;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Accept and store the payment position
+DROP FUNCTION IF EXISTS authorize_transaction(uuid, numeric, text, text, text);
+
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_merchant_name text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  IF coalesce(trim(p_merchant_id), '') = '' OR coalesce(trim(p_merchant_name), '') = '' THEN
+    RAISE EXCEPTION 'Merchant is required';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF daily_transaction_total(v_user_id) + p_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', p_amount,
+    'currency', upper(coalesce(p_currency, 'USD')),
+    'merchant_id', p_merchant_id,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    merchant_id,
+    merchant_name,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    upper(coalesce(p_currency, 'USD')),
+    p_merchant_id,
+    p_merchant_name,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: $%s at %s', v_status, p_amount, p_merchant_name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION authorize_transaction(uuid, numeric, text, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION authorize_transaction(uuid, numeric, text, text, text, jsonb) TO authenticated;
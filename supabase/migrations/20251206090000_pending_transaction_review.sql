@@ -0,0 +1,232 @@
+/*
+  # Pending Transaction Review Workflow
+
+  ## Overview
+  Payments held as `pending` by the fraud rule engine previously stayed pending forever. The owner
+  can now confirm or cancel their own pending payments after re-entering their PIN, and pending
+  payments that are not resolved in time expire to `declined`. Every state change is signed again
+  and recorded in `security_logs`.
+
+  ## 1. Modified Tables
+
+  ### `transactions`
+  - `expires_at` (timestamptz) - Deadline for resolving a pending payment
+  - `resolved_at` (timestamptz) - When a pending payment was confirmed, cancelled or expired
+
+  ### `fraud_rule_settings`
+  - `pending_expiry_minutes` (integer) - Review window for pending payments (default 30)
+
+  ## 2. New Functions
+
+  ### `expire_pending_transactions(p_user_id)`
+  - Declines pending payments past `expires_at` (all users when `p_user_id` is NULL)
+  - Scheduled every minute through pg_cron when the extension is available, and also run
+    lazily before pending payments are listed or resolved
+
+  ### `get_pending_transactions()`
+  - Expires the caller's stale pending payments and returns the remaining ones
+
+  ### `resolve_pending_transaction(p_transaction_id, p_decision)`
+  - `confirm`: re-checks account status, device and daily limit, then approves
+  - `cancel`: declines with reason "Cancelled by user"
+  - The client verifies the PIN before calling; only the owner can resolve their payments
+
+  ## 3. Triggers
+  - `set_transaction_expiry` fills `expires_at` for payments inserted as pending
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS expires_at timestamptz,
+  ADD COLUMN IF NOT EXISTS resolved_at timestamptz;
+
+ALTER TABLE fraud_rule_settings
+  ADD COLUMN IF NOT EXISTS pending_expiry_minutes integer NOT NULL DEFAULT 30
+  CHECK (pending_expiry_minutes > 0);
+
+CREATE INDEX IF NOT EXISTS idx_transactions_pending_expiry
+  ON transactions(expires_at)
+  WHERE status = 'pending';
+
+-- Review deadline for pending payments
+CREATE OR REPLACE FUNCTION set_transaction_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'pending' AND NEW.expires_at IS NULL THEN
+    SELECT coalesce(NEW.created_at, now()) + make_interval(mins => pending_expiry_minutes)
+    INTO NEW.expires_at
+    FROM fraud_rule_settings
+    WHERE id;
+
+    NEW.expires_at := coalesce(NEW.expires_at, coalesce(NEW.created_at, now()) + interval '30 minutes');
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER set_transactions_expires_at
+  BEFORE INSERT ON transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_transaction_expiry();
+
+UPDATE transactions
+SET expires_at = created_at + interval '30 minutes'
+WHERE status = 'pending' AND expires_at IS NULL;
+
+-- Expiry
+CREATE OR REPLACE FUNCTION expire_pending_transactions(p_user_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  FOR v_transaction IN
+    UPDATE transactions
+    SET status = 'declined',
+        decline_reason = 'Pending review expired',
+        resolved_at = now()
+    WHERE status = 'pending'
+      AND expires_at <= now()
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    RETURNING *
+  LOOP
+    PERFORM sign_transaction(v_transaction);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+    VALUES (
+      v_transaction.user_id,
+      'pending_transaction_expired',
+      'medium',
+      format('Pending payment of $%s at %s expired', v_transaction.amount, v_transaction.merchant_name),
+      jsonb_build_object('transaction_id', v_transaction.id)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_pending_transactions()
+RETURNS SETOF transactions AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM expire_pending_transactions(auth.uid());
+
+  RETURN QUERY
+    SELECT *
+    FROM transactions
+    WHERE user_id = auth.uid()
+      AND status = 'pending'
+    ORDER BY created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Owner confirmation or cancellation
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    IF daily_transaction_total(v_user_id) + v_transaction.amount > coalesce(v_user.daily_limit, 1000) THEN
+      RAISE EXCEPTION 'Daily transaction limit exceeded';
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of $%s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION set_transaction_expiry() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION expire_pending_transactions(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_pending_transactions() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION resolve_pending_transaction(uuid, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_pending_transactions() TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_pending_transaction(uuid, text) TO authenticated;
+
+-- Expire in the background when pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'expire-pending-transactions',
+      '* * * * *',
+      'SELECT public.expire_pending_transactions()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,376 @@
+/*
+  # Refunds and Reversals
+
+  ## Overview
+  `transactions` only modelled outgoing payments. Merchant refunds and reversals of erroneous
+  charges are now stored as their own rows linked to the original payment, so the original row
+  and its signature stay untouched.
+
+  ## 1. Modified Tables
+
+  ### `transactions`
+  - `transaction_type` (text) - `payment` (default), `refund` or `reversal`
+  - `original_transaction_id` (uuid, foreign key) - Payment a refund/reversal credits back;
+    required for refunds/reversals and NULL for payments
+  - `adjustment_reason` (text) - Why the refund/reversal was issued
+  - `signature_version` (integer) - Payload version used for `signature`
+
+  ## 2. Signatures
+  - Payload `v2` additionally covers `transaction_type`, `original_transaction_id`,
+    `adjustment_reason` and `geolocation`
+  - New signatures use `v2`; rows signed earlier keep `signature_version = 1` and still verify
+
+  ## 3. New Functions
+
+  ### `create_transaction_adjustment(p_original_transaction_id, p_type, p_amount, p_reason)`
+  - Service role only (merchant integrations and back office); end users cannot credit themselves
+  - Only approved payments can be refunded or reversed; partial amounts are allowed as long as
+    all refunds and reversals together do not exceed the original amount
+  - Creates an approved, signed row with the original's user, device, currency and merchant
+
+  ## 4. Changes
+  - `daily_transaction_total` subtracts refunds and reversals of payments made in the same day
+  - Velocity and location fraud rules only consider payments
+*/
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS transaction_type text NOT NULL DEFAULT 'payment'
+    CHECK (transaction_type IN ('payment', 'refund', 'reversal')),
+  ADD COLUMN IF NOT EXISTS original_transaction_id uuid REFERENCES transactions(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS adjustment_reason text,
+  ADD COLUMN IF NOT EXISTS signature_version integer NOT NULL DEFAULT 1;
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_original_transaction_check
+  CHECK ((transaction_type = 'payment') = (original_transaction_id IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_original_transaction_id
+  ON transactions(original_transaction_id)
+  WHERE original_transaction_id IS NOT NULL;
+
+-- Versioned canonical serialization
+CREATE OR REPLACE FUNCTION transaction_signature_payload(t transactions, p_version integer)
+RETURNS text AS $$
+  SELECT CASE p_version
+    WHEN 1 THEN transaction_signature_payload(t)
+    ELSE jsonb_build_array(
+      'v2',
+      t.id,
+      t.user_id,
+      t.device_id,
+      t.amount::text,
+      upper(t.currency),
+      t.merchant_id,
+      t.merchant_name,
+      t.status,
+      t.risk_score,
+      t.decline_reason,
+      to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+      t.transaction_type,
+      t.original_transaction_id,
+      t.adjustment_reason,
+      t.geolocation
+    )::text
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sign_transaction(t transactions)
+RETURNS transactions AS $$
+DECLARE
+  v_key transaction_signing_keys%ROWTYPE;
+  v_signed transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_key FROM transaction_signing_keys WHERE is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active transaction signing key';
+  END IF;
+
+  UPDATE transactions
+  SET
+    signature = encode(
+      extensions.hmac(convert_to(transaction_signature_payload(t, 2), 'UTF8'), v_key.secret, 'sha256'),
+      'hex'
+    ),
+    signature_key_id = v_key.id,
+    signature_version = 2
+  WHERE id = t.id
+  RETURNING * INTO v_signed;
+
+  RETURN v_signed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_transaction_signature(p_transaction_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+  v_secret bytea;
+BEGIN
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND OR v_transaction.signature_key_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT secret INTO v_secret
+  FROM transaction_signing_keys
+  WHERE id = v_transaction.signature_key_id;
+
+  IF v_secret IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN v_transaction.signature = encode(
+    extensions.hmac(
+      convert_to(transaction_signature_payload(v_transaction, v_transaction.signature_version), 'UTF8'),
+      v_secret,
+      'sha256'
+    ),
+    'hex'
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Refunds credit back payments made in the same day
+CREATE OR REPLACE FUNCTION daily_transaction_total(p_user_id uuid)
+RETURNS numeric AS $$
+  SELECT GREATEST(
+    COALESCE(SUM(t.amount) FILTER (WHERE t.transaction_type = 'payment'), 0)
+      - COALESCE(SUM(t.amount) FILTER (WHERE t.transaction_type <> 'payment'), 0),
+    0
+  )
+  FROM transactions t
+  LEFT JOIN transactions o ON o.id = t.original_transaction_id
+  WHERE t.user_id = p_user_id
+    AND t.status = 'approved'
+    AND coalesce(o.created_at, t.created_at) >= date_trunc('day', now());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Only payments count towards velocity and location rules
+CREATE OR REPLACE FUNCTION evaluate_fraud_rules(p_user_id uuid, p_request jsonb)
+RETURNS TABLE (
+  matched_rule text,
+  matched_type text,
+  rule_action text,
+  rule_score integer,
+  detail text
+) AS $$
+DECLARE
+  v_rule fraud_rules%ROWTYPE;
+  v_params jsonb;
+  v_amount numeric := (p_request->>'amount')::numeric;
+  v_hit boolean;
+  v_detail text;
+  v_window interval;
+  v_count integer;
+  v_device_created timestamptz;
+  v_location jsonb := p_request->'geolocation';
+  v_previous_location jsonb;
+  v_previous_at timestamptz;
+  v_distance_km numeric;
+  v_hours numeric;
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM fraud_rules WHERE is_active ORDER BY fraud_rules.rule_name
+  LOOP
+    v_params := v_rule.parameters;
+    v_hit := false;
+    v_detail := NULL;
+    v_previous_location := NULL;
+
+    BEGIN
+      CASE v_rule.rule_type
+        WHEN 'amount' THEN
+          IF v_params ? 'max_amount' AND v_amount > (v_params->>'max_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Amount %s exceeds %s', v_amount, v_params->>'max_amount');
+          ELSIF v_params ? 'max_daily_amount'
+            AND daily_transaction_total(p_user_id) + v_amount > (v_params->>'max_daily_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Daily total would exceed %s', v_params->>'max_daily_amount');
+          END IF;
+
+        WHEN 'velocity' THEN
+          v_window := make_interval(
+            mins => coalesce((v_params->>'time_window_minutes')::integer, 0),
+            secs => coalesce((v_params->>'time_window_seconds')::integer, 0)
+          );
+
+          SELECT count(*) INTO v_count
+          FROM transactions t
+          WHERE t.user_id = p_user_id
+            AND t.transaction_type = 'payment'
+            AND t.created_at >= now() - v_window
+            AND (NOT coalesce((v_params->>'same_merchant')::boolean, false)
+                 OR t.merchant_id = p_request->>'merchant_id')
+            AND (NOT coalesce((v_params->>'same_amount')::boolean, false)
+                 OR abs(t.amount - v_amount) < 0.01);
+
+          IF v_count >= (v_params->>'max_transactions')::integer THEN
+            v_hit := true;
+            v_detail := format('%s matching transactions within %s', v_count, v_window);
+          END IF;
+
+        WHEN 'device' THEN
+          IF v_params ? 'new_device_hours' THEN
+            SELECT created_at INTO v_device_created
+            FROM nfc_devices
+            WHERE id = (p_request->>'device_id')::uuid;
+
+            IF v_device_created >= now() - make_interval(hours => (v_params->>'new_device_hours')::integer) THEN
+              v_hit := true;
+              v_detail := format('Device registered within %s hours', v_params->>'new_device_hours');
+            END IF;
+          END IF;
+
+        WHEN 'location' THEN
+          IF v_location IS NOT NULL THEN
+            SELECT t.geolocation, t.created_at INTO v_previous_location, v_previous_at
+            FROM transactions t
+            WHERE t.user_id = p_user_id
+              AND t.transaction_type = 'payment'
+              AND t.geolocation IS NOT NULL
+              AND (NOT v_params ? 'time_window_minutes'
+                   OR t.created_at >= now() - make_interval(mins => (v_params->>'time_window_minutes')::integer))
+            ORDER BY t.created_at DESC
+            LIMIT 1;
+
+            IF v_previous_location IS NOT NULL THEN
+              -- Allow for the reported accuracy of both fixes before flagging
+              v_distance_km := GREATEST(
+                geo_distance_km(v_previous_location, v_location)
+                  - (coalesce((v_previous_location->>'accuracy')::numeric, 0)
+                     + coalesce((v_location->>'accuracy')::numeric, 0)) / 1000,
+                0
+              );
+              v_hours := GREATEST(extract(epoch FROM now() - v_previous_at) / 3600, 1.0 / 60);
+
+              IF v_params ? 'max_distance_km' AND v_distance_km > (v_params->>'max_distance_km')::numeric THEN
+                v_hit := true;
+                v_detail := format('%s km from previous payment %s ago',
+                  round(v_distance_km), date_trunc('second', now() - v_previous_at));
+              ELSIF v_params ? 'max_speed_kmh' AND v_distance_km / v_hours > (v_params->>'max_speed_kmh')::numeric THEN
+                v_hit := true;
+                v_detail := format('Implied travel speed %s km/h since previous payment',
+                  round(v_distance_km / v_hours));
+              END IF;
+            END IF;
+          END IF;
+      END CASE;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping fraud rule % with invalid parameters: %', v_rule.rule_name, SQLERRM;
+      v_hit := false;
+    END;
+
+    IF v_hit THEN
+      matched_rule := v_rule.rule_name;
+      matched_type := v_rule.rule_type;
+      rule_action := v_params->>'action';
+      rule_score := coalesce(
+        (v_params->>'score')::integer,
+        CASE rule_action WHEN 'decline' THEN 80 WHEN 'review' THEN 50 ELSE 0 END
+      );
+      detail := v_detail;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Refund / reversal creation
+CREATE OR REPLACE FUNCTION create_transaction_adjustment(
+  p_original_transaction_id uuid,
+  p_type text,
+  p_amount numeric,
+  p_reason text DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_original transactions%ROWTYPE;
+  v_adjusted numeric;
+  v_adjustment transactions%ROWTYPE;
+BEGIN
+  IF p_type NOT IN ('refund', 'reversal') THEN
+    RAISE EXCEPTION 'Invalid adjustment type';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid adjustment amount';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM transactions
+  WHERE id = p_original_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_original.transaction_type <> 'payment' THEN
+    RAISE EXCEPTION 'Original payment not found';
+  END IF;
+
+  IF v_original.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved payments can be refunded or reversed';
+  END IF;
+
+  SELECT coalesce(sum(amount), 0) INTO v_adjusted
+  FROM transactions
+  WHERE original_transaction_id = v_original.id
+    AND status = 'approved';
+
+  IF v_adjusted + p_amount > v_original.amount THEN
+    RAISE EXCEPTION 'Adjustment exceeds the remaining amount of %', v_original.amount - v_adjusted;
+  END IF;
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    merchant_id,
+    merchant_name,
+    status,
+    risk_score,
+    signature,
+    transaction_type,
+    original_transaction_id,
+    adjustment_reason
+  ) VALUES (
+    v_original.user_id,
+    v_original.device_id,
+    p_amount,
+    v_original.currency,
+    v_original.merchant_id,
+    v_original.merchant_name,
+    'approved',
+    0,
+    'unsigned',
+    p_type,
+    v_original.id,
+    p_reason
+  )
+  RETURNING * INTO v_adjustment;
+
+  v_adjustment := sign_transaction(v_adjustment);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+  VALUES (
+    v_original.user_id,
+    CASE p_type WHEN 'refund' THEN 'transaction_refunded' ELSE 'transaction_reversed' END,
+    CASE p_type WHEN 'refund' THEN 'low' ELSE 'medium' END,
+    format('%s of $%s issued for payment at %s', initcap(p_type), p_amount, v_original.merchant_name),
+    jsonb_build_object(
+      'transaction_id', v_adjustment.id,
+      'original_transaction_id', v_original.id,
+      'reason', p_reason
+    )
+  );
+
+  RETURN v_adjustment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION create_transaction_adjustment(uuid, text, numeric, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION create_transaction_adjustment(uuid, text, numeric, text) TO service_role;
@@ -0,0 +1,655 @@
+/*
+  # Multi-currency Payments
+
+  ## Overview
+  `transactions.currency` existed but every payment was submitted as USD and the daily limit
+  summed amounts across currencies as if they were the same. Payments can now be made in any
+  active currency; limits and fraud rules are evaluated in the account's base currency using a
+  locally maintained exchange-rate table, and the converted amount is stored with each payment so
+  historical totals do not move when rates are updated.
+
+  ## 1. New Tables
+
+  ### `currencies`
+  - `code` (text, primary key) - ISO 4217 alphabetic code
+  - `name` (text) - Display name
+  - `minor_units` (integer) - ISO 4217 decimal places (e.g. JPY 0, USD 2, KWD 3)
+  - `units_per_usd` (numeric) - Exchange rate against the USD pivot, maintained by operations
+  - `is_active` (boolean) - Whether new payments may use the currency
+  - `rate_updated_at` (timestamptz) - When `units_per_usd` was last changed
+
+  ## 2. Modified Tables
+
+  ### `users`
+  - `base_currency` (text, foreign key) - Currency of `daily_limit` and limit/risk evaluation
+
+  ### `transactions`
+  - `base_amount` (numeric) - Amount converted to the account's base currency
+  - `base_currency` (text) - The account's base currency at payment time
+  - `exchange_rate` (numeric) - Rate used for the conversion (refunds reuse the original rate)
+
+  ## 3. New Functions
+  - `exchange_rate(p_from, p_to)` - Cross rate through the USD pivot
+  - `currency_minor_units(p_code)` - Decimal places for a currency
+
+  ## 4. Changes
+  - `authorize_transaction` rejects inactive currencies and amounts with more decimals than the
+    currency allows, and checks the daily limit and fraud rules against `base_amount`
+  - `daily_transaction_total`, pending confirmation and refunds work on `base_amount`
+  - Security log descriptions include the ISO currency code instead of a hardcoded `$`
+  - Existing rows are backfilled with `base_amount = amount` (all earlier payments were USD)
+*/
+
+CREATE TABLE IF NOT EXISTS currencies (
+  code text PRIMARY KEY CHECK (code ~ '^[A-Z]{3}$'),
+  name text NOT NULL,
+  minor_units integer NOT NULL CHECK (minor_units BETWEEN 0 AND 4),
+  units_per_usd numeric NOT NULL CHECK (units_per_usd > 0),
+  is_active boolean DEFAULT true,
+  rate_updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE currencies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view currencies"
+  ON currencies FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO currencies (code, name, minor_units, units_per_usd) VALUES
+  ('USD', 'US Dollar', 2, 1),
+  ('EUR', 'Euro', 2, 0.92),
+  ('GBP', 'Pound Sterling', 2, 0.79),
+  ('CHF', 'Swiss Franc', 2, 0.88),
+  ('CAD', 'Canadian Dollar', 2, 1.36),
+  ('AUD', 'Australian Dollar', 2, 1.52),
+  ('JPY', 'Yen', 0, 150),
+  ('KWD', 'Kuwaiti Dinar', 3, 0.31)
+ON CONFLICT (code) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION touch_currency_rate()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.units_per_usd IS DISTINCT FROM OLD.units_per_usd THEN
+    NEW.rate_updated_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_currencies_rate_updated_at
+  BEFORE UPDATE ON currencies
+  FOR EACH ROW
+  EXECUTE FUNCTION touch_currency_rate();
+
+-- Account base currency
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS base_currency text NOT NULL DEFAULT 'USD' REFERENCES currencies(code);
+
+-- Converted amounts
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS base_amount numeric,
+  ADD COLUMN IF NOT EXISTS base_currency text REFERENCES currencies(code),
+  ADD COLUMN IF NOT EXISTS exchange_rate numeric;
+
+UPDATE transactions
+SET base_amount = amount,
+    base_currency = 'USD',
+    exchange_rate = 1,
+    currency = upper(coalesce(currency, 'USD'))
+WHERE base_amount IS NULL;
+
+ALTER TABLE transactions
+  ALTER COLUMN base_amount SET NOT NULL,
+  ALTER COLUMN base_currency SET NOT NULL,
+  ALTER COLUMN exchange_rate SET NOT NULL;
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_currency_fkey
+  FOREIGN KEY (currency) REFERENCES currencies(code) NOT VALID;
+
+-- Conversion helpers
+CREATE OR REPLACE FUNCTION exchange_rate(p_from text, p_to text)
+RETURNS numeric AS $$
+DECLARE
+  v_from numeric;
+  v_to numeric;
+BEGIN
+  IF upper(p_from) = upper(p_to) THEN
+    RETURN 1;
+  END IF;
+
+  SELECT units_per_usd INTO v_from FROM currencies WHERE code = upper(p_from);
+  SELECT units_per_usd INTO v_to FROM currencies WHERE code = upper(p_to);
+
+  IF v_from IS NULL OR v_to IS NULL THEN
+    RAISE EXCEPTION 'No exchange rate from % to %', p_from, p_to;
+  END IF;
+
+  RETURN v_to / v_from;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION currency_minor_units(p_code text)
+RETURNS integer AS $$
+  SELECT coalesce((SELECT minor_units FROM currencies WHERE code = upper(p_code)), 2);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Daily total in the base currency
+CREATE OR REPLACE FUNCTION daily_transaction_total(p_user_id uuid)
+RETURNS numeric AS $$
+  SELECT GREATEST(
+    COALESCE(SUM(t.base_amount) FILTER (WHERE t.transaction_type = 'payment'), 0)
+      - COALESCE(SUM(t.base_amount) FILTER (WHERE t.transaction_type <> 'payment'), 0),
+    0
+  )
+  FROM transactions t
+  LEFT JOIN transactions o ON o.id = t.original_transaction_id
+  WHERE t.user_id = p_user_id
+    AND t.status = 'approved'
+    AND coalesce(o.created_at, t.created_at) >= date_trunc('day', now());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Duplicate detection compares base amounts
+CREATE OR REPLACE FUNCTION evaluate_fraud_rules(p_user_id uuid, p_request jsonb)
+RETURNS TABLE (
+  matched_rule text,
+  matched_type text,
+  rule_action text,
+  rule_score integer,
+  detail text
+) AS $$
+DECLARE
+  v_rule fraud_rules%ROWTYPE;
+  v_params jsonb;
+  v_amount numeric := (p_request->>'amount')::numeric;
+  v_hit boolean;
+  v_detail text;
+  v_window interval;
+  v_count integer;
+  v_device_created timestamptz;
+  v_location jsonb := p_request->'geolocation';
+  v_previous_location jsonb;
+  v_previous_at timestamptz;
+  v_distance_km numeric;
+  v_hours numeric;
+BEGIN
+  FOR v_rule IN
+    SELECT * FROM fraud_rules WHERE is_active ORDER BY fraud_rules.rule_name
+  LOOP
+    v_params := v_rule.parameters;
+    v_hit := false;
+    v_detail := NULL;
+    v_previous_location := NULL;
+
+    BEGIN
+      CASE v_rule.rule_type
+        WHEN 'amount' THEN
+          IF v_params ? 'max_amount' AND v_amount > (v_params->>'max_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Amount %s exceeds %s', v_amount, v_params->>'max_amount');
+          ELSIF v_params ? 'max_daily_amount'
+            AND daily_transaction_total(p_user_id) + v_amount > (v_params->>'max_daily_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Daily total would exceed %s', v_params->>'max_daily_amount');
+          END IF;
+
+        WHEN 'velocity' THEN
+          v_window := make_interval(
+            mins => coalesce((v_params->>'time_window_minutes')::integer, 0),
+            secs => coalesce((v_params->>'time_window_seconds')::integer, 0)
+          );
+
+          SELECT count(*) INTO v_count
+          FROM transactions t
+          WHERE t.user_id = p_user_id
+            AND t.transaction_type = 'payment'
+            AND t.created_at >= now() - v_window
+            AND (NOT coalesce((v_params->>'same_merchant')::boolean, false)
+                 OR t.merchant_id = p_request->>'merchant_id')
+            AND (NOT coalesce((v_params->>'same_amount')::boolean, false)
+                 OR abs(t.base_amount - v_amount) < 0.01);
+
+          IF v_count >= (v_params->>'max_transactions')::integer THEN
+            v_hit := true;
+            v_detail := format('%s matching transactions within %s', v_count, v_window);
+          END IF;
+
+        WHEN 'device' THEN
+          IF v_params ? 'new_device_hours' THEN
+            SELECT created_at INTO v_device_created
+            FROM nfc_devices
+            WHERE id = (p_request->>'device_id')::uuid;
+
+            IF v_device_created >= now() - make_interval(hours => (v_params->>'new_device_hours')::integer) THEN
+              v_hit := true;
+              v_detail := format('Device registered within %s hours', v_params->>'new_device_hours');
+            END IF;
+          END IF;
+
+        WHEN 'location' THEN
+          IF v_location IS NOT NULL THEN
+            SELECT t.geolocation, t.created_at INTO v_previous_location, v_previous_at
+            FROM transactions t
+            WHERE t.user_id = p_user_id
+              AND t.transaction_type = 'payment'
+              AND t.geolocation IS NOT NULL
+              AND (NOT v_params ? 'time_window_minutes'
+                   OR t.created_at >= now() - make_interval(mins => (v_params->>'time_window_minutes')::integer))
+            ORDER BY t.created_at DESC
+            LIMIT 1;
+
+            IF v_previous_location IS NOT NULL THEN
+              -- Allow for the reported accuracy of both fixes before flagging
+              v_distance_km := GREATEST(
+                geo_distance_km(v_previous_location, v_location)
+                  - (coalesce((v_previous_location->>'accuracy')::numeric, 0)
+                     + coalesce((v_location->>'accuracy')::numeric, 0)) / 1000,
+                0
+              );
+              v_hours := GREATEST(extract(epoch FROM now() - v_previous_at) / 3600, 1.0 / 60);
+
+              IF v_params ? 'max_distance_km' AND v_distance_km > (v_params->>'max_distance_km')::numeric THEN
+                v_hit := true;
+                v_detail := format('%s km from previous payment %s ago',
+                  round(v_distance_km), date_trunc('second', now() - v_previous_at));
+              ELSIF v_params ? 'max_speed_kmh' AND v_distance_km / v_hours > (v_params->>'max_speed_kmh')::numeric THEN
+                v_hit := true;
+                v_detail := format('Implied travel speed %s km/h since previous payment',
+                  round(v_distance_km / v_hours));
+              END IF;
+            END IF;
+          END IF;
+      END CASE;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping fraud rule % with invalid parameters: %', v_rule.rule_name, SQLERRM;
+      v_hit := false;
+    END;
+
+    IF v_hit THEN
+      matched_rule := v_rule.rule_name;
+      matched_type := v_rule.rule_type;
+      rule_action := v_params->>'action';
+      rule_score := coalesce(
+        (v_params->>'score')::integer,
+        CASE rule_action WHEN 'decline' THEN 80 WHEN 'review' THEN 50 ELSE 0 END
+      );
+      detail := v_detail;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Authorize in any active currency
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_merchant_name text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  IF coalesce(trim(p_merchant_id), '') = '' OR coalesce(trim(p_merchant_name), '') = '' THEN
+    RAISE EXCEPTION 'Merchant is required';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF daily_transaction_total(v_user_id) + v_base_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', p_merchant_id,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    p_merchant_id,
+    p_merchant_name,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, p_merchant_name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Pending review and refunds in the transaction currency
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    IF daily_transaction_total(v_user_id) + v_transaction.base_amount > coalesce(v_user.daily_limit, 1000) THEN
+      RAISE EXCEPTION 'Daily transaction limit exceeded';
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION expire_pending_transactions(p_user_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+  v_count integer := 0;
+BEGIN
+  FOR v_transaction IN
+    UPDATE transactions
+    SET status = 'declined',
+        decline_reason = 'Pending review expired',
+        resolved_at = now()
+    WHERE status = 'pending'
+      AND expires_at <= now()
+      AND (p_user_id IS NULL OR user_id = p_user_id)
+    RETURNING *
+  LOOP
+    PERFORM sign_transaction(v_transaction);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+    VALUES (
+      v_transaction.user_id,
+      'pending_transaction_expired',
+      'medium',
+      format('Pending payment of %s %s at %s expired',
+        v_transaction.amount, v_transaction.currency, v_transaction.merchant_name),
+      jsonb_build_object('transaction_id', v_transaction.id)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION create_transaction_adjustment(
+  p_original_transaction_id uuid,
+  p_type text,
+  p_amount numeric,
+  p_reason text DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_original transactions%ROWTYPE;
+  v_adjusted numeric;
+  v_adjustment transactions%ROWTYPE;
+BEGIN
+  IF p_type NOT IN ('refund', 'reversal') THEN
+    RAISE EXCEPTION 'Invalid adjustment type';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid adjustment amount';
+  END IF;
+
+  SELECT * INTO v_original
+  FROM transactions
+  WHERE id = p_original_transaction_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_original.transaction_type <> 'payment' THEN
+    RAISE EXCEPTION 'Original payment not found';
+  END IF;
+
+  IF v_original.status <> 'approved' THEN
+    RAISE EXCEPTION 'Only approved payments can be refunded or reversed';
+  END IF;
+
+  IF p_amount <> round(p_amount, currency_minor_units(v_original.currency)) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places',
+      v_original.currency, currency_minor_units(v_original.currency);
+  END IF;
+
+  SELECT coalesce(sum(amount), 0) INTO v_adjusted
+  FROM transactions
+  WHERE original_transaction_id = v_original.id
+    AND status = 'approved';
+
+  IF v_adjusted + p_amount > v_original.amount THEN
+    RAISE EXCEPTION 'Adjustment exceeds the remaining amount of %', v_original.amount - v_adjusted;
+  END IF;
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    status,
+    risk_score,
+    signature,
+    transaction_type,
+    original_transaction_id,
+    adjustment_reason
+  ) VALUES (
+    v_original.user_id,
+    v_original.device_id,
+    p_amount,
+    v_original.currency,
+    -- Credit back at the rate of the original payment
+    round(p_amount * v_original.exchange_rate, currency_minor_units(v_original.base_currency)),
+    v_original.base_currency,
+    v_original.exchange_rate,
+    v_original.merchant_id,
+    v_original.merchant_name,
+    'approved',
+    0,
+    'unsigned',
+    p_type,
+    v_original.id,
+    p_reason
+  )
+  RETURNING * INTO v_adjustment;
+
+  v_adjustment := sign_transaction(v_adjustment);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+  VALUES (
+    v_original.user_id,
+    CASE p_type WHEN 'refund' THEN 'transaction_refunded' ELSE 'transaction_reversed' END,
+    CASE p_type WHEN 'refund' THEN 'low' ELSE 'medium' END,
+    format('%s of %s %s issued for payment at %s',
+      initcap(p_type), p_amount, v_original.currency, v_original.merchant_name),
+    jsonb_build_object(
+      'transaction_id', v_adjustment.id,
+      'original_transaction_id', v_original.id,
+      'reason', p_reason
+    )
+  );
+
+  RETURN v_adjustment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,391 @@
+/*
+  # Merchant Registry
+
+  ## Overview
+  Payments used a synthetic `MERCH_<timestamp>` id and a free-text merchant name, so duplicate
+  detection (which keys on `merchant_id`) could never match and history could not be grouped by
+  merchant. Merchants are now registered records with stable ids, and payments must reference one.
+
+  ## 1. New Tables
+
+  ### `merchants`
+  - `id` (text, primary key) - Stable merchant identifier (`mer_` + 16 hex characters)
+  - `name` (text) - Display name copied onto each payment
+  - `category_code` (text) - ISO 18245 merchant category code (4 digits)
+  - `verification_status` (text) - `unverified`, `verified` or `suspended`
+  - `city` / `country` (text) - Location shown when selecting a merchant
+  - `created_at` / `updated_at` (timestamptz)
+
+  ## 2. Security
+  - RLS enabled; authenticated users can view merchants, only the service role can register or
+    change them
+  - `transactions.merchant_id` references `merchants(id)` for new rows (legacy synthetic ids are
+    left in place; the constraint is NOT VALID)
+
+  ## 3. Rule Engine
+  - New `merchant` rule type:
+    - `require_verified`: matches payments to merchants that are not verified
+    - `category_codes`: matches payments to merchants in the listed categories
+  - Seeded rules: `unverified_merchant` (score 30) and `high_risk_merchant_category`
+    (gambling / quasi-cash, review)
+
+  ## 4. Changes
+  - `authorize_transaction` no longer accepts a merchant name: it takes the merchant id, rejects
+    unknown or suspended merchants and stores the registered name
+*/
+
+CREATE TABLE IF NOT EXISTS merchants (
+  id text PRIMARY KEY DEFAULT 'mer_' || encode(extensions.gen_random_bytes(8), 'hex'),
+  name text NOT NULL,
+  category_code text NOT NULL CHECK (category_code ~ '^[0-9]{4}$'),
+  verification_status text DEFAULT 'unverified'
+    CHECK (verification_status IN ('unverified', 'verified', 'suspended')),
+  city text,
+  country text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchants_name ON merchants(lower(name));
+
+ALTER TABLE merchants ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view merchants"
+  ON merchants FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE TRIGGER update_merchants_updated_at
+  BEFORE UPDATE ON merchants
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Sample merchants for development environments
+INSERT INTO merchants (id, name, category_code, verification_status, city, country) VALUES
+  ('mer_0000000000000001', 'Blue Bottle Coffee', '5814', 'verified', 'San Francisco', 'US'),
+  ('mer_0000000000000002', 'Whole Foods Market', '5411', 'verified', 'Austin', 'US'),
+  ('mer_0000000000000003', 'City Transit Authority', '4111', 'verified', 'New York', 'US'),
+  ('mer_0000000000000004', 'Corner Newsstand', '5994', 'unverified', 'Chicago', 'US')
+ON CONFLICT (id) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_transactions_merchant_id ON transactions(merchant_id);
+
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_merchant_id_fkey
+  FOREIGN KEY (merchant_id) REFERENCES merchants(id) NOT VALID;
+
+-- Merchant rules
+ALTER TABLE fraud_rules DROP CONSTRAINT IF EXISTS fraud_rules_rule_type_check;
+ALTER TABLE fraud_rules
+  ADD CONSTRAINT fraud_rules_rule_type_check
+  CHECK (rule_type IN ('velocity', 'amount', 'location', 'device', 'merchant'));
+
+INSERT INTO fraud_rules (rule_name, rule_type, parameters) VALUES
+  ('unverified_merchant', 'merchant', '{"require_verified": true, "score": 30, "action": "score"}'),
+  ('high_risk_merchant_category', 'merchant', '{"category_codes": ["7995", "6051", "4829"], "score": 40, "action": "review"}')
+ON CONFLICT (rule_name) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION evaluate_fraud_rules(p_user_id uuid, p_request jsonb)
+RETURNS TABLE (
+  matched_rule text,
+  matched_type text,
+  rule_action text,
+  rule_score integer,
+  detail text
+) AS $$
+DECLARE
+  v_rule fraud_rules%ROWTYPE;
+  v_params jsonb;
+  v_amount numeric := (p_request->>'amount')::numeric;
+  v_hit boolean;
+  v_detail text;
+  v_window interval;
+  v_count integer;
+  v_device_created timestamptz;
+  v_location jsonb := p_request->'geolocation';
+  v_previous_location jsonb;
+  v_previous_at timestamptz;
+  v_distance_km numeric;
+  v_hours numeric;
+  v_merchant merchants%ROWTYPE;
+BEGIN
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_request->>'merchant_id';
+
+  FOR v_rule IN
+    SELECT * FROM fraud_rules WHERE is_active ORDER BY fraud_rules.rule_name
+  LOOP
+    v_params := v_rule.parameters;
+    v_hit := false;
+    v_detail := NULL;
+    v_previous_location := NULL;
+
+    BEGIN
+      CASE v_rule.rule_type
+        WHEN 'amount' THEN
+          IF v_params ? 'max_amount' AND v_amount > (v_params->>'max_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Amount %s exceeds %s', v_amount, v_params->>'max_amount');
+          ELSIF v_params ? 'max_daily_amount'
+            AND daily_transaction_total(p_user_id) + v_amount > (v_params->>'max_daily_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Daily total would exceed %s', v_params->>'max_daily_amount');
+          END IF;
+
+        WHEN 'velocity' THEN
+          v_window := make_interval(
+            mins => coalesce((v_params->>'time_window_minutes')::integer, 0),
+            secs => coalesce((v_params->>'time_window_seconds')::integer, 0)
+          );
+
+          SELECT count(*) INTO v_count
+          FROM transactions t
+          WHERE t.user_id = p_user_id
+            AND t.transaction_type = 'payment'
+            AND t.created_at >= now() - v_window
+            AND (NOT coalesce((v_params->>'same_merchant')::boolean, false)
+                 OR t.merchant_id = p_request->>'merchant_id')
+            AND (NOT coalesce((v_params->>'same_amount')::boolean, false)
+                 OR abs(t.base_amount - v_amount) < 0.01);
+
+          IF v_count >= (v_params->>'max_transactions')::integer THEN
+            v_hit := true;
+            v_detail := format('%s matching transactions within %s', v_count, v_window);
+          END IF;
+
+        WHEN 'device' THEN
+          IF v_params ? 'new_device_hours' THEN
+            SELECT created_at INTO v_device_created
+            FROM nfc_devices
+            WHERE id = (p_request->>'device_id')::uuid;
+
+            IF v_device_created >= now() - make_interval(hours => (v_params->>'new_device_hours')::integer) THEN
+              v_hit := true;
+              v_detail := format('Device registered within %s hours', v_params->>'new_device_hours');
+            END IF;
+          END IF;
+
+        WHEN 'location' THEN
+          IF v_location IS NOT NULL THEN
+            SELECT t.geolocation, t.created_at INTO v_previous_location, v_previous_at
+            FROM transactions t
+            WHERE t.user_id = p_user_id
+              AND t.transaction_type = 'payment'
+              AND t.geolocation IS NOT NULL
+              AND (NOT v_params ? 'time_window_minutes'
+                   OR t.created_at >= now() - make_interval(mins => (v_params->>'time_window_minutes')::integer))
+            ORDER BY t.created_at DESC
+            LIMIT 1;
+
+            IF v_previous_location IS NOT NULL THEN
+              -- Allow for the reported accuracy of both fixes before flagging
+              v_distance_km := GREATEST(
+                geo_distance_km(v_previous_location, v_location)
+                  - (coalesce((v_previous_location->>'accuracy')::numeric, 0)
+                     + coalesce((v_location->>'accuracy')::numeric, 0)) / 1000,
+                0
+              );
+              v_hours := GREATEST(extract(epoch FROM now() - v_previous_at) / 3600, 1.0 / 60);
+
+              IF v_params ? 'max_distance_km' AND v_distance_km > (v_params->>'max_distance_km')::numeric THEN
+                v_hit := true;
+                v_detail := format('%s km from previous payment %s ago',
+                  round(v_distance_km), date_trunc('second', now() - v_previous_at));
+              ELSIF v_params ? 'max_speed_kmh' AND v_distance_km / v_hours > (v_params->>'max_speed_kmh')::numeric THEN
+                v_hit := true;
+                v_detail := format('Implied travel speed %s km/h since previous payment',
+                  round(v_distance_km / v_hours));
+              END IF;
+            END IF;
+          END IF;
+
+        WHEN 'merchant' THEN
+          IF coalesce((v_params->>'require_verified')::boolean, false)
+            AND v_merchant.verification_status IS DISTINCT FROM 'verified' THEN
+            v_hit := true;
+            v_detail := format('Merchant %s is not verified', p_request->>'merchant_id');
+          ELSIF v_params ? 'category_codes'
+            AND v_params->'category_codes' ? v_merchant.category_code THEN
+            v_hit := true;
+            v_detail := format('Merchant category %s', v_merchant.category_code);
+          END IF;
+      END CASE;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping fraud rule % with invalid parameters: %', v_rule.rule_name, SQLERRM;
+      v_hit := false;
+    END;
+
+    IF v_hit THEN
+      matched_rule := v_rule.rule_name;
+      matched_type := v_rule.rule_type;
+      rule_action := v_params->>'action';
+      rule_score := coalesce(
+        (v_params->>'score')::integer,
+        CASE rule_action WHEN 'decline' THEN 80 WHEN 'review' THEN 50 ELSE 0 END
+      );
+      detail := v_detail;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Payments must reference a registered merchant
+DROP FUNCTION IF EXISTS authorize_transaction(uuid, numeric, text, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF daily_transaction_total(v_user_id) + v_base_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb) TO authenticated;
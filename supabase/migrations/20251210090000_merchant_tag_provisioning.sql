@@ -0,0 +1,580 @@
+/*
+  # Merchant Tag Provisioning
+
+  ## Overview
+  Payment-request tags could be written by anyone with any content, so the payment form trusted
+  whatever merchant and amount a tag claimed. Merchant operators can now provision tags through
+  the app: the server issues a signed payment request, the client writes it to a blank tag and
+  reads it back, and the tag is then recorded against the merchant with its UID. Tags that are
+  unknown, revoked, copied to another tag or edited after provisioning are rejected.
+
+  ## 1. New Tables
+
+  ### `merchant_operators`
+  - `merchant_id` (text) / `user_id` (uuid) - Users allowed to provision tags for a merchant
+  - Managed by the service role; users can see their own rows
+
+  ### `merchant_tags`
+  - `id` (uuid, primary key)
+  - `merchant_id` (text) - Merchant the tag charges
+  - `nonce` (text, unique) - Random per-tag identifier written into the payment request
+  - `amount` (numeric) - Fixed amount, NULL for open-amount tags
+  - `currency` (text) - Currency of the request
+  - `tag_uid` (text) - Serial number of the physical tag, set on activation
+  - `signature` / `signature_key_id` (text) - HMAC-SHA256 over the request fields, using the
+    transaction signing keys
+  - `status` (text) - `pending` until the write is verified, then `active`; `revoked` when
+    withdrawn
+  - `is_read_only` (boolean) - Whether the tag was permanently locked after writing
+  - `provisioned_by` (uuid), `created_at`, `activated_at`, `revoked_at`
+
+  ### `transactions`
+  - `merchant_tag_id` (uuid) - Tag the payment was started from, if any
+
+  ## 2. New Functions
+  - `create_merchant_tag(p_merchant_id, p_amount, p_currency)` - Operator only; returns the signed
+    payment-request payload to write
+  - `activate_merchant_tag(p_nonce, p_tag_uid, p_read_only)` - Operator only; binds a verified write
+    to the tag UID
+  - `revoke_merchant_tag(p_tag_id)` - Operator only
+  - `verify_payment_request(p_request, p_tag_uid)` - Checks a tapped tag and logs
+    `merchant_tag_rejected` when it is not valid
+  - `merchant_tag_rejection(p_request, p_tag_uid)` - Internal; reason a tag is invalid, or NULL
+
+  ## 3. Changes
+  - `authorize_transaction` accepts `p_payment_request` (the tapped request plus `tag_uid`) and
+    rejects payments whose tag is invalid or whose merchant, currency or fixed amount differ from it
+*/
+
+CREATE TABLE IF NOT EXISTS merchant_operators (
+  merchant_id text NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (merchant_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchant_operators_user_id ON merchant_operators(user_id);
+
+ALTER TABLE merchant_operators ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own merchant operator roles"
+  ON merchant_operators FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE TABLE IF NOT EXISTS merchant_tags (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  merchant_id text NOT NULL REFERENCES merchants(id) ON DELETE CASCADE,
+  nonce text NOT NULL UNIQUE,
+  amount numeric CHECK (amount IS NULL OR amount > 0),
+  currency text NOT NULL REFERENCES currencies(code),
+  tag_uid text,
+  signature text NOT NULL,
+  signature_key_id text NOT NULL REFERENCES transaction_signing_keys(id),
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'active', 'revoked')),
+  is_read_only boolean DEFAULT false,
+  provisioned_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  activated_at timestamptz,
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_merchant_tags_merchant_id ON merchant_tags(merchant_id);
+
+-- A physical tag can carry only one live payment request
+CREATE UNIQUE INDEX IF NOT EXISTS idx_merchant_tags_active_uid
+  ON merchant_tags(tag_uid)
+  WHERE status = 'active';
+
+ALTER TABLE merchant_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Operators can view their merchants' tags"
+  ON merchant_tags FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM merchant_operators o
+      WHERE o.merchant_id = merchant_tags.merchant_id
+        AND o.user_id = auth.uid()
+    )
+  );
+
+ALTER TABLE transactions
+  ADD COLUMN IF NOT EXISTS merchant_tag_id uuid REFERENCES merchant_tags(id);
+
+-- Canonical serialization of the signed request fields
+CREATE OR REPLACE FUNCTION merchant_tag_signature_payload(t merchant_tags)
+RETURNS text AS $$
+  SELECT jsonb_build_array(
+    'payment_request_v1',
+    t.merchant_id,
+    t.amount::text,
+    t.currency,
+    t.nonce
+  )::text;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION is_merchant_operator(p_merchant_id text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM merchant_operators
+    WHERE merchant_id = p_merchant_id
+      AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION create_merchant_tag(
+  p_merchant_id text,
+  p_amount numeric DEFAULT NULL,
+  p_currency text DEFAULT 'USD'
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_merchant merchants%ROWTYPE;
+  v_currency currencies%ROWTYPE;
+  v_key transaction_signing_keys%ROWTYPE;
+  v_tag merchant_tags%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_merchant_operator(p_merchant_id) THEN
+    RAISE EXCEPTION 'Not an operator of this merchant';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  SELECT * INTO v_currency FROM currencies WHERE code = upper(p_currency) AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount IS NOT NULL THEN
+    IF p_amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid transaction amount';
+    END IF;
+
+    IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+      RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_key FROM transaction_signing_keys WHERE is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active transaction signing key';
+  END IF;
+
+  v_tag.merchant_id := v_merchant.id;
+  v_tag.amount := p_amount;
+  v_tag.currency := v_currency.code;
+  v_tag.nonce := encode(extensions.gen_random_bytes(16), 'hex');
+
+  INSERT INTO merchant_tags (
+    merchant_id,
+    nonce,
+    amount,
+    currency,
+    signature,
+    signature_key_id,
+    provisioned_by
+  ) VALUES (
+    v_tag.merchant_id,
+    v_tag.nonce,
+    v_tag.amount,
+    v_tag.currency,
+    encode(
+      extensions.hmac(convert_to(merchant_tag_signature_payload(v_tag), 'UTF8'), v_key.secret, 'sha256'),
+      'hex'
+    ),
+    v_key.id,
+    auth.uid()
+  )
+  RETURNING * INTO v_tag;
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'v', 1,
+    'merchant_id', v_tag.merchant_id,
+    'amount', v_tag.amount,
+    'currency', v_tag.currency,
+    'nonce', v_tag.nonce,
+    'kid', v_tag.signature_key_id,
+    'sig', v_tag.signature
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION activate_merchant_tag(
+  p_nonce text,
+  p_tag_uid text,
+  p_read_only boolean DEFAULT false
+)
+RETURNS merchant_tags AS $$
+DECLARE
+  v_tag merchant_tags%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(p_tag_uid, '') = '' THEN
+    RAISE EXCEPTION 'Tag serial number is required';
+  END IF;
+
+  SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_nonce FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_merchant_operator(v_tag.merchant_id) THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF v_tag.status <> 'pending' THEN
+    RAISE EXCEPTION 'Tag is already %', v_tag.status;
+  END IF;
+
+  -- Rewriting a tag replaces the request it carried before
+  UPDATE merchant_tags
+  SET status = 'revoked', revoked_at = now()
+  WHERE tag_uid = p_tag_uid
+    AND status = 'active';
+
+  UPDATE merchant_tags
+  SET status = 'active',
+      tag_uid = p_tag_uid,
+      is_read_only = coalesce(p_read_only, false),
+      activated_at = now()
+  WHERE id = v_tag.id
+  RETURNING * INTO v_tag;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    auth.uid(),
+    'merchant_tag_provisioned',
+    'low',
+    format('Payment tag provisioned for merchant %s', v_tag.merchant_id),
+    request_ip(),
+    jsonb_build_object(
+      'merchant_tag_id', v_tag.id,
+      'merchant_id', v_tag.merchant_id,
+      'tag_uid', v_tag.tag_uid,
+      'read_only', v_tag.is_read_only
+    )
+  );
+
+  RETURN v_tag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_merchant_tag(p_tag_id uuid)
+RETURNS merchant_tags AS $$
+DECLARE
+  v_tag merchant_tags%ROWTYPE;
+BEGIN
+  SELECT * INTO v_tag FROM merchant_tags WHERE id = p_tag_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_merchant_operator(v_tag.merchant_id) THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF v_tag.status = 'revoked' THEN
+    RETURN v_tag;
+  END IF;
+
+  UPDATE merchant_tags
+  SET status = 'revoked', revoked_at = now()
+  WHERE id = v_tag.id
+  RETURNING * INTO v_tag;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    auth.uid(),
+    'merchant_tag_revoked',
+    'medium',
+    format('Payment tag revoked for merchant %s', v_tag.merchant_id),
+    request_ip(),
+    jsonb_build_object('merchant_tag_id', v_tag.id, 'tag_uid', v_tag.tag_uid)
+  );
+
+  RETURN v_tag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Why a tapped payment request is not acceptable, or NULL when it is
+CREATE OR REPLACE FUNCTION merchant_tag_rejection(p_request jsonb, p_tag_uid text)
+RETURNS text AS $$
+DECLARE
+  v_tag merchant_tags%ROWTYPE;
+  v_secret bytea;
+  v_amount numeric;
+BEGIN
+  SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_request->>'nonce';
+
+  IF NOT FOUND OR v_tag.status = 'pending' THEN
+    RETURN 'Unknown tag';
+  END IF;
+
+  IF v_tag.status = 'revoked' THEN
+    RETURN 'Tag has been revoked';
+  END IF;
+
+  IF v_tag.tag_uid IS DISTINCT FROM p_tag_uid THEN
+    RETURN 'Request was copied from another tag';
+  END IF;
+
+  BEGIN
+    v_amount := (p_request->>'amount')::numeric;
+  EXCEPTION WHEN others THEN
+    RETURN 'Tag contents do not match the provisioned request';
+  END;
+
+  IF v_tag.merchant_id IS DISTINCT FROM p_request->>'merchant_id'
+    OR v_tag.currency IS DISTINCT FROM p_request->>'currency'
+    OR v_tag.amount IS DISTINCT FROM v_amount
+    OR v_tag.signature_key_id IS DISTINCT FROM p_request->>'kid'
+    OR v_tag.signature IS DISTINCT FROM p_request->>'sig' THEN
+    RETURN 'Tag contents do not match the provisioned request';
+  END IF;
+
+  SELECT secret INTO v_secret FROM transaction_signing_keys WHERE id = v_tag.signature_key_id;
+
+  IF v_secret IS NULL OR v_tag.signature <> encode(
+    extensions.hmac(convert_to(merchant_tag_signature_payload(v_tag), 'UTF8'), v_secret, 'sha256'),
+    'hex'
+  ) THEN
+    RETURN 'Invalid tag signature';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_payment_request(p_request jsonb, p_tag_uid text)
+RETURNS boolean AS $$
+DECLARE
+  v_reason text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_reason := merchant_tag_rejection(p_request, p_tag_uid);
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      auth.uid(),
+      'merchant_tag_rejected',
+      'high',
+      format('Payment tag rejected: %s', v_reason),
+      request_ip(),
+      jsonb_build_object(
+        'reason', v_reason,
+        'merchant_id', p_request->>'merchant_id',
+        'nonce', p_request->>'nonce',
+        'tag_uid', p_tag_uid
+      )
+    );
+  END IF;
+
+  RETURN v_reason IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION is_merchant_operator(text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION merchant_tag_rejection(jsonb, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION create_merchant_tag(text, numeric, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION activate_merchant_tag(text, text, boolean) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION revoke_merchant_tag(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION verify_payment_request(jsonb, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_merchant_tag(text, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION activate_merchant_tag(text, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_merchant_tag(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_payment_request(jsonb, text) TO authenticated;
+
+-- Payments started from a tag must match it
+DROP FUNCTION IF EXISTS authorize_transaction(uuid, numeric, text, text, jsonb);
+
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF daily_transaction_total(v_user_id) + v_base_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb, jsonb) TO authenticated;
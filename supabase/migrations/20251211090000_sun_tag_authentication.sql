@@ -0,0 +1,460 @@
+/*
+  # Tag Authentication with Secure Unique NFC (NTAG 424 DNA SUN/SDM)
+
+  ## Overview
+  Payment devices were identified by the tag serial number alone, which any writable tag or phone
+  can copy or spoof. Tags that emit Secure Unique NFC messages mirror an encrypted UID, a rolling
+  read counter and a truncated AES-CMAC into their NDEF URL on every tap. Those messages are now
+  verified here, where the keys live: the UID is decrypted with the SDM meta read key, the MAC is
+  checked with the tag's own SDM file read key, and the counter must increase on every tap.
+  Enrolled tags can only pay with a fresh, successful authentication.
+
+  ## 1. New Tables
+
+  ### `nfc_sun_meta_keys`
+  - `id` (text, primary key), `secret` (bytea, 16 bytes) - SDMMetaReadKey used to decrypt PICC data
+  - `is_active` (boolean), `created_at`, `retired_at` - Several keys may be active during rotation
+
+  ### `nfc_tag_keys`
+  - `tag_uid` (text, primary key) - UID in Web NFC serial number format (`04:de:5f:…`)
+  - `file_read_key` (bytea, 16 bytes) - Per-tag SDMFileReadKey used for the MAC
+  - `last_read_counter` (integer) - Highest SDMReadCtr accepted so far
+  - `enrolled_at` / `last_authenticated_at` (timestamptz)
+
+  ### `nfc_tag_authentications`
+  - One row per successful tap; consumed by `authorize_transaction` within two minutes
+
+  ## 2. New Functions
+  - `aes_cmac(p_key, p_message)` - AES-128 CMAC (RFC 4493) on top of pgcrypto
+  - `authenticate_nfc_tag(p_picc_data, p_cmac)` - Verifies a SUN message and returns a one-time
+    authentication id and the decrypted UID. Invalid MACs and non-increasing counters are logged
+    as critical `nfc_tag_clone_detected` events
+
+  ## 3. Changes
+  - `authorize_transaction` takes `p_tag_authentication`. Devices whose UID is enrolled in
+    `nfc_tag_keys` are rejected without an unused authentication for that UID; other devices keep
+    working as before
+
+  ## 4. Security
+  - Key and authentication tables have RLS enabled with no policies and all privileges revoked
+    from `anon` and `authenticated`; keys are enrolled by the service role
+*/
+
+CREATE TABLE IF NOT EXISTS nfc_sun_meta_keys (
+  id text PRIMARY KEY,
+  secret bytea NOT NULL CHECK (length(secret) = 16),
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  retired_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS nfc_tag_keys (
+  tag_uid text PRIMARY KEY,
+  file_read_key bytea NOT NULL CHECK (length(file_read_key) = 16),
+  last_read_counter integer,
+  enrolled_at timestamptz DEFAULT now(),
+  last_authenticated_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS nfc_tag_authentications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  tag_uid text NOT NULL,
+  read_counter integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_nfc_tag_authentications_user_id ON nfc_tag_authentications(user_id);
+
+ALTER TABLE nfc_sun_meta_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nfc_tag_keys ENABLE ROW LEVEL SECURITY;
+ALTER TABLE nfc_tag_authentications ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON nfc_sun_meta_keys FROM anon, authenticated;
+REVOKE ALL ON nfc_tag_keys FROM anon, authenticated;
+REVOKE ALL ON nfc_tag_authentications FROM anon, authenticated;
+
+-- AES-CMAC (RFC 4493)
+CREATE OR REPLACE FUNCTION bytea_xor(a bytea, b bytea)
+RETURNS bytea AS $$
+DECLARE
+  v_result bytea := a;
+BEGIN
+  FOR i IN 0 .. length(a) - 1 LOOP
+    v_result := set_byte(v_result, i, get_byte(a, i) # get_byte(b, i));
+  END LOOP;
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+CREATE OR REPLACE FUNCTION cmac_subkey(p_block bytea)
+RETURNS bytea AS $$
+DECLARE
+  v_result bytea := p_block;
+BEGIN
+  FOR i IN 0 .. 15 LOOP
+    v_result := set_byte(v_result, i,
+      ((get_byte(p_block, i) << 1) & 255)
+      | CASE WHEN i < 15 THEN get_byte(p_block, i + 1) >> 7 ELSE 0 END);
+  END LOOP;
+
+  IF get_byte(p_block, 0) >= 128 THEN
+    v_result := set_byte(v_result, 15, get_byte(v_result, 15) # 135);
+  END IF;
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+CREATE OR REPLACE FUNCTION aes_cmac(p_key bytea, p_message bytea)
+RETURNS bytea AS $$
+DECLARE
+  v_zero bytea := '\x00000000000000000000000000000000';
+  v_blocks integer := greatest(ceil(length(p_message) / 16.0)::integer, 1);
+  v_state bytea := v_zero;
+  v_k1 bytea;
+  v_k2 bytea;
+  v_last bytea;
+BEGIN
+  v_k1 := cmac_subkey(extensions.encrypt(v_zero, p_key, 'aes-ecb/pad:none'));
+  v_k2 := cmac_subkey(v_k1);
+
+  v_last := substring(p_message FROM (v_blocks - 1) * 16 + 1);
+  IF length(v_last) = 16 THEN
+    v_last := bytea_xor(v_last, v_k1);
+  ELSE
+    v_last := bytea_xor(v_last || '\x80'::bytea || substring(v_zero FROM 1 FOR 15 - length(v_last)), v_k2);
+  END IF;
+
+  FOR i IN 1 .. v_blocks - 1 LOOP
+    v_state := extensions.encrypt(
+      bytea_xor(v_state, substring(p_message FROM (i - 1) * 16 + 1 FOR 16)),
+      p_key,
+      'aes-ecb/pad:none'
+    );
+  END LOOP;
+
+  RETURN extensions.encrypt(bytea_xor(v_state, v_last), p_key, 'aes-ecb/pad:none');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+-- UID bytes in Web NFC serial number format
+CREATE OR REPLACE FUNCTION format_tag_uid(p_uid bytea)
+RETURNS text AS $$
+  SELECT string_agg(lpad(to_hex(get_byte(p_uid, i)), 2, '0'), ':' ORDER BY i)
+  FROM generate_series(0, length(p_uid) - 1) AS i;
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+-- SUN MACs keep the odd-indexed bytes of the full CMAC
+CREATE OR REPLACE FUNCTION sun_mac(p_file_read_key bytea, p_uid bytea, p_read_counter bytea)
+RETURNS bytea AS $$
+  SELECT string_agg(substring(m.full_mac FROM i + 1 FOR 1), ''::bytea ORDER BY i)
+  FROM (
+    SELECT aes_cmac(
+      aes_cmac(p_file_read_key, '\x3cc300010080'::bytea || p_uid || p_read_counter),
+      ''::bytea
+    ) AS full_mac
+  ) m,
+  generate_series(1, 15, 2) AS i;
+$$ LANGUAGE sql IMMUTABLE STRICT;
+
+CREATE OR REPLACE FUNCTION authenticate_nfc_tag(p_picc_data text, p_cmac text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_secret bytea;
+  v_plain bytea;
+  v_uid bytea;
+  v_counter_bytes bytea;
+  v_counter integer;
+  v_tag_uid text;
+  v_tag nfc_tag_keys%ROWTYPE;
+  v_reason text;
+  v_authentication_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_picc_data !~* '^[0-9a-f]{32}$' OR p_cmac !~* '^[0-9a-f]{16}$' THEN
+    RAISE EXCEPTION 'Malformed SUN message';
+  END IF;
+
+  -- PICC data tag 0xC7: UID and read counter mirrored, 7-byte UID
+  FOR v_secret IN
+    SELECT secret FROM nfc_sun_meta_keys WHERE is_active ORDER BY created_at DESC
+  LOOP
+    v_plain := extensions.decrypt_iv(
+      decode(p_picc_data, 'hex'),
+      v_secret,
+      '\x00000000000000000000000000000000'::bytea,
+      'aes-cbc/pad:none'
+    );
+    EXIT WHEN get_byte(v_plain, 0) = 199;
+    v_plain := NULL;
+  END LOOP;
+
+  IF v_plain IS NULL THEN
+    v_reason := 'Unreadable SUN message';
+  ELSE
+    v_uid := substring(v_plain FROM 2 FOR 7);
+    v_counter_bytes := substring(v_plain FROM 9 FOR 3);
+    v_counter := get_byte(v_counter_bytes, 0)
+      | (get_byte(v_counter_bytes, 1) << 8)
+      | (get_byte(v_counter_bytes, 2) << 16);
+    v_tag_uid := format_tag_uid(v_uid);
+
+    SELECT * INTO v_tag FROM nfc_tag_keys WHERE tag_uid = v_tag_uid FOR UPDATE;
+
+    IF NOT FOUND THEN
+      v_reason := 'Tag is not enrolled for authentication';
+    ELSIF sun_mac(v_tag.file_read_key, v_uid, v_counter_bytes) <> decode(p_cmac, 'hex') THEN
+      v_reason := 'Invalid CMAC';
+    ELSIF v_counter <= v_tag.last_read_counter THEN
+      v_reason := 'Replayed read counter';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      CASE WHEN v_tag.tag_uid IS NOT NULL THEN 'nfc_tag_clone_detected' ELSE 'nfc_tag_authentication_failed' END,
+      CASE WHEN v_tag.tag_uid IS NOT NULL THEN 'critical' ELSE 'high' END,
+      format('NFC tag authentication failed: %s', v_reason),
+      request_ip(),
+      jsonb_build_object(
+        'reason', v_reason,
+        'tag_uid', v_tag_uid,
+        'read_counter', v_counter,
+        'last_read_counter', v_tag.last_read_counter
+      )
+    );
+
+    RETURN jsonb_build_object('authenticated', false, 'reason', v_reason);
+  END IF;
+
+  UPDATE nfc_tag_keys
+  SET last_read_counter = v_counter, last_authenticated_at = now()
+  WHERE tag_uid = v_tag_uid;
+
+  INSERT INTO nfc_tag_authentications (user_id, tag_uid, read_counter)
+  VALUES (v_user_id, v_tag_uid, v_counter)
+  RETURNING id INTO v_authentication_id;
+
+  RETURN jsonb_build_object(
+    'authenticated', true,
+    'authentication_id', v_authentication_id,
+    'tag_uid', v_tag_uid,
+    'read_counter', v_counter
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION bytea_xor(bytea, bytea) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cmac_subkey(bytea) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION aes_cmac(bytea, bytea) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION sun_mac(bytea, bytea, bytea) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION authenticate_nfc_tag(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION authenticate_nfc_tag(text, text) TO authenticated;
+
+-- Enrolled tags must present a fresh authentication
+DROP FUNCTION IF EXISTS authorize_transaction(uuid, numeric, text, text, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF daily_transaction_total(v_user_id) + v_base_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb, jsonb, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb, jsonb, uuid) TO authenticated;
@@ -0,0 +1,388 @@
+/*
+  # Explicit NFC Device Pairing
+
+  ## Overview
+  Any tag tapped during a payment after a correct PIN was silently registered as a trusted payment
+  device. Devices are now paired deliberately from Device Management: the tag is scanned, named and
+  confirmed with the PIN, and can be held in a cooling-off period during which it may only make
+  small payments. Tags that were never paired are rejected at payment time and logged.
+
+  ## 1. Changes to `nfc_devices`
+  - `paired_at` (timestamptz) - When the device was paired
+  - `cooling_off_until` (timestamptz) - End of the optional cooling-off period
+  - `cooling_off_limit` (numeric) - Largest payment, in the account's base currency, allowed while
+    cooling off
+
+  ## 2. New Functions
+  - `pair_nfc_device(p_device_uid, p_device_name, p_tag_authentication, p_cooling_off_hours,
+    p_cooling_off_limit)` - Pairs a tag with the caller's account. Tags enrolled in `nfc_tag_keys`
+    need a fresh Secure Unique NFC authentication; tags paired with any account are refused
+  - `resolve_payment_device(p_device_uid)` - Returns the caller's active device for a tapped tag,
+    or NULL after logging an `unpaired_device_rejected` event
+
+  ## 3. Changes
+  - `authorize_transaction` rejects payments above `cooling_off_limit` until `cooling_off_until`
+
+  ## 4. Security
+  - The insert policy on `nfc_devices` is dropped; devices can only be created by `pair_nfc_device`
+  - Clients may update only `device_name`, `is_active` and `last_used`, so a paired device cannot be
+    pointed at another tag or released from its cooling-off period
+*/
+
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS paired_at timestamptz DEFAULT now();
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS cooling_off_until timestamptz;
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS cooling_off_limit numeric CHECK (cooling_off_limit >= 0);
+
+UPDATE nfc_devices SET paired_at = created_at WHERE paired_at IS NULL;
+
+DROP POLICY IF EXISTS "Users can insert own devices" ON nfc_devices;
+
+REVOKE INSERT, UPDATE ON nfc_devices FROM anon, authenticated;
+GRANT UPDATE (device_name, is_active, last_used) ON nfc_devices TO authenticated;
+
+CREATE OR REPLACE FUNCTION pair_nfc_device(
+  p_device_uid text,
+  p_device_name text,
+  p_tag_authentication uuid DEFAULT NULL,
+  p_cooling_off_hours integer DEFAULT 0,
+  p_cooling_off_limit numeric DEFAULT NULL
+)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_existing nfc_devices%ROWTYPE;
+  v_name text := btrim(p_device_name);
+  v_hours integer := coalesce(p_cooling_off_hours, 0);
+  v_device nfc_devices%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF coalesce(btrim(p_device_uid), '') = '' THEN
+    RAISE EXCEPTION 'Missing device UID';
+  END IF;
+
+  IF coalesce(v_name, '') = '' OR length(v_name) > 50 THEN
+    RAISE EXCEPTION 'Device name must be between 1 and 50 characters';
+  END IF;
+
+  IF v_hours < 0 OR v_hours > 168 THEN
+    RAISE EXCEPTION 'Cooling-off period must be between 0 and 168 hours';
+  END IF;
+
+  IF v_hours > 0 AND (p_cooling_off_limit IS NULL OR p_cooling_off_limit < 0) THEN
+    RAISE EXCEPTION 'A cooling-off period needs a payment limit';
+  END IF;
+
+  SELECT * INTO v_existing FROM nfc_devices WHERE device_uid = p_device_uid;
+
+  IF FOUND THEN
+    IF v_existing.user_id = v_user_id THEN
+      RAISE EXCEPTION 'This tag is already paired with your account';
+    END IF;
+    RAISE EXCEPTION 'This tag is already paired with another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = p_device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = p_device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  INSERT INTO nfc_devices (
+    user_id,
+    device_uid,
+    device_name,
+    is_active,
+    paired_at,
+    cooling_off_until,
+    cooling_off_limit
+  ) VALUES (
+    v_user_id,
+    p_device_uid,
+    v_name,
+    true,
+    now(),
+    CASE WHEN v_hours > 0 THEN now() + make_interval(hours => v_hours) END,
+    CASE WHEN v_hours > 0 THEN round(p_cooling_off_limit, currency_minor_units(v_user.base_currency)) END
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'nfc_device_paired',
+    'medium',
+    format('NFC device paired: %s', v_name),
+    request_ip(),
+    jsonb_build_object(
+      'device_id', v_device.id,
+      'device_uid', v_device.device_uid,
+      'cooling_off_until', v_device.cooling_off_until,
+      'cooling_off_limit', v_device.cooling_off_limit
+    )
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_payment_device(p_device_uid text)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_device nfc_devices%ROWTYPE;
+  v_reason text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE device_uid = p_device_uid;
+
+  IF NOT FOUND THEN
+    v_reason := 'Tag is not paired';
+  ELSIF v_device.user_id <> v_user_id THEN
+    v_reason := 'Tag is paired with another account';
+  ELSIF NOT v_device.is_active THEN
+    v_reason := 'Device is deactivated';
+  ELSE
+    RETURN v_device.id;
+  END IF;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'unpaired_device_rejected',
+    'high',
+    format('Payment attempted with an unpaired device: %s', v_reason),
+    request_ip(),
+    jsonb_build_object('reason', v_reason, 'device_uid', p_device_uid)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION pair_nfc_device(text, text, uuid, integer, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION pair_nfc_device(text, text, uuid, integer, numeric) TO authenticated;
+REVOKE ALL ON FUNCTION resolve_payment_device(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION resolve_payment_device(text) TO authenticated;
+
+-- Newly paired devices are capped while cooling off
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF v_device.cooling_off_until > v_timestamp AND v_base_amount > v_device.cooling_off_limit THEN
+    RAISE EXCEPTION 'Newly paired device cannot pay more than % % until %',
+      v_device.cooling_off_limit, v_user.base_currency,
+      to_char(v_device.cooling_off_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  IF daily_transaction_total(v_user_id) + v_base_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
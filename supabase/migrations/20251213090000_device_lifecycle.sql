@@ -0,0 +1,411 @@
+/*
+  # NFC Device Lifecycle
+
+  ## Overview
+  Devices could only be deactivated, and that was a plain client update that could just as easily
+  switch a device back on. Devices can now be renamed, deactivated, reactivated, removed and
+  reported lost or stolen. Every change of state goes through a logged function. A stolen tag's UID
+  is blocked for every account for good, and each later tap of it raises an alert for the owner.
+
+  ## 1. Changes to `nfc_devices`
+  - `reported_status` (text) - `lost` or `stolen`
+  - `reported_at` (timestamptz) - When the device was reported
+  - `removed_at` (timestamptz) - Removed devices keep their row, because transactions and their
+    signatures reference it, but no longer count as paired. The UID is unique among current devices
+    only, so a removed tag can be paired again
+
+  ## 2. New Tables
+
+  ### `blocked_device_uids`
+  - `device_uid` (text, primary key) - UID of a tag reported stolen
+  - `device_id`, `user_id` - The reported device and its owner
+  - `blocked_at` (timestamptz)
+  - `tap_attempts` (integer), `last_tap_at` (timestamptz) - Taps of the UID since it was reported
+
+  ## 3. New Functions
+  - `deactivate_nfc_device(p_device_id)` / `reactivate_nfc_device(p_device_id)` - Reactivation also
+    clears a lost report; stolen devices cannot be reactivated
+  - `report_nfc_device(p_device_id, p_status)` - Reports a device `lost` or `stolen` and deactivates it
+  - `remove_nfc_device(p_device_id)` - Removes a device from the account
+  - `record_blocked_device_tap(p_device_uid, p_context)` - Internal; logs a critical
+    `stolen_device_tapped` event for the owner when a blocked UID is tapped
+
+  ## 4. Changes
+  - `pair_nfc_device` refuses blocked UIDs and ignores removed devices
+  - `resolve_payment_device` rejects blocked UIDs and reports lost devices separately
+
+  ## 5. Security
+  - Clients can no longer update `is_active` or `last_used`, or delete devices (deleting one
+    cascaded to its transactions); only `device_name` stays directly updatable
+  - `blocked_device_uids` is readable by the owner only and written by the functions above
+*/
+
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS reported_status text CHECK (reported_status IN ('lost', 'stolen'));
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS reported_at timestamptz;
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS removed_at timestamptz;
+
+ALTER TABLE nfc_devices DROP CONSTRAINT IF EXISTS nfc_devices_device_uid_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_nfc_devices_current_device_uid
+  ON nfc_devices(device_uid)
+  WHERE removed_at IS NULL;
+
+DROP POLICY IF EXISTS "Users can delete own devices" ON nfc_devices;
+
+REVOKE UPDATE (device_name, is_active, last_used) ON nfc_devices FROM authenticated;
+REVOKE DELETE ON nfc_devices FROM anon, authenticated;
+GRANT UPDATE (device_name) ON nfc_devices TO authenticated;
+
+CREATE TABLE IF NOT EXISTS blocked_device_uids (
+  device_uid text PRIMARY KEY,
+  device_id uuid NOT NULL REFERENCES nfc_devices(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  blocked_at timestamptz DEFAULT now(),
+  tap_attempts integer DEFAULT 0,
+  last_tap_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_blocked_device_uids_device_id ON blocked_device_uids(device_id);
+
+ALTER TABLE blocked_device_uids ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON blocked_device_uids FROM anon, authenticated;
+GRANT SELECT ON blocked_device_uids TO authenticated;
+
+CREATE POLICY "Users can view own blocked devices"
+  ON blocked_device_uids FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+-- Locks and returns one of the caller's current devices
+CREATE OR REPLACE FUNCTION lock_own_device(p_device_id uuid)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_device
+  FROM nfc_devices
+  WHERE id = p_device_id
+    AND user_id = auth.uid()
+    AND removed_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_device_event(
+  p_device nfc_devices,
+  p_event_type text,
+  p_severity text,
+  p_description text
+)
+RETURNS void AS $$
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    p_device.user_id,
+    p_event_type,
+    p_severity,
+    format('%s: %s', p_description, p_device.device_name),
+    request_ip(),
+    jsonb_build_object('device_id', p_device.id, 'device_uid', p_device.device_uid)
+  );
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION deactivate_nfc_device(p_device_id uuid)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE := lock_own_device(p_device_id);
+BEGIN
+  IF NOT v_device.is_active THEN
+    RETURN v_device;
+  END IF;
+
+  UPDATE nfc_devices SET is_active = false WHERE id = v_device.id RETURNING * INTO v_device;
+  PERFORM log_device_event(v_device, 'nfc_device_deactivated', 'medium', 'NFC device deactivated');
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reactivate_nfc_device(p_device_id uuid)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE := lock_own_device(p_device_id);
+  v_was_lost boolean := v_device.reported_status = 'lost';
+BEGIN
+  IF v_device.reported_status = 'stolen' THEN
+    RAISE EXCEPTION 'Devices reported stolen cannot be reactivated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = v_device.user_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  UPDATE nfc_devices
+  SET is_active = true, reported_status = NULL, reported_at = NULL
+  WHERE id = v_device.id
+  RETURNING * INTO v_device;
+
+  PERFORM log_device_event(
+    v_device,
+    'nfc_device_reactivated',
+    CASE WHEN v_was_lost THEN 'high' ELSE 'medium' END,
+    CASE WHEN v_was_lost THEN 'Lost NFC device found and reactivated' ELSE 'NFC device reactivated' END
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION report_nfc_device(p_device_id uuid, p_status text)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE := lock_own_device(p_device_id);
+BEGIN
+  IF p_status NOT IN ('lost', 'stolen') THEN
+    RAISE EXCEPTION 'Devices can only be reported lost or stolen';
+  END IF;
+
+  IF v_device.reported_status = 'stolen' THEN
+    RAISE EXCEPTION 'Device is already reported stolen';
+  END IF;
+
+  UPDATE nfc_devices
+  SET is_active = false, reported_status = p_status, reported_at = now()
+  WHERE id = v_device.id
+  RETURNING * INTO v_device;
+
+  IF p_status = 'stolen' THEN
+    INSERT INTO blocked_device_uids (device_uid, device_id, user_id)
+    VALUES (v_device.device_uid, v_device.id, v_device.user_id)
+    ON CONFLICT (device_uid) DO NOTHING;
+  END IF;
+
+  PERFORM log_device_event(
+    v_device,
+    'nfc_device_reported_' || p_status,
+    CASE WHEN p_status = 'stolen' THEN 'critical' ELSE 'high' END,
+    format('NFC device reported %s', p_status)
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION remove_nfc_device(p_device_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE := lock_own_device(p_device_id);
+BEGIN
+  UPDATE nfc_devices
+  SET is_active = false, removed_at = now()
+  WHERE id = v_device.id
+  RETURNING * INTO v_device;
+
+  PERFORM log_device_event(v_device, 'nfc_device_removed', 'medium', 'NFC device removed');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_blocked_device_tap(p_device_uid text, p_context text)
+RETURNS boolean AS $$
+DECLARE
+  v_blocked blocked_device_uids%ROWTYPE;
+BEGIN
+  UPDATE blocked_device_uids
+  SET tap_attempts = tap_attempts + 1, last_tap_at = now()
+  WHERE device_uid = p_device_uid
+  RETURNING * INTO v_blocked;
+
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_blocked.user_id,
+    'stolen_device_tapped',
+    'critical',
+    format('A device you reported stolen was tapped (%s)', p_context),
+    request_ip(),
+    jsonb_build_object(
+      'device_id', v_blocked.device_id,
+      'device_uid', p_device_uid,
+      'context', p_context,
+      'tapped_by_owner', auth.uid() = v_blocked.user_id,
+      'tap_attempts', v_blocked.tap_attempts
+    )
+  );
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION lock_own_device(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION log_device_event(nfc_devices, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_blocked_device_tap(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION deactivate_nfc_device(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION reactivate_nfc_device(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION report_nfc_device(uuid, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION remove_nfc_device(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION deactivate_nfc_device(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reactivate_nfc_device(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION report_nfc_device(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_nfc_device(uuid) TO authenticated;
+
+-- Blocked UIDs can never be paired again
+CREATE OR REPLACE FUNCTION pair_nfc_device(
+  p_device_uid text,
+  p_device_name text,
+  p_tag_authentication uuid DEFAULT NULL,
+  p_cooling_off_hours integer DEFAULT 0,
+  p_cooling_off_limit numeric DEFAULT NULL
+)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_existing nfc_devices%ROWTYPE;
+  v_name text := btrim(p_device_name);
+  v_hours integer := coalesce(p_cooling_off_hours, 0);
+  v_device nfc_devices%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF coalesce(btrim(p_device_uid), '') = '' THEN
+    RAISE EXCEPTION 'Missing device UID';
+  END IF;
+
+  IF coalesce(v_name, '') = '' OR length(v_name) > 50 THEN
+    RAISE EXCEPTION 'Device name must be between 1 and 50 characters';
+  END IF;
+
+  IF v_hours < 0 OR v_hours > 168 THEN
+    RAISE EXCEPTION 'Cooling-off period must be between 0 and 168 hours';
+  END IF;
+
+  IF v_hours > 0 AND (p_cooling_off_limit IS NULL OR p_cooling_off_limit < 0) THEN
+    RAISE EXCEPTION 'A cooling-off period needs a payment limit';
+  END IF;
+
+  -- Logged as an alert for the owner; returning instead of raising keeps the log
+  IF record_blocked_device_tap(p_device_uid, 'pairing') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_existing FROM nfc_devices WHERE device_uid = p_device_uid AND removed_at IS NULL;
+
+  IF FOUND THEN
+    IF v_existing.user_id = v_user_id THEN
+      RAISE EXCEPTION 'This tag is already paired with your account';
+    END IF;
+    RAISE EXCEPTION 'This tag is already paired with another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = p_device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = p_device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  INSERT INTO nfc_devices (
+    user_id,
+    device_uid,
+    device_name,
+    is_active,
+    paired_at,
+    cooling_off_until,
+    cooling_off_limit
+  ) VALUES (
+    v_user_id,
+    p_device_uid,
+    v_name,
+    true,
+    now(),
+    CASE WHEN v_hours > 0 THEN now() + make_interval(hours => v_hours) END,
+    CASE WHEN v_hours > 0 THEN round(p_cooling_off_limit, currency_minor_units(v_user.base_currency)) END
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'nfc_device_paired',
+    'medium',
+    format('NFC device paired: %s', v_name),
+    request_ip(),
+    jsonb_build_object(
+      'device_id', v_device.id,
+      'device_uid', v_device.device_uid,
+      'cooling_off_until', v_device.cooling_off_until,
+      'cooling_off_limit', v_device.cooling_off_limit
+    )
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Stolen and lost devices are rejected with their own reasons
+CREATE OR REPLACE FUNCTION resolve_payment_device(p_device_uid text)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_device nfc_devices%ROWTYPE;
+  v_reason text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE device_uid = p_device_uid AND removed_at IS NULL;
+
+  IF record_blocked_device_tap(p_device_uid, 'payment') THEN
+    v_reason := 'Tag has been reported stolen';
+  ELSIF NOT FOUND THEN
+    v_reason := 'Tag is not paired';
+  ELSIF v_device.user_id <> v_user_id THEN
+    v_reason := 'Tag is paired with another account';
+  ELSIF v_device.reported_status = 'lost' THEN
+    v_reason := 'Device is reported lost';
+  ELSIF NOT v_device.is_active THEN
+    v_reason := 'Device is deactivated';
+  ELSE
+    RETURN v_device.id;
+  END IF;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'unpaired_device_rejected',
+    'high',
+    format('Payment attempted with an unpaired device: %s', v_reason),
+    request_ip(),
+    jsonb_build_object('reason', v_reason, 'device_uid', p_device_uid)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,510 @@
+/*
+  # Per-Device Spending Controls
+
+  ## Overview
+  Every device drew on the account's single daily limit, so a key fob handed to a teenager or left
+  in a car could spend as much as the owner's phone. Each device can now carry its own spending
+  limits, merchant category rules and active hours, enforced when a payment is authorized and again
+  when a held payment is confirmed.
+
+  ## 1. Changes to `nfc_devices`
+  - `per_transaction_limit`, `daily_limit`, `monthly_limit` (numeric) - In the account's base
+    currency; NULL means only the account limits apply. Daily and monthly totals use calendar days
+    and months, like the account daily limit
+  - `allowed_categories` (text[]) - Merchant category codes the device may pay; NULL allows all
+  - `blocked_categories` (text[]) - Merchant category codes the device may never pay
+  - `active_hours_start`, `active_hours_end` (time), `active_hours_timezone` (text) - Optional
+    daily window for payments; a start after the end spans midnight
+
+  ## 2. New Functions
+  - `set_device_controls(...)` - Validates and saves a device's controls and logs the change
+  - `device_transaction_total(p_device_id, p_since)` - Net approved spending on a device
+  - `device_control_rejection(p_device, p_base_amount, p_category_code, p_at)` - Internal; the
+    reason a payment breaks the device's controls, or NULL
+
+  ## 3. Changes
+  - `authorize_transaction` and `resolve_pending_transaction` reject payments that break the
+    device's controls
+*/
+
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS per_transaction_limit numeric CHECK (per_transaction_limit > 0);
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS daily_limit numeric CHECK (daily_limit > 0);
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS monthly_limit numeric CHECK (monthly_limit > 0);
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS allowed_categories text[];
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS blocked_categories text[] DEFAULT '{}';
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS active_hours_start time;
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS active_hours_end time;
+ALTER TABLE nfc_devices ADD COLUMN IF NOT EXISTS active_hours_timezone text;
+
+ALTER TABLE nfc_devices
+  ADD CONSTRAINT nfc_devices_active_hours_check
+  CHECK ((active_hours_start IS NULL) = (active_hours_end IS NULL));
+
+CREATE INDEX IF NOT EXISTS idx_transactions_device_id ON transactions(device_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION device_transaction_total(p_device_id uuid, p_since timestamptz)
+RETURNS numeric AS $$
+  SELECT GREATEST(
+    COALESCE(SUM(t.base_amount) FILTER (WHERE t.transaction_type = 'payment'), 0)
+      - COALESCE(SUM(t.base_amount) FILTER (WHERE t.transaction_type <> 'payment'), 0),
+    0
+  )
+  FROM transactions t
+  LEFT JOIN transactions o ON o.id = t.original_transaction_id
+  WHERE t.device_id = p_device_id
+    AND t.status = 'approved'
+    AND coalesce(o.created_at, t.created_at) >= p_since;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION device_control_rejection(
+  p_device nfc_devices,
+  p_base_amount numeric,
+  p_category_code text,
+  p_at timestamptz
+)
+RETURNS text AS $$
+DECLARE
+  v_local_time time;
+  v_outside boolean;
+BEGIN
+  IF p_base_amount > p_device.per_transaction_limit THEN
+    RETURN 'Amount exceeds this device''s per-payment limit';
+  END IF;
+
+  IF device_transaction_total(p_device.id, date_trunc('day', now())) + p_base_amount > p_device.daily_limit THEN
+    RETURN 'Device daily limit exceeded';
+  END IF;
+
+  IF device_transaction_total(p_device.id, date_trunc('month', now())) + p_base_amount > p_device.monthly_limit THEN
+    RETURN 'Device monthly limit exceeded';
+  END IF;
+
+  IF p_category_code = ANY(p_device.blocked_categories)
+    OR NOT (p_category_code = ANY(coalesce(p_device.allowed_categories, ARRAY[p_category_code]))) THEN
+    RETURN format('Merchant category %s is not allowed on this device', p_category_code);
+  END IF;
+
+  IF p_device.active_hours_start IS NOT NULL THEN
+    v_local_time := (p_at AT TIME ZONE coalesce(p_device.active_hours_timezone, 'UTC'))::time;
+
+    IF p_device.active_hours_start < p_device.active_hours_end THEN
+      v_outside := v_local_time < p_device.active_hours_start OR v_local_time >= p_device.active_hours_end;
+    ELSE
+      v_outside := v_local_time < p_device.active_hours_start AND v_local_time >= p_device.active_hours_end;
+    END IF;
+
+    IF v_outside THEN
+      RETURN format(
+        'This device can only pay between %s and %s (%s)',
+        to_char(p_device.active_hours_start, 'HH24:MI'),
+        to_char(p_device.active_hours_end, 'HH24:MI'),
+        coalesce(p_device.active_hours_timezone, 'UTC')
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_device_controls(
+  p_device_id uuid,
+  p_per_transaction_limit numeric DEFAULT NULL,
+  p_daily_limit numeric DEFAULT NULL,
+  p_monthly_limit numeric DEFAULT NULL,
+  p_allowed_categories text[] DEFAULT NULL,
+  p_blocked_categories text[] DEFAULT NULL,
+  p_active_hours_start time DEFAULT NULL,
+  p_active_hours_end time DEFAULT NULL,
+  p_active_hours_timezone text DEFAULT NULL
+)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE := lock_own_device(p_device_id);
+  v_allowed text[] := nullif(p_allowed_categories, '{}');
+  v_blocked text[] := coalesce(p_blocked_categories, '{}');
+  v_minor_units integer;
+BEGIN
+  IF p_per_transaction_limit <= 0 OR p_daily_limit <= 0 OR p_monthly_limit <= 0 THEN
+    RAISE EXCEPTION 'Device limits must be greater than zero';
+  END IF;
+
+  IF p_per_transaction_limit > p_daily_limit
+    OR p_per_transaction_limit > p_monthly_limit
+    OR p_daily_limit > p_monthly_limit THEN
+    RAISE EXCEPTION 'Device limits must not exceed the limits for longer periods';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM unnest(coalesce(v_allowed, '{}') || v_blocked) AS c(code)
+    WHERE c.code IS NULL OR c.code !~ '^[0-9]{4}$'
+  ) THEN
+    RAISE EXCEPTION 'Merchant categories must be 4-digit codes';
+  END IF;
+
+  IF v_allowed && v_blocked THEN
+    RAISE EXCEPTION 'A merchant category cannot be both allowed and blocked';
+  END IF;
+
+  IF (p_active_hours_start IS NULL) <> (p_active_hours_end IS NULL)
+    OR p_active_hours_start = p_active_hours_end THEN
+    RAISE EXCEPTION 'Active hours need a different start and end time';
+  END IF;
+
+  IF p_active_hours_start IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_active_hours_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone';
+  END IF;
+
+  v_minor_units := currency_minor_units((SELECT base_currency FROM users WHERE id = v_device.user_id));
+
+  UPDATE nfc_devices
+  SET
+    per_transaction_limit = round(p_per_transaction_limit, v_minor_units),
+    daily_limit = round(p_daily_limit, v_minor_units),
+    monthly_limit = round(p_monthly_limit, v_minor_units),
+    allowed_categories = (SELECT array_agg(DISTINCT c) FROM unnest(v_allowed) AS c),
+    blocked_categories = coalesce((SELECT array_agg(DISTINCT c) FROM unnest(v_blocked) AS c), '{}'),
+    active_hours_start = p_active_hours_start,
+    active_hours_end = p_active_hours_end,
+    active_hours_timezone = CASE WHEN p_active_hours_start IS NOT NULL THEN p_active_hours_timezone END
+  WHERE id = v_device.id
+  RETURNING * INTO v_device;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_device.user_id,
+    'nfc_device_controls_updated',
+    'low',
+    format('Spending controls updated: %s', v_device.device_name),
+    request_ip(),
+    jsonb_build_object(
+      'device_id', v_device.id,
+      'per_transaction_limit', v_device.per_transaction_limit,
+      'daily_limit', v_device.daily_limit,
+      'monthly_limit', v_device.monthly_limit,
+      'allowed_categories', v_device.allowed_categories,
+      'blocked_categories', v_device.blocked_categories,
+      'active_hours_start', v_device.active_hours_start,
+      'active_hours_end', v_device.active_hours_end,
+      'active_hours_timezone', v_device.active_hours_timezone
+    )
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION device_transaction_total(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION device_control_rejection(nfc_devices, numeric, text, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION set_device_controls(uuid, numeric, numeric, numeric, text[], text[], time, time, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_device_controls(uuid, numeric, numeric, numeric, text[], text[], time, time, text) TO authenticated;
+
+-- Device controls are enforced when paying
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_device_rejection text;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF v_device.cooling_off_until > v_timestamp AND v_base_amount > v_device.cooling_off_limit THEN
+    RAISE EXCEPTION 'Newly paired device cannot pay more than % % until %',
+      v_device.cooling_off_limit, v_user.base_currency,
+      to_char(v_device.cooling_off_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  v_device_rejection := device_control_rejection(v_device, v_base_amount, v_merchant.category_code, v_timestamp);
+
+  IF v_device_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_device_rejection;
+  END IF;
+
+  IF daily_transaction_total(v_user_id) + v_base_amount > coalesce(v_user.daily_limit, 1000) THEN
+    RAISE EXCEPTION 'Daily transaction limit exceeded';
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ...and again when a held payment is confirmed
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    IF daily_transaction_total(v_user_id) + v_transaction.base_amount > coalesce(v_user.daily_limit, 1000) THEN
+      RAISE EXCEPTION 'Daily transaction limit exceeded';
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
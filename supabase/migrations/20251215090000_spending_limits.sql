@@ -0,0 +1,717 @@
+/*
+  # User Spending Controls
+
+  ## Overview
+  The only spending control was `daily_limit`. It was fixed at 1000 on sign-up with no way to
+  change it, and the client chose its value. Accounts now have per-payment, daily, weekly and
+  monthly limits. Spending is counted either in calendar periods in the user's time zone or in
+  rolling windows. Tightening a limit takes effect at once. Loosening one waits 24 hours: a higher
+  or removed limit, or a different window or time zone. A stolen session therefore cannot raise
+  the limits and spend straight away.
+
+  ## 1. Changes to `users`
+  - `per_transaction_limit`, `weekly_limit`, `monthly_limit` (numeric) - In the base currency;
+    NULL means no limit. `daily_limit` keeps its default of 1000
+  - `limit_window` (text) - `calendar` or `rolling`. Calendar days start at local midnight, weeks
+    on Monday and months on the 1st. Rolling windows are the last 24 hours, 7 days or 30 days
+  - `timezone` (text) - IANA time zone for calendar windows
+
+  ## 2. New Tables
+
+  ### `spending_limit_changes`
+  - `id` (uuid, primary key), `user_id` (uuid)
+  - `changes` (jsonb) - Loosened settings, keyed by column name
+  - `status` (text) - `pending`, `applied` or `cancelled`; at most one pending change per user
+  - `requested_at`, `effective_at`, `resolved_at` (timestamptz)
+
+  ## 3. New Functions
+  - `request_spending_limits(...)` - Applies tightened settings and schedules loosened ones
+  - `cancel_spending_limit_change()` - Drops the pending change
+  - `get_spending_limits()` - Current limits, spending in each window and any pending change
+  - `limit_window_start(p_user, p_period)` / `user_transaction_total(p_user_id, p_since)`
+  - `spending_limit_rejection(p_user, p_base_amount)` - Internal; the limit a payment breaks
+  - `apply_due_limit_changes(p_user_id)` - Internal; applies a pending change once it is due
+
+  ## 4. Changes
+  - `daily_transaction_total` follows the user's window, so fraud rules use the same day
+  - `authorize_transaction` and `resolve_pending_transaction` check all account limits
+
+  ## 5. Security
+  - Clients may insert only `id`, `email`, `pin_hash` and `status` into `users`. They may update
+    only the PIN and lockout columns they still maintain. Limits, base currency and time zone
+    change only through the functions above
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS per_transaction_limit numeric CHECK (per_transaction_limit > 0);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS weekly_limit numeric CHECK (weekly_limit > 0);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS monthly_limit numeric CHECK (monthly_limit > 0);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS limit_window text NOT NULL DEFAULT 'calendar'
+  CHECK (limit_window IN ('calendar', 'rolling'));
+ALTER TABLE users ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+CREATE TABLE IF NOT EXISTS spending_limit_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  changes jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'cancelled')),
+  requested_at timestamptz DEFAULT now(),
+  effective_at timestamptz NOT NULL,
+  resolved_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_spending_limit_changes_pending
+  ON spending_limit_changes(user_id)
+  WHERE status = 'pending';
+
+ALTER TABLE spending_limit_changes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON spending_limit_changes FROM anon, authenticated;
+GRANT SELECT ON spending_limit_changes TO authenticated;
+
+CREATE POLICY "Users can view own limit changes"
+  ON spending_limit_changes FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+REVOKE INSERT, UPDATE ON users FROM anon, authenticated;
+GRANT INSERT (id, email, pin_hash, status) ON users TO authenticated;
+GRANT UPDATE (pin_hash, status, failed_auth_attempts, last_failed_auth) ON users TO authenticated;
+
+CREATE OR REPLACE FUNCTION limit_window_start(p_user users, p_period text)
+RETURNS timestamptz AS $$
+  SELECT CASE
+    WHEN p_user.limit_window = 'rolling' THEN now() - CASE p_period
+      WHEN 'day' THEN interval '24 hours'
+      WHEN 'week' THEN interval '7 days'
+      ELSE interval '30 days'
+    END
+    ELSE date_trunc(p_period, now() AT TIME ZONE p_user.timezone) AT TIME ZONE p_user.timezone
+  END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION user_transaction_total(p_user_id uuid, p_since timestamptz)
+RETURNS numeric AS $$
+  SELECT GREATEST(
+    COALESCE(SUM(t.base_amount) FILTER (WHERE t.transaction_type = 'payment'), 0)
+      - COALESCE(SUM(t.base_amount) FILTER (WHERE t.transaction_type <> 'payment'), 0),
+    0
+  )
+  FROM transactions t
+  LEFT JOIN transactions o ON o.id = t.original_transaction_id
+  WHERE t.user_id = p_user_id
+    AND t.status = 'approved'
+    AND coalesce(o.created_at, t.created_at) >= p_since;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION daily_transaction_total(p_user_id uuid)
+RETURNS numeric AS $$
+  SELECT user_transaction_total(u.id, limit_window_start(u, 'day'))
+  FROM users u
+  WHERE u.id = p_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION spending_limit_rejection(p_user users, p_base_amount numeric)
+RETURNS text AS $$
+BEGIN
+  IF p_base_amount > p_user.per_transaction_limit THEN
+    RETURN 'Amount exceeds your per-payment limit';
+  END IF;
+
+  IF daily_transaction_total(p_user.id) + p_base_amount > coalesce(p_user.daily_limit, 1000) THEN
+    RETURN 'Daily transaction limit exceeded';
+  END IF;
+
+  IF user_transaction_total(p_user.id, limit_window_start(p_user, 'week')) + p_base_amount > p_user.weekly_limit THEN
+    RETURN 'Weekly transaction limit exceeded';
+  END IF;
+
+  IF user_transaction_total(p_user.id, limit_window_start(p_user, 'month')) + p_base_amount > p_user.monthly_limit THEN
+    RETURN 'Monthly transaction limit exceeded';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Copies the settings present in `p_changes` onto the user; a JSON null clears a limit
+CREATE OR REPLACE FUNCTION apply_limit_changes(p_user_id uuid, p_changes jsonb)
+RETURNS void AS $$
+  UPDATE users
+  SET
+    per_transaction_limit = CASE WHEN p_changes ? 'per_transaction_limit'
+      THEN (p_changes->>'per_transaction_limit')::numeric ELSE per_transaction_limit END,
+    daily_limit = CASE WHEN p_changes ? 'daily_limit'
+      THEN (p_changes->>'daily_limit')::numeric ELSE daily_limit END,
+    weekly_limit = CASE WHEN p_changes ? 'weekly_limit'
+      THEN (p_changes->>'weekly_limit')::numeric ELSE weekly_limit END,
+    monthly_limit = CASE WHEN p_changes ? 'monthly_limit'
+      THEN (p_changes->>'monthly_limit')::numeric ELSE monthly_limit END,
+    limit_window = coalesce(p_changes->>'limit_window', limit_window),
+    timezone = coalesce(p_changes->>'timezone', timezone)
+  WHERE id = p_user_id;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION apply_due_limit_changes(p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_change spending_limit_changes%ROWTYPE;
+BEGIN
+  SELECT * INTO v_change
+  FROM spending_limit_changes
+  WHERE user_id = p_user_id
+    AND status = 'pending'
+    AND effective_at <= now()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  PERFORM apply_limit_changes(p_user_id, v_change.changes);
+
+  UPDATE spending_limit_changes
+  SET status = 'applied', resolved_at = now()
+  WHERE id = v_change.id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+  VALUES (
+    p_user_id,
+    'spending_limits_increased',
+    'medium',
+    'Requested spending limit increase took effect',
+    jsonb_build_object('change_id', v_change.id, 'changes', v_change.changes)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_spending_limits(
+  p_per_transaction_limit numeric,
+  p_daily_limit numeric,
+  p_weekly_limit numeric,
+  p_monthly_limit numeric,
+  p_limit_window text,
+  p_timezone text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_minor_units integer;
+  v_requested jsonb;
+  v_current jsonb;
+  v_key text;
+  v_old numeric;
+  v_new numeric;
+  v_immediate jsonb := '{}';
+  v_delayed jsonb := '{}';
+  v_pending spending_limit_changes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF p_daily_limit IS NULL OR p_daily_limit <= 0
+    OR p_per_transaction_limit <= 0 OR p_weekly_limit <= 0 OR p_monthly_limit <= 0 THEN
+    RAISE EXCEPTION 'Limits must be greater than zero, and a daily limit is required';
+  END IF;
+
+  IF p_per_transaction_limit > p_daily_limit
+    OR p_daily_limit > p_weekly_limit
+    OR p_daily_limit > p_monthly_limit
+    OR p_weekly_limit > p_monthly_limit THEN
+    RAISE EXCEPTION 'A limit cannot be higher than the limit for a longer period';
+  END IF;
+
+  IF p_limit_window IS NULL OR p_limit_window NOT IN ('calendar', 'rolling') THEN
+    RAISE EXCEPTION 'Limit window must be calendar or rolling';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone';
+  END IF;
+
+  v_minor_units := currency_minor_units(v_user.base_currency);
+  v_requested := jsonb_build_object(
+    'per_transaction_limit', round(p_per_transaction_limit, v_minor_units),
+    'daily_limit', round(p_daily_limit, v_minor_units),
+    'weekly_limit', round(p_weekly_limit, v_minor_units),
+    'monthly_limit', round(p_monthly_limit, v_minor_units)
+  );
+  v_current := jsonb_build_object(
+    'per_transaction_limit', v_user.per_transaction_limit,
+    'daily_limit', coalesce(v_user.daily_limit, 1000),
+    'weekly_limit', v_user.weekly_limit,
+    'monthly_limit', v_user.monthly_limit
+  );
+
+  -- A lower limit, or a limit where there was none, is stricter
+  FOR v_key IN SELECT jsonb_object_keys(v_requested) LOOP
+    v_old := (v_current->>v_key)::numeric;
+    v_new := (v_requested->>v_key)::numeric;
+
+    IF v_new IS NOT DISTINCT FROM v_old THEN
+      CONTINUE;
+    ELSIF v_new IS NOT NULL AND (v_old IS NULL OR v_new < v_old) THEN
+      v_immediate := v_immediate || jsonb_build_object(v_key, v_new);
+    ELSE
+      v_delayed := v_delayed || jsonb_build_object(v_key, v_new);
+    END IF;
+  END LOOP;
+
+  -- Moving window boundaries can free up headroom, so they wait too
+  IF p_limit_window <> v_user.limit_window THEN
+    v_delayed := v_delayed || jsonb_build_object('limit_window', p_limit_window);
+  END IF;
+
+  IF p_timezone <> v_user.timezone THEN
+    v_delayed := v_delayed || jsonb_build_object('timezone', p_timezone);
+  END IF;
+
+  IF v_immediate <> '{}' THEN
+    PERFORM apply_limit_changes(v_user_id, v_immediate);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'spending_limits_decreased',
+      'low',
+      'Spending limits tightened',
+      request_ip(),
+      jsonb_build_object('changes', v_immediate)
+    );
+  END IF;
+
+  SELECT * INTO v_pending
+  FROM spending_limit_changes
+  WHERE user_id = v_user_id AND status = 'pending'
+  FOR UPDATE;
+
+  -- Re-requesting the pending change keeps its original waiting period
+  IF FOUND AND v_pending.changes = v_delayed THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+  END IF;
+
+  IF FOUND THEN
+    UPDATE spending_limit_changes
+    SET status = 'cancelled', resolved_at = now()
+    WHERE id = v_pending.id;
+  END IF;
+
+  IF v_delayed = '{}' THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', NULL);
+  END IF;
+
+  INSERT INTO spending_limit_changes (user_id, changes, effective_at)
+  VALUES (v_user_id, v_delayed, now() + interval '24 hours')
+  RETURNING * INTO v_pending;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'spending_limit_increase_requested',
+    'medium',
+    'Spending limit increase requested; it takes effect in 24 hours',
+    request_ip(),
+    jsonb_build_object('change_id', v_pending.id, 'changes', v_delayed, 'effective_at', v_pending.effective_at)
+  );
+
+  RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_spending_limit_change()
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_change_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE spending_limit_changes
+  SET status = 'cancelled', resolved_at = now()
+  WHERE user_id = v_user_id AND status = 'pending'
+  RETURNING id INTO v_change_id;
+
+  IF v_change_id IS NOT NULL THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'spending_limit_increase_cancelled',
+      'low',
+      'Pending spending limit increase cancelled',
+      request_ip(),
+      jsonb_build_object('change_id', v_change_id)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_spending_limits()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id;
+
+  RETURN jsonb_build_object(
+    'base_currency', v_user.base_currency,
+    'per_transaction_limit', v_user.per_transaction_limit,
+    'daily_limit', coalesce(v_user.daily_limit, 1000),
+    'weekly_limit', v_user.weekly_limit,
+    'monthly_limit', v_user.monthly_limit,
+    'limit_window', v_user.limit_window,
+    'timezone', v_user.timezone,
+    'spent_day', daily_transaction_total(v_user_id),
+    'spent_week', user_transaction_total(v_user_id, limit_window_start(v_user, 'week')),
+    'spent_month', user_transaction_total(v_user_id, limit_window_start(v_user, 'month')),
+    'pending_change', (
+      SELECT to_jsonb(c)
+      FROM spending_limit_changes c
+      WHERE c.user_id = v_user_id AND c.status = 'pending'
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION user_transaction_total(uuid, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION daily_transaction_total(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION spending_limit_rejection(users, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION apply_limit_changes(uuid, jsonb) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION apply_due_limit_changes(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION request_spending_limits(numeric, numeric, numeric, numeric, text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION cancel_spending_limit_change() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_spending_limits() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_spending_limits(numeric, numeric, numeric, numeric, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_spending_limit_change() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_spending_limits() TO authenticated;
+
+-- Payments are checked against every account limit
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF v_device.cooling_off_until > v_timestamp AND v_base_amount > v_device.cooling_off_limit THEN
+    RAISE EXCEPTION 'Newly paired device cannot pay more than % % until %',
+      v_device.cooling_off_limit, v_user.base_currency,
+      to_char(v_device.cooling_off_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  v_device_rejection := device_control_rejection(v_device, v_base_amount, v_merchant.category_code, v_timestamp);
+
+  IF v_device_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_device_rejection;
+  END IF;
+
+  v_limit_rejection := spending_limit_rejection(v_user, v_base_amount);
+
+  IF v_limit_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_limit_rejection;
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- ...including when a held payment is confirmed
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    v_limit_rejection := spending_limit_rejection(v_user, v_transaction.base_amount);
+
+    IF v_limit_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_limit_rejection;
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,507 @@
+/*
+  # Account Unlock
+
+  ## Overview
+  Five failed PIN attempts set `users.status` to `locked`, but nothing ever unlocked the account,
+  so every later payment was refused for good. The client also wrote the status and counters
+  itself, so it could clear a lock as easily as set one. Locks are now applied by the server and
+  expire after 30 minutes. The owner can also end a lock early by proving control of the account's
+  email address. Every lock and unlock is recorded in `security_logs`.
+
+  ## 1. Changes to `users`
+  - `locked_at` (timestamptz) - When the current lock started
+  - `locked_until` (timestamptz) - When it is lifted automatically
+  - `lock_reason` (text) - Shown to the user in the lock notice
+
+  ## 2. New Functions
+  - `record_failed_pin_attempt()` - Counts a failed PIN and locks the account at the fifth
+  - `reset_failed_auth_attempts()` - Clears the counter of an unlocked account
+  - `release_expired_account_lock()` - Unlocks the caller's account once `locked_until` passes
+  - `unlock_account_with_email()` - Unlocks it early when the session was opened from an email
+    link (an `otp` or `magiclink` entry in the JWT `amr` claim) after the lock started
+  - `unlock_user_account(p_user_id, p_method, p_description)` - Internal; unlocks and logs
+
+  ## 3. Changes
+  - `authorize_transaction` and `resolve_pending_transaction` release expired locks first, and
+    refuse payments from a locked account with its lock reason
+
+  ## 4. Security
+  - Clients can no longer update `status`, `failed_auth_attempts` or `last_failed_auth`
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS locked_until timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS lock_reason text;
+
+REVOKE UPDATE ON users FROM anon, authenticated;
+GRANT UPDATE (pin_hash) ON users TO authenticated;
+
+CREATE OR REPLACE FUNCTION record_failed_pin_attempt()
+RETURNS users AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE users
+  SET failed_auth_attempts = coalesce(failed_auth_attempts, 0) + 1,
+      last_failed_auth = now()
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  IF v_user.failed_auth_attempts >= 5 AND v_user.status = 'active' THEN
+    UPDATE users
+    SET status = 'locked',
+        locked_at = now(),
+        locked_until = now() + interval '30 minutes',
+        lock_reason = format('%s incorrect PIN attempts', v_user.failed_auth_attempts)
+    WHERE id = v_user_id
+    RETURNING * INTO v_user;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'account_locked',
+      'critical',
+      format('Account locked after %s failed attempts', v_user.failed_auth_attempts),
+      request_ip(),
+      jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'locked_until', v_user.locked_until)
+    );
+  END IF;
+
+  RETURN v_user;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A successful sign-in clears the counter but never lifts a lock
+CREATE OR REPLACE FUNCTION reset_failed_auth_attempts()
+RETURNS void AS $$
+  UPDATE users
+  SET failed_auth_attempts = 0,
+      last_failed_auth = NULL
+  WHERE id = auth.uid()
+    AND status = 'active';
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION unlock_user_account(p_user_id uuid, p_method text, p_description text)
+RETURNS void AS $$
+DECLARE
+  v_locked_at timestamptz;
+BEGIN
+  SELECT locked_at INTO v_locked_at
+  FROM users
+  WHERE id = p_user_id AND status = 'locked'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE users
+  SET status = 'active',
+      failed_auth_attempts = 0,
+      last_failed_auth = NULL,
+      locked_at = NULL,
+      locked_until = NULL,
+      lock_reason = NULL
+  WHERE id = p_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    p_user_id,
+    'account_unlocked',
+    'medium',
+    p_description,
+    request_ip(),
+    jsonb_build_object('method', p_method, 'locked_at', v_locked_at)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION release_expired_account_lock()
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+      AND status = 'locked'
+      AND locked_until <= now()
+  ) THEN
+    PERFORM unlock_user_account(auth.uid(), 'timeout', 'Account unlocked automatically after the lockout period');
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION unlock_account_with_email()
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status <> 'locked' THEN
+    RAISE EXCEPTION 'Account is not locked';
+  END IF;
+
+  -- Supabase records how the session was established; only an email link opened
+  -- after the lock started proves the owner still controls the address
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(coalesce(auth.jwt()->'amr', '[]')) AS amr
+    WHERE amr->>'method' IN ('otp', 'magiclink')
+      AND to_timestamp((amr->>'timestamp')::double precision) >= v_user.locked_at
+  ) THEN
+    RAISE EXCEPTION 'Open the unlock link sent to your email address first';
+  END IF;
+
+  PERFORM unlock_user_account(v_user_id, 'email', 'Account unlocked by verifying the account email address');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION unlock_user_account(uuid, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_failed_pin_attempt() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION reset_failed_auth_attempts() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION release_expired_account_lock() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION unlock_account_with_email() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_failed_pin_attempt() TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_failed_auth_attempts() TO authenticated;
+GRANT EXECUTE ON FUNCTION release_expired_account_lock() TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_account_with_email() TO authenticated;
+
+-- Expired locks are released before a payment is checked
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+      to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF v_device.cooling_off_until > v_timestamp AND v_base_amount > v_device.cooling_off_limit THEN
+    RAISE EXCEPTION 'Newly paired device cannot pay more than % % until %',
+      v_device.cooling_off_limit, v_user.base_currency,
+      to_char(v_device.cooling_off_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  v_device_rejection := device_control_rejection(v_device, v_base_amount, v_merchant.category_code, v_timestamp);
+
+  IF v_device_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_device_rejection;
+  END IF;
+
+  v_limit_rejection := spending_limit_rejection(v_user, v_base_amount);
+
+  IF v_limit_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_limit_rejection;
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status = 'locked' THEN
+      RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+        to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+    END IF;
+
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    v_limit_rejection := spending_limit_rejection(v_user, v_transaction.base_amount);
+
+    IF v_limit_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_limit_rejection;
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
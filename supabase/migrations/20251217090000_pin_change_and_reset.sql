@@ -0,0 +1,158 @@
+/*
+  # PIN Change and Reset
+
+  ## Overview
+  The transaction PIN chosen at sign-up could never be changed or recovered. The client wrote
+  `pin_hash` directly, so anyone holding a session could replace it. PIN hashes now change only
+  through two functions. A change is made after the client has confirmed the current PIN. A reset
+  of a forgotten PIN needs a session re-authenticated with the account password in the last five
+  minutes. For 24 hours after a reset, payments above the equivalent of 100 USD are refused, which
+  limits what a stolen password can do. PIN strength is checked by the client, since the server
+  only sees hashes.
+
+  ## 1. Changes to `users`
+  - `pin_changed_at` (timestamptz) - Last change or reset
+  - `pin_reset_hold_until` (timestamptz) - End of the post-reset waiting period
+  - `pin_reset_hold_limit` (numeric) - Largest payment allowed until then, in the base currency
+
+  ## 2. New Functions
+  - `update_pin_hash(p_pin_hash, p_reason)` - Stores a new hash. `change` is a PIN change and
+    `upgrade` a rehash of the same PIN with current parameters
+  - `reset_pin(p_pin_hash)` - Replaces a forgotten PIN and starts the waiting period
+
+  ## 3. Changes
+  - `spending_limit_rejection` refuses high-value payments during the waiting period, so both
+    `authorize_transaction` and `resolve_pending_transaction` apply it
+
+  ## 4. Security
+  - Clients can no longer update any column of `users` directly
+  - Hashes must be in the salted PBKDF2 format written by the client
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_changed_at timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_reset_hold_until timestamptz;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_reset_hold_limit numeric;
+
+REVOKE UPDATE ON users FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION is_valid_pin_hash(p_pin_hash text)
+RETURNS boolean AS $$
+  SELECT coalesce(p_pin_hash ~ '^pbkdf2_sha256\$[0-9]+\$[A-Za-z0-9+/=]+\$[A-Za-z0-9+/=]+$', false);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION update_pin_hash(p_pin_hash text, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('change', 'upgrade') THEN
+    RAISE EXCEPTION 'Invalid PIN update reason';
+  END IF;
+
+  IF NOT is_valid_pin_hash(p_pin_hash) THEN
+    RAISE EXCEPTION 'Invalid PIN hash';
+  END IF;
+
+  UPDATE users
+  SET pin_hash = p_pin_hash,
+      pin_changed_at = CASE WHEN p_reason = 'change' THEN now() ELSE pin_changed_at END
+  WHERE id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_reason WHEN 'change' THEN 'pin_changed' ELSE 'pin_hash_upgraded' END,
+    CASE p_reason WHEN 'change' THEN 'medium' ELSE 'low' END,
+    CASE p_reason WHEN 'change' THEN 'Transaction PIN changed' ELSE 'PIN hash upgraded to salted PBKDF2' END,
+    request_ip(),
+    '{}'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reset_pin(p_pin_hash text)
+RETURNS users AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT is_valid_pin_hash(p_pin_hash) THEN
+    RAISE EXCEPTION 'Invalid PIN hash';
+  END IF;
+
+  -- A refreshed token keeps its original sign-in time, so only a fresh
+  -- password sign-in counts as re-authentication
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(coalesce(auth.jwt()->'amr', '[]')) AS amr
+    WHERE amr->>'method' = 'password'
+      AND to_timestamp((amr->>'timestamp')::double precision) >= now() - interval '5 minutes'
+  ) THEN
+    RAISE EXCEPTION 'Confirm your account password to reset your PIN';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  UPDATE users
+  SET pin_hash = p_pin_hash,
+      pin_changed_at = now(),
+      pin_reset_hold_until = now() + interval '24 hours',
+      pin_reset_hold_limit = round(100 * exchange_rate('USD', v_user.base_currency), currency_minor_units(v_user.base_currency))
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'pin_reset',
+    'high',
+    'Forgotten transaction PIN reset after password re-authentication',
+    request_ip(),
+    jsonb_build_object('hold_until', v_user.pin_reset_hold_until, 'hold_limit', v_user.pin_reset_hold_limit)
+  );
+
+  RETURN v_user;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION update_pin_hash(text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION reset_pin(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION update_pin_hash(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reset_pin(text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION spending_limit_rejection(p_user users, p_base_amount numeric)
+RETURNS text AS $$
+BEGIN
+  IF p_user.pin_reset_hold_until > now() AND p_base_amount > p_user.pin_reset_hold_limit THEN
+    RETURN format('Your PIN was reset recently; payments above %s %s are blocked until %s',
+      p_user.pin_reset_hold_limit, p_user.base_currency,
+      to_char(p_user.pin_reset_hold_until AT TIME ZONE p_user.timezone, 'YYYY-MM-DD HH24:MI'));
+  END IF;
+
+  IF p_base_amount > p_user.per_transaction_limit THEN
+    RETURN 'Amount exceeds your per-payment limit';
+  END IF;
+
+  IF daily_transaction_total(p_user.id) + p_base_amount > coalesce(p_user.daily_limit, 1000) THEN
+    RETURN 'Daily transaction limit exceeded';
+  END IF;
+
+  IF user_transaction_total(p_user.id, limit_window_start(p_user, 'week')) + p_base_amount > p_user.weekly_limit THEN
+    RETURN 'Weekly transaction limit exceeded';
+  END IF;
+
+  IF user_transaction_total(p_user.id, limit_window_start(p_user, 'month')) + p_base_amount > p_user.monthly_limit THEN
+    RETURN 'Monthly transaction limit exceeded';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
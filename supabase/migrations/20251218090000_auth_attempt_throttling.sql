@@ -0,0 +1,267 @@
+/*
+  # Auth Attempt Throttling
+
+  ## Overview
+  PIN checks ran in the browser against a `pin_hash` every session could read, so a script could
+  try every PIN offline. The counters the client reported could simply be skipped. Failed
+  passwords were never counted at all, because a failed sign-in has no session. Both are now
+  throttled by the server with exponential backoff, using separate counters for PIN and password
+  attempts:
+
+  - PINs are verified by `verify_pin`. The client derives the PBKDF2 hash of the entered PIN with
+    the stored salt, and the server compares it. `pin_hash` is no longer readable by clients.
+    Failures are throttled both per account and per client IP, and the account locks at the tenth
+    consecutive failure
+  - Passwords are throttled per account by a Supabase Auth password verification hook. While an
+    account is backing off, even the correct password is refused
+
+  Two failures are free. After that, each failure doubles the wait, from 15 seconds up to an
+  hour. Counters are cleared by a success or after 24 hours without a failure.
+
+  ## 1. New Tables
+
+  ### `auth_throttles`
+  - `kind` (text) - `pin` or `password`
+  - `subject` (text) - `user:<id>` or `ip:<address>`
+  - `failures` (integer), `last_failure_at` (timestamptz)
+  - `retry_after` (timestamptz) - No attempt is accepted before this time
+
+  ## 2. New Functions
+  - `get_pin_parameters()` - Salt and iteration count of the caller's PIN hash
+  - `verify_pin(p_pin_proof)` - Returns `{ valid, locked, throttled, retry_after, needs_rehash }`;
+    a throttled attempt is refused without being checked
+  - `hook_password_verification_attempt(event)` - Supabase Auth hook; enable it under
+    Authentication > Hooks > Password Verification Attempt
+  - `auth_retry_delay`, `auth_retry_after` and `record_auth_failure` - Internal helpers
+
+  ## 3. Removed Functions
+  - `record_failed_pin_attempt()` and `reset_failed_auth_attempts()`, replaced by `verify_pin`. A
+    password sign-in no longer clears the PIN counter
+
+  ## 4. Security
+  - `users.pin_hash` is excluded from client SELECT grants
+  - `auth_throttles` has RLS enabled with no policies
+*/
+
+CREATE TABLE IF NOT EXISTS auth_throttles (
+  kind text NOT NULL CHECK (kind IN ('pin', 'password')),
+  subject text NOT NULL,
+  failures integer NOT NULL DEFAULT 0,
+  last_failure_at timestamptz,
+  retry_after timestamptz,
+  PRIMARY KEY (kind, subject)
+);
+
+ALTER TABLE auth_throttles ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON auth_throttles FROM anon, authenticated;
+
+REVOKE SELECT ON users FROM anon, authenticated;
+GRANT SELECT (
+  id, email, daily_limit, status, failed_auth_attempts, last_failed_auth, created_at, updated_at,
+  pin_hash_version, base_currency, per_transaction_limit, weekly_limit, monthly_limit, limit_window,
+  timezone, locked_at, locked_until, lock_reason, pin_changed_at, pin_reset_hold_until, pin_reset_hold_limit
+) ON users TO authenticated;
+
+DROP FUNCTION IF EXISTS record_failed_pin_attempt();
+DROP FUNCTION IF EXISTS reset_failed_auth_attempts();
+
+CREATE OR REPLACE FUNCTION auth_retry_delay(p_failures integer)
+RETURNS interval AS $$
+  SELECT CASE
+    WHEN p_failures < 3 THEN interval '0'
+    ELSE least(interval '15 seconds' * power(2, p_failures - 3), interval '1 hour')
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION auth_retry_after(p_kind text, p_subjects text[])
+RETURNS timestamptz AS $$
+  SELECT max(retry_after)
+  FROM auth_throttles
+  WHERE kind = p_kind
+    AND subject = ANY(p_subjects)
+    AND retry_after > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Counts a failure and returns when the next attempt is allowed
+CREATE OR REPLACE FUNCTION record_auth_failure(p_kind text, p_subject text)
+RETURNS timestamptz AS $$
+  INSERT INTO auth_throttles AS t (kind, subject, failures, last_failure_at, retry_after)
+  VALUES (p_kind, p_subject, 1, now(), now() + auth_retry_delay(1))
+  ON CONFLICT (kind, subject) DO UPDATE
+  SET failures = CASE WHEN t.last_failure_at < now() - interval '24 hours' THEN 1 ELSE t.failures + 1 END,
+      last_failure_at = now(),
+      retry_after = now() + auth_retry_delay(
+        CASE WHEN t.last_failure_at < now() - interval '24 hours' THEN 1 ELSE t.failures + 1 END
+      )
+  RETURNING retry_after;
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_pin_parameters()
+RETURNS jsonb AS $$
+DECLARE
+  v_pin_hash text;
+BEGIN
+  SELECT pin_hash INTO v_pin_hash FROM users WHERE id = auth.uid();
+
+  IF v_pin_hash IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- Legacy hashes are unsalted SHA-256 hex digests
+  IF position('$' IN v_pin_hash) = 0 THEN
+    RETURN jsonb_build_object('algorithm', 'sha256');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'algorithm', split_part(v_pin_hash, '$', 1),
+    'iterations', split_part(v_pin_hash, '$', 2)::integer,
+    'salt', split_part(v_pin_hash, '$', 3)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_pin(p_pin_proof text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_subjects text[];
+  v_retry_after timestamptz;
+  v_legacy boolean;
+  v_expected text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  v_subjects := ARRAY['user:' || v_user_id];
+  IF request_ip() IS NOT NULL THEN
+    v_subjects := v_subjects || ('ip:' || host(request_ip()));
+  END IF;
+
+  v_retry_after := auth_retry_after('pin', v_subjects);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'locked', false, 'throttled', true, 'retry_after', v_retry_after);
+  END IF;
+
+  v_legacy := position('$' IN v_user.pin_hash) = 0;
+  v_expected := CASE WHEN v_legacy THEN v_user.pin_hash ELSE split_part(v_user.pin_hash, '$', 4) END;
+
+  IF p_pin_proof IS NOT NULL AND p_pin_proof = v_expected THEN
+    DELETE FROM auth_throttles WHERE kind = 'pin' AND subject = 'user:' || v_user_id;
+
+    UPDATE users
+    SET failed_auth_attempts = 0,
+        last_failed_auth = NULL
+    WHERE id = v_user_id;
+
+    RETURN jsonb_build_object(
+      'valid', true,
+      'locked', false,
+      'retry_after', NULL,
+      'needs_rehash', CASE WHEN v_legacy THEN true ELSE split_part(v_user.pin_hash, '$', 2)::integer < 600000 END
+    );
+  END IF;
+
+  SELECT max(record_auth_failure('pin', s)) INTO v_retry_after FROM unnest(v_subjects) AS s;
+
+  UPDATE users
+  SET failed_auth_attempts = coalesce(failed_auth_attempts, 0) + 1,
+      last_failed_auth = now()
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'invalid_pin',
+    'high',
+    'Invalid PIN entered',
+    request_ip(),
+    jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+  );
+
+  IF v_user.failed_auth_attempts >= 10 THEN
+    UPDATE users
+    SET status = 'locked',
+        locked_at = now(),
+        locked_until = now() + interval '30 minutes',
+        lock_reason = format('%s incorrect PIN attempts', v_user.failed_auth_attempts)
+    WHERE id = v_user_id
+    RETURNING * INTO v_user;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'account_locked',
+      'critical',
+      format('Account locked after %s failed attempts', v_user.failed_auth_attempts),
+      request_ip(),
+      jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'locked_until', v_user.locked_until)
+    );
+
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  RETURN jsonb_build_object('valid', false, 'locked', false, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called by Supabase Auth after checking a password; `valid` is its verdict
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := (event->>'user_id')::uuid;
+  v_subject text := 'user:' || (event->>'user_id');
+  v_retry_after timestamptz;
+BEGIN
+  v_retry_after := auth_retry_after('password', ARRAY[v_subject]);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', format('Too many failed sign-in attempts. Try again in %s seconds.',
+        ceil(extract(epoch FROM v_retry_after - now()))),
+      'should_logout_user', false
+    );
+  END IF;
+
+  IF (event->>'valid')::boolean THEN
+    DELETE FROM auth_throttles WHERE kind = 'password' AND subject = v_subject;
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  v_retry_after := record_auth_failure('password', v_subject);
+
+  IF EXISTS (SELECT 1 FROM users WHERE id = v_user_id) THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+    VALUES (
+      v_user_id,
+      'invalid_password',
+      'medium',
+      'Incorrect password entered at sign-in',
+      jsonb_build_object('retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION auth_retry_after(text, text[]) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_auth_failure(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION get_pin_parameters() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION verify_pin(text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION hook_password_verification_attempt(jsonb) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_pin_parameters() TO authenticated;
+GRANT EXECUTE ON FUNCTION verify_pin(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION hook_password_verification_attempt(jsonb) TO supabase_auth_admin;
@@ -0,0 +1,707 @@
+/*
+  # TOTP Two-Factor Authentication
+
+  ## Overview
+  Accounts were protected only by a password and a short PIN. Owners can now enroll an
+  authenticator app (RFC 6238 TOTP) through Supabase Auth MFA. Once a factor is verified:
+
+  - Sessions must reach `aal2` by entering a code after the password. Until then payments are
+    refused and transactions, devices and security logs are hidden
+  - A fresh code, from the last five minutes, is needed to pay more than the owner's step-up
+    threshold and to confirm a payment held for review
+  - Ten single-use backup codes are issued. A backup code can stand in for a step-up code. At
+    sign-in it recovers the account instead, removing the authenticator so it can be enrolled again
+
+  Enrolling and removing an authenticator are logged by a trigger on `auth.mfa_factors`, so
+  factors changed through the Auth API are recorded too.
+
+  ## 1. Changes to `users`
+  - `mfa_payment_threshold` (numeric) - Payments above this amount, in the base currency, need a
+    fresh code. NULL means only held payments do
+  - `mfa_backup_step_up_at` (timestamptz) - When a backup code last stood in for a step-up code
+
+  ## 2. New Tables
+
+  ### `mfa_backup_codes`
+  - `id` (uuid, primary key)
+  - `user_id` (uuid) - Owner
+  - `code_hash` (text) - SHA-256 of the normalized code
+  - `used_at` (timestamptz) - NULL until redeemed
+  - `created_at` (timestamptz)
+
+  ## 3. New Functions
+  - `mfa_enrolled(p_user_id)` - Whether the user has a verified TOTP factor
+  - `mfa_session_satisfied()` - False for an `aal1` session of an enrolled user
+  - `mfa_step_up_rejection(p_user, p_base_amount, p_held)` - Why a payment needs a fresh code
+  - `get_mfa_settings()` - `{ enabled, backup_codes_remaining, payment_threshold }`
+  - `generate_mfa_backup_codes()` - Replaces the caller's backup codes and returns them once
+  - `redeem_mfa_backup_code(p_code, p_purpose)` - Redeems a code for `sign_in` or `step_up`;
+    failures are throttled like PIN attempts
+  - `set_mfa_payment_threshold(p_threshold)` - Sets the step-up threshold
+
+  ## 4. Changes
+  - `authorize_transaction` and `resolve_pending_transaction` apply `mfa_step_up_rejection`
+  - `auth_throttles.kind` accepts `backup_code`
+
+  ## 5. Security
+  - `mfa_backup_codes` has RLS enabled with no policies; codes are only handled by the functions
+  - Restrictive policies hide `transactions`, `nfc_devices` and `security_logs` from `aal1`
+    sessions of enrolled users
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_payment_threshold numeric CHECK (mfa_payment_threshold >= 0);
+ALTER TABLE users ADD COLUMN IF NOT EXISTS mfa_backup_step_up_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS mfa_backup_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code_hash text NOT NULL,
+  used_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, code_hash)
+);
+
+ALTER TABLE mfa_backup_codes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON mfa_backup_codes FROM anon, authenticated;
+
+ALTER TABLE auth_throttles DROP CONSTRAINT IF EXISTS auth_throttles_kind_check;
+ALTER TABLE auth_throttles ADD CONSTRAINT auth_throttles_kind_check
+  CHECK (kind IN ('pin', 'password', 'backup_code'));
+
+CREATE OR REPLACE FUNCTION mfa_enrolled(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.mfa_factors
+    WHERE user_id = p_user_id
+      AND factor_type = 'totp'
+      AND status = 'verified'
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mfa_session_satisfied()
+RETURNS boolean AS $$
+  SELECT coalesce(auth.jwt()->>'aal', 'aal1') = 'aal2' OR NOT mfa_enrolled(auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION mfa_step_up_rejection(p_user users, p_base_amount numeric, p_held boolean)
+RETURNS text AS $$
+BEGIN
+  IF NOT mfa_enrolled(p_user.id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF NOT mfa_session_satisfied() THEN
+    RETURN 'Two-factor verification required to sign in';
+  END IF;
+
+  IF NOT p_held AND NOT coalesce(p_base_amount > p_user.mfa_payment_threshold, false) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Verifying a code adds a fresh `totp` entry to the session's `amr` claim
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(coalesce(auth.jwt()->'amr', '[]')) AS amr
+    WHERE amr->>'method' = 'totp'
+      AND to_timestamp((amr->>'timestamp')::double precision) >= now() - interval '5 minutes'
+  ) OR p_user.mfa_backup_step_up_at >= now() - interval '5 minutes' THEN
+    RETURN NULL;
+  END IF;
+
+  IF p_held THEN
+    RETURN 'Two-factor verification required to confirm a held payment';
+  END IF;
+
+  RETURN format('Two-factor verification required for payments above %s %s',
+    p_user.mfa_payment_threshold, p_user.base_currency);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_mfa_settings()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'enabled', mfa_enrolled(v_user_id),
+    'backup_codes_remaining', (
+      SELECT count(*) FROM mfa_backup_codes WHERE user_id = v_user_id AND used_at IS NULL
+    ),
+    'payment_threshold', (SELECT mfa_payment_threshold FROM users WHERE id = v_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION normalize_mfa_backup_code(p_code text)
+RETURNS text AS $$
+  SELECT upper(regexp_replace(coalesce(p_code, ''), '[^0-9A-Za-z]', '', 'g'));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION generate_mfa_backup_codes()
+RETURNS text[] AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_code text;
+  v_codes text[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT mfa_enrolled(v_user_id) OR coalesce(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator app before generating backup codes';
+  END IF;
+
+  DELETE FROM mfa_backup_codes WHERE user_id = v_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_code := upper(encode(extensions.gen_random_bytes(5), 'hex'));
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+
+    INSERT INTO mfa_backup_codes (user_id, code_hash)
+    VALUES (v_user_id, encode(extensions.digest(v_code, 'sha256'), 'hex'));
+  END LOOP;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'mfa_backup_codes_generated',
+    'medium',
+    'Two-factor backup codes generated',
+    request_ip(),
+    jsonb_build_object('count', array_length(v_codes, 1))
+  );
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION redeem_mfa_backup_code(p_code text, p_purpose text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_subject text := 'user:' || auth.uid();
+  v_code_id uuid;
+  v_retry_after timestamptz;
+  v_remaining integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_purpose IS NULL OR p_purpose NOT IN ('sign_in', 'step_up') THEN
+    RAISE EXCEPTION 'Invalid backup code purpose';
+  END IF;
+
+  IF NOT mfa_enrolled(v_user_id) THEN
+    RAISE EXCEPTION 'Two-factor authentication is not enabled';
+  END IF;
+
+  v_retry_after := auth_retry_after('backup_code', ARRAY[v_subject]);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'throttled', true, 'retry_after', v_retry_after);
+  END IF;
+
+  UPDATE mfa_backup_codes
+  SET used_at = now()
+  WHERE user_id = v_user_id
+    AND used_at IS NULL
+    AND code_hash = encode(extensions.digest(normalize_mfa_backup_code(p_code), 'sha256'), 'hex')
+  RETURNING id INTO v_code_id;
+
+  IF v_code_id IS NULL THEN
+    v_retry_after := record_auth_failure('backup_code', v_subject);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'invalid_backup_code',
+      'high',
+      'Invalid two-factor backup code entered',
+      request_ip(),
+      jsonb_build_object('purpose', p_purpose, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+    );
+
+    RETURN jsonb_build_object('valid', false, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END);
+  END IF;
+
+  DELETE FROM auth_throttles WHERE kind = 'backup_code' AND subject = v_subject;
+
+  SELECT count(*) INTO v_remaining FROM mfa_backup_codes WHERE user_id = v_user_id AND used_at IS NULL;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_purpose WHEN 'sign_in' THEN 'mfa_recovery' ELSE 'mfa_backup_code_used' END,
+    CASE p_purpose WHEN 'sign_in' THEN 'high' ELSE 'medium' END,
+    CASE p_purpose
+      WHEN 'sign_in' THEN 'Signed in with a backup code; authenticator removed'
+      ELSE 'Backup code used to verify a payment'
+    END,
+    request_ip(),
+    jsonb_build_object('backup_codes_remaining', v_remaining)
+  );
+
+  IF p_purpose = 'sign_in' THEN
+    -- Recovery assumes the authenticator is lost; the owner enrolls a new one
+    DELETE FROM auth.mfa_factors WHERE user_id = v_user_id;
+  ELSE
+    UPDATE users SET mfa_backup_step_up_at = now() WHERE id = v_user_id;
+  END IF;
+
+  RETURN jsonb_build_object('valid', true, 'backup_codes_remaining', v_remaining);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_mfa_payment_threshold(p_threshold numeric)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT mfa_enrolled(v_user_id) OR coalesce(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator app before changing the step-up threshold';
+  END IF;
+
+  IF p_threshold < 0 THEN
+    RAISE EXCEPTION 'Threshold cannot be negative';
+  END IF;
+
+  UPDATE users SET mfa_payment_threshold = p_threshold WHERE id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'mfa_threshold_changed',
+    'low',
+    'Two-factor payment threshold changed',
+    request_ip(),
+    jsonb_build_object('payment_threshold', p_threshold)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_mfa_factor_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.factor_type = 'totp' AND NEW.status = 'verified' AND OLD.status <> 'verified' THEN
+      INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+      SELECT id, 'mfa_enabled', 'medium', 'Authenticator app enabled for two-factor authentication',
+        jsonb_build_object('factor_id', NEW.id)
+      FROM users
+      WHERE id = NEW.user_id;
+    END IF;
+
+    RETURN NEW;
+  END IF;
+
+  IF OLD.factor_type = 'totp' AND OLD.status = 'verified' THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, metadata)
+    SELECT id, 'mfa_disabled', 'high', 'Authenticator app removed from two-factor authentication',
+      jsonb_build_object('factor_id', OLD.id)
+    FROM users
+    WHERE id = OLD.user_id;
+
+    IF NOT mfa_enrolled(OLD.user_id) THEN
+      DELETE FROM mfa_backup_codes WHERE user_id = OLD.user_id;
+      UPDATE users SET mfa_backup_step_up_at = NULL WHERE id = OLD.user_id;
+    END IF;
+  END IF;
+
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_mfa_factor_change ON auth.mfa_factors;
+CREATE TRIGGER log_mfa_factor_change
+  AFTER UPDATE OF status OR DELETE ON auth.mfa_factors
+  FOR EACH ROW
+  EXECUTE FUNCTION log_mfa_factor_change();
+
+DROP POLICY IF EXISTS "Enrolled users need a verified session for transactions" ON transactions;
+CREATE POLICY "Enrolled users need a verified session for transactions"
+  ON transactions AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (mfa_session_satisfied());
+
+DROP POLICY IF EXISTS "Enrolled users need a verified session for devices" ON nfc_devices;
+CREATE POLICY "Enrolled users need a verified session for devices"
+  ON nfc_devices AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (mfa_session_satisfied());
+
+DROP POLICY IF EXISTS "Enrolled users need a verified session for security logs" ON security_logs;
+CREATE POLICY "Enrolled users need a verified session for security logs"
+  ON security_logs AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (mfa_session_satisfied());
+
+REVOKE ALL ON FUNCTION mfa_enrolled(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION mfa_step_up_rejection(users, numeric, boolean) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION log_mfa_factor_change() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION mfa_session_satisfied() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_mfa_settings() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION generate_mfa_backup_codes() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION redeem_mfa_backup_code(text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION set_mfa_payment_threshold(numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mfa_session_satisfied() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_mfa_settings() TO authenticated;
+GRANT EXECUTE ON FUNCTION generate_mfa_backup_codes() TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_mfa_backup_code(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_mfa_payment_threshold(numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+      to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF v_device.cooling_off_until > v_timestamp AND v_base_amount > v_device.cooling_off_limit THEN
+    RAISE EXCEPTION 'Newly paired device cannot pay more than % % until %',
+      v_device.cooling_off_limit, v_user.base_currency,
+      to_char(v_device.cooling_off_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  v_device_rejection := device_control_rejection(v_device, v_base_amount, v_merchant.category_code, v_timestamp);
+
+  IF v_device_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_device_rejection;
+  END IF;
+
+  v_limit_rejection := spending_limit_rejection(v_user, v_base_amount);
+
+  IF v_limit_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_limit_rejection;
+  END IF;
+
+  v_step_up_rejection := mfa_step_up_rejection(v_user, v_base_amount, false);
+
+  IF v_step_up_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_step_up_rejection;
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status = 'locked' THEN
+      RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+        to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+    END IF;
+
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    v_limit_rejection := spending_limit_rejection(v_user, v_transaction.base_amount);
+
+    IF v_limit_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_limit_rejection;
+    END IF;
+
+    v_step_up_rejection := mfa_step_up_rejection(v_user, v_transaction.base_amount, true);
+
+    IF v_step_up_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_step_up_rejection;
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,539 @@
+/*
+  # Session Management
+
+  ## Overview
+  A session stayed valid until its owner signed out on that device, so there was no way to end
+  a sign-in on a lost phone. Owners can now list their active sessions and sign any of them out.
+  Sessions are also ended automatically:
+
+  - Every session, this one included, when the account is locked
+  - Every other session when the PIN is reset, since the reset assumes the old PIN is known to
+    someone else
+
+  Ending a session deletes it from `auth.sessions`, which stops its refresh token. Its access
+  token stays valid until it expires, so payments and account data check that the token's
+  session still exists.
+
+  ## 1. New Functions
+  - `session_active()` - Whether the caller's `session_id` claim names a live session
+  - `get_active_sessions()` - The caller's sessions with browser, IP and last activity
+  - `revoke_session(p_session_id)` - Signs out one of the caller's sessions
+  - `revoke_other_sessions()` - Signs out all of the caller's sessions except this one
+  - `revoke_user_sessions(p_user_id, p_keep_session_id, p_reason)` - Internal; deletes and logs
+
+  ## 2. New Triggers
+  - `revoke_sessions_on_security_change` on `users` - Ends sessions on lock and PIN reset
+
+  ## 3. Changes
+  - `authorize_transaction` and `resolve_pending_transaction` refuse signed-out sessions
+
+  ## 4. Security
+  - Restrictive policies hide `transactions`, `nfc_devices` and `security_logs` from signed-out
+    sessions
+*/
+
+CREATE OR REPLACE FUNCTION session_active()
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM auth.sessions
+    WHERE id = nullif(auth.jwt()->>'session_id', '')::uuid
+      AND user_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_user_sessions(p_user_id uuid, p_keep_session_id uuid, p_reason text)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM auth.sessions
+  WHERE user_id = p_user_id
+    AND id IS DISTINCT FROM p_keep_session_id;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  IF v_count > 0 THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      p_user_id,
+      'sessions_revoked',
+      'medium',
+      format('%s session(s) signed out: %s', v_count, p_reason),
+      request_ip(),
+      jsonb_build_object('count', v_count, 'reason', p_reason, 'kept_session_id', p_keep_session_id)
+    );
+  END IF;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_active_sessions()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN coalesce((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', s.id,
+        'created_at', s.created_at,
+        'last_seen_at', coalesce(s.updated_at, s.created_at),
+        'user_agent', s.user_agent,
+        'ip_address', host(s.ip),
+        'current', s.id::text = auth.jwt()->>'session_id'
+      )
+      ORDER BY coalesce(s.updated_at, s.created_at) DESC
+    )
+    FROM auth.sessions s
+    WHERE s.user_id = v_user_id
+      AND (s.not_after IS NULL OR s.not_after > now())
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_session(p_session_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL OR NOT session_active() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM auth.sessions WHERE id = p_session_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = p_session_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'session_revoked',
+    'medium',
+    'Session signed out remotely',
+    request_ip(),
+    jsonb_build_object('session_id', p_session_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_other_sessions()
+RETURNS integer AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT session_active() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  RETURN revoke_user_sessions(auth.uid(), (auth.jwt()->>'session_id')::uuid, 'signed out everywhere else');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_sessions_on_security_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status = 'locked' AND OLD.status IS DISTINCT FROM 'locked' THEN
+    PERFORM revoke_user_sessions(NEW.id, NULL, 'account locked');
+  ELSIF NEW.pin_reset_hold_until IS DISTINCT FROM OLD.pin_reset_hold_until AND NEW.pin_reset_hold_until > now() THEN
+    -- The session that reset the PIN has just re-entered the password
+    PERFORM revoke_user_sessions(NEW.id, nullif(auth.jwt()->>'session_id', '')::uuid, 'PIN reset');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS revoke_sessions_on_security_change ON users;
+CREATE TRIGGER revoke_sessions_on_security_change
+  AFTER UPDATE OF status, pin_reset_hold_until ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION revoke_sessions_on_security_change();
+
+DROP POLICY IF EXISTS "Signed-out sessions cannot access transactions" ON transactions;
+CREATE POLICY "Signed-out sessions cannot access transactions"
+  ON transactions AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (session_active());
+
+DROP POLICY IF EXISTS "Signed-out sessions cannot access devices" ON nfc_devices;
+CREATE POLICY "Signed-out sessions cannot access devices"
+  ON nfc_devices AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (session_active());
+
+DROP POLICY IF EXISTS "Signed-out sessions cannot access security logs" ON security_logs;
+CREATE POLICY "Signed-out sessions cannot access security logs"
+  ON security_logs AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING (session_active());
+
+REVOKE ALL ON FUNCTION revoke_user_sessions(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION revoke_sessions_on_security_change() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION session_active() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION get_active_sessions() FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION revoke_session(uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION revoke_other_sessions() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION session_active() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_active_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_session(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_other_sessions() TO authenticated;
+
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_active() THEN
+    RAISE EXCEPTION 'This session has been signed out';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+      to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF v_device.cooling_off_until > v_timestamp AND v_base_amount > v_device.cooling_off_limit THEN
+    RAISE EXCEPTION 'Newly paired device cannot pay more than % % until %',
+      v_device.cooling_off_limit, v_user.base_currency,
+      to_char(v_device.cooling_off_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  v_device_rejection := device_control_rejection(v_device, v_base_amount, v_merchant.category_code, v_timestamp);
+
+  IF v_device_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_device_rejection;
+  END IF;
+
+  v_limit_rejection := spending_limit_rejection(v_user, v_base_amount);
+
+  IF v_limit_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_limit_rejection;
+  END IF;
+
+  v_step_up_rejection := mfa_step_up_rejection(v_user, v_base_amount, false);
+
+  IF v_step_up_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_step_up_rejection;
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_active() THEN
+    RAISE EXCEPTION 'This session has been signed out';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status = 'locked' THEN
+      RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+        to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+    END IF;
+
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    v_limit_rejection := spending_limit_rejection(v_user, v_transaction.base_amount);
+
+    IF v_limit_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_limit_rejection;
+    END IF;
+
+    v_step_up_rejection := mfa_step_up_rejection(v_user, v_transaction.base_amount, true);
+
+    IF v_step_up_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_step_up_rejection;
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,108 @@
+/*
+  # Client Security Events
+
+  ## Overview
+  `security_logs` has no insert policy, so the events the client wrote directly (sign-up,
+  sign-in, sign-out) were rejected and the errors ignored. Clients now submit events in batches
+  through `record_security_events`. The function accepts only the event types the client
+  reports, attributes them to the caller, and stamps the request IP and user agent. Each event
+  carries a client-generated id, so a batch retried after a lost response is not logged twice.
+
+  ## 1. Changes to `security_logs`
+  - `client_event_id` (uuid, unique) - Set for client events; makes retries idempotent
+
+  ## 2. New Functions
+  - `client_security_event_severity(p_event_type)` - Minimum severity of a client event type, or
+    NULL for types the client may not report
+  - `record_security_events(p_events)` - Logs up to 50 events of the form
+    `{ id, event_type, severity, description, metadata, occurred_at }` and returns how many were new
+
+  ## 3. Security
+  - Event types, severities and sizes are validated; a client may raise a severity but not lower it
+  - Server-side events keep being written only by security-definer functions
+*/
+
+ALTER TABLE security_logs ADD COLUMN IF NOT EXISTS client_event_id uuid;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_security_logs_client_event_id
+  ON security_logs(client_event_id)
+  WHERE client_event_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION client_security_event_severity(p_event_type text)
+RETURNS text AS $$
+  SELECT CASE p_event_type
+    WHEN 'user_signup' THEN 'low'
+    WHEN 'user_signin' THEN 'low'
+    WHEN 'user_signout' THEN 'low'
+    WHEN 'idle_lock_engaged' THEN 'low'
+    WHEN 'idle_lock_released' THEN 'low'
+    WHEN 'mfa_challenge_failed' THEN 'medium'
+    WHEN 'unknown_device_tapped' THEN 'medium'
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION record_security_events(p_events jsonb)
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event jsonb;
+  v_min_severity text;
+  v_severity text;
+  v_severities text[] := ARRAY['low', 'medium', 'high', 'critical'];
+  v_count integer := 0;
+  v_inserted integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_events) IS DISTINCT FROM 'array' OR jsonb_array_length(p_events) > 50 THEN
+    RAISE EXCEPTION 'Events must be an array of at most 50 entries';
+  END IF;
+
+  FOR v_event IN SELECT * FROM jsonb_array_elements(p_events) LOOP
+    v_min_severity := client_security_event_severity(v_event->>'event_type');
+
+    IF v_min_severity IS NULL THEN
+      RAISE EXCEPTION 'Unknown security event type: %', v_event->>'event_type';
+    END IF;
+
+    IF jsonb_typeof(v_event->'metadata') IS DISTINCT FROM 'object' OR octet_length((v_event->'metadata')::text) > 4096 THEN
+      RAISE EXCEPTION 'Invalid metadata for %', v_event->>'event_type';
+    END IF;
+
+    v_severity := coalesce(v_event->>'severity', v_min_severity);
+
+    IF NOT v_severity = ANY(v_severities) THEN
+      RAISE EXCEPTION 'Invalid severity: %', v_severity;
+    END IF;
+
+    IF array_position(v_severities, v_severity) < array_position(v_severities, v_min_severity) THEN
+      v_severity := v_min_severity;
+    END IF;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata, client_event_id)
+    VALUES (
+      v_user_id,
+      v_event->>'event_type',
+      v_severity,
+      left(coalesce(v_event->>'description', v_event->>'event_type'), 500),
+      request_ip(),
+      (v_event->'metadata') || jsonb_build_object(
+        'source', 'client',
+        'occurred_at', v_event->>'occurred_at',
+        'user_agent', request_user_agent()
+      ),
+      (v_event->>'id')::uuid
+    )
+    ON CONFLICT (client_event_id) WHERE client_event_id IS NOT NULL DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_count := v_count + v_inserted;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_security_events(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_security_events(jsonb) TO authenticated;
@@ -0,0 +1,219 @@
+/*
+  # Security Audit Triggers
+
+  ## Overview
+  Security events were only logged when the change went through a function that remembered to
+  log it. A change made any other way left no trace. That includes a device renamed from the
+  client, a row edited from the dashboard, or a future function that forgets its log entry.
+  Triggers on `users`, `nfc_devices` and `transactions` now guarantee every security-relevant
+  change is logged, whoever made it.
+
+  The triggers are deferred to commit. By then any function that made the change has written
+  its own, more specific entry (for example `pin_changed` or `transaction_processed`). Entries
+  written in the same database transaction share its `now()`, so the trigger can see the
+  change is already covered and skips logging it a second time.
+
+  ## 1. New Functions
+  - `security_event_logged(p_user_id, p_match, p_event_types)` - Internal; whether this database
+    transaction already logged an event for the user whose metadata contains `p_match`
+  - `log_user_security_change()` - Logs status and PIN hash changes to `users`
+  - `log_device_security_change()` - Logs new devices and changes to any device setting
+  - `log_transaction_security_change()` - Logs new transactions and status changes
+
+  ## 2. New Triggers
+  - `log_user_security_change` on `users` (update of `status`, `pin_hash`)
+  - `log_device_security_change` on `nfc_devices` (insert, update)
+  - `log_transaction_security_change` on `transactions` (insert, update of `status`)
+
+  ## 3. Security
+  - `security_logs` keeps its read-only policy, and clients lose any table privilege to write
+    it. Entries come only from security-definer functions, triggers and `record_security_events`
+  - Entries written by the triggers carry `source: 'trigger'` and the acting user, which is
+    NULL for changes made with the service role
+*/
+
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON security_logs FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION security_event_logged(
+  p_user_id uuid,
+  p_match jsonb,
+  p_event_types text[] DEFAULT NULL
+)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM security_logs
+    WHERE user_id = p_user_id
+      AND created_at = now()
+      AND metadata @> p_match
+      AND (p_event_types IS NULL OR event_type = ANY(p_event_types))
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION security_event_logged(uuid, jsonb, text[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION log_user_security_change()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+    AND NOT security_event_logged(NEW.id, '{}', ARRAY['account_locked', 'account_unlocked'])
+  THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      NEW.id,
+      'account_status_changed',
+      CASE WHEN NEW.status = 'active' THEN 'medium' ELSE 'high' END,
+      format('Account status changed from %s to %s', OLD.status, NEW.status),
+      request_ip(),
+      jsonb_build_object(
+        'source', 'trigger',
+        'old_status', OLD.status,
+        'new_status', NEW.status,
+        'changed_by', auth.uid()
+      )
+    );
+  END IF;
+
+  IF NEW.pin_hash IS DISTINCT FROM OLD.pin_hash
+    AND NOT security_event_logged(NEW.id, '{}', ARRAY['pin_changed', 'pin_reset', 'pin_hash_upgraded'])
+  THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      NEW.id,
+      'pin_hash_changed',
+      'high',
+      'Transaction PIN changed outside the PIN change and reset flows',
+      request_ip(),
+      jsonb_build_object(
+        'source', 'trigger',
+        'pin_hash_version', NEW.pin_hash_version,
+        'changed_by', auth.uid()
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_device_security_change()
+RETURNS trigger AS $$
+DECLARE
+  v_changed text[];
+BEGIN
+  IF security_event_logged(NEW.user_id, jsonb_build_object('device_id', NEW.id)) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      NEW.user_id,
+      'nfc_device_added',
+      'high',
+      format('NFC device "%s" added outside the pairing flow', NEW.device_name),
+      request_ip(),
+      jsonb_build_object(
+        'source', 'trigger',
+        'device_id', NEW.id,
+        'device_uid', NEW.device_uid,
+        'changed_by', auth.uid()
+      )
+    );
+
+    RETURN NULL;
+  END IF;
+
+  -- last_used moves with every payment, which is already logged against the transaction
+  SELECT array_agg(n.key ORDER BY n.key) INTO v_changed
+  FROM jsonb_each(to_jsonb(NEW)) AS n
+  WHERE n.key <> 'last_used'
+    AND n.value IS DISTINCT FROM to_jsonb(OLD)->n.key;
+
+  IF v_changed IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    NEW.user_id,
+    'nfc_device_updated',
+    CASE WHEN v_changed <@ ARRAY['device_name'] THEN 'low' ELSE 'medium' END,
+    format('NFC device "%s" updated: %s', NEW.device_name, array_to_string(v_changed, ', ')),
+    request_ip(),
+    jsonb_build_object(
+      'source', 'trigger',
+      'device_id', NEW.id,
+      'changed_columns', to_jsonb(v_changed),
+      'changed_by', auth.uid()
+    )
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION log_transaction_security_change()
+RETURNS trigger AS $$
+BEGIN
+  IF security_event_logged(NEW.user_id, jsonb_build_object('transaction_id', NEW.id)) THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      NEW.user_id,
+      'transaction_recorded',
+      'high',
+      format('Transaction of %s %s at %s recorded outside payment authorization', NEW.amount, NEW.currency, NEW.merchant_name),
+      request_ip(),
+      jsonb_build_object(
+        'source', 'trigger',
+        'transaction_id', NEW.id,
+        'status', NEW.status,
+        'changed_by', auth.uid()
+      )
+    );
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      NEW.user_id,
+      'transaction_status_changed',
+      'high',
+      format('Transaction at %s changed from %s to %s', NEW.merchant_name, OLD.status, NEW.status),
+      request_ip(),
+      jsonb_build_object(
+        'source', 'trigger',
+        'transaction_id', NEW.id,
+        'old_status', OLD.status,
+        'new_status', NEW.status,
+        'changed_by', auth.uid()
+      )
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS log_user_security_change ON users;
+CREATE CONSTRAINT TRIGGER log_user_security_change
+  AFTER UPDATE OF status, pin_hash ON users
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION log_user_security_change();
+
+DROP TRIGGER IF EXISTS log_device_security_change ON nfc_devices;
+CREATE CONSTRAINT TRIGGER log_device_security_change
+  AFTER INSERT OR UPDATE ON nfc_devices
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION log_device_security_change();
+
+DROP TRIGGER IF EXISTS log_transaction_security_change ON transactions;
+CREATE CONSTRAINT TRIGGER log_transaction_security_change
+  AFTER INSERT OR UPDATE OF status ON transactions
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION log_transaction_security_change();
@@ -0,0 +1,255 @@
+/*
+  # Base Currency Changes
+
+  ## Overview
+  `users.base_currency` sets the currency of every limit on the account, so writing it directly
+  would make the same limits worth more or less. An owner can now change it only through
+  `set_base_currency`, which converts the account's limits at the current rate. The fraud rules'
+  amount thresholds are calibrated in USD, so they are now compared with the USD value of a
+  payment instead of its base-currency amount.
+
+  ## 1. New Functions
+  - `set_base_currency(p_currency)` - Switches the caller's base currency and converts the
+    account, device, PIN reset and two-factor limits. Refused while any payment from the last
+    31 days or a pending limit change exists, so totals never mix currencies
+  - `convert_limit(p_amount, p_rate, p_minor_units)` - Internal; converts and rounds down, but
+    never to zero
+
+  ## 2. Changes
+  - `evaluate_fraud_rules` converts the payment and daily total to USD for `amount` rules
+*/
+
+CREATE OR REPLACE FUNCTION convert_limit(p_amount numeric, p_rate numeric, p_minor_units integer)
+RETURNS numeric AS $$
+  SELECT CASE
+    WHEN p_amount IS NULL THEN NULL
+    WHEN p_amount = 0 THEN 0
+    ELSE greatest(trunc(p_amount * p_rate, p_minor_units), power(10::numeric, -p_minor_units))
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION set_base_currency(p_currency text)
+RETURNS users AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_currency currencies%ROWTYPE;
+  v_previous text;
+  v_rate numeric;
+BEGIN
+  IF v_user_id IS NULL OR NOT session_active() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(p_currency) AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency: %', p_currency;
+  END IF;
+
+  IF v_currency.code = v_user.base_currency THEN
+    RETURN v_user;
+  END IF;
+
+  -- Limit totals add up stored base amounts, which must share one currency
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE user_id = v_user_id
+      AND (status = 'pending' OR created_at >= now() - interval '31 days')
+  ) THEN
+    RAISE EXCEPTION 'The base currency can only be changed after 31 days without payments';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM spending_limit_changes WHERE user_id = v_user_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'Cancel the pending spending limit change first';
+  END IF;
+
+  v_previous := v_user.base_currency;
+  v_rate := exchange_rate(v_previous, v_currency.code);
+
+  UPDATE users
+  SET base_currency = v_currency.code,
+      daily_limit = convert_limit(daily_limit, v_rate, v_currency.minor_units),
+      per_transaction_limit = convert_limit(per_transaction_limit, v_rate, v_currency.minor_units),
+      weekly_limit = convert_limit(weekly_limit, v_rate, v_currency.minor_units),
+      monthly_limit = convert_limit(monthly_limit, v_rate, v_currency.minor_units),
+      pin_reset_hold_limit = convert_limit(pin_reset_hold_limit, v_rate, v_currency.minor_units),
+      mfa_payment_threshold = convert_limit(mfa_payment_threshold, v_rate, v_currency.minor_units)
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  UPDATE nfc_devices
+  SET per_transaction_limit = convert_limit(per_transaction_limit, v_rate, v_currency.minor_units),
+      daily_limit = convert_limit(daily_limit, v_rate, v_currency.minor_units),
+      monthly_limit = convert_limit(monthly_limit, v_rate, v_currency.minor_units),
+      cooling_off_limit = convert_limit(cooling_off_limit, v_rate, v_currency.minor_units)
+  WHERE user_id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'base_currency_changed',
+    'medium',
+    format('Base currency changed from %s to %s; limits converted at %s', v_previous, v_currency.code, round(v_rate, 6)),
+    request_ip(),
+    jsonb_build_object('previous_currency', v_previous, 'currency', v_currency.code, 'rate', v_rate)
+  );
+
+  RETURN v_user;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION evaluate_fraud_rules(p_user_id uuid, p_request jsonb)
+RETURNS TABLE (
+  matched_rule text,
+  matched_type text,
+  rule_action text,
+  rule_score integer,
+  detail text
+) AS $$
+DECLARE
+  v_rule fraud_rules%ROWTYPE;
+  v_params jsonb;
+  v_amount numeric := (p_request->>'amount')::numeric;
+  v_usd_rate numeric;
+  v_hit boolean;
+  v_detail text;
+  v_window interval;
+  v_count integer;
+  v_device_created timestamptz;
+  v_location jsonb := p_request->'geolocation';
+  v_previous_location jsonb;
+  v_previous_at timestamptz;
+  v_distance_km numeric;
+  v_hours numeric;
+  v_merchant merchants%ROWTYPE;
+BEGIN
+  -- Amount thresholds are set in USD whatever the account's base currency
+  SELECT exchange_rate(base_currency, 'USD') INTO v_usd_rate FROM users WHERE id = p_user_id;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_request->>'merchant_id';
+
+  FOR v_rule IN
+    SELECT * FROM fraud_rules WHERE is_active ORDER BY fraud_rules.rule_name
+  LOOP
+    v_params := v_rule.parameters;
+    v_hit := false;
+    v_detail := NULL;
+    v_previous_location := NULL;
+
+    BEGIN
+      CASE v_rule.rule_type
+        WHEN 'amount' THEN
+          IF v_params ? 'max_amount' AND v_amount * v_usd_rate > (v_params->>'max_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Amount %s USD exceeds %s USD', round(v_amount * v_usd_rate, 2), v_params->>'max_amount');
+          ELSIF v_params ? 'max_daily_amount'
+            AND (daily_transaction_total(p_user_id) + v_amount) * v_usd_rate > (v_params->>'max_daily_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Daily total would exceed %s USD', v_params->>'max_daily_amount');
+          END IF;
+
+        WHEN 'velocity' THEN
+          v_window := make_interval(
+            mins => coalesce((v_params->>'time_window_minutes')::integer, 0),
+            secs => coalesce((v_params->>'time_window_seconds')::integer, 0)
+          );
+
+          SELECT count(*) INTO v_count
+          FROM transactions t
+          WHERE t.user_id = p_user_id
+            AND t.transaction_type = 'payment'
+            AND t.created_at >= now() - v_window
+            AND (NOT coalesce((v_params->>'same_merchant')::boolean, false)
+                 OR t.merchant_id = p_request->>'merchant_id')
+            AND (NOT coalesce((v_params->>'same_amount')::boolean, false)
+                 OR abs(t.base_amount - v_amount) < 0.01);
+
+          IF v_count >= (v_params->>'max_transactions')::integer THEN
+            v_hit := true;
+            v_detail := format('%s matching transactions within %s', v_count, v_window);
+          END IF;
+
+        WHEN 'device' THEN
+          IF v_params ? 'new_device_hours' THEN
+            SELECT created_at INTO v_device_created
+            FROM nfc_devices
+            WHERE id = (p_request->>'device_id')::uuid;
+
+            IF v_device_created >= now() - make_interval(hours => (v_params->>'new_device_hours')::integer) THEN
+              v_hit := true;
+              v_detail := format('Device registered within %s hours', v_params->>'new_device_hours');
+            END IF;
+          END IF;
+
+        WHEN 'location' THEN
+          IF v_location IS NOT NULL THEN
+            SELECT t.geolocation, t.created_at INTO v_previous_location, v_previous_at
+            FROM transactions t
+            WHERE t.user_id = p_user_id
+              AND t.transaction_type = 'payment'
+              AND t.geolocation IS NOT NULL
+              AND (NOT v_params ? 'time_window_minutes'
+                   OR t.created_at >= now() - make_interval(mins => (v_params->>'time_window_minutes')::integer))
+            ORDER BY t.created_at DESC
+            LIMIT 1;
+
+            IF v_previous_location IS NOT NULL THEN
+              -- Allow for the reported accuracy of both fixes before flagging
+              v_distance_km := GREATEST(
+                geo_distance_km(v_previous_location, v_location)
+                  - (coalesce((v_previous_location->>'accuracy')::numeric, 0)
+                     + coalesce((v_location->>'accuracy')::numeric, 0)) / 1000,
+                0
+              );
+              v_hours := GREATEST(extract(epoch FROM now() - v_previous_at) / 3600, 1.0 / 60);
+
+              IF v_params ? 'max_distance_km' AND v_distance_km > (v_params->>'max_distance_km')::numeric THEN
+                v_hit := true;
+                v_detail := format('%s km from previous payment %s ago',
+                  round(v_distance_km), date_trunc('second', now() - v_previous_at));
+              ELSIF v_params ? 'max_speed_kmh' AND v_distance_km / v_hours > (v_params->>'max_speed_kmh')::numeric THEN
+                v_hit := true;
+                v_detail := format('Implied travel speed %s km/h since previous payment',
+                  round(v_distance_km / v_hours));
+              END IF;
+            END IF;
+          END IF;
+
+        WHEN 'merchant' THEN
+          IF coalesce((v_params->>'require_verified')::boolean, false)
+            AND v_merchant.verification_status IS DISTINCT FROM 'verified' THEN
+            v_hit := true;
+            v_detail := format('Merchant %s is not verified', p_request->>'merchant_id');
+          ELSIF v_params ? 'category_codes'
+            AND v_params->'category_codes' ? v_merchant.category_code THEN
+            v_hit := true;
+            v_detail := format('Merchant category %s', v_merchant.category_code);
+          END IF;
+      END CASE;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping fraud rule % with invalid parameters: %', v_rule.rule_name, SQLERRM;
+      v_hit := false;
+    END;
+
+    IF v_hit THEN
+      matched_rule := v_rule.rule_name;
+      matched_type := v_rule.rule_type;
+      rule_action := v_params->>'action';
+      rule_score := coalesce(
+        (v_params->>'score')::integer,
+        CASE rule_action WHEN 'decline' THEN 80 WHEN 'review' THEN 50 ELSE 0 END
+      );
+      detail := v_detail;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION set_base_currency(text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_base_currency(text) TO authenticated;
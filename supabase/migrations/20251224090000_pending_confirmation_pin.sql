@@ -0,0 +1,138 @@
+/*
+  # Server-checked PIN for Pending Payment Confirmation
+
+  ## Overview
+  Confirming a payment held for review asks for the PIN, but only the client checked it, so a
+  script holding the session could approve any held payment with one call to
+  `resolve_pending_transaction`. Confirming now consumes the `pin_verified_at` stamp left by
+  `verify_pin`, so the PIN must have been entered on the server within the last 5 minutes.
+  Cancelling still needs no PIN.
+
+  ## 1. Changes
+  - `resolve_pending_transaction` refuses `confirm` without a fresh server-verified PIN
+*/
+
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_active() THEN
+    RAISE EXCEPTION 'This session has been signed out';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status = 'locked' THEN
+      RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+        to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+    END IF;
+
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    IF NOT consume_pin_verification(v_user_id) THEN
+      RAISE EXCEPTION 'Enter your PIN to confirm this payment';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    v_limit_rejection := spending_limit_rejection(v_user, v_transaction.base_amount);
+
+    IF v_limit_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_limit_rejection;
+    END IF;
+
+    v_step_up_rejection := mfa_step_up_rejection(v_user, v_transaction.base_amount, true);
+
+    IF v_step_up_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_step_up_rejection;
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,124 @@
+/*
+  # Server-checked PIN for Device Pairing
+
+  ## Overview
+  Pairing a tag asks for the PIN, but only the client checked it, so a script holding the session
+  could pair a tag of its own with one call to `pair_nfc_device`. Pairing now consumes the
+  `pin_verified_at` stamp left by `verify_pin`, so the PIN must have been entered on the server
+  within the last 5 minutes.
+
+  ## 1. Changes
+  - `pair_nfc_device` refuses to pair without a fresh server-verified PIN
+*/
+
+CREATE OR REPLACE FUNCTION pair_nfc_device(
+  p_device_uid text,
+  p_device_name text,
+  p_tag_authentication uuid DEFAULT NULL,
+  p_cooling_off_hours integer DEFAULT 0,
+  p_cooling_off_limit numeric DEFAULT NULL
+)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_existing nfc_devices%ROWTYPE;
+  v_name text := btrim(p_device_name);
+  v_hours integer := coalesce(p_cooling_off_hours, 0);
+  v_device nfc_devices%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF NOT consume_pin_verification(v_user_id) THEN
+    RAISE EXCEPTION 'Enter your PIN to pair a device';
+  END IF;
+
+  IF coalesce(btrim(p_device_uid), '') = '' THEN
+    RAISE EXCEPTION 'Missing device UID';
+  END IF;
+
+  IF coalesce(v_name, '') = '' OR length(v_name) > 50 THEN
+    RAISE EXCEPTION 'Device name must be between 1 and 50 characters';
+  END IF;
+
+  IF v_hours < 0 OR v_hours > 168 THEN
+    RAISE EXCEPTION 'Cooling-off period must be between 0 and 168 hours';
+  END IF;
+
+  IF v_hours > 0 AND (p_cooling_off_limit IS NULL OR p_cooling_off_limit < 0) THEN
+    RAISE EXCEPTION 'A cooling-off period needs a payment limit';
+  END IF;
+
+  -- Logged as an alert for the owner; returning instead of raising keeps the log
+  IF record_blocked_device_tap(p_device_uid, 'pairing') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_existing FROM nfc_devices WHERE device_uid = p_device_uid AND removed_at IS NULL;
+
+  IF FOUND THEN
+    IF v_existing.user_id = v_user_id THEN
+      RAISE EXCEPTION 'This tag is already paired with your account';
+    END IF;
+    RAISE EXCEPTION 'This tag is already paired with another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = p_device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = p_device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  INSERT INTO nfc_devices (
+    user_id,
+    device_uid,
+    device_name,
+    is_active,
+    paired_at,
+    cooling_off_until,
+    cooling_off_limit
+  ) VALUES (
+    v_user_id,
+    p_device_uid,
+    v_name,
+    true,
+    now(),
+    CASE WHEN v_hours > 0 THEN now() + make_interval(hours => v_hours) END,
+    CASE WHEN v_hours > 0 THEN round(p_cooling_off_limit, currency_minor_units(v_user.base_currency)) END
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'nfc_device_paired',
+    'medium',
+    format('NFC device paired: %s', v_name),
+    request_ip(),
+    jsonb_build_object(
+      'device_id', v_device.id,
+      'device_uid', v_device.device_uid,
+      'cooling_off_until', v_device.cooling_off_until,
+      'cooling_off_limit', v_device.cooling_off_limit
+    )
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
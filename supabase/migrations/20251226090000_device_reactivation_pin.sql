@@ -0,0 +1,46 @@
+/*
+  # Server-checked PIN for Device Reactivation
+
+  ## Overview
+  Reactivating a device asks for the PIN, but only the client checked it, so a script holding the
+  session could switch a deactivated or lost device back on with one call to
+  `reactivate_nfc_device`. Reactivation now consumes the `pin_verified_at` stamp left by
+  `verify_pin`, so the PIN must have been entered on the server within the last 5 minutes.
+
+  ## 1. Changes
+  - `reactivate_nfc_device` refuses to reactivate without a fresh server-verified PIN
+*/
+
+CREATE OR REPLACE FUNCTION reactivate_nfc_device(p_device_id uuid)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE := lock_own_device(p_device_id);
+  v_was_lost boolean := v_device.reported_status = 'lost';
+BEGIN
+  IF v_device.reported_status = 'stolen' THEN
+    RAISE EXCEPTION 'Devices reported stolen cannot be reactivated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = v_device.user_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF NOT consume_pin_verification(v_device.user_id) THEN
+    RAISE EXCEPTION 'Enter your PIN to reactivate this device';
+  END IF;
+
+  UPDATE nfc_devices
+  SET is_active = true, reported_status = NULL, reported_at = NULL
+  WHERE id = v_device.id
+  RETURNING * INTO v_device;
+
+  PERFORM log_device_event(
+    v_device,
+    'nfc_device_reactivated',
+    CASE WHEN v_was_lost THEN 'high' ELSE 'medium' END,
+    CASE WHEN v_was_lost THEN 'Lost NFC device found and reactivated' ELSE 'NFC device reactivated' END
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
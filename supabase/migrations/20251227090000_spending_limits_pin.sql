@@ -0,0 +1,156 @@
+/*
+  # Server-checked PIN for Loosening Spending Limits
+
+  ## Overview
+  Raising a limit, or changing the window or time zone, asks for the PIN, but only the client
+  checked it. A script holding the session could schedule higher limits with one call to
+  `request_spending_limits`. Loosening changes now consume the `pin_verified_at` stamp left by
+  `verify_pin`, so the PIN must have been entered on the server within the last 5 minutes.
+  Tightening a limit still needs no PIN.
+
+  ## 1. Changes
+  - `request_spending_limits` refuses loosening changes without a fresh server-verified PIN
+*/
+
+CREATE OR REPLACE FUNCTION request_spending_limits(
+  p_per_transaction_limit numeric,
+  p_daily_limit numeric,
+  p_weekly_limit numeric,
+  p_monthly_limit numeric,
+  p_limit_window text,
+  p_timezone text
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_minor_units integer;
+  v_requested jsonb;
+  v_current jsonb;
+  v_key text;
+  v_old numeric;
+  v_new numeric;
+  v_immediate jsonb := '{}';
+  v_delayed jsonb := '{}';
+  v_pending spending_limit_changes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF p_daily_limit IS NULL OR p_daily_limit <= 0
+    OR p_per_transaction_limit <= 0 OR p_weekly_limit <= 0 OR p_monthly_limit <= 0 THEN
+    RAISE EXCEPTION 'Limits must be greater than zero, and a daily limit is required';
+  END IF;
+
+  IF p_per_transaction_limit > p_daily_limit
+    OR p_daily_limit > p_weekly_limit
+    OR p_daily_limit > p_monthly_limit
+    OR p_weekly_limit > p_monthly_limit THEN
+    RAISE EXCEPTION 'A limit cannot be higher than the limit for a longer period';
+  END IF;
+
+  IF p_limit_window IS NULL OR p_limit_window NOT IN ('calendar', 'rolling') THEN
+    RAISE EXCEPTION 'Limit window must be calendar or rolling';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone';
+  END IF;
+
+  v_minor_units := currency_minor_units(v_user.base_currency);
+  v_requested := jsonb_build_object(
+    'per_transaction_limit', round(p_per_transaction_limit, v_minor_units),
+    'daily_limit', round(p_daily_limit, v_minor_units),
+    'weekly_limit', round(p_weekly_limit, v_minor_units),
+    'monthly_limit', round(p_monthly_limit, v_minor_units)
+  );
+  v_current := jsonb_build_object(
+    'per_transaction_limit', v_user.per_transaction_limit,
+    'daily_limit', coalesce(v_user.daily_limit, 1000),
+    'weekly_limit', v_user.weekly_limit,
+    'monthly_limit', v_user.monthly_limit
+  );
+
+  -- A lower limit, or a limit where there was none, is stricter
+  FOR v_key IN SELECT jsonb_object_keys(v_requested) LOOP
+    v_old := (v_current->>v_key)::numeric;
+    v_new := (v_requested->>v_key)::numeric;
+
+    IF v_new IS NOT DISTINCT FROM v_old THEN
+      CONTINUE;
+    ELSIF v_new IS NOT NULL AND (v_old IS NULL OR v_new < v_old) THEN
+      v_immediate := v_immediate || jsonb_build_object(v_key, v_new);
+    ELSE
+      v_delayed := v_delayed || jsonb_build_object(v_key, v_new);
+    END IF;
+  END LOOP;
+
+  -- Moving window boundaries can free up headroom, so they wait too
+  IF p_limit_window <> v_user.limit_window THEN
+    v_delayed := v_delayed || jsonb_build_object('limit_window', p_limit_window);
+  END IF;
+
+  IF p_timezone <> v_user.timezone THEN
+    v_delayed := v_delayed || jsonb_build_object('timezone', p_timezone);
+  END IF;
+
+  IF v_delayed <> '{}' AND NOT consume_pin_verification(v_user_id) THEN
+    RAISE EXCEPTION 'Enter your PIN to raise your limits';
+  END IF;
+
+  IF v_immediate <> '{}' THEN
+    PERFORM apply_limit_changes(v_user_id, v_immediate);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'spending_limits_decreased',
+      'low',
+      'Spending limits tightened',
+      request_ip(),
+      jsonb_build_object('changes', v_immediate)
+    );
+  END IF;
+
+  SELECT * INTO v_pending
+  FROM spending_limit_changes
+  WHERE user_id = v_user_id AND status = 'pending'
+  FOR UPDATE;
+
+  -- Re-requesting the pending change keeps its original waiting period
+  IF FOUND AND v_pending.changes = v_delayed THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+  END IF;
+
+  IF FOUND THEN
+    UPDATE spending_limit_changes
+    SET status = 'cancelled', resolved_at = now()
+    WHERE id = v_pending.id;
+  END IF;
+
+  IF v_delayed = '{}' THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', NULL);
+  END IF;
+
+  INSERT INTO spending_limit_changes (user_id, changes, effective_at)
+  VALUES (v_user_id, v_delayed, now() + interval '24 hours')
+  RETURNING * INTO v_pending;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'spending_limit_increase_requested',
+    'medium',
+    'Spending limit increase requested; it takes effect in 24 hours',
+    request_ip(),
+    jsonb_build_object('change_id', v_pending.id, 'changes', v_delayed, 'effective_at', v_pending.effective_at)
+  );
+
+  RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,73 @@
+/*
+  # Current PIN Proof for PIN Hash Updates
+
+  ## Overview
+  `update_pin_hash` stored any well-formed hash for a `change` or an `upgrade`. The current PIN
+  was only checked by the client beforehand, so a script holding the session could set a PIN of
+  its own. The function now takes a proof of the current PIN and checks it with `verify_pin`, so
+  wrong guesses are throttled and counted towards the lockout like any other PIN entry. A wrong
+  proof returns the `verify_pin` result instead of raising, which keeps the recorded failure.
+
+  The server cannot run PBKDF2, so it cannot check that an upgraded hash encodes the same PIN.
+  An `upgrade` is therefore only accepted while the stored hash actually needs one, and every new
+  hash must use at least the 600000 iterations the client writes.
+
+  ## 1. Changes
+  - `update_pin_hash(p_pin_proof, p_pin_hash, p_reason)` replaces `update_pin_hash(p_pin_hash,
+    p_reason)` and returns `{ valid, locked, throttled, retry_after, needs_rehash }`. A `change`
+    uses up the server-side PIN verification; an `upgrade` leaves it for the action the PIN was
+    entered for
+*/
+
+DROP FUNCTION IF EXISTS update_pin_hash(text, text);
+
+CREATE OR REPLACE FUNCTION update_pin_hash(p_pin_proof text, p_pin_hash text, p_reason text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('change', 'upgrade') THEN
+    RAISE EXCEPTION 'Invalid PIN update reason';
+  END IF;
+
+  IF NOT is_valid_pin_hash(p_pin_hash) OR split_part(p_pin_hash, '$', 2)::numeric < 600000 THEN
+    RAISE EXCEPTION 'Invalid PIN hash';
+  END IF;
+
+  v_result := verify_pin(p_pin_proof);
+
+  IF NOT (v_result->>'valid')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  IF p_reason = 'upgrade' AND NOT (v_result->>'needs_rehash')::boolean THEN
+    RAISE EXCEPTION 'PIN hash is already up to date';
+  END IF;
+
+  UPDATE users
+  SET pin_hash = p_pin_hash,
+      pin_changed_at = CASE WHEN p_reason = 'change' THEN now() ELSE pin_changed_at END,
+      pin_verified_at = CASE WHEN p_reason = 'change' THEN NULL ELSE pin_verified_at END
+  WHERE id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_reason WHEN 'change' THEN 'pin_changed' ELSE 'pin_hash_upgraded' END,
+    CASE p_reason WHEN 'change' THEN 'medium' ELSE 'low' END,
+    CASE p_reason WHEN 'change' THEN 'Transaction PIN changed' ELSE 'PIN hash upgraded to salted PBKDF2' END,
+    request_ip(),
+    '{}'
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION update_pin_hash(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION update_pin_hash(text, text, text) TO authenticated;
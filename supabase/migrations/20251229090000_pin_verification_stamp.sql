@@ -0,0 +1,134 @@
+/*
+  # Server-side PIN Verification Stamp
+
+  ## Overview
+  The PIN was checked on the server by `verify_pin`, but nothing recorded the result. Functions
+  that should only run after the PIN was entered had to trust the client to have asked for it.
+  A correct PIN is now stamped on the account as `pin_verified_at`. Functions that need the PIN
+  confirmed consume the stamp, so a script holding the session cannot skip the PIN by calling
+  them directly.
+
+  ## 1. Changes to `users`
+  - `pin_verified_at` (timestamptz) - When `verify_pin` last accepted the PIN; cleared when used
+
+  ## 2. New Functions
+  - `consume_pin_verification(p_user_id)` - Internal; true and clears the stamp if the PIN was
+    verified in the last 5 minutes
+
+  ## 3. Changes
+  - `verify_pin` stamps the account after a correct PIN
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS pin_verified_at timestamptz;
+
+CREATE OR REPLACE FUNCTION verify_pin(p_pin_proof text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_subjects text[];
+  v_retry_after timestamptz;
+  v_legacy boolean;
+  v_expected text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  v_subjects := ARRAY['user:' || v_user_id];
+  IF request_ip() IS NOT NULL THEN
+    v_subjects := v_subjects || ('ip:' || host(request_ip()));
+  END IF;
+
+  v_retry_after := auth_retry_after('pin', v_subjects);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'locked', false, 'throttled', true, 'retry_after', v_retry_after);
+  END IF;
+
+  v_legacy := position('$' IN v_user.pin_hash) = 0;
+  v_expected := CASE WHEN v_legacy THEN v_user.pin_hash ELSE split_part(v_user.pin_hash, '$', 4) END;
+
+  IF p_pin_proof IS NOT NULL AND p_pin_proof = v_expected THEN
+    DELETE FROM auth_throttles WHERE kind = 'pin' AND subject = 'user:' || v_user_id;
+
+    UPDATE users
+    SET failed_auth_attempts = 0,
+        last_failed_auth = NULL,
+        pin_verified_at = now()
+    WHERE id = v_user_id;
+
+    RETURN jsonb_build_object(
+      'valid', true,
+      'locked', false,
+      'retry_after', NULL,
+      'needs_rehash', CASE WHEN v_legacy THEN true ELSE split_part(v_user.pin_hash, '$', 2)::integer < 600000 END
+    );
+  END IF;
+
+  SELECT max(record_auth_failure('pin', s)) INTO v_retry_after FROM unnest(v_subjects) AS s;
+
+  UPDATE users
+  SET failed_auth_attempts = coalesce(failed_auth_attempts, 0) + 1,
+      last_failed_auth = now()
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'invalid_pin',
+    'high',
+    'Invalid PIN entered',
+    request_ip(),
+    jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+  );
+
+  IF v_user.failed_auth_attempts >= 10 THEN
+    UPDATE users
+    SET status = 'locked',
+        locked_at = now(),
+        locked_until = now() + interval '30 minutes',
+        lock_reason = format('%s incorrect PIN attempts', v_user.failed_auth_attempts)
+    WHERE id = v_user_id
+    RETURNING * INTO v_user;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'account_locked',
+      'critical',
+      format('Account locked after %s failed attempts', v_user.failed_auth_attempts),
+      request_ip(),
+      jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'locked_until', v_user.locked_until)
+    );
+
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  RETURN jsonb_build_object('valid', false, 'locked', false, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- One verified PIN confirms one sensitive change
+CREATE OR REPLACE FUNCTION consume_pin_verification(p_user_id uuid)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE users
+  SET pin_verified_at = NULL
+  WHERE id = p_user_id
+    AND pin_verified_at >= now() - interval '5 minutes';
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION consume_pin_verification(uuid) FROM PUBLIC, anon, authenticated;
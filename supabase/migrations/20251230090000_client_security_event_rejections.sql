@@ -0,0 +1,88 @@
+/*
+  # Skip Invalid Client Security Events
+
+  ## Overview
+  `record_security_events` raised on the first invalid entry, which rolled back the whole batch,
+  and the client then dropped the batch because a retry could not fix it. One bad event discarded
+  the valid events sent with it. Invalid entries are now skipped and reported, and the rest of
+  the batch is recorded.
+
+  ## 1. Changes
+  - `record_security_events(p_events)` returns `{ recorded, rejected }`: how many events were
+    new, and the id and reason of each invalid entry. It still raises for a batch that is not an
+    array or holds more than 50 entries
+*/
+
+DROP FUNCTION IF EXISTS record_security_events(jsonb);
+
+CREATE OR REPLACE FUNCTION record_security_events(p_events jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event jsonb;
+  v_min_severity text;
+  v_severity text;
+  v_severities text[] := ARRAY['low', 'medium', 'high', 'critical'];
+  v_rejection text;
+  v_rejected jsonb := '[]';
+  v_count integer := 0;
+  v_inserted integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_events) IS DISTINCT FROM 'array' OR jsonb_array_length(p_events) > 50 THEN
+    RAISE EXCEPTION 'Events must be an array of at most 50 entries';
+  END IF;
+
+  FOR v_event IN SELECT * FROM jsonb_array_elements(p_events) LOOP
+    v_min_severity := client_security_event_severity(v_event->>'event_type');
+    v_severity := coalesce(v_event->>'severity', v_min_severity);
+
+    v_rejection := CASE
+      WHEN v_event->>'id' !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN 'Invalid event id'
+      WHEN v_min_severity IS NULL
+        THEN format('Unknown security event type: %s', v_event->>'event_type')
+      WHEN jsonb_typeof(v_event->'metadata') IS DISTINCT FROM 'object' OR octet_length((v_event->'metadata')::text) > 4096
+        THEN format('Invalid metadata for %s', v_event->>'event_type')
+      WHEN NOT v_severity = ANY(v_severities)
+        THEN format('Invalid severity: %s', v_severity)
+    END;
+
+    IF v_rejection IS NOT NULL THEN
+      v_rejected := v_rejected || jsonb_build_array(jsonb_build_object('id', v_event->'id', 'reason', v_rejection));
+      CONTINUE;
+    END IF;
+
+    IF array_position(v_severities, v_severity) < array_position(v_severities, v_min_severity) THEN
+      v_severity := v_min_severity;
+    END IF;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata, client_event_id)
+    VALUES (
+      v_user_id,
+      v_event->>'event_type',
+      v_severity,
+      left(coalesce(v_event->>'description', v_event->>'event_type'), 500),
+      request_ip(),
+      (v_event->'metadata') || jsonb_build_object(
+        'source', 'client',
+        'occurred_at', v_event->>'occurred_at',
+        'user_agent', request_user_agent()
+      ),
+      (v_event->>'id')::uuid
+    )
+    ON CONFLICT (client_event_id) WHERE client_event_id IS NOT NULL DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_count := v_count + v_inserted;
+  END LOOP;
+
+  RETURN jsonb_build_object('recorded', v_count, 'rejected', v_rejected);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION record_security_events(jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_security_events(jsonb) TO authenticated;
@@ -0,0 +1,20 @@
+/*
+  # Client Write Privileges
+
+  ## Overview
+  Column privileges on `users` and `nfc_devices` were narrowed over several migrations, and a
+  database could end up with any of the intermediate grants. They are restated here in their
+  final form.
+
+  ## 1. Security
+  - Clients may insert only `id`, `email`, `pin_hash` and `status` into `users` at sign-up, and
+    update no column of it. Limits, status, lockout counters, the PIN hash and the base currency
+    change only through security-definer functions
+  - Clients may update only `device_name` on `nfc_devices`, and neither insert nor delete devices
+*/
+
+REVOKE INSERT, UPDATE ON users FROM anon, authenticated;
+GRANT INSERT (id, email, pin_hash, status) ON users TO authenticated;
+
+REVOKE INSERT, UPDATE, DELETE ON nfc_devices FROM anon, authenticated;
+GRANT UPDATE (device_name) ON nfc_devices TO authenticated;
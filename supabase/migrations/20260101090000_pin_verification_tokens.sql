@@ -0,0 +1,663 @@
+/*
+  # Single-use PIN Verification Tokens
+
+  ## Overview
+  Any correct PIN stamped the account with `pin_verified_at`, and every PIN-protected function
+  accepted the stamp for 5 minutes. A PIN entered to pay, to release the idle lock or to cancel a
+  held payment therefore let a script pair a device, reactivate one or raise the limits right
+  after. `verify_pin` now issues a token only when asked for a purpose. The token is good for one
+  call, within 5 minutes, to the function that requires that purpose.
+
+  The PIN failure counter also restarts after 24 hours without a failure, as the account
+  lockout always intended, instead of adding up forever.
+
+  ## 1. New Tables
+
+  ### `pin_verifications`
+  - `token` (uuid, primary key) - Returned to the client by `verify_pin`
+  - `user_id` (uuid), `purpose` (text)
+  - `created_at`, `expires_at`, `used_at` (timestamptz)
+
+  ## 2. Changes
+  - `verify_pin(p_pin_proof, p_purpose)` returns a `token` when `p_purpose` is given:
+    `confirm_payment`, `pair_device`, `reactivate_device` or `raise_limits`
+  - `resolve_pending_transaction`, `pair_nfc_device`, `reactivate_nfc_device` and
+    `request_spending_limits` take `p_pin_token` and require a token for their own purpose
+  - `consume_pin_verification(p_user_id, p_token, p_purpose)` replaces the stamp check
+  - `update_pin_hash` no longer touches the stamp
+
+  ## 3. Removed
+  - `users.pin_verified_at` and `consume_pin_verification(p_user_id)`
+
+  ## 4. Security
+  - `pin_verifications` has RLS enabled with no policies; tokens are only read by the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS pin_verifications (
+  token uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose text NOT NULL CHECK (purpose IN ('confirm_payment', 'pair_device', 'reactivate_device', 'raise_limits')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL DEFAULT now() + interval '5 minutes',
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_pin_verifications_user_id ON pin_verifications(user_id);
+
+ALTER TABLE pin_verifications ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON pin_verifications FROM anon, authenticated;
+
+DROP FUNCTION IF EXISTS consume_pin_verification(uuid);
+ALTER TABLE users DROP COLUMN IF EXISTS pin_verified_at;
+
+DROP FUNCTION IF EXISTS verify_pin(text);
+DROP FUNCTION IF EXISTS resolve_pending_transaction(uuid, text);
+DROP FUNCTION IF EXISTS pair_nfc_device(text, text, uuid, integer, numeric);
+DROP FUNCTION IF EXISTS reactivate_nfc_device(uuid);
+DROP FUNCTION IF EXISTS request_spending_limits(numeric, numeric, numeric, numeric, text, text);
+
+CREATE OR REPLACE FUNCTION verify_pin(p_pin_proof text, p_purpose text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_subjects text[];
+  v_retry_after timestamptz;
+  v_legacy boolean;
+  v_expected text;
+  v_token uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_purpose IS NOT NULL AND p_purpose NOT IN ('confirm_payment', 'pair_device', 'reactivate_device', 'raise_limits') THEN
+    RAISE EXCEPTION 'Invalid PIN verification purpose';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  v_subjects := ARRAY['user:' || v_user_id];
+  IF request_ip() IS NOT NULL THEN
+    v_subjects := v_subjects || ('ip:' || host(request_ip()));
+  END IF;
+
+  v_retry_after := auth_retry_after('pin', v_subjects);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'locked', false, 'throttled', true, 'retry_after', v_retry_after);
+  END IF;
+
+  v_legacy := position('$' IN v_user.pin_hash) = 0;
+  v_expected := CASE WHEN v_legacy THEN v_user.pin_hash ELSE split_part(v_user.pin_hash, '$', 4) END;
+
+  IF p_pin_proof IS NOT NULL AND p_pin_proof = v_expected THEN
+    DELETE FROM auth_throttles WHERE kind = 'pin' AND subject = 'user:' || v_user_id;
+
+    UPDATE users
+    SET failed_auth_attempts = 0,
+        last_failed_auth = NULL
+    WHERE id = v_user_id;
+
+    IF p_purpose IS NOT NULL THEN
+      DELETE FROM pin_verifications
+      WHERE user_id = v_user_id AND (used_at IS NOT NULL OR expires_at <= now());
+
+      INSERT INTO pin_verifications (user_id, purpose)
+      VALUES (v_user_id, p_purpose)
+      RETURNING token INTO v_token;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'valid', true,
+      'locked', false,
+      'retry_after', NULL,
+      'token', v_token,
+      'needs_rehash', CASE WHEN v_legacy THEN true ELSE split_part(v_user.pin_hash, '$', 2)::integer < 600000 END
+    );
+  END IF;
+
+  SELECT max(record_auth_failure('pin', s)) INTO v_retry_after FROM unnest(v_subjects) AS s;
+
+  UPDATE users
+  SET failed_auth_attempts = CASE
+        WHEN last_failed_auth < now() - interval '24 hours' THEN 1
+        ELSE coalesce(failed_auth_attempts, 0) + 1
+      END,
+      last_failed_auth = now()
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'invalid_pin',
+    'high',
+    'Invalid PIN entered',
+    request_ip(),
+    jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+  );
+
+  IF v_user.failed_auth_attempts >= 10 THEN
+    UPDATE users
+    SET status = 'locked',
+        locked_at = now(),
+        locked_until = now() + interval '30 minutes',
+        lock_reason = format('%s incorrect PIN attempts', v_user.failed_auth_attempts)
+    WHERE id = v_user_id
+    RETURNING * INTO v_user;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'account_locked',
+      'critical',
+      format('Account locked after %s failed attempts', v_user.failed_auth_attempts),
+      request_ip(),
+      jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'locked_until', v_user.locked_until)
+    );
+
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  RETURN jsonb_build_object('valid', false, 'locked', false, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- A token confirms one action of the kind it was issued for
+CREATE OR REPLACE FUNCTION consume_pin_verification(p_user_id uuid, p_token uuid, p_purpose text)
+RETURNS boolean AS $$
+BEGIN
+  UPDATE pin_verifications
+  SET used_at = now()
+  WHERE token = p_token
+    AND user_id = p_user_id
+    AND purpose = p_purpose
+    AND used_at IS NULL
+    AND expires_at > now();
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text,
+  p_pin_token uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_active() THEN
+    RAISE EXCEPTION 'This session has been signed out';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status = 'locked' THEN
+      RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+        to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+    END IF;
+
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    IF NOT consume_pin_verification(v_user_id, p_pin_token, 'confirm_payment') THEN
+      RAISE EXCEPTION 'Enter your PIN to confirm this payment';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    v_limit_rejection := spending_limit_rejection(v_user, v_transaction.base_amount);
+
+    IF v_limit_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_limit_rejection;
+    END IF;
+
+    v_step_up_rejection := mfa_step_up_rejection(v_user, v_transaction.base_amount, true);
+
+    IF v_step_up_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_step_up_rejection;
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION pair_nfc_device(
+  p_device_uid text,
+  p_device_name text,
+  p_tag_authentication uuid DEFAULT NULL,
+  p_cooling_off_hours integer DEFAULT 0,
+  p_cooling_off_limit numeric DEFAULT NULL,
+  p_pin_token uuid DEFAULT NULL
+)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_existing nfc_devices%ROWTYPE;
+  v_name text := btrim(p_device_name);
+  v_hours integer := coalesce(p_cooling_off_hours, 0);
+  v_device nfc_devices%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF NOT consume_pin_verification(v_user_id, p_pin_token, 'pair_device') THEN
+    RAISE EXCEPTION 'Enter your PIN to pair a device';
+  END IF;
+
+  IF coalesce(btrim(p_device_uid), '') = '' THEN
+    RAISE EXCEPTION 'Missing device UID';
+  END IF;
+
+  IF coalesce(v_name, '') = '' OR length(v_name) > 50 THEN
+    RAISE EXCEPTION 'Device name must be between 1 and 50 characters';
+  END IF;
+
+  IF v_hours < 0 OR v_hours > 168 THEN
+    RAISE EXCEPTION 'Cooling-off period must be between 0 and 168 hours';
+  END IF;
+
+  IF v_hours > 0 AND (p_cooling_off_limit IS NULL OR p_cooling_off_limit < 0) THEN
+    RAISE EXCEPTION 'A cooling-off period needs a payment limit';
+  END IF;
+
+  -- Logged as an alert for the owner; returning instead of raising keeps the log
+  IF record_blocked_device_tap(p_device_uid, 'pairing') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_existing FROM nfc_devices WHERE device_uid = p_device_uid AND removed_at IS NULL;
+
+  IF FOUND THEN
+    IF v_existing.user_id = v_user_id THEN
+      RAISE EXCEPTION 'This tag is already paired with your account';
+    END IF;
+    RAISE EXCEPTION 'This tag is already paired with another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = p_device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = p_device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  INSERT INTO nfc_devices (
+    user_id,
+    device_uid,
+    device_name,
+    is_active,
+    paired_at,
+    cooling_off_until,
+    cooling_off_limit
+  ) VALUES (
+    v_user_id,
+    p_device_uid,
+    v_name,
+    true,
+    now(),
+    CASE WHEN v_hours > 0 THEN now() + make_interval(hours => v_hours) END,
+    CASE WHEN v_hours > 0 THEN round(p_cooling_off_limit, currency_minor_units(v_user.base_currency)) END
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'nfc_device_paired',
+    'medium',
+    format('NFC device paired: %s', v_name),
+    request_ip(),
+    jsonb_build_object(
+      'device_id', v_device.id,
+      'device_uid', v_device.device_uid,
+      'cooling_off_until', v_device.cooling_off_until,
+      'cooling_off_limit', v_device.cooling_off_limit
+    )
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reactivate_nfc_device(p_device_id uuid, p_pin_token uuid DEFAULT NULL)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE := lock_own_device(p_device_id);
+  v_was_lost boolean := v_device.reported_status = 'lost';
+BEGIN
+  IF v_device.reported_status = 'stolen' THEN
+    RAISE EXCEPTION 'Devices reported stolen cannot be reactivated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = v_device.user_id AND status = 'active') THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF NOT consume_pin_verification(v_device.user_id, p_pin_token, 'reactivate_device') THEN
+    RAISE EXCEPTION 'Enter your PIN to reactivate this device';
+  END IF;
+
+  UPDATE nfc_devices
+  SET is_active = true, reported_status = NULL, reported_at = NULL
+  WHERE id = v_device.id
+  RETURNING * INTO v_device;
+
+  PERFORM log_device_event(
+    v_device,
+    'nfc_device_reactivated',
+    CASE WHEN v_was_lost THEN 'high' ELSE 'medium' END,
+    CASE WHEN v_was_lost THEN 'Lost NFC device found and reactivated' ELSE 'NFC device reactivated' END
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_spending_limits(
+  p_per_transaction_limit numeric,
+  p_daily_limit numeric,
+  p_weekly_limit numeric,
+  p_monthly_limit numeric,
+  p_limit_window text,
+  p_timezone text,
+  p_pin_token uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_minor_units integer;
+  v_requested jsonb;
+  v_current jsonb;
+  v_key text;
+  v_old numeric;
+  v_new numeric;
+  v_immediate jsonb := '{}';
+  v_delayed jsonb := '{}';
+  v_pending spending_limit_changes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF p_daily_limit IS NULL OR p_daily_limit <= 0
+    OR p_per_transaction_limit <= 0 OR p_weekly_limit <= 0 OR p_monthly_limit <= 0 THEN
+    RAISE EXCEPTION 'Limits must be greater than zero, and a daily limit is required';
+  END IF;
+
+  IF p_per_transaction_limit > p_daily_limit
+    OR p_daily_limit > p_weekly_limit
+    OR p_daily_limit > p_monthly_limit
+    OR p_weekly_limit > p_monthly_limit THEN
+    RAISE EXCEPTION 'A limit cannot be higher than the limit for a longer period';
+  END IF;
+
+  IF p_limit_window IS NULL OR p_limit_window NOT IN ('calendar', 'rolling') THEN
+    RAISE EXCEPTION 'Limit window must be calendar or rolling';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone';
+  END IF;
+
+  v_minor_units := currency_minor_units(v_user.base_currency);
+  v_requested := jsonb_build_object(
+    'per_transaction_limit', round(p_per_transaction_limit, v_minor_units),
+    'daily_limit', round(p_daily_limit, v_minor_units),
+    'weekly_limit', round(p_weekly_limit, v_minor_units),
+    'monthly_limit', round(p_monthly_limit, v_minor_units)
+  );
+  v_current := jsonb_build_object(
+    'per_transaction_limit', v_user.per_transaction_limit,
+    'daily_limit', coalesce(v_user.daily_limit, 1000),
+    'weekly_limit', v_user.weekly_limit,
+    'monthly_limit', v_user.monthly_limit
+  );
+
+  -- A lower limit, or a limit where there was none, is stricter
+  FOR v_key IN SELECT jsonb_object_keys(v_requested) LOOP
+    v_old := (v_current->>v_key)::numeric;
+    v_new := (v_requested->>v_key)::numeric;
+
+    IF v_new IS NOT DISTINCT FROM v_old THEN
+      CONTINUE;
+    ELSIF v_new IS NOT NULL AND (v_old IS NULL OR v_new < v_old) THEN
+      v_immediate := v_immediate || jsonb_build_object(v_key, v_new);
+    ELSE
+      v_delayed := v_delayed || jsonb_build_object(v_key, v_new);
+    END IF;
+  END LOOP;
+
+  -- Moving window boundaries can free up headroom, so they wait too
+  IF p_limit_window <> v_user.limit_window THEN
+    v_delayed := v_delayed || jsonb_build_object('limit_window', p_limit_window);
+  END IF;
+
+  IF p_timezone <> v_user.timezone THEN
+    v_delayed := v_delayed || jsonb_build_object('timezone', p_timezone);
+  END IF;
+
+  IF v_delayed <> '{}' AND NOT consume_pin_verification(v_user_id, p_pin_token, 'raise_limits') THEN
+    RAISE EXCEPTION 'Enter your PIN to raise your limits';
+  END IF;
+
+  IF v_immediate <> '{}' THEN
+    PERFORM apply_limit_changes(v_user_id, v_immediate);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'spending_limits_decreased',
+      'low',
+      'Spending limits tightened',
+      request_ip(),
+      jsonb_build_object('changes', v_immediate)
+    );
+  END IF;
+
+  SELECT * INTO v_pending
+  FROM spending_limit_changes
+  WHERE user_id = v_user_id AND status = 'pending'
+  FOR UPDATE;
+
+  -- Re-requesting the pending change keeps its original waiting period
+  IF FOUND AND v_pending.changes = v_delayed THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+  END IF;
+
+  IF FOUND THEN
+    UPDATE spending_limit_changes
+    SET status = 'cancelled', resolved_at = now()
+    WHERE id = v_pending.id;
+  END IF;
+
+  IF v_delayed = '{}' THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', NULL);
+  END IF;
+
+  INSERT INTO spending_limit_changes (user_id, changes, effective_at)
+  VALUES (v_user_id, v_delayed, now() + interval '24 hours')
+  RETURNING * INTO v_pending;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'spending_limit_increase_requested',
+    'medium',
+    'Spending limit increase requested; it takes effect in 24 hours',
+    request_ip(),
+    jsonb_build_object('change_id', v_pending.id, 'changes', v_delayed, 'effective_at', v_pending.effective_at)
+  );
+
+  RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_pin_hash(p_pin_proof text, p_pin_hash text, p_reason text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_reason IS NULL OR p_reason NOT IN ('change', 'upgrade') THEN
+    RAISE EXCEPTION 'Invalid PIN update reason';
+  END IF;
+
+  IF NOT is_valid_pin_hash(p_pin_hash) OR split_part(p_pin_hash, '$', 2)::numeric < 600000 THEN
+    RAISE EXCEPTION 'Invalid PIN hash';
+  END IF;
+
+  v_result := verify_pin(p_pin_proof);
+
+  IF NOT (v_result->>'valid')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  IF p_reason = 'upgrade' AND NOT (v_result->>'needs_rehash')::boolean THEN
+    RAISE EXCEPTION 'PIN hash is already up to date';
+  END IF;
+
+  UPDATE users
+  SET pin_hash = p_pin_hash,
+      pin_changed_at = CASE WHEN p_reason = 'change' THEN now() ELSE pin_changed_at END
+  WHERE id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_reason WHEN 'change' THEN 'pin_changed' ELSE 'pin_hash_upgraded' END,
+    CASE p_reason WHEN 'change' THEN 'medium' ELSE 'low' END,
+    CASE p_reason WHEN 'change' THEN 'Transaction PIN changed' ELSE 'PIN hash upgraded to salted PBKDF2' END,
+    request_ip(),
+    '{}'
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION consume_pin_verification(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION verify_pin(text, text) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION resolve_pending_transaction(uuid, text, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION pair_nfc_device(text, text, uuid, integer, numeric, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION reactivate_nfc_device(uuid, uuid) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION request_spending_limits(numeric, numeric, numeric, numeric, text, text, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION verify_pin(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION resolve_pending_transaction(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION pair_nfc_device(text, text, uuid, integer, numeric, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reactivate_nfc_device(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_spending_limits(numeric, numeric, numeric, numeric, text, text, uuid) TO authenticated;
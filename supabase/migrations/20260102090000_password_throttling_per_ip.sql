@@ -0,0 +1,163 @@
+/*
+  # Per-IP Password Throttling and Trusted Client IPs
+
+  ## Overview
+  `request_ip()` read the first `X-Forwarded-For` entry. The client writes that entry itself, so
+  a script could name a new address on every request and never meet the per-IP PIN throttle. It
+  now reads the last entry, which the platform's proxy appends.
+
+  Passwords were only throttled per account, so one client could try a few passwords against
+  many accounts without waiting. The password verification hook sees the account but not the
+  request, so the app now registers each password sign-in with `begin_password_sign_in` first.
+  The hook matches the password check to that registration, refuses checks that were never
+  registered, and throttles failures both per account and per client IP.
+
+  ## 1. New Tables
+
+  ### `password_sign_ins`
+  - `id` (uuid, primary key)
+  - `email` (text) - Lower-cased address the sign-in is for
+  - `ip_address` (inet) - Client IP of the registration
+  - `created_at`, `used_at` (timestamptz) - A registration is good for one check within a minute
+
+  ## 2. New Functions
+  - `begin_password_sign_in(p_email)` - Returns `{ allowed, retry_after }`; refused while the
+    client IP is backing off
+
+  ## 3. Changes
+  - `request_ip()` uses the last `X-Forwarded-For` entry
+  - `hook_password_verification_attempt` requires a registration and throttles `ip:<address>`
+    alongside `user:<id>`
+
+  ## 4. Security
+  - `password_sign_ins` has RLS enabled with no policies
+*/
+
+CREATE TABLE IF NOT EXISTS password_sign_ins (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  email text NOT NULL,
+  ip_address inet,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_sign_ins_email ON password_sign_ins(email, created_at);
+
+ALTER TABLE password_sign_ins ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON password_sign_ins FROM anon, authenticated;
+
+-- Earlier entries are whatever the client sent; the last one is added by the proxy
+CREATE OR REPLACE FUNCTION request_ip()
+RETURNS inet AS $$
+DECLARE
+  v_hops text[];
+BEGIN
+  v_hops := string_to_array(current_setting('request.headers', true)::json->>'x-forwarded-for', ',');
+  IF v_hops IS NULL THEN
+    RETURN NULL;
+  END IF;
+  RETURN trim(v_hops[array_length(v_hops, 1)])::inet;
+EXCEPTION WHEN others THEN
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION begin_password_sign_in(p_email text)
+RETURNS jsonb AS $$
+DECLARE
+  v_email text := lower(btrim(p_email));
+  v_ip inet := request_ip();
+  v_retry_after timestamptz;
+BEGIN
+  IF coalesce(v_email, '') = '' OR length(v_email) > 320 THEN
+    RAISE EXCEPTION 'Invalid email';
+  END IF;
+
+  IF v_ip IS NOT NULL THEN
+    v_retry_after := auth_retry_after('password', ARRAY['ip:' || host(v_ip)]);
+  END IF;
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('allowed', false, 'retry_after', v_retry_after);
+  END IF;
+
+  DELETE FROM password_sign_ins WHERE created_at < now() - interval '1 minute';
+
+  INSERT INTO password_sign_ins (email, ip_address)
+  VALUES (v_email, v_ip);
+
+  RETURN jsonb_build_object('allowed', true, 'retry_after', NULL);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Called by Supabase Auth after checking a password; `valid` is its verdict
+CREATE OR REPLACE FUNCTION hook_password_verification_attempt(event jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := (event->>'user_id')::uuid;
+  v_subjects text[] := ARRAY['user:' || (event->>'user_id')];
+  v_ip inet;
+  v_retry_after timestamptz;
+BEGIN
+  UPDATE password_sign_ins
+  SET used_at = now()
+  WHERE id = (
+    SELECT s.id
+    FROM password_sign_ins s
+    JOIN auth.users u ON lower(u.email) = s.email
+    WHERE u.id = v_user_id
+      AND s.used_at IS NULL
+      AND s.created_at > now() - interval '1 minute'
+    ORDER BY s.created_at DESC
+    LIMIT 1
+  )
+  RETURNING ip_address INTO v_ip;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', 'Sign in from the app to continue.',
+      'should_logout_user', false
+    );
+  END IF;
+
+  IF v_ip IS NOT NULL THEN
+    v_subjects := v_subjects || ('ip:' || host(v_ip));
+  END IF;
+
+  v_retry_after := auth_retry_after('password', v_subjects);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'decision', 'reject',
+      'message', format('Too many failed sign-in attempts. Try again in %s seconds.',
+        ceil(extract(epoch FROM v_retry_after - now()))),
+      'should_logout_user', false
+    );
+  END IF;
+
+  IF (event->>'valid')::boolean THEN
+    DELETE FROM auth_throttles WHERE kind = 'password' AND subject = v_subjects[1];
+    RETURN jsonb_build_object('decision', 'continue');
+  END IF;
+
+  SELECT max(record_auth_failure('password', s)) INTO v_retry_after FROM unnest(v_subjects) AS s;
+
+  IF EXISTS (SELECT 1 FROM users WHERE id = v_user_id) THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'invalid_password',
+      'medium',
+      'Incorrect password entered at sign-in',
+      v_ip,
+      jsonb_build_object('retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION begin_password_sign_in(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION begin_password_sign_in(text) TO anon, authenticated;
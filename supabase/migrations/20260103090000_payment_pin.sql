@@ -0,0 +1,372 @@
+/*
+  # Server-checked PIN for Payments
+
+  ## Overview
+  The payment form asks for the PIN, but only the client checked it before calling
+  `authorize_transaction`, so a script holding the session could pay without it. Payments now
+  need a single-use `payment` token from `verify_pin`, like the other PIN-protected actions. A
+  payment refused for any reason, including a missing authenticator code, leaves the token
+  unused.
+
+  ## 1. Changes
+  - `authorize_transaction` takes `p_pin_token` and refuses payments without a valid token
+  - `verify_pin` and `pin_verifications` accept the `payment` purpose
+*/
+
+ALTER TABLE pin_verifications DROP CONSTRAINT IF EXISTS pin_verifications_purpose_check;
+ALTER TABLE pin_verifications ADD CONSTRAINT pin_verifications_purpose_check
+  CHECK (purpose IN ('payment', 'confirm_payment', 'pair_device', 'reactivate_device', 'raise_limits'));
+
+DROP FUNCTION IF EXISTS authorize_transaction(uuid, numeric, text, text, jsonb, jsonb, uuid);
+
+CREATE OR REPLACE FUNCTION verify_pin(p_pin_proof text, p_purpose text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_subjects text[];
+  v_retry_after timestamptz;
+  v_legacy boolean;
+  v_expected text;
+  v_token uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_purpose IS NOT NULL AND p_purpose NOT IN ('payment', 'confirm_payment', 'pair_device', 'reactivate_device', 'raise_limits') THEN
+    RAISE EXCEPTION 'Invalid PIN verification purpose';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  v_subjects := ARRAY['user:' || v_user_id];
+  IF request_ip() IS NOT NULL THEN
+    v_subjects := v_subjects || ('ip:' || host(request_ip()));
+  END IF;
+
+  v_retry_after := auth_retry_after('pin', v_subjects);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'locked', false, 'throttled', true, 'retry_after', v_retry_after);
+  END IF;
+
+  v_legacy := position('$' IN v_user.pin_hash) = 0;
+  v_expected := CASE WHEN v_legacy THEN v_user.pin_hash ELSE split_part(v_user.pin_hash, '$', 4) END;
+
+  IF p_pin_proof IS NOT NULL AND p_pin_proof = v_expected THEN
+    DELETE FROM auth_throttles WHERE kind = 'pin' AND subject = 'user:' || v_user_id;
+
+    UPDATE users
+    SET failed_auth_attempts = 0,
+        last_failed_auth = NULL
+    WHERE id = v_user_id;
+
+    IF p_purpose IS NOT NULL THEN
+      DELETE FROM pin_verifications
+      WHERE user_id = v_user_id AND (used_at IS NOT NULL OR expires_at <= now());
+
+      INSERT INTO pin_verifications (user_id, purpose)
+      VALUES (v_user_id, p_purpose)
+      RETURNING token INTO v_token;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'valid', true,
+      'locked', false,
+      'retry_after', NULL,
+      'token', v_token,
+      'needs_rehash', CASE WHEN v_legacy THEN true ELSE split_part(v_user.pin_hash, '$', 2)::integer < 600000 END
+    );
+  END IF;
+
+  SELECT max(record_auth_failure('pin', s)) INTO v_retry_after FROM unnest(v_subjects) AS s;
+
+  UPDATE users
+  SET failed_auth_attempts = CASE
+        WHEN last_failed_auth < now() - interval '24 hours' THEN 1
+        ELSE coalesce(failed_auth_attempts, 0) + 1
+      END,
+      last_failed_auth = now()
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'invalid_pin',
+    'high',
+    'Invalid PIN entered',
+    request_ip(),
+    jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+  );
+
+  IF v_user.failed_auth_attempts >= 10 THEN
+    UPDATE users
+    SET status = 'locked',
+        locked_at = now(),
+        locked_until = now() + interval '30 minutes',
+        lock_reason = format('%s incorrect PIN attempts', v_user.failed_auth_attempts)
+    WHERE id = v_user_id
+    RETURNING * INTO v_user;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'account_locked',
+      'critical',
+      format('Account locked after %s failed attempts', v_user.failed_auth_attempts),
+      request_ip(),
+      jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'locked_until', v_user.locked_until)
+    );
+
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  RETURN jsonb_build_object('valid', false, 'locked', false, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION authorize_transaction(
+  p_device_id uuid,
+  p_amount numeric,
+  p_merchant_id text,
+  p_currency text DEFAULT 'USD',
+  p_geolocation jsonb DEFAULT NULL,
+  p_payment_request jsonb DEFAULT NULL,
+  p_tag_authentication uuid DEFAULT NULL,
+  p_pin_token uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_merchant merchants%ROWTYPE;
+  v_assessment jsonb;
+  v_risk_score integer;
+  v_status text;
+  v_timestamp timestamptz := now();
+  v_geolocation jsonb := normalize_geolocation(p_geolocation);
+  v_currency currencies%ROWTYPE;
+  v_exchange_rate numeric;
+  v_base_amount numeric;
+  v_tag merchant_tags%ROWTYPE;
+  v_tag_rejection text;
+  v_tag_authentication nfc_tag_authentications%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+  v_transaction transactions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT session_active() THEN
+    RAISE EXCEPTION 'This session has been signed out';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Invalid transaction amount';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown merchant';
+  END IF;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+      to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF NOT consume_pin_verification(v_user_id, p_pin_token, 'payment') THEN
+    RAISE EXCEPTION 'Enter your PIN to pay';
+  END IF;
+
+  SELECT * INTO v_device FROM nfc_devices WHERE id = p_device_id;
+
+  IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+    RAISE EXCEPTION 'Device is not authorized for this account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = v_device.device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = v_device.device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes'
+    RETURNING * INTO v_tag_authentication;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(coalesce(p_currency, v_user.base_currency))
+    AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+    RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+  END IF;
+
+  IF p_payment_request IS NOT NULL THEN
+    v_tag_rejection := merchant_tag_rejection(p_payment_request, p_payment_request->>'tag_uid');
+
+    IF v_tag_rejection IS NOT NULL THEN
+      RAISE EXCEPTION 'Payment tag rejected: %', v_tag_rejection;
+    END IF;
+
+    SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_payment_request->>'nonce';
+
+    IF v_tag.merchant_id <> v_merchant.id
+      OR v_tag.currency <> v_currency.code
+      OR v_tag.amount <> p_amount THEN
+      RAISE EXCEPTION 'Payment does not match the merchant tag';
+    END IF;
+  END IF;
+
+  -- Limits and risk rules are evaluated in the account's base currency
+  v_exchange_rate := exchange_rate(v_currency.code, v_user.base_currency);
+  v_base_amount := round(p_amount * v_exchange_rate, currency_minor_units(v_user.base_currency));
+
+  IF v_device.cooling_off_until > v_timestamp AND v_base_amount > v_device.cooling_off_limit THEN
+    RAISE EXCEPTION 'Newly paired device cannot pay more than % % until %',
+      v_device.cooling_off_limit, v_user.base_currency,
+      to_char(v_device.cooling_off_until AT TIME ZONE 'UTC', 'YYYY-MM-DD HH24:MI "UTC"');
+  END IF;
+
+  v_device_rejection := device_control_rejection(v_device, v_base_amount, v_merchant.category_code, v_timestamp);
+
+  IF v_device_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_device_rejection;
+  END IF;
+
+  v_limit_rejection := spending_limit_rejection(v_user, v_base_amount);
+
+  IF v_limit_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_limit_rejection;
+  END IF;
+
+  v_step_up_rejection := mfa_step_up_rejection(v_user, v_base_amount, false);
+
+  IF v_step_up_rejection IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_step_up_rejection;
+  END IF;
+
+  v_assessment := assess_transaction_risk(v_user_id, jsonb_build_object(
+    'amount', v_base_amount,
+    'currency', v_user.base_currency,
+    'original_amount', p_amount,
+    'original_currency', v_currency.code,
+    'merchant_id', v_merchant.id,
+    'merchant_category', v_merchant.category_code,
+    'device_id', p_device_id,
+    'geolocation', v_geolocation
+  ));
+  v_risk_score := (v_assessment->>'risk_score')::integer;
+  v_status := v_assessment->>'status';
+
+  INSERT INTO transactions (
+    user_id,
+    device_id,
+    amount,
+    currency,
+    base_amount,
+    base_currency,
+    exchange_rate,
+    merchant_id,
+    merchant_name,
+    merchant_tag_id,
+    status,
+    ip_address,
+    user_agent,
+    geolocation,
+    risk_score,
+    decline_reason,
+    signature,
+    created_at
+  ) VALUES (
+    v_user_id,
+    p_device_id,
+    p_amount,
+    v_currency.code,
+    v_base_amount,
+    v_user.base_currency,
+    v_exchange_rate,
+    v_merchant.id,
+    v_merchant.name,
+    v_tag.id,
+    v_status,
+    request_ip(),
+    request_user_agent(),
+    v_geolocation,
+    v_risk_score,
+    v_assessment->>'decline_reason',
+    'unsigned',
+    v_timestamp
+  )
+  RETURNING * INTO v_transaction;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'transaction_processed',
+    CASE WHEN v_risk_score > 70 THEN 'high' ELSE 'low' END,
+    format('Transaction %s: %s %s at %s', v_status, p_amount, v_currency.code, v_merchant.name),
+    request_ip(),
+    jsonb_build_object(
+      'transaction_id', v_transaction.id,
+      'risk_score', v_risk_score,
+      'merchant_id', v_merchant.id,
+      'merchant_tag_id', v_tag.id,
+      'tag_read_counter', v_tag_authentication.read_counter,
+      'base_amount', v_base_amount,
+      'base_currency', v_user.base_currency,
+      'fraud_rules', v_assessment->'matches',
+      'signature_key_id', v_transaction.signature_key_id
+    )
+  );
+
+  IF v_status = 'approved' THEN
+    UPDATE nfc_devices SET last_used = v_timestamp WHERE id = p_device_id;
+  END IF;
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb, jsonb, uuid, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION authorize_transaction(uuid, numeric, text, text, jsonb, jsonb, uuid, uuid) TO authenticated;
@@ -0,0 +1,33 @@
+/*
+  # PIN Hash Format Check
+
+  ## Overview
+  Sign-up inserts the new user's `pin_hash` directly, and nothing checked it. A client could
+  store a hash in the unsalted legacy SHA-256 format, or with a low iteration count, which
+  `update_pin_hash` and `reset_pin` would refuse. Every new or changed PIN hash must now be in
+  the salted PBKDF2 format with at least 600000 iterations. Existing legacy hashes stay valid
+  until they are upgraded at the next correct PIN.
+
+  ## 1. New Functions
+  - `check_pin_hash()` - Trigger function; rejects a PIN hash the client would not write
+
+  ## 2. New Triggers
+  - `check_users_pin_hash` on `users` (insert, update of `pin_hash`)
+*/
+
+CREATE OR REPLACE FUNCTION check_pin_hash()
+RETURNS trigger AS $$
+BEGIN
+  IF NOT is_valid_pin_hash(NEW.pin_hash) OR split_part(NEW.pin_hash, '$', 2)::numeric < 600000 THEN
+    RAISE EXCEPTION 'Invalid PIN hash';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_users_pin_hash ON users;
+CREATE TRIGGER check_users_pin_hash
+  BEFORE INSERT OR UPDATE OF pin_hash ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION check_pin_hash();
@@ -0,0 +1,207 @@
+/*
+  # Geolocation Accuracy Cap
+
+  ## Overview
+  Location rules subtract the reported accuracy of both fixes from the distance between them.
+  The accuracy comes from the client, so a payment claiming an accuracy of thousands of
+  kilometres could never match the impossible-travel or distance rules. Accuracy is now capped
+  at 5 km, which still covers a coarse network fix.
+
+  ## 1. Changes
+  - `normalize_geolocation` stores at most 5000 metres of accuracy
+  - `evaluate_fraud_rules` applies the same cap to previously stored positions, whose signed
+    geolocation cannot be rewritten
+*/
+
+CREATE OR REPLACE FUNCTION normalize_geolocation(p_geolocation jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_latitude numeric;
+  v_longitude numeric;
+  v_accuracy numeric;
+  v_captured_at timestamptz;
+BEGIN
+  IF p_geolocation IS NULL OR jsonb_typeof(p_geolocation) = 'null' THEN
+    RETURN NULL;
+  END IF;
+
+  IF jsonb_typeof(p_geolocation) <> 'object'
+    OR jsonb_typeof(p_geolocation->'latitude') <> 'number'
+    OR jsonb_typeof(p_geolocation->'longitude') <> 'number' THEN
+    RAISE EXCEPTION 'Invalid geolocation';
+  END IF;
+
+  v_latitude := (p_geolocation->>'latitude')::numeric;
+  v_longitude := (p_geolocation->>'longitude')::numeric;
+
+  IF v_latitude NOT BETWEEN -90 AND 90 OR v_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid geolocation';
+  END IF;
+
+  IF jsonb_typeof(p_geolocation->'accuracy') = 'number' THEN
+    v_accuracy := LEAST(GREATEST((p_geolocation->>'accuracy')::numeric, 0), 5000);
+  END IF;
+
+  BEGIN
+    v_captured_at := (p_geolocation->>'captured_at')::timestamptz;
+  EXCEPTION WHEN others THEN
+    v_captured_at := NULL;
+  END;
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'latitude', round(v_latitude, 6),
+    'longitude', round(v_longitude, 6),
+    'accuracy', round(v_accuracy),
+    'captured_at', v_captured_at
+  ));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION evaluate_fraud_rules(p_user_id uuid, p_request jsonb)
+RETURNS TABLE (
+  matched_rule text,
+  matched_type text,
+  rule_action text,
+  rule_score integer,
+  detail text
+) AS $$
+DECLARE
+  v_rule fraud_rules%ROWTYPE;
+  v_params jsonb;
+  v_amount numeric := (p_request->>'amount')::numeric;
+  v_usd_rate numeric;
+  v_hit boolean;
+  v_detail text;
+  v_window interval;
+  v_count integer;
+  v_device_created timestamptz;
+  v_location jsonb := p_request->'geolocation';
+  v_previous_location jsonb;
+  v_previous_at timestamptz;
+  v_distance_km numeric;
+  v_hours numeric;
+  v_merchant merchants%ROWTYPE;
+BEGIN
+  -- Amount thresholds are set in USD whatever the account's base currency
+  SELECT exchange_rate(base_currency, 'USD') INTO v_usd_rate FROM users WHERE id = p_user_id;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_request->>'merchant_id';
+
+  FOR v_rule IN
+    SELECT * FROM fraud_rules WHERE is_active ORDER BY fraud_rules.rule_name
+  LOOP
+    v_params := v_rule.parameters;
+    v_hit := false;
+    v_detail := NULL;
+    v_previous_location := NULL;
+
+    BEGIN
+      CASE v_rule.rule_type
+        WHEN 'amount' THEN
+          IF v_params ? 'max_amount' AND v_amount * v_usd_rate > (v_params->>'max_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Amount %s USD exceeds %s USD', round(v_amount * v_usd_rate, 2), v_params->>'max_amount');
+          ELSIF v_params ? 'max_daily_amount'
+            AND (daily_transaction_total(p_user_id) + v_amount) * v_usd_rate > (v_params->>'max_daily_amount')::numeric THEN
+            v_hit := true;
+            v_detail := format('Daily total would exceed %s USD', v_params->>'max_daily_amount');
+          END IF;
+
+        WHEN 'velocity' THEN
+          v_window := make_interval(
+            mins => coalesce((v_params->>'time_window_minutes')::integer, 0),
+            secs => coalesce((v_params->>'time_window_seconds')::integer, 0)
+          );
+
+          SELECT count(*) INTO v_count
+          FROM transactions t
+          WHERE t.user_id = p_user_id
+            AND t.transaction_type = 'payment'
+            AND t.created_at >= now() - v_window
+            AND (NOT coalesce((v_params->>'same_merchant')::boolean, false)
+                 OR t.merchant_id = p_request->>'merchant_id')
+            AND (NOT coalesce((v_params->>'same_amount')::boolean, false)
+                 OR abs(t.base_amount - v_amount) < 0.01);
+
+          IF v_count >= (v_params->>'max_transactions')::integer THEN
+            v_hit := true;
+            v_detail := format('%s matching transactions within %s', v_count, v_window);
+          END IF;
+
+        WHEN 'device' THEN
+          IF v_params ? 'new_device_hours' THEN
+            SELECT created_at INTO v_device_created
+            FROM nfc_devices
+            WHERE id = (p_request->>'device_id')::uuid;
+
+            IF v_device_created >= now() - make_interval(hours => (v_params->>'new_device_hours')::integer) THEN
+              v_hit := true;
+              v_detail := format('Device registered within %s hours', v_params->>'new_device_hours');
+            END IF;
+          END IF;
+
+        WHEN 'location' THEN
+          IF v_location IS NOT NULL THEN
+            SELECT t.geolocation, t.created_at INTO v_previous_location, v_previous_at
+            FROM transactions t
+            WHERE t.user_id = p_user_id
+              AND t.transaction_type = 'payment'
+              AND t.geolocation IS NOT NULL
+              AND (NOT v_params ? 'time_window_minutes'
+                   OR t.created_at >= now() - make_interval(mins => (v_params->>'time_window_minutes')::integer))
+            ORDER BY t.created_at DESC
+            LIMIT 1;
+
+            IF v_previous_location IS NOT NULL THEN
+              -- Allow for the reported accuracy of both fixes before flagging; payments stored
+              -- before accuracy was capped may still carry an arbitrary value
+              v_distance_km := GREATEST(
+                geo_distance_km(v_previous_location, v_location)
+                  - (LEAST(coalesce((v_previous_location->>'accuracy')::numeric, 0), 5000)
+                     + LEAST(coalesce((v_location->>'accuracy')::numeric, 0), 5000)) / 1000,
+                0
+              );
+              v_hours := GREATEST(extract(epoch FROM now() - v_previous_at) / 3600, 1.0 / 60);
+
+              IF v_params ? 'max_distance_km' AND v_distance_km > (v_params->>'max_distance_km')::numeric THEN
+                v_hit := true;
+                v_detail := format('%s km from previous payment %s ago',
+                  round(v_distance_km), date_trunc('second', now() - v_previous_at));
+              ELSIF v_params ? 'max_speed_kmh' AND v_distance_km / v_hours > (v_params->>'max_speed_kmh')::numeric THEN
+                v_hit := true;
+                v_detail := format('Implied travel speed %s km/h since previous payment',
+                  round(v_distance_km / v_hours));
+              END IF;
+            END IF;
+          END IF;
+
+        WHEN 'merchant' THEN
+          IF coalesce((v_params->>'require_verified')::boolean, false)
+            AND v_merchant.verification_status IS DISTINCT FROM 'verified' THEN
+            v_hit := true;
+            v_detail := format('Merchant %s is not verified', p_request->>'merchant_id');
+          ELSIF v_params ? 'category_codes'
+            AND v_params->'category_codes' ? v_merchant.category_code THEN
+            v_hit := true;
+            v_detail := format('Merchant category %s', v_merchant.category_code);
+          END IF;
+      END CASE;
+    EXCEPTION WHEN others THEN
+      RAISE WARNING 'Skipping fraud rule % with invalid parameters: %', v_rule.rule_name, SQLERRM;
+      v_hit := false;
+    END;
+
+    IF v_hit THEN
+      matched_rule := v_rule.rule_name;
+      matched_type := v_rule.rule_type;
+      rule_action := v_params->>'action';
+      rule_score := coalesce(
+        (v_params->>'score')::integer,
+        CASE rule_action WHEN 'decline' THEN 80 WHEN 'review' THEN 50 ELSE 0 END
+      );
+      detail := v_detail;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
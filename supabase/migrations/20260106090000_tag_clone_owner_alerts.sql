@@ -0,0 +1,128 @@
+/*
+  # Clone Alerts for the Tag Owner
+
+  ## Overview
+  `authenticate_nfc_tag` logged a failed CMAC or a replayed read counter only under the account
+  that tapped the tag. Someone using a copied tag taps it from their own account, so the owner of
+  the genuine tag never saw the alert. The detection is now also logged, as a critical
+  `nfc_tag_clone_detected` entry, for the account the tag is paired with.
+
+  ## 1. Changes
+  - `authenticate_nfc_tag` adds an entry for the tag's current owner when it is not the caller
+*/
+
+CREATE OR REPLACE FUNCTION authenticate_nfc_tag(p_picc_data text, p_cmac text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_secret bytea;
+  v_plain bytea;
+  v_uid bytea;
+  v_counter_bytes bytea;
+  v_counter integer;
+  v_tag_uid text;
+  v_tag nfc_tag_keys%ROWTYPE;
+  v_reason text;
+  v_authentication_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_picc_data !~* '^[0-9a-f]{32}$' OR p_cmac !~* '^[0-9a-f]{16}$' THEN
+    RAISE EXCEPTION 'Malformed SUN message';
+  END IF;
+
+  -- PICC data tag 0xC7: UID and read counter mirrored, 7-byte UID
+  FOR v_secret IN
+    SELECT secret FROM nfc_sun_meta_keys WHERE is_active ORDER BY created_at DESC
+  LOOP
+    v_plain := extensions.decrypt_iv(
+      decode(p_picc_data, 'hex'),
+      v_secret,
+      '\x00000000000000000000000000000000'::bytea,
+      'aes-cbc/pad:none'
+    );
+    EXIT WHEN get_byte(v_plain, 0) = 199;
+    v_plain := NULL;
+  END LOOP;
+
+  IF v_plain IS NULL THEN
+    v_reason := 'Unreadable SUN message';
+  ELSE
+    v_uid := substring(v_plain FROM 2 FOR 7);
+    v_counter_bytes := substring(v_plain FROM 9 FOR 3);
+    v_counter := get_byte(v_counter_bytes, 0)
+      | (get_byte(v_counter_bytes, 1) << 8)
+      | (get_byte(v_counter_bytes, 2) << 16);
+    v_tag_uid := format_tag_uid(v_uid);
+
+    SELECT * INTO v_tag FROM nfc_tag_keys WHERE tag_uid = v_tag_uid FOR UPDATE;
+
+    IF NOT FOUND THEN
+      v_reason := 'Tag is not enrolled for authentication';
+    ELSIF sun_mac(v_tag.file_read_key, v_uid, v_counter_bytes) <> decode(p_cmac, 'hex') THEN
+      v_reason := 'Invalid CMAC';
+    ELSIF v_counter <= v_tag.last_read_counter THEN
+      v_reason := 'Replayed read counter';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      CASE WHEN v_tag.tag_uid IS NOT NULL THEN 'nfc_tag_clone_detected' ELSE 'nfc_tag_authentication_failed' END,
+      CASE WHEN v_tag.tag_uid IS NOT NULL THEN 'critical' ELSE 'high' END,
+      format('NFC tag authentication failed: %s', v_reason),
+      request_ip(),
+      jsonb_build_object(
+        'reason', v_reason,
+        'tag_uid', v_tag_uid,
+        'read_counter', v_counter,
+        'last_read_counter', v_tag.last_read_counter
+      )
+    );
+
+    -- A copied tag is usually tapped from someone else's account, so alert the tag's owner too
+    IF v_tag.tag_uid IS NOT NULL THEN
+      INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+      SELECT
+        d.user_id,
+        'nfc_tag_clone_detected',
+        'critical',
+        format('A copy of your NFC tag was detected: %s', v_reason),
+        request_ip(),
+        jsonb_build_object(
+          'reason', v_reason,
+          'device_id', d.id,
+          'tag_uid', v_tag_uid,
+          'read_counter', v_counter,
+          'last_read_counter', v_tag.last_read_counter,
+          'tapped_by_owner', false
+        )
+      FROM nfc_devices d
+      WHERE d.device_uid = v_tag.tag_uid
+        AND d.removed_at IS NULL
+        AND d.user_id <> v_user_id;
+    END IF;
+
+    RETURN jsonb_build_object('authenticated', false, 'reason', v_reason);
+  END IF;
+
+  UPDATE nfc_tag_keys
+  SET last_read_counter = v_counter, last_authenticated_at = now()
+  WHERE tag_uid = v_tag_uid;
+
+  INSERT INTO nfc_tag_authentications (user_id, tag_uid, read_counter)
+  VALUES (v_user_id, v_tag_uid, v_counter)
+  RETURNING id INTO v_authentication_id;
+
+  RETURN jsonb_build_object(
+    'authenticated', true,
+    'authentication_id', v_authentication_id,
+    'tag_uid', v_tag_uid,
+    'read_counter', v_counter
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
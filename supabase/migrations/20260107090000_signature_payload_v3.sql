@@ -0,0 +1,88 @@
+/*
+  # Transaction Signature Payload v3
+
+  ## Overview
+  Payload `v2` left out the columns added with multi-currency support and merchant tags, so
+  `base_amount`, `base_currency`, `exchange_rate` and `merchant_tag_id` could be changed without
+  breaking the signature. Limits and fraud rules are evaluated on `base_amount`, which makes
+  those columns as sensitive as `amount`.
+
+  ## 1. Signatures
+  - Payload `v3` covers everything in `v2` plus `base_amount`, `base_currency`, `exchange_rate`
+    and `merchant_tag_id`
+  - New signatures use `v3`; rows signed earlier keep their `signature_version` and still verify
+*/
+
+CREATE OR REPLACE FUNCTION transaction_signature_payload(t transactions, p_version integer)
+RETURNS text AS $$
+  SELECT CASE p_version
+    WHEN 1 THEN transaction_signature_payload(t)
+    WHEN 2 THEN jsonb_build_array(
+      'v2',
+      t.id,
+      t.user_id,
+      t.device_id,
+      t.amount::text,
+      upper(t.currency),
+      t.merchant_id,
+      t.merchant_name,
+      t.status,
+      t.risk_score,
+      t.decline_reason,
+      to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+      t.transaction_type,
+      t.original_transaction_id,
+      t.adjustment_reason,
+      t.geolocation
+    )::text
+    ELSE jsonb_build_array(
+      'v3',
+      t.id,
+      t.user_id,
+      t.device_id,
+      t.amount::text,
+      upper(t.currency),
+      t.merchant_id,
+      t.merchant_name,
+      t.status,
+      t.risk_score,
+      t.decline_reason,
+      to_char(t.created_at AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"'),
+      t.transaction_type,
+      t.original_transaction_id,
+      t.adjustment_reason,
+      t.geolocation,
+      t.base_amount::text,
+      upper(t.base_currency),
+      t.exchange_rate::text,
+      t.merchant_tag_id
+    )::text
+  END;
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION sign_transaction(t transactions)
+RETURNS transactions AS $$
+DECLARE
+  v_key transaction_signing_keys%ROWTYPE;
+  v_signed transactions%ROWTYPE;
+BEGIN
+  SELECT * INTO v_key FROM transaction_signing_keys WHERE is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active transaction signing key';
+  END IF;
+
+  UPDATE transactions
+  SET
+    signature = encode(
+      extensions.hmac(convert_to(transaction_signature_payload(t, 3), 'UTF8'), v_key.secret, 'sha256'),
+      'hex'
+    ),
+    signature_key_id = v_key.id,
+    signature_version = 3
+  WHERE id = t.id
+  RETURNING * INTO v_signed;
+
+  RETURN v_signed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,101 @@
+/*
+  # Required Metadata for Client Security Events
+
+  ## Overview
+  `record_security_events` checked that each event's metadata was an object, but not that it
+  held the fields its type requires, so a `user_signout` without a `scope` or an
+  `unknown_device_tapped` without the tag's UID suffix was logged as is. Each type's required
+  metadata is now checked on the server, matching `src/lib/securityEventCatalog.ts`. Extra keys,
+  such as the device and transaction the client attaches, are still accepted.
+
+  ## 1. New Functions
+  - `client_security_event_metadata_valid(p_event_type, p_metadata)` - Whether the metadata has
+    the fields the event type requires, with values of the expected type
+
+  ## 2. Changes
+  - `record_security_events` rejects events whose metadata fails the check, with the existing
+    "Invalid metadata" reason
+*/
+
+CREATE OR REPLACE FUNCTION client_security_event_metadata_valid(p_event_type text, p_metadata jsonb)
+RETURNS boolean AS $$
+  SELECT coalesce(CASE p_event_type
+    WHEN 'user_signin' THEN p_metadata->>'method' = 'password'
+    WHEN 'user_signout' THEN p_metadata->>'scope' IN ('this_device', 'everywhere')
+    WHEN 'idle_lock_engaged' THEN jsonb_typeof(p_metadata->'idle_minutes') = 'number'
+    WHEN 'mfa_challenge_failed' THEN p_metadata->>'purpose' IN ('sign_in', 'step_up')
+    WHEN 'unknown_device_tapped' THEN jsonb_typeof(p_metadata->'device_uid_suffix') = 'string'
+      AND length(p_metadata->>'device_uid_suffix') BETWEEN 1 AND 5
+    ELSE true
+  END, false);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION record_security_events(p_events jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_event jsonb;
+  v_min_severity text;
+  v_severity text;
+  v_severities text[] := ARRAY['low', 'medium', 'high', 'critical'];
+  v_rejection text;
+  v_rejected jsonb := '[]';
+  v_count integer := 0;
+  v_inserted integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_events) IS DISTINCT FROM 'array' OR jsonb_array_length(p_events) > 50 THEN
+    RAISE EXCEPTION 'Events must be an array of at most 50 entries';
+  END IF;
+
+  FOR v_event IN SELECT * FROM jsonb_array_elements(p_events) LOOP
+    v_min_severity := client_security_event_severity(v_event->>'event_type');
+    v_severity := coalesce(v_event->>'severity', v_min_severity);
+
+    v_rejection := CASE
+      WHEN v_event->>'id' !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN 'Invalid event id'
+      WHEN v_min_severity IS NULL
+        THEN format('Unknown security event type: %s', v_event->>'event_type')
+      WHEN jsonb_typeof(v_event->'metadata') IS DISTINCT FROM 'object' OR octet_length((v_event->'metadata')::text) > 4096
+        OR NOT client_security_event_metadata_valid(v_event->>'event_type', v_event->'metadata')
+        THEN format('Invalid metadata for %s', v_event->>'event_type')
+      WHEN NOT v_severity = ANY(v_severities)
+        THEN format('Invalid severity: %s', v_severity)
+    END;
+
+    IF v_rejection IS NOT NULL THEN
+      v_rejected := v_rejected || jsonb_build_array(jsonb_build_object('id', v_event->'id', 'reason', v_rejection));
+      CONTINUE;
+    END IF;
+
+    IF array_position(v_severities, v_severity) < array_position(v_severities, v_min_severity) THEN
+      v_severity := v_min_severity;
+    END IF;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata, client_event_id)
+    VALUES (
+      v_user_id,
+      v_event->>'event_type',
+      v_severity,
+      left(coalesce(v_event->>'description', v_event->>'event_type'), 500),
+      request_ip(),
+      (v_event->'metadata') || jsonb_build_object(
+        'source', 'client',
+        'occurred_at', v_event->>'occurred_at',
+        'user_agent', request_user_agent()
+      ),
+      (v_event->>'id')::uuid
+    )
+    ON CONFLICT (client_event_id) WHERE client_event_id IS NOT NULL DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_count := v_count + v_inserted;
+  END LOOP;
+
+  RETURN jsonb_build_object('recorded', v_count, 'rejected', v_rejected);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,1600 @@
+/*
+  # Two-factor Sessions for Account Functions
+
+  ## Overview
+  Once an authenticator is enrolled, an `aal1` session (password only) was kept from payments
+  and from reading transactions, devices and security logs. The functions behind every other
+  screen still answered it, so a stolen password was enough to report or remove devices, reset
+  the PIN, change limits and currency, or list and sign out sessions. Every user-facing function
+  now refuses an `aal1` session of an enrolled user.
+
+  The sign-in screen still works before the code is entered. `release_expired_account_lock` and
+  `unlock_account_with_email` are left open. Backup codes can still be redeemed to sign in, and
+  the sign-in, sign-out and failed-code client events are still recorded. `authorize_transaction`
+  already refuses these sessions through `mfa_step_up_rejection` and logs the refusal.
+
+  ## 1. New Functions
+  - `require_mfa_session()` - Internal; raises "Two-factor verification required to sign in"
+    unless `mfa_session_satisfied()`
+
+  ## 2. Changes
+  - `lock_own_device` applies the check, which covers `deactivate_nfc_device`,
+    `reactivate_nfc_device`, `remove_nfc_device`, `report_nfc_device` and `set_device_controls`
+  - Every other function granted to `authenticated` applies it after its sign-in check, except
+    the session helpers `session_active` and `mfa_session_satisfied`
+  - `redeem_mfa_backup_code` applies it to `step_up` codes only
+  - `record_security_events` rejects other event types from an `aal1` session
+*/
+
+CREATE OR REPLACE FUNCTION require_mfa_session()
+RETURNS void AS $$
+BEGIN
+  IF NOT mfa_session_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required to sign in';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+REVOKE ALL ON FUNCTION require_mfa_session() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION lock_own_device(p_device_id uuid)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_device nfc_devices%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  SELECT * INTO v_device
+  FROM nfc_devices
+  WHERE id = p_device_id
+    AND user_id = auth.uid()
+    AND removed_at IS NULL
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Device not found';
+  END IF;
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION activate_merchant_tag(
+  p_nonce text,
+  p_tag_uid text,
+  p_read_only boolean DEFAULT false
+)
+RETURNS merchant_tags AS $$
+DECLARE
+  v_tag merchant_tags%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF coalesce(p_tag_uid, '') = '' THEN
+    RAISE EXCEPTION 'Tag serial number is required';
+  END IF;
+
+  SELECT * INTO v_tag FROM merchant_tags WHERE nonce = p_nonce FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_merchant_operator(v_tag.merchant_id) THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF v_tag.status <> 'pending' THEN
+    RAISE EXCEPTION 'Tag is already %', v_tag.status;
+  END IF;
+
+  -- Rewriting a tag replaces the request it carried before
+  UPDATE merchant_tags
+  SET status = 'revoked', revoked_at = now()
+  WHERE tag_uid = p_tag_uid
+    AND status = 'active';
+
+  UPDATE merchant_tags
+  SET status = 'active',
+      tag_uid = p_tag_uid,
+      is_read_only = coalesce(p_read_only, false),
+      activated_at = now()
+  WHERE id = v_tag.id
+  RETURNING * INTO v_tag;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    auth.uid(),
+    'merchant_tag_provisioned',
+    'low',
+    format('Payment tag provisioned for merchant %s', v_tag.merchant_id),
+    request_ip(),
+    jsonb_build_object(
+      'merchant_tag_id', v_tag.id,
+      'merchant_id', v_tag.merchant_id,
+      'tag_uid', v_tag.tag_uid,
+      'read_only', v_tag.is_read_only
+    )
+  );
+
+  RETURN v_tag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION authenticate_nfc_tag(p_picc_data text, p_cmac text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_secret bytea;
+  v_plain bytea;
+  v_uid bytea;
+  v_counter_bytes bytea;
+  v_counter integer;
+  v_tag_uid text;
+  v_tag nfc_tag_keys%ROWTYPE;
+  v_reason text;
+  v_authentication_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF p_picc_data !~* '^[0-9a-f]{32}$' OR p_cmac !~* '^[0-9a-f]{16}$' THEN
+    RAISE EXCEPTION 'Malformed SUN message';
+  END IF;
+
+  -- PICC data tag 0xC7: UID and read counter mirrored, 7-byte UID
+  FOR v_secret IN
+    SELECT secret FROM nfc_sun_meta_keys WHERE is_active ORDER BY created_at DESC
+  LOOP
+    v_plain := extensions.decrypt_iv(
+      decode(p_picc_data, 'hex'),
+      v_secret,
+      '\x00000000000000000000000000000000'::bytea,
+      'aes-cbc/pad:none'
+    );
+    EXIT WHEN get_byte(v_plain, 0) = 199;
+    v_plain := NULL;
+  END LOOP;
+
+  IF v_plain IS NULL THEN
+    v_reason := 'Unreadable SUN message';
+  ELSE
+    v_uid := substring(v_plain FROM 2 FOR 7);
+    v_counter_bytes := substring(v_plain FROM 9 FOR 3);
+    v_counter := get_byte(v_counter_bytes, 0)
+      | (get_byte(v_counter_bytes, 1) << 8)
+      | (get_byte(v_counter_bytes, 2) << 16);
+    v_tag_uid := format_tag_uid(v_uid);
+
+    SELECT * INTO v_tag FROM nfc_tag_keys WHERE tag_uid = v_tag_uid FOR UPDATE;
+
+    IF NOT FOUND THEN
+      v_reason := 'Tag is not enrolled for authentication';
+    ELSIF sun_mac(v_tag.file_read_key, v_uid, v_counter_bytes) <> decode(p_cmac, 'hex') THEN
+      v_reason := 'Invalid CMAC';
+    ELSIF v_counter <= v_tag.last_read_counter THEN
+      v_reason := 'Replayed read counter';
+    END IF;
+  END IF;
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      CASE WHEN v_tag.tag_uid IS NOT NULL THEN 'nfc_tag_clone_detected' ELSE 'nfc_tag_authentication_failed' END,
+      CASE WHEN v_tag.tag_uid IS NOT NULL THEN 'critical' ELSE 'high' END,
+      format('NFC tag authentication failed: %s', v_reason),
+      request_ip(),
+      jsonb_build_object(
+        'reason', v_reason,
+        'tag_uid', v_tag_uid,
+        'read_counter', v_counter,
+        'last_read_counter', v_tag.last_read_counter
+      )
+    );
+
+    -- A copied tag is usually tapped from someone else's account, so alert the tag's owner too
+    IF v_tag.tag_uid IS NOT NULL THEN
+      INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+      SELECT
+        d.user_id,
+        'nfc_tag_clone_detected',
+        'critical',
+        format('A copy of your NFC tag was detected: %s', v_reason),
+        request_ip(),
+        jsonb_build_object(
+          'reason', v_reason,
+          'device_id', d.id,
+          'tag_uid', v_tag_uid,
+          'read_counter', v_counter,
+          'last_read_counter', v_tag.last_read_counter,
+          'tapped_by_owner', false
+        )
+      FROM nfc_devices d
+      WHERE d.device_uid = v_tag.tag_uid
+        AND d.removed_at IS NULL
+        AND d.user_id <> v_user_id;
+    END IF;
+
+    RETURN jsonb_build_object('authenticated', false, 'reason', v_reason);
+  END IF;
+
+  UPDATE nfc_tag_keys
+  SET last_read_counter = v_counter, last_authenticated_at = now()
+  WHERE tag_uid = v_tag_uid;
+
+  INSERT INTO nfc_tag_authentications (user_id, tag_uid, read_counter)
+  VALUES (v_user_id, v_tag_uid, v_counter)
+  RETURNING id INTO v_authentication_id;
+
+  RETURN jsonb_build_object(
+    'authenticated', true,
+    'authentication_id', v_authentication_id,
+    'tag_uid', v_tag_uid,
+    'read_counter', v_counter
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_spending_limit_change()
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_change_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  UPDATE spending_limit_changes
+  SET status = 'cancelled', resolved_at = now()
+  WHERE user_id = v_user_id AND status = 'pending'
+  RETURNING id INTO v_change_id;
+
+  IF v_change_id IS NOT NULL THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'spending_limit_increase_cancelled',
+      'low',
+      'Pending spending limit increase cancelled',
+      request_ip(),
+      jsonb_build_object('change_id', v_change_id)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION create_merchant_tag(
+  p_merchant_id text,
+  p_amount numeric DEFAULT NULL,
+  p_currency text DEFAULT 'USD'
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_merchant merchants%ROWTYPE;
+  v_currency currencies%ROWTYPE;
+  v_key transaction_signing_keys%ROWTYPE;
+  v_tag merchant_tags%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF NOT is_merchant_operator(p_merchant_id) THEN
+    RAISE EXCEPTION 'Not an operator of this merchant';
+  END IF;
+
+  SELECT * INTO v_merchant FROM merchants WHERE id = p_merchant_id;
+
+  IF v_merchant.verification_status = 'suspended' THEN
+    RAISE EXCEPTION 'Merchant is suspended';
+  END IF;
+
+  SELECT * INTO v_currency FROM currencies WHERE code = upper(p_currency) AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency';
+  END IF;
+
+  IF p_amount IS NOT NULL THEN
+    IF p_amount <= 0 THEN
+      RAISE EXCEPTION 'Invalid transaction amount';
+    END IF;
+
+    IF p_amount <> round(p_amount, v_currency.minor_units) THEN
+      RAISE EXCEPTION '% amounts allow at most % decimal places', v_currency.code, v_currency.minor_units;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_key FROM transaction_signing_keys WHERE is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active transaction signing key';
+  END IF;
+
+  v_tag.merchant_id := v_merchant.id;
+  v_tag.amount := p_amount;
+  v_tag.currency := v_currency.code;
+  v_tag.nonce := encode(extensions.gen_random_bytes(16), 'hex');
+
+  INSERT INTO merchant_tags (
+    merchant_id,
+    nonce,
+    amount,
+    currency,
+    signature,
+    signature_key_id,
+    provisioned_by
+  ) VALUES (
+    v_tag.merchant_id,
+    v_tag.nonce,
+    v_tag.amount,
+    v_tag.currency,
+    encode(
+      extensions.hmac(convert_to(merchant_tag_signature_payload(v_tag), 'UTF8'), v_key.secret, 'sha256'),
+      'hex'
+    ),
+    v_key.id,
+    auth.uid()
+  )
+  RETURNING * INTO v_tag;
+
+  RETURN jsonb_strip_nulls(jsonb_build_object(
+    'v', 1,
+    'merchant_id', v_tag.merchant_id,
+    'amount', v_tag.amount,
+    'currency', v_tag.currency,
+    'nonce', v_tag.nonce,
+    'kid', v_tag.signature_key_id,
+    'sig', v_tag.signature
+  ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION generate_mfa_backup_codes()
+RETURNS text[] AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_code text;
+  v_codes text[] := '{}';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF NOT mfa_enrolled(v_user_id) OR coalesce(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator app before generating backup codes';
+  END IF;
+
+  DELETE FROM mfa_backup_codes WHERE user_id = v_user_id;
+
+  FOR i IN 1..10 LOOP
+    v_code := upper(encode(extensions.gen_random_bytes(5), 'hex'));
+    v_codes := v_codes || (substr(v_code, 1, 5) || '-' || substr(v_code, 6, 5));
+
+    INSERT INTO mfa_backup_codes (user_id, code_hash)
+    VALUES (v_user_id, encode(extensions.digest(v_code, 'sha256'), 'hex'));
+  END LOOP;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'mfa_backup_codes_generated',
+    'medium',
+    'Two-factor backup codes generated',
+    request_ip(),
+    jsonb_build_object('count', array_length(v_codes, 1))
+  );
+
+  RETURN v_codes;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_active_sessions()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  RETURN coalesce((
+    SELECT jsonb_agg(
+      jsonb_build_object(
+        'id', s.id,
+        'created_at', s.created_at,
+        'last_seen_at', coalesce(s.updated_at, s.created_at),
+        'user_agent', s.user_agent,
+        'ip_address', host(s.ip),
+        'current', s.id::text = auth.jwt()->>'session_id'
+      )
+      ORDER BY coalesce(s.updated_at, s.created_at) DESC
+    )
+    FROM auth.sessions s
+    WHERE s.user_id = v_user_id
+      AND (s.not_after IS NULL OR s.not_after > now())
+  ), '[]'::jsonb);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_mfa_settings()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  RETURN jsonb_build_object(
+    'enabled', mfa_enrolled(v_user_id),
+    'backup_codes_remaining', (
+      SELECT count(*) FROM mfa_backup_codes WHERE user_id = v_user_id AND used_at IS NULL
+    ),
+    'payment_threshold', (SELECT mfa_payment_threshold FROM users WHERE id = v_user_id)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_pending_transactions()
+RETURNS SETOF transactions AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  PERFORM expire_pending_transactions(auth.uid());
+
+  RETURN QUERY
+    SELECT *
+    FROM transactions
+    WHERE user_id = auth.uid()
+      AND status = 'pending'
+    ORDER BY created_at DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_pin_parameters()
+RETURNS jsonb AS $$
+DECLARE
+  v_pin_hash text;
+BEGIN
+  SELECT pin_hash INTO v_pin_hash FROM users WHERE id = auth.uid();
+
+  IF v_pin_hash IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  -- Legacy hashes are unsalted SHA-256 hex digests
+  IF position('$' IN v_pin_hash) = 0 THEN
+    RETURN jsonb_build_object('algorithm', 'sha256');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'algorithm', split_part(v_pin_hash, '$', 1),
+    'iterations', split_part(v_pin_hash, '$', 2)::integer,
+    'salt', split_part(v_pin_hash, '$', 3)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION get_spending_limits()
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id;
+
+  RETURN jsonb_build_object(
+    'base_currency', v_user.base_currency,
+    'per_transaction_limit', v_user.per_transaction_limit,
+    'daily_limit', coalesce(v_user.daily_limit, 1000),
+    'weekly_limit', v_user.weekly_limit,
+    'monthly_limit', v_user.monthly_limit,
+    'limit_window', v_user.limit_window,
+    'timezone', v_user.timezone,
+    'spent_day', daily_transaction_total(v_user_id),
+    'spent_week', user_transaction_total(v_user_id, limit_window_start(v_user, 'week')),
+    'spent_month', user_transaction_total(v_user_id, limit_window_start(v_user, 'month')),
+    'pending_change', (
+      SELECT to_jsonb(c)
+      FROM spending_limit_changes c
+      WHERE c.user_id = v_user_id AND c.status = 'pending'
+    )
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION pair_nfc_device(
+  p_device_uid text,
+  p_device_name text,
+  p_tag_authentication uuid DEFAULT NULL,
+  p_cooling_off_hours integer DEFAULT 0,
+  p_cooling_off_limit numeric DEFAULT NULL,
+  p_pin_token uuid DEFAULT NULL
+)
+RETURNS nfc_devices AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_existing nfc_devices%ROWTYPE;
+  v_name text := btrim(p_device_name);
+  v_hours integer := coalesce(p_cooling_off_hours, 0);
+  v_device nfc_devices%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id;
+
+  IF NOT FOUND OR v_user.status <> 'active' THEN
+    RAISE EXCEPTION 'Account is not active';
+  END IF;
+
+  IF NOT consume_pin_verification(v_user_id, p_pin_token, 'pair_device') THEN
+    RAISE EXCEPTION 'Enter your PIN to pair a device';
+  END IF;
+
+  IF coalesce(btrim(p_device_uid), '') = '' THEN
+    RAISE EXCEPTION 'Missing device UID';
+  END IF;
+
+  IF coalesce(v_name, '') = '' OR length(v_name) > 50 THEN
+    RAISE EXCEPTION 'Device name must be between 1 and 50 characters';
+  END IF;
+
+  IF v_hours < 0 OR v_hours > 168 THEN
+    RAISE EXCEPTION 'Cooling-off period must be between 0 and 168 hours';
+  END IF;
+
+  IF v_hours > 0 AND (p_cooling_off_limit IS NULL OR p_cooling_off_limit < 0) THEN
+    RAISE EXCEPTION 'A cooling-off period needs a payment limit';
+  END IF;
+
+  -- Logged as an alert for the owner; returning instead of raising keeps the log
+  IF record_blocked_device_tap(p_device_uid, 'pairing') THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_existing FROM nfc_devices WHERE device_uid = p_device_uid AND removed_at IS NULL;
+
+  IF FOUND THEN
+    IF v_existing.user_id = v_user_id THEN
+      RAISE EXCEPTION 'This tag is already paired with your account';
+    END IF;
+    RAISE EXCEPTION 'This tag is already paired with another account';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM nfc_tag_keys WHERE tag_uid = p_device_uid) THEN
+    UPDATE nfc_tag_authentications
+    SET used_at = now()
+    WHERE id = p_tag_authentication
+      AND user_id = v_user_id
+      AND tag_uid = p_device_uid
+      AND used_at IS NULL
+      AND created_at > now() - interval '2 minutes';
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Device tag authentication required';
+    END IF;
+  END IF;
+
+  INSERT INTO nfc_devices (
+    user_id,
+    device_uid,
+    device_name,
+    is_active,
+    paired_at,
+    cooling_off_until,
+    cooling_off_limit
+  ) VALUES (
+    v_user_id,
+    p_device_uid,
+    v_name,
+    true,
+    now(),
+    CASE WHEN v_hours > 0 THEN now() + make_interval(hours => v_hours) END,
+    CASE WHEN v_hours > 0 THEN round(p_cooling_off_limit, currency_minor_units(v_user.base_currency)) END
+  )
+  RETURNING * INTO v_device;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'nfc_device_paired',
+    'medium',
+    format('NFC device paired: %s', v_name),
+    request_ip(),
+    jsonb_build_object(
+      'device_id', v_device.id,
+      'device_uid', v_device.device_uid,
+      'cooling_off_until', v_device.cooling_off_until,
+      'cooling_off_limit', v_device.cooling_off_limit
+    )
+  );
+
+  RETURN v_device;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION request_spending_limits(
+  p_per_transaction_limit numeric,
+  p_daily_limit numeric,
+  p_weekly_limit numeric,
+  p_monthly_limit numeric,
+  p_limit_window text,
+  p_timezone text,
+  p_pin_token uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_minor_units integer;
+  v_requested jsonb;
+  v_current jsonb;
+  v_key text;
+  v_old numeric;
+  v_new numeric;
+  v_immediate jsonb := '{}';
+  v_delayed jsonb := '{}';
+  v_pending spending_limit_changes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF p_daily_limit IS NULL OR p_daily_limit <= 0
+    OR p_per_transaction_limit <= 0 OR p_weekly_limit <= 0 OR p_monthly_limit <= 0 THEN
+    RAISE EXCEPTION 'Limits must be greater than zero, and a daily limit is required';
+  END IF;
+
+  IF p_per_transaction_limit > p_daily_limit
+    OR p_daily_limit > p_weekly_limit
+    OR p_daily_limit > p_monthly_limit
+    OR p_weekly_limit > p_monthly_limit THEN
+    RAISE EXCEPTION 'A limit cannot be higher than the limit for a longer period';
+  END IF;
+
+  IF p_limit_window IS NULL OR p_limit_window NOT IN ('calendar', 'rolling') THEN
+    RAISE EXCEPTION 'Limit window must be calendar or rolling';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone';
+  END IF;
+
+  v_minor_units := currency_minor_units(v_user.base_currency);
+  v_requested := jsonb_build_object(
+    'per_transaction_limit', round(p_per_transaction_limit, v_minor_units),
+    'daily_limit', round(p_daily_limit, v_minor_units),
+    'weekly_limit', round(p_weekly_limit, v_minor_units),
+    'monthly_limit', round(p_monthly_limit, v_minor_units)
+  );
+  v_current := jsonb_build_object(
+    'per_transaction_limit', v_user.per_transaction_limit,
+    'daily_limit', coalesce(v_user.daily_limit, 1000),
+    'weekly_limit', v_user.weekly_limit,
+    'monthly_limit', v_user.monthly_limit
+  );
+
+  -- A lower limit, or a limit where there was none, is stricter
+  FOR v_key IN SELECT jsonb_object_keys(v_requested) LOOP
+    v_old := (v_current->>v_key)::numeric;
+    v_new := (v_requested->>v_key)::numeric;
+
+    IF v_new IS NOT DISTINCT FROM v_old THEN
+      CONTINUE;
+    ELSIF v_new IS NOT NULL AND (v_old IS NULL OR v_new < v_old) THEN
+      v_immediate := v_immediate || jsonb_build_object(v_key, v_new);
+    ELSE
+      v_delayed := v_delayed || jsonb_build_object(v_key, v_new);
+    END IF;
+  END LOOP;
+
+  -- Moving window boundaries can free up headroom, so they wait too
+  IF p_limit_window <> v_user.limit_window THEN
+    v_delayed := v_delayed || jsonb_build_object('limit_window', p_limit_window);
+  END IF;
+
+  IF p_timezone <> v_user.timezone THEN
+    v_delayed := v_delayed || jsonb_build_object('timezone', p_timezone);
+  END IF;
+
+  IF v_delayed <> '{}' AND NOT consume_pin_verification(v_user_id, p_pin_token, 'raise_limits') THEN
+    RAISE EXCEPTION 'Enter your PIN to raise your limits';
+  END IF;
+
+  IF v_immediate <> '{}' THEN
+    PERFORM apply_limit_changes(v_user_id, v_immediate);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'spending_limits_decreased',
+      'low',
+      'Spending limits tightened',
+      request_ip(),
+      jsonb_build_object('changes', v_immediate)
+    );
+  END IF;
+
+  SELECT * INTO v_pending
+  FROM spending_limit_changes
+  WHERE user_id = v_user_id AND status = 'pending'
+  FOR UPDATE;
+
+  -- Re-requesting the pending change keeps its original waiting period
+  IF FOUND AND v_pending.changes = v_delayed THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+  END IF;
+
+  IF FOUND THEN
+    UPDATE spending_limit_changes
+    SET status = 'cancelled', resolved_at = now()
+    WHERE id = v_pending.id;
+  END IF;
+
+  IF v_delayed = '{}' THEN
+    RETURN jsonb_build_object('applied', v_immediate, 'pending', NULL);
+  END IF;
+
+  INSERT INTO spending_limit_changes (user_id, changes, effective_at)
+  VALUES (v_user_id, v_delayed, now() + interval '24 hours')
+  RETURNING * INTO v_pending;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'spending_limit_increase_requested',
+    'medium',
+    'Spending limit increase requested; it takes effect in 24 hours',
+    request_ip(),
+    jsonb_build_object('change_id', v_pending.id, 'changes', v_delayed, 'effective_at', v_pending.effective_at)
+  );
+
+  RETURN jsonb_build_object('applied', v_immediate, 'pending', to_jsonb(v_pending));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reset_pin(p_pin_hash text)
+RETURNS users AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF NOT is_valid_pin_hash(p_pin_hash) THEN
+    RAISE EXCEPTION 'Invalid PIN hash';
+  END IF;
+
+  -- A refreshed token keeps its original sign-in time, so only a fresh
+  -- password sign-in counts as re-authentication
+  IF NOT EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(coalesce(auth.jwt()->'amr', '[]')) AS amr
+    WHERE amr->>'method' = 'password'
+      AND to_timestamp((amr->>'timestamp')::double precision) >= now() - interval '5 minutes'
+  ) THEN
+    RAISE EXCEPTION 'Confirm your account password to reset your PIN';
+  END IF;
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  UPDATE users
+  SET pin_hash = p_pin_hash,
+      pin_changed_at = now(),
+      pin_reset_hold_until = now() + interval '24 hours',
+      pin_reset_hold_limit = round(100 * exchange_rate('USD', v_user.base_currency), currency_minor_units(v_user.base_currency))
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'pin_reset',
+    'high',
+    'Forgotten transaction PIN reset after password re-authentication',
+    request_ip(),
+    jsonb_build_object('hold_until', v_user.pin_reset_hold_until, 'hold_limit', v_user.pin_reset_hold_limit)
+  );
+
+  RETURN v_user;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_payment_device(p_device_uid text)
+RETURNS uuid AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_device nfc_devices%ROWTYPE;
+  v_reason text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  SELECT * INTO v_device FROM nfc_devices WHERE device_uid = p_device_uid AND removed_at IS NULL;
+
+  IF record_blocked_device_tap(p_device_uid, 'payment') THEN
+    v_reason := 'Tag has been reported stolen';
+  ELSIF NOT FOUND THEN
+    v_reason := 'Tag is not paired';
+  ELSIF v_device.user_id <> v_user_id THEN
+    v_reason := 'Tag is paired with another account';
+  ELSIF v_device.reported_status = 'lost' THEN
+    v_reason := 'Device is reported lost';
+  ELSIF NOT v_device.is_active THEN
+    v_reason := 'Device is deactivated';
+  ELSE
+    RETURN v_device.id;
+  END IF;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'unpaired_device_rejected',
+    'high',
+    format('Payment attempted with an unpaired device: %s', v_reason),
+    request_ip(),
+    jsonb_build_object('reason', v_reason, 'device_uid', p_device_uid)
+  );
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION resolve_pending_transaction(
+  p_transaction_id uuid,
+  p_decision text,
+  p_pin_token uuid DEFAULT NULL
+)
+RETURNS transactions AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_device nfc_devices%ROWTYPE;
+  v_transaction transactions%ROWTYPE;
+  v_device_rejection text;
+  v_limit_rejection text;
+  v_step_up_rejection text;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF NOT session_active() THEN
+    RAISE EXCEPTION 'This session has been signed out';
+  END IF;
+
+  IF p_decision NOT IN ('confirm', 'cancel') THEN
+    RAISE EXCEPTION 'Invalid decision';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+  PERFORM apply_due_limit_changes(v_user_id);
+
+  -- Serialize with concurrent authorizations for the same user
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  PERFORM expire_pending_transactions(v_user_id);
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = v_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Transaction not found';
+  END IF;
+
+  IF v_transaction.status <> 'pending' THEN
+    RAISE EXCEPTION 'Transaction is no longer pending';
+  END IF;
+
+  IF p_decision = 'confirm' THEN
+    IF v_user.status = 'locked' THEN
+      RAISE EXCEPTION 'Account is locked (%) until %', v_user.lock_reason,
+        to_char(v_user.locked_until AT TIME ZONE v_user.timezone, 'YYYY-MM-DD HH24:MI');
+    END IF;
+
+    IF v_user.status <> 'active' THEN
+      RAISE EXCEPTION 'Account is not active';
+    END IF;
+
+    IF NOT consume_pin_verification(v_user_id, p_pin_token, 'confirm_payment') THEN
+      RAISE EXCEPTION 'Enter your PIN to confirm this payment';
+    END IF;
+
+    SELECT * INTO v_device FROM nfc_devices WHERE id = v_transaction.device_id;
+
+    IF NOT FOUND OR v_device.user_id <> v_user_id OR NOT v_device.is_active THEN
+      RAISE EXCEPTION 'Device is not authorized for this account';
+    END IF;
+
+    -- Spending limits count from now; categories and active hours apply to the original tap
+    v_device_rejection := device_control_rejection(
+      v_device,
+      v_transaction.base_amount,
+      (SELECT category_code FROM merchants WHERE id = v_transaction.merchant_id),
+      v_transaction.created_at
+    );
+
+    IF v_device_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_device_rejection;
+    END IF;
+
+    v_limit_rejection := spending_limit_rejection(v_user, v_transaction.base_amount);
+
+    IF v_limit_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_limit_rejection;
+    END IF;
+
+    v_step_up_rejection := mfa_step_up_rejection(v_user, v_transaction.base_amount, true);
+
+    IF v_step_up_rejection IS NOT NULL THEN
+      RAISE EXCEPTION '%', v_step_up_rejection;
+    END IF;
+
+    UPDATE transactions
+    SET status = 'approved', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+
+    UPDATE nfc_devices SET last_used = now() WHERE id = v_transaction.device_id;
+  ELSE
+    UPDATE transactions
+    SET status = 'declined', decline_reason = 'Cancelled by user', resolved_at = now()
+    WHERE id = v_transaction.id
+    RETURNING * INTO v_transaction;
+  END IF;
+
+  v_transaction := sign_transaction(v_transaction);
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_decision WHEN 'confirm' THEN 'pending_transaction_confirmed' ELSE 'pending_transaction_cancelled' END,
+    CASE p_decision WHEN 'confirm' THEN 'medium' ELSE 'low' END,
+    format('Pending payment of %s %s at %s %s by user',
+      v_transaction.amount,
+      v_transaction.currency,
+      v_transaction.merchant_name,
+      CASE p_decision WHEN 'confirm' THEN 'confirmed' ELSE 'cancelled' END),
+    request_ip(),
+    jsonb_build_object('transaction_id', v_transaction.id, 'risk_score', v_transaction.risk_score)
+  );
+
+  RETURN v_transaction;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_merchant_tag(p_tag_id uuid)
+RETURNS merchant_tags AS $$
+DECLARE
+  v_tag merchant_tags%ROWTYPE;
+BEGIN
+  PERFORM require_mfa_session();
+
+  SELECT * INTO v_tag FROM merchant_tags WHERE id = p_tag_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT is_merchant_operator(v_tag.merchant_id) THEN
+    RAISE EXCEPTION 'Tag not found';
+  END IF;
+
+  IF v_tag.status = 'revoked' THEN
+    RETURN v_tag;
+  END IF;
+
+  UPDATE merchant_tags
+  SET status = 'revoked', revoked_at = now()
+  WHERE id = v_tag.id
+  RETURNING * INTO v_tag;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    auth.uid(),
+    'merchant_tag_revoked',
+    'medium',
+    format('Payment tag revoked for merchant %s', v_tag.merchant_id),
+    request_ip(),
+    jsonb_build_object('merchant_tag_id', v_tag.id, 'tag_uid', v_tag.tag_uid)
+  );
+
+  RETURN v_tag;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_other_sessions()
+RETURNS integer AS $$
+BEGIN
+  IF auth.uid() IS NULL OR NOT session_active() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  RETURN revoke_user_sessions(auth.uid(), (auth.jwt()->>'session_id')::uuid, 'signed out everywhere else');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION revoke_session(p_session_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL OR NOT session_active() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF NOT EXISTS (SELECT 1 FROM auth.sessions WHERE id = p_session_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = p_session_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'session_revoked',
+    'medium',
+    'Session signed out remotely',
+    request_ip(),
+    jsonb_build_object('session_id', p_session_id)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_base_currency(p_currency text)
+RETURNS users AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_currency currencies%ROWTYPE;
+  v_previous text;
+  v_rate numeric;
+BEGIN
+  IF v_user_id IS NULL OR NOT session_active() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  SELECT * INTO v_currency
+  FROM currencies
+  WHERE code = upper(p_currency) AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unsupported currency: %', p_currency;
+  END IF;
+
+  IF v_currency.code = v_user.base_currency THEN
+    RETURN v_user;
+  END IF;
+
+  -- Limit totals add up stored base amounts, which must share one currency
+  IF EXISTS (
+    SELECT 1 FROM transactions
+    WHERE user_id = v_user_id
+      AND (status = 'pending' OR created_at >= now() - interval '31 days')
+  ) THEN
+    RAISE EXCEPTION 'The base currency can only be changed after 31 days without payments';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM spending_limit_changes WHERE user_id = v_user_id AND status = 'pending') THEN
+    RAISE EXCEPTION 'Cancel the pending spending limit change first';
+  END IF;
+
+  v_previous := v_user.base_currency;
+  v_rate := exchange_rate(v_previous, v_currency.code);
+
+  UPDATE users
+  SET base_currency = v_currency.code,
+      daily_limit = convert_limit(daily_limit, v_rate, v_currency.minor_units),
+      per_transaction_limit = convert_limit(per_transaction_limit, v_rate, v_currency.minor_units),
+      weekly_limit = convert_limit(weekly_limit, v_rate, v_currency.minor_units),
+      monthly_limit = convert_limit(monthly_limit, v_rate, v_currency.minor_units),
+      pin_reset_hold_limit = convert_limit(pin_reset_hold_limit, v_rate, v_currency.minor_units),
+      mfa_payment_threshold = convert_limit(mfa_payment_threshold, v_rate, v_currency.minor_units)
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  UPDATE nfc_devices
+  SET per_transaction_limit = convert_limit(per_transaction_limit, v_rate, v_currency.minor_units),
+      daily_limit = convert_limit(daily_limit, v_rate, v_currency.minor_units),
+      monthly_limit = convert_limit(monthly_limit, v_rate, v_currency.minor_units),
+      cooling_off_limit = convert_limit(cooling_off_limit, v_rate, v_currency.minor_units)
+  WHERE user_id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'base_currency_changed',
+    'medium',
+    format('Base currency changed from %s to %s; limits converted at %s', v_previous, v_currency.code, round(v_rate, 6)),
+    request_ip(),
+    jsonb_build_object('previous_currency', v_previous, 'currency', v_currency.code, 'rate', v_rate)
+  );
+
+  RETURN v_user;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_mfa_payment_threshold(p_threshold numeric)
+RETURNS void AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF NOT mfa_enrolled(v_user_id) OR coalesce(auth.jwt()->>'aal', 'aal1') <> 'aal2' THEN
+    RAISE EXCEPTION 'Verify your authenticator app before changing the step-up threshold';
+  END IF;
+
+  IF p_threshold < 0 THEN
+    RAISE EXCEPTION 'Threshold cannot be negative';
+  END IF;
+
+  UPDATE users SET mfa_payment_threshold = p_threshold WHERE id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'mfa_threshold_changed',
+    'low',
+    'Two-factor payment threshold changed',
+    request_ip(),
+    jsonb_build_object('payment_threshold', p_threshold)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION update_pin_hash(p_pin_proof text, p_pin_hash text, p_reason text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_result jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF p_reason IS NULL OR p_reason NOT IN ('change', 'upgrade') THEN
+    RAISE EXCEPTION 'Invalid PIN update reason';
+  END IF;
+
+  IF NOT is_valid_pin_hash(p_pin_hash) OR split_part(p_pin_hash, '$', 2)::numeric < 600000 THEN
+    RAISE EXCEPTION 'Invalid PIN hash';
+  END IF;
+
+  v_result := verify_pin(p_pin_proof);
+
+  IF NOT (v_result->>'valid')::boolean THEN
+    RETURN v_result;
+  END IF;
+
+  IF p_reason = 'upgrade' AND NOT (v_result->>'needs_rehash')::boolean THEN
+    RAISE EXCEPTION 'PIN hash is already up to date';
+  END IF;
+
+  UPDATE users
+  SET pin_hash = p_pin_hash,
+      pin_changed_at = CASE WHEN p_reason = 'change' THEN now() ELSE pin_changed_at END
+  WHERE id = v_user_id;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_reason WHEN 'change' THEN 'pin_changed' ELSE 'pin_hash_upgraded' END,
+    CASE p_reason WHEN 'change' THEN 'medium' ELSE 'low' END,
+    CASE p_reason WHEN 'change' THEN 'Transaction PIN changed' ELSE 'PIN hash upgraded to salted PBKDF2' END,
+    request_ip(),
+    '{}'
+  );
+
+  RETURN v_result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_payment_request(p_request jsonb, p_tag_uid text)
+RETURNS boolean AS $$
+DECLARE
+  v_reason text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  v_reason := merchant_tag_rejection(p_request, p_tag_uid);
+
+  IF v_reason IS NOT NULL THEN
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      auth.uid(),
+      'merchant_tag_rejected',
+      'high',
+      format('Payment tag rejected: %s', v_reason),
+      request_ip(),
+      jsonb_build_object(
+        'reason', v_reason,
+        'merchant_id', p_request->>'merchant_id',
+        'nonce', p_request->>'nonce',
+        'tag_uid', p_tag_uid
+      )
+    );
+  END IF;
+
+  RETURN v_reason IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_pin(p_pin_proof text, p_purpose text DEFAULT NULL)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_user users%ROWTYPE;
+  v_subjects text[];
+  v_retry_after timestamptz;
+  v_legacy boolean;
+  v_expected text;
+  v_token uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM require_mfa_session();
+
+  IF p_purpose IS NOT NULL AND p_purpose NOT IN ('payment', 'confirm_payment', 'pair_device', 'reactivate_device', 'raise_limits') THEN
+    RAISE EXCEPTION 'Invalid PIN verification purpose';
+  END IF;
+
+  PERFORM release_expired_account_lock();
+
+  SELECT * INTO v_user FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF v_user.status = 'locked' THEN
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  v_subjects := ARRAY['user:' || v_user_id];
+  IF request_ip() IS NOT NULL THEN
+    v_subjects := v_subjects || ('ip:' || host(request_ip()));
+  END IF;
+
+  v_retry_after := auth_retry_after('pin', v_subjects);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'locked', false, 'throttled', true, 'retry_after', v_retry_after);
+  END IF;
+
+  v_legacy := position('$' IN v_user.pin_hash) = 0;
+  v_expected := CASE WHEN v_legacy THEN v_user.pin_hash ELSE split_part(v_user.pin_hash, '$', 4) END;
+
+  IF p_pin_proof IS NOT NULL AND p_pin_proof = v_expected THEN
+    DELETE FROM auth_throttles WHERE kind = 'pin' AND subject = 'user:' || v_user_id;
+
+    UPDATE users
+    SET failed_auth_attempts = 0,
+        last_failed_auth = NULL
+    WHERE id = v_user_id;
+
+    IF p_purpose IS NOT NULL THEN
+      DELETE FROM pin_verifications
+      WHERE user_id = v_user_id AND (used_at IS NOT NULL OR expires_at <= now());
+
+      INSERT INTO pin_verifications (user_id, purpose)
+      VALUES (v_user_id, p_purpose)
+      RETURNING token INTO v_token;
+    END IF;
+
+    RETURN jsonb_build_object(
+      'valid', true,
+      'locked', false,
+      'retry_after', NULL,
+      'token', v_token,
+      'needs_rehash', CASE WHEN v_legacy THEN true ELSE split_part(v_user.pin_hash, '$', 2)::integer < 600000 END
+    );
+  END IF;
+
+  SELECT max(record_auth_failure('pin', s)) INTO v_retry_after FROM unnest(v_subjects) AS s;
+
+  UPDATE users
+  SET failed_auth_attempts = CASE
+        WHEN last_failed_auth < now() - interval '24 hours' THEN 1
+        ELSE coalesce(failed_auth_attempts, 0) + 1
+      END,
+      last_failed_auth = now()
+  WHERE id = v_user_id
+  RETURNING * INTO v_user;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    'invalid_pin',
+    'high',
+    'Invalid PIN entered',
+    request_ip(),
+    jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+  );
+
+  IF v_user.failed_auth_attempts >= 10 THEN
+    UPDATE users
+    SET status = 'locked',
+        locked_at = now(),
+        locked_until = now() + interval '30 minutes',
+        lock_reason = format('%s incorrect PIN attempts', v_user.failed_auth_attempts)
+    WHERE id = v_user_id
+    RETURNING * INTO v_user;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'account_locked',
+      'critical',
+      format('Account locked after %s failed attempts', v_user.failed_auth_attempts),
+      request_ip(),
+      jsonb_build_object('failed_attempts', v_user.failed_auth_attempts, 'locked_until', v_user.locked_until)
+    );
+
+    RETURN jsonb_build_object('valid', false, 'locked', true, 'retry_after', v_user.locked_until);
+  END IF;
+
+  RETURN jsonb_build_object('valid', false, 'locked', false, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION verify_transaction_signature(p_transaction_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  v_transaction transactions%ROWTYPE;
+  v_secret bytea;
+BEGIN
+  PERFORM require_mfa_session();
+
+  SELECT * INTO v_transaction
+  FROM transactions
+  WHERE id = p_transaction_id
+    AND user_id = auth.uid();
+
+  IF NOT FOUND OR v_transaction.signature_key_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT secret INTO v_secret
+  FROM transaction_signing_keys
+  WHERE id = v_transaction.signature_key_id;
+
+  IF v_secret IS NULL THEN
+    RETURN false;
+  END IF;
+
+  RETURN v_transaction.signature = encode(
+    extensions.hmac(
+      convert_to(transaction_signature_payload(v_transaction, v_transaction.signature_version), 'UTF8'),
+      v_secret,
+      'sha256'
+    ),
+    'hex'
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION redeem_mfa_backup_code(p_code text, p_purpose text)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_subject text := 'user:' || auth.uid();
+  v_code_id uuid;
+  v_retry_after timestamptz;
+  v_remaining integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_purpose IS NULL OR p_purpose NOT IN ('sign_in', 'step_up') THEN
+    RAISE EXCEPTION 'Invalid backup code purpose';
+  END IF;
+
+  -- A sign-in code is what raises an aal1 session; a step-up code needs one raised already
+  IF p_purpose = 'step_up' THEN
+    PERFORM require_mfa_session();
+  END IF;
+
+  IF NOT mfa_enrolled(v_user_id) THEN
+    RAISE EXCEPTION 'Two-factor authentication is not enabled';
+  END IF;
+
+  v_retry_after := auth_retry_after('backup_code', ARRAY[v_subject]);
+
+  IF v_retry_after IS NOT NULL THEN
+    RETURN jsonb_build_object('valid', false, 'throttled', true, 'retry_after', v_retry_after);
+  END IF;
+
+  UPDATE mfa_backup_codes
+  SET used_at = now()
+  WHERE user_id = v_user_id
+    AND used_at IS NULL
+    AND code_hash = encode(extensions.digest(normalize_mfa_backup_code(p_code), 'sha256'), 'hex')
+  RETURNING id INTO v_code_id;
+
+  IF v_code_id IS NULL THEN
+    v_retry_after := record_auth_failure('backup_code', v_subject);
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+    VALUES (
+      v_user_id,
+      'invalid_backup_code',
+      'high',
+      'Invalid two-factor backup code entered',
+      request_ip(),
+      jsonb_build_object('purpose', p_purpose, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END)
+    );
+
+    RETURN jsonb_build_object('valid', false, 'retry_after', CASE WHEN v_retry_after > now() THEN v_retry_after END);
+  END IF;
+
+  DELETE FROM auth_throttles WHERE kind = 'backup_code' AND subject = v_subject;
+
+  SELECT count(*) INTO v_remaining FROM mfa_backup_codes WHERE user_id = v_user_id AND used_at IS NULL;
+
+  INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata)
+  VALUES (
+    v_user_id,
+    CASE p_purpose WHEN 'sign_in' THEN 'mfa_recovery' ELSE 'mfa_backup_code_used' END,
+    CASE p_purpose WHEN 'sign_in' THEN 'high' ELSE 'medium' END,
+    CASE p_purpose
+      WHEN 'sign_in' THEN 'Signed in with a backup code; authenticator removed'
+      ELSE 'Backup code used to verify a payment'
+    END,
+    request_ip(),
+    jsonb_build_object('backup_codes_remaining', v_remaining)
+  );
+
+  IF p_purpose = 'sign_in' THEN
+    -- Recovery assumes the authenticator is lost; the owner enrolls a new one
+    DELETE FROM auth.mfa_factors WHERE user_id = v_user_id;
+  ELSE
+    UPDATE users SET mfa_backup_step_up_at = now() WHERE id = v_user_id;
+  END IF;
+
+  RETURN jsonb_build_object('valid', true, 'backup_codes_remaining', v_remaining);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION record_security_events(p_events jsonb)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_mfa_satisfied boolean := mfa_session_satisfied();
+  v_event jsonb;
+  v_min_severity text;
+  v_severity text;
+  v_severities text[] := ARRAY['low', 'medium', 'high', 'critical'];
+  v_rejection text;
+  v_rejected jsonb := '[]';
+  v_count integer := 0;
+  v_inserted integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF jsonb_typeof(p_events) IS DISTINCT FROM 'array' OR jsonb_array_length(p_events) > 50 THEN
+    RAISE EXCEPTION 'Events must be an array of at most 50 entries';
+  END IF;
+
+  FOR v_event IN SELECT * FROM jsonb_array_elements(p_events) LOOP
+    v_min_severity := client_security_event_severity(v_event->>'event_type');
+    v_severity := coalesce(v_event->>'severity', v_min_severity);
+
+    v_rejection := CASE
+      WHEN v_event->>'id' !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+        THEN 'Invalid event id'
+      WHEN v_min_severity IS NULL
+        THEN format('Unknown security event type: %s', v_event->>'event_type')
+      WHEN NOT v_mfa_satisfied AND v_event->>'event_type' NOT IN ('user_signin', 'user_signout', 'mfa_challenge_failed')
+        THEN 'Two-factor verification required to sign in'
+      WHEN jsonb_typeof(v_event->'metadata') IS DISTINCT FROM 'object' OR octet_length((v_event->'metadata')::text) > 4096
+        OR NOT client_security_event_metadata_valid(v_event->>'event_type', v_event->'metadata')
+        THEN format('Invalid metadata for %s', v_event->>'event_type')
+      WHEN NOT v_severity = ANY(v_severities)
+        THEN format('Invalid severity: %s', v_severity)
+    END;
+
+    IF v_rejection IS NOT NULL THEN
+      v_rejected := v_rejected || jsonb_build_array(jsonb_build_object('id', v_event->'id', 'reason', v_rejection));
+      CONTINUE;
+    END IF;
+
+    IF array_position(v_severities, v_severity) < array_position(v_severities, v_min_severity) THEN
+      v_severity := v_min_severity;
+    END IF;
+
+    INSERT INTO security_logs (user_id, event_type, severity, description, ip_address, metadata, client_event_id)
+    VALUES (
+      v_user_id,
+      v_event->>'event_type',
+      v_severity,
+      left(coalesce(v_event->>'description', v_event->>'event_type'), 500),
+      request_ip(),
+      (v_event->'metadata') || jsonb_build_object(
+        'source', 'client',
+        'occurred_at', v_event->>'occurred_at',
+        'user_agent', request_user_agent()
+      ),
+      (v_event->>'id')::uuid
+    )
+    ON CONFLICT (client_event_id) WHERE client_event_id IS NOT NULL DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+    v_count := v_count + v_inserted;
+  END LOOP;
+
+  RETURN jsonb_build_object('recorded', v_count, 'rejected', v_rejected);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;